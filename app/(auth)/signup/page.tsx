@@ -8,13 +8,19 @@ import Link from "next/link";
 import { redirect } from "next/navigation";
 import { createServerClient } from "@/lib/supabase/server";
 import { SignupForm } from "@/components/auth/signup-form";
+import { getInvitationByToken } from "@/lib/team/invitations";
 
 export const metadata: Metadata = {
   title: "Sign Up - Zapta",
   description: "Create your Zapta account",
 };
 
-export default async function SignupPage() {
+export default async function SignupPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ invite?: string }>;
+}) {
+  const { invite } = await searchParams;
   // Check if user is already logged in
   const supabase = await createServerClient();
   const {
@@ -23,22 +29,40 @@ export default async function SignupPage() {
 
   // Redirect to dashboard if already authenticated
   if (user) {
-    redirect("/dashboard");
+    redirect(invite ? `/invite/${encodeURIComponent(invite)}` : "/dashboard");
   }
 
+  // Invite links land here with ?invite=<token>
+  const invitation = invite ? await getInvitationByToken(invite) : null;
+  const pendingInvitation = invitation?.status === "pending" ? invitation : null;
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-muted/30 p-4">
       <div className="w-full max-w-md space-y-6">
         {/* Logo and heading */}
         <div className="text-center space-y-2">
-          <h1 className="text-3xl font-bold tracking-tight">Get started</h1>
+          <h1 className="text-3xl font-bold tracking-tight">
+            {pendingInvitation ? `Join ${pendingInvitation.organizationName}` : "Get started"}
+          </h1>
           <p className="text-muted-foreground">
-            Create your account and start building AI agents
+            {pendingInvitation
+              ? "Create your account to accept the invitation"
+              : "Create your account and start building AI agents"}
           </p>
         </div>
 
         {/* Signup form */}
-        <SignupForm />
+        <SignupForm
+          invitation={
+            pendingInvitation
+              ? {
+                  token: invite!,
+                  email: pendingInvitation.email,
+                  organizationName: pendingInvitation.organizationName,
+                }
+              : undefined
+          }
+        />
 
         {/* Sign in link */}
         <p className="text-center text-sm text-muted-foreground">
@@ -7,6 +7,7 @@ import { createServerClient } from "@/lib/supabase/server";
 import { redirect } from "next/navigation";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AgentEditForm } from "@/components/agents/agent-edit-form";
+import { getAgentConfigVersions } from "@/lib/agents/actions";
 
 export default async function AgentEditPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = await params;
@@ -38,5 +39,7 @@ export default async function AgentEditPage({ params }: { params: Promise<{ id:
     );
   }
 
-  return <AgentEditForm agent={agent} />;
+  const { versions } = await getAgentConfigVersions(id);
+
+  return <AgentEditForm agent={agent} versions={versions || []} />;
 }
@@ -0,0 +1,78 @@
+/**
+ * Agent Evals Page
+ * Golden test suites for an agent and scored runs per config version
+ */
+
+import { createServerClient } from "@/lib/supabase/server";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AgentEvals } from "@/components/agents/agent-evals";
+import { getAgentConfigVersions } from "@/lib/agents/actions";
+import { getEvalRuns, getEvalSuites } from "@/lib/evals/actions";
+
+export default async function AgentEvalsPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const { data: agent, error } = await supabase
+    .from("agents")
+    .select("id, name, config_version")
+    .eq("id", id)
+    .single();
+
+  if (error || !agent) {
+    return (
+      <div className="p-4 sm:p-6 md:p-8">
+        <Alert variant="destructive">
+          <AlertDescription>Agent not found</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const [{ suites }, { runs }, { versions }] = await Promise.all([
+    getEvalSuites(id),
+    getEvalRuns(id),
+    getAgentConfigVersions(id),
+  ]);
+
+  return (
+    <div className="p-4 sm:p-6 md:p-8">
+      <div className="mx-auto max-w-7xl space-y-6">
+        <div>
+          <Button variant="ghost" size="sm" asChild className="mb-2">
+            <Link href={`/agents/${id}`}>
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Back to Agent
+            </Link>
+          </Button>
+          <h1 className="text-3xl font-bold tracking-tight">Evals</h1>
+          <p className="text-muted-foreground">
+            Golden test sets for <span className="font-medium">{agent.name}</span>. Runs use recorded
+            integration responses, so nothing is sent or changed.
+          </p>
+        </div>
+
+        <AgentEvals
+          agentId={id}
+          currentVersion={agent.config_version ?? 1}
+          suites={suites || []}
+          runs={runs || []}
+          versions={(versions || []).map((version) => version.version)}
+        />
+      </div>
+    </div>
+  );
+}
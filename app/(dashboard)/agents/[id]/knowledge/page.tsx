@@ -10,6 +10,7 @@ import { useRouter } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
 import { DocumentUpload } from "@/components/knowledge/document-upload";
 import { DocumentsList } from "@/components/knowledge/documents-list";
+import { WebsiteSources } from "@/components/knowledge/website-sources";
 import { KnowledgeAnalytics } from "@/components/knowledge/knowledge-analytics";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
@@ -147,10 +148,17 @@ export default function AgentKnowledgePage({
 
           <TabsContent value="manage" className="space-y-6">
             <div className="grid gap-6 lg:grid-cols-2">
-              <DocumentUpload 
-                agentId={agentId}
-                onUploadComplete={handleUploadComplete}
-              />
+              <div className="space-y-6">
+                <DocumentUpload 
+                  agentId={agentId}
+                  onUploadComplete={handleUploadComplete}
+                />
+
+                <WebsiteSources
+                  agentId={agentId}
+                  onSourcesChange={handleUploadComplete}
+                />
+              </div>
               
               <DocumentsList 
                 agentId={agentId}
@@ -7,7 +7,7 @@ import { createServerClient } from "@/lib/supabase/server";
 import { redirect } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { ArrowLeft, Edit, Code2, FileText, MessageSquare } from "lucide-react";
+import { ArrowLeft, Edit, Code2, FileText, FlaskConical, MessageSquare } from "lucide-react";
 import Link from "next/link";
 import { AgentChat } from "@/components/agents/agent-chat";
 import { KnowledgeBasePrompt } from "@/components/agents/knowledge-base-prompt";
@@ -92,6 +92,12 @@ export default async function AgentDetailPage({ params }: { params: Promise<{ id
                   <span className="hidden sm:inline">Knowledge</span>
                 </Link>
               </Button>
+              <Button asChild variant="outline" size="sm">
+                <Link href={`/agents/${agent.id}/evals`}>
+                  <FlaskConical className="w-4 h-4 sm:mr-2" />
+                  <span className="hidden sm:inline">Evals</span>
+                </Link>
+              </Button>
               <Button asChild variant="outline" size="sm">
                 <Link href={`/agents/${agent.id}/widget`}>
                   <Code2 className="w-4 h-4 sm:mr-2" />
@@ -121,7 +127,7 @@ export default async function AgentDetailPage({ params }: { params: Promise<{ id
 
         {/* Chat Interface - original full layout */}
         <div className="h-full max-w-4xl mx-auto flex flex-col px-2 sm:px-0">
-          <AgentChat agentId={agent.id} agentStatus={agent.status} />
+          <AgentChat agentId={agent.id} agentStatus={agent.status} agentType={agent.type} />
         </div>
       </div>
     </div>
@@ -13,6 +13,7 @@ import { KnowledgeBaseStats } from "@/components/analytics/knowledge-base-stats"
 import { IntegrationUsage } from "@/components/analytics/integration-usage";
 import { WebhookActivity } from "@/components/analytics/webhook-activity";
 import { AgentTypesStats } from "@/components/analytics/agent-types-stats";
+import { SpendStats } from "@/components/analytics/spend-stats";
 import { MessageSquare, Users, Bot } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 
@@ -116,6 +117,9 @@ export default async function AnalyticsPage() {
           <WebhookActivity metrics={metrics.webhooks} />
         </div>
 
+        {/* Model Spend */}
+        <SpendStats metrics={metrics.spend} />
+
         {/* Top Agents Table */}
         <TopAgentsTable agents={metrics.topAgents} />
       </div>
@@ -0,0 +1,23 @@
+/**
+ * Approvals Page
+ * Review agent actions held for human approval
+ */
+
+import { createServerClient } from "@/lib/supabase/server";
+import { redirect } from "next/navigation";
+import { PendingActionsList } from "@/components/approvals/pending-actions-list";
+
+export default async function ApprovalsPage() {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  return <PendingActionsList />;
+}
@@ -71,8 +71,8 @@ async function DashboardContent({ params }: { params: { verified?: string } }) {
           </Alert>
         )}
 
-        {/* Usage Limit Banner */}
-        {messageUsage && (
+        {/* Usage Limit Banner (not shown while usage past the limit is billed as overage) */}
+        {messageUsage && (!messageUsage.overage || messageUsage.capReached) && (
           <UsageLimitBanner
             current={messageUsage.current}
             limit={messageUsage.limit}
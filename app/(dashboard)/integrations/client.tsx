@@ -26,6 +26,8 @@ import {
   CreditCard,
   Plug,
   LucideIcon,
+  MessageCircle,
+  Github,
   Calendar,
   LayoutGrid
 } from "lucide-react";
@@ -105,6 +107,8 @@ const StripeIcon = ({ className = "h-6 w-6" }: { className?: string }) => (
 // Map provider IDs to Lucide icons (for providers without brand icons)
 const ProviderIcons: Record<string, LucideIcon> = {
   webhook: Link,
+  discord: MessageCircle,
+  github: Github,
 };
 
 // Provider arrays
@@ -0,0 +1,23 @@
+/**
+ * Webhook Deliveries Page
+ * Inspect outbound webhook deliveries and replay failed ones
+ */
+
+import { createServerClient } from "@/lib/supabase/server";
+import { redirect } from "next/navigation";
+import { DeliveriesList } from "@/components/webhooks/deliveries-list";
+
+export default async function WebhookDeliveriesPage() {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  return <DeliveriesList />;
+}
@@ -32,7 +32,7 @@ import {
   testIntegration,
 } from "@/lib/integrations/actions";
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, Settings, Trash2, RefreshCw, CheckCircle, XCircle, LucideIcon, Mail, MessageSquare, Target, Link, Smartphone, FileText, CreditCard, Plug } from "lucide-react";
+import { Loader2, Settings, Trash2, RefreshCw, CheckCircle, XCircle, LucideIcon, Mail, MessageSquare, Target, Link, Smartphone, FileText, CreditCard, Plug, MessageCircle, Github } from "lucide-react";
 import type { Integration } from "@/lib/integrations/base";
 
 // Google "G" icon component for Google products
@@ -105,6 +105,8 @@ const ProviderIcons: Record<string, LucideIcon> = {
   email: Mail,
   webhook: Link,
   stripe: CreditCard,
+  discord: MessageCircle,
+  github: Github,
 };
 
 // Google product providers
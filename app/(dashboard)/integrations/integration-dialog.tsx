@@ -37,6 +37,8 @@ import {
   CreditCard,
   Plug,
   LucideIcon,
+  MessageCircle,
+  Github,
   X 
 } from "lucide-react";
 
@@ -85,6 +87,8 @@ const NotionIcon = ({ className = "h-6 w-6" }: { className?: string }) => (
 // Map provider IDs to Lucide icons (for providers without brand icons)
 const ProviderIcons: Record<string, LucideIcon> = {
   webhook: Link,
+  discord: MessageCircle,
+  github: Github,
 };
 
 // Google product providers
@@ -290,7 +294,7 @@ export function IntegrationDialog({
             type: "password",
             required: false,
             placeholder: "Optional secret for HMAC signature",
-            description: "If provided, webhooks will include X-Webhook-Signature header for verification"
+            description: "If provided, webhooks are signed with X-Webhook-Signature-V1. After changing it, deliveries are signed with both secrets for 24 hours"
           },
           // Filter fields handled separately in UI
         ];
@@ -381,6 +385,13 @@ export function IntegrationDialog({
             type: "password",
             required: true,
           },
+          {
+            key: "default_channel_id",
+            label: "Default Channel ID (Optional)",
+            type: "text",
+            required: false,
+            description: "Channel agents post to when none is specified",
+          },
         ];
       case "storage":
         return [
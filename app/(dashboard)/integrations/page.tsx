@@ -4,6 +4,9 @@
  */
 
 import { Suspense } from "react";
+import Link from "next/link";
+import { Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import {
   getIntegrations,
   getAvailableProviders,
@@ -32,6 +35,12 @@ async function IntegrationsPage() {
               Connect your agents to external services and automate workflows
             </p>
           </div>
+          <Button variant="outline" asChild>
+            <Link href="/integrations/deliveries">
+              <Send className="w-4 h-4 mr-2" />
+              Webhook Deliveries
+            </Link>
+          </Button>
         </div>
 
         <ReturnToAgentBanner />
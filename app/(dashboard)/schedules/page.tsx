@@ -0,0 +1,41 @@
+/**
+ * Schedules Page
+ * Manage recurring agent runs and view their run history
+ */
+
+import { createServerClient } from "@/lib/supabase/server";
+import { redirect } from "next/navigation";
+import { SchedulesList } from "@/components/schedules/schedules-list";
+
+export default async function SchedulesPage() {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  // Get user's tenant_id
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("tenant_id")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.tenant_id) {
+    redirect("/login");
+  }
+
+  // Agents that can be scheduled
+  const { data: agents } = await supabase
+    .from("agents")
+    .select("id, name")
+    .eq("tenant_id", profile.tenant_id)
+    .order("name");
+
+  return <SchedulesList agents={agents || []} />;
+}
@@ -0,0 +1,38 @@
+/**
+ * Audit Log Page
+ * Who changed what in the organization, for owners and admins
+ */
+
+import { createServerClient } from "@/lib/supabase/server";
+import { redirect } from "next/navigation";
+import { hasPermission } from "@/lib/team/permissions";
+import { AuditLog } from "@/components/settings/audit-log";
+
+export default async function AuditLogPage() {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect("/login");
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("tenant_id, role")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.tenant_id) {
+    redirect("/login");
+  }
+
+  if (!hasPermission(profile.role, "audit:view")) {
+    redirect("/settings");
+  }
+
+  return <AuditLog />;
+}
@@ -9,10 +9,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { getCurrentSubscription, getUsageStats } from "@/lib/billing/actions";
+import { getCurrentSubscription, getOverageBilling, getUsageStats } from "@/lib/billing/actions";
 import { getPlanLimits, getPlanPrice, PLAN_NAMES } from "@/lib/billing/plans";
 import { UpgradeButton } from "@/components/billing/upgrade-button";
 import { ManageSubscriptionButton } from "@/components/billing/manage-subscription-button";
+import { OverageSettings } from "@/components/billing/overage-settings";
 import Link from "next/link";
 
 export default async function BillingPage() {
@@ -28,6 +29,7 @@ export default async function BillingPage() {
 
   const { subscription } = await getCurrentSubscription();
   const { usage } = await getUsageStats();
+  const { overage } = await getOverageBilling();
 
   if (!subscription || !usage) {
     return <div>Loading...</div>;
@@ -153,6 +155,9 @@ export default async function BillingPage() {
           </CardContent>
         </Card>
 
+        {/* Overage */}
+        {overage && <OverageSettings overage={overage} />}
+
         {/* Plan Features */}
         <Card>
           <CardHeader>
@@ -242,6 +247,18 @@ export default async function BillingPage() {
                   {planLimits.integrations.slack ? '✓ Available' : '✗ Not available'}
                 </p>
               </div>
+              <div>
+                <p className="font-medium">Discord</p>
+                <p className="text-sm text-muted-foreground">
+                  {planLimits.integrations.discord ? '✓ Available' : '✗ Not available'}
+                </p>
+              </div>
+              <div>
+                <p className="font-medium">GitHub</p>
+                <p className="text-sm text-muted-foreground">
+                  {planLimits.integrations.github ? '✓ Available' : '✗ Not available'}
+                </p>
+              </div>
             </div>
           </CardContent>
         </Card>
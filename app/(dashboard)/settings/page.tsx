@@ -7,6 +7,7 @@ import { createServerClient } from "@/lib/supabase/server";
 import { redirect } from "next/navigation";
 import { SettingsClient } from "@/components/settings/settings-client";
 import { getSettings } from "@/lib/settings/actions";
+import { getTeam } from "@/lib/team/actions";
 
 export default async function SettingsPage() {
   const supabase = await createServerClient();
@@ -21,7 +22,7 @@ export default async function SettingsPage() {
   }
 
   // Fetch settings
-  const result = await getSettings();
+  const [result, team] = await Promise.all([getSettings(), getTeam()]);
 
   if (result.error) {
     redirect("/dashboard");
@@ -31,6 +32,7 @@ export default async function SettingsPage() {
     <SettingsClient
       profile={result.profile!}
       organization={result.organization!}
+      team={team.error ? null : team}
     />
   );
 }
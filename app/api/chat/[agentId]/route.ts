@@ -12,12 +12,14 @@ import { createOpenAI } from "@ai-sdk/openai";
 import { notifyTenantUsers } from "@/lib/notifications/email";
 import { searchDocuments } from "@/lib/knowledge/actions";
 import { trackSearchQuery, trackSearchHit, trackContextUsage } from "@/lib/knowledge/analytics";
+import { citationFor } from "@/lib/knowledge/sources";
 import {
   triggerAgentCompletedEvent,
   triggerAgentFailedEvent,
   triggerConversationNewEvent,
 } from "@/lib/webhooks/triggers";
-import { executeAgent } from "@/lib/agents/execute"; // NEW - use unified agent execution
+import { executeAgent, streamAgent } from "@/lib/agents/execute"; // NEW - use unified agent execution
+import { createStreamResponse } from "@/lib/agents/stream";
 
 // Create Supabase client with service role (bypass RLS for public endpoint)
 const supabase = createClient(
@@ -47,7 +49,7 @@ export async function POST(
   try {
     const { agentId } = await params;
     const body = await request.json();
-    const { message, sessionId, history = [], leadId } = body;
+    const { message, sessionId, history = [], leadId, stream = false } = body;
 
     // Validate input
     if (!message?.trim()) {
@@ -88,10 +90,32 @@ export async function POST(
 
     // Use unified executeAgent (includes RAG, integrations, webhooks)
     const userSession = `widget-${sessionId}-${Date.now()}`;
+
+    // Streaming mode: send the response as Server-Sent Events while it is generated
+    if (stream) {
+      const agentStream = await streamAgent(agentId, {
+        type: "chat",
+        message,
+        userSession,
+        sessionId,
+        history,
+      });
+
+      return createStreamResponse(agentStream, sessionId, async (reply) => {
+        await saveConversation(agent.id, agent.tenant_id, sessionId, [
+          ...history,
+          { role: "user", content: message },
+          { role: "assistant", content: reply },
+        ], leadId);
+      });
+    }
+
     const result = await executeAgent(agentId, {
       type: "chat",
       message,
-      userSession
+      userSession,
+      sessionId,
+      history,
     });
 
     // Save conversation to database
@@ -224,13 +248,13 @@ async function getRAGContext(tenantId: string, agentId: string, message: string,
         }
         
         const context = result.documents
-          .map((doc: SearchDocument) => `[Document: ${doc.metadata?.originalFileName || 'Unknown'}]\n${doc.content}`)
+          .map((doc: SearchDocument) => `${citationFor(doc.metadata).header}\n${doc.content}`)
           .join('\n\n---\n\n');
         
         return {
           hasContext: true,
           context,
-          sources: result.documents.map((doc: SearchDocument) => doc.metadata?.originalFileName || 'Unknown'),
+          sources: result.documents.map((doc: SearchDocument) => citationFor(doc.metadata).source),
         };
       } else {
         // Check if there are ANY documents for this agent/tenant
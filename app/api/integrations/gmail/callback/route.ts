@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GmailIntegration } from '@/lib/integrations/gmail';
 import { encryptCredentials } from '@/lib/integrations/encryption';
+import { getAuditActor, recordAuditEvent } from '@/lib/audit/log';
 
 export async function GET(request: NextRequest) {
   console.log('[GMAIL CALLBACK] Route hit - /api/integrations/gmail/callback');
@@ -117,6 +118,13 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    await recordAuditEvent({
+      tenantId: tenant_id,
+      actor: await getAuditActor(),
+      action: 'integration.connected',
+      target: { type: 'integration', name: 'gmail' },
+    });
+
     // Redirect back to integrations page with success
     return NextResponse.redirect(
       new URL('/integrations?success=gmail_connected', appUrl)
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
+import { getPermissionError, hasPermission } from '@/lib/team/permissions';
 import { GoogleCalendarIntegration } from '@/lib/integrations/google-calendar';
 
 export async function GET(request: NextRequest) {
@@ -15,7 +16,7 @@ export async function GET(request: NextRequest) {
     // Get tenant_id from profiles
     const { data: profile } = await supabase
       .from('profiles')
-      .select('tenant_id')
+      .select('tenant_id, role')
       .eq('id', user.id)
       .single();
 
@@ -23,6 +24,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Profile not found' }, { status: 404 });
     }
 
+    if (!hasPermission(profile.role, 'integrations:manage')) {
+      return NextResponse.json({ error: getPermissionError('integrations:manage') }, { status: 403 });
+    }
+
     const tenant_id = profile.tenant_id;
 
     // Create state parameter for CSRF protection
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GoogleDocsIntegration } from '@/lib/integrations/google-docs';
 import { encryptCredentials } from '@/lib/integrations/encryption';
+import { getAuditActor, recordAuditEvent } from '@/lib/audit/log';
 
 export async function GET(request: NextRequest) {
   console.log('[GOOGLE DOCS CALLBACK] Route hit');
@@ -74,6 +75,13 @@ export async function GET(request: NextRequest) {
         });
     }
 
+    await recordAuditEvent({
+      tenantId: tenant_id,
+      actor: await getAuditActor(),
+      action: 'integration.connected',
+      target: { type: 'integration', name: 'google_docs' },
+    });
+
     return NextResponse.redirect(new URL('/integrations?success=google_docs_connected', appUrl));
   } catch (error) {
     console.error('Google Docs callback error:', error);
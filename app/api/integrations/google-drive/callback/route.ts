@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GoogleDriveIntegration } from '@/lib/integrations/google-drive';
 import { encryptCredentials } from '@/lib/integrations/encryption';
+import { getAuditActor, recordAuditEvent } from '@/lib/audit/log';
 
 export async function GET(request: NextRequest) {
   console.log('[GOOGLE DRIVE CALLBACK] Route hit - /api/integrations/google-drive/callback');
@@ -122,6 +123,13 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    await recordAuditEvent({
+      tenantId: tenant_id,
+      actor: await getAuditActor(),
+      action: 'integration.connected',
+      target: { type: 'integration', name: 'google_drive' },
+    });
+
     // Redirect back to integrations page with success
     return NextResponse.redirect(
       new URL('/integrations?success=google_drive_connected', appUrl)
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
+import { getPermissionError, hasPermission } from '@/lib/team/permissions';
 import { GoogleSheetsIntegration } from '@/lib/integrations/google-sheets';
 
 export async function GET(request: NextRequest) {
@@ -14,7 +15,7 @@ export async function GET(request: NextRequest) {
 
     const { data: profile } = await supabase
       .from('profiles')
-      .select('tenant_id')
+      .select('tenant_id, role')
       .eq('id', user.id)
       .single();
 
@@ -22,6 +23,10 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Profile not found' }, { status: 404 });
     }
 
+    if (!hasPermission(profile.role, 'integrations:manage')) {
+      return NextResponse.json({ error: getPermissionError('integrations:manage') }, { status: 403 });
+    }
+
     const state = Buffer.from(JSON.stringify({ tenant_id: profile.tenant_id })).toString('base64');
     const authUrl = GoogleSheetsIntegration.getAuthorizationUrl(state);
 
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GoogleSheetsIntegration } from '@/lib/integrations/google-sheets';
 import { encryptCredentials } from '@/lib/integrations/encryption';
+import { getAuditActor, recordAuditEvent } from '@/lib/audit/log';
 
 export async function GET(request: NextRequest) {
   console.log('[GOOGLE SHEETS CALLBACK] Route hit');
@@ -74,6 +75,13 @@ export async function GET(request: NextRequest) {
         });
     }
 
+    await recordAuditEvent({
+      tenantId: tenant_id,
+      actor: await getAuditActor(),
+      action: 'integration.connected',
+      target: { type: 'integration', name: 'google_sheets' },
+    });
+
     return NextResponse.redirect(new URL('/integrations?success=google_sheets_connected', appUrl));
   } catch (error) {
     console.error('Google Sheets callback error:', error);
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@/lib/supabase/server';
 import { HubSpotIntegration } from '@/lib/integrations/hubspot';
 import { encryptCredentials } from '@/lib/integrations/encryption';
+import { getAuditActor, recordAuditEvent } from '@/lib/audit/log';
 
 export async function GET(request: NextRequest) {
   try {
@@ -93,6 +94,13 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    await recordAuditEvent({
+      tenantId: tenant_id,
+      actor: await getAuditActor(),
+      action: 'integration.connected',
+      target: { type: 'integration', name: 'hubspot' },
+    });
+
     // Redirect back to integrations page with success
     return NextResponse.redirect(
       new URL('/integrations?success=hubspot_connected', request.url)
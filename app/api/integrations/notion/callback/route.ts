@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { NotionIntegration } from '@/lib/integrations/notion';
 import { encryptCredentials } from '@/lib/integrations/encryption';
+import { getAuditActor, recordAuditEvent } from '@/lib/audit/log';
 
 export async function GET(request: NextRequest) {
   try {
@@ -122,6 +123,13 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    await recordAuditEvent({
+      tenantId: tenant_id,
+      actor: await getAuditActor(),
+      action: 'integration.connected',
+      target: { type: 'integration', name: 'notion' },
+    });
+
     // Redirect back to integrations page with success
     return NextResponse.redirect(
       new URL('/integrations?success=notion_connected', appUrl)
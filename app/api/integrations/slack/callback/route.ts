@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SlackIntegration } from '@/lib/integrations/slack';
+import { matchesSlackInstall, SlackIntegration } from '@/lib/integrations/slack';
 import { encryptCredentials } from '@/lib/integrations/encryption';
+import { getAuditActor, recordAuditEvent } from '@/lib/audit/log';
 import { createClient } from '@supabase/supabase-js';
 
 // Use service role for callback (user might not be authenticated in this context)
@@ -48,8 +49,39 @@ export async function GET(request: NextRequest) {
       team_name: tokenData.team_name,
       bot_user_id: tokenData.bot_user_id,
       scope: tokenData.scope,
+      app_id: tokenData.app_id,
+      enterprise_id: tokenData.enterprise_id,
     });
 
+    // Events are routed by workspace and app, so one install can only belong to one tenant
+    const { data: otherInstalls } = await supabase
+      .from('integrations')
+      .select('config')
+      .eq('provider', 'slack')
+      .eq('status', 'connected')
+      .neq('tenant_id', stateData.tenant_id);
+
+    const installedElsewhere = (otherInstalls || []).some((record) =>
+      matchesSlackInstall(record.config || {}, {
+        team_id: tokenData.team_id,
+        api_app_id: tokenData.app_id,
+        enterprise_id: tokenData.enterprise_id,
+      })
+    );
+
+    if (installedElsewhere) {
+      return NextResponse.redirect(new URL('/integrations?error=slack_workspace_in_use', appUrl));
+    }
+
+    // team_id, app_id and enterprise_id let the events endpoint find this install without decrypting credentials
+    const config = {
+      team_name: tokenData.team_name,
+      team_id: tokenData.team_id,
+      bot_user_id: tokenData.bot_user_id,
+      app_id: tokenData.app_id,
+      enterprise_id: tokenData.enterprise_id,
+    };
+
     // Check for existing integration
     const { data: existing } = await supabase
       .from('integrations')
@@ -65,6 +97,7 @@ export async function GET(request: NextRequest) {
         .update({
           credentials: encryptedCredentials,
           status: 'connected',
+          config,
           updated_at: new Date().toISOString(),
         })
         .eq('id', existing.id);
@@ -78,12 +111,17 @@ export async function GET(request: NextRequest) {
           type: 'slack',
           status: 'connected',
           credentials: encryptedCredentials,
-          config: {
-            team_name: tokenData.team_name,
-          },
+          config,
         });
     }
 
+    await recordAuditEvent({
+      tenantId: stateData.tenant_id,
+      actor: await getAuditActor(),
+      action: 'integration.connected',
+      target: { type: 'integration', name: 'slack' },
+    });
+
     return NextResponse.redirect(new URL('/integrations?success=slack_connected', appUrl));
   } catch (error) {
     console.error('Slack callback error:', error);
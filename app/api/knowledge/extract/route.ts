@@ -1,11 +1,10 @@
 import { NextRequest, NextResponse } from "next/server";
 import { createServerClient } from "@/lib/supabase/server";
-import { extractText } from "unpdf";
+import { extractDocumentText, requiresServerExtraction } from "@/lib/knowledge/extract";
 
 /**
  * API endpoint for server-side file text extraction
  * Handles PDF and DOCX files that require Node.js APIs
- * Uses unpdf for reliable, modern PDF parsing
  */
 export async function POST(request: NextRequest) {
   try {
@@ -30,44 +29,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check file type
-    const fileName = file.name.toLowerCase();
-    const arrayBuffer = await file.arrayBuffer();
-
-    let extractedText = "";
-
-    if (fileName.endsWith(".pdf")) {
-      // Extract text from PDF using unpdf - simple and reliable
-      try {
-        // unpdf requires Uint8Array, not Buffer
-        const uint8Array = new Uint8Array(arrayBuffer);
-        const { text } = await extractText(uint8Array, { mergePages: true });
-        extractedText = text;
-
-        if (!extractedText.trim()) {
-          throw new Error("No text could be extracted from this PDF. It may be image-based or encrypted.");
-        }
-      } catch (error) {
-        console.error("PDF extraction error:", error);
-        throw new Error(
-          error instanceof Error
-            ? `PDF extraction failed: ${error.message}`
-            : "Failed to extract text from PDF"
-        );
-      }
-    } else if (fileName.endsWith(".docx")) {
-      // Extract text from DOCX using mammoth (Node.js only)
-      const mammoth = await import("mammoth");
-      const buffer = Buffer.from(arrayBuffer);
-      const result = await mammoth.extractRawText({ buffer });
-      extractedText = result.value;
-    } else {
+    if (!requiresServerExtraction(file.name)) {
       return NextResponse.json(
         { error: "Unsupported file type. Only PDF and DOCX are supported for server-side extraction." },
         { status: 400 }
       );
     }
 
+    const extractedText = await extractDocumentText(new Uint8Array(await file.arrayBuffer()), file.name);
+
     // Return extracted text
     return NextResponse.json({
       success: true,
@@ -0,0 +1,73 @@
+/**
+ * Knowledge Re-index API
+ * Queues re-embedding of documents whose chunks were embedded by another embedding provider
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServerClient } from "@/lib/supabase/server";
+import { getStaleDocumentIds } from "@/lib/knowledge/actions";
+import { queueDocumentReindex } from "@/lib/knowledge/ingestion";
+import { recordAuditEvent } from "@/lib/audit/log";
+
+/** Documents queued per request when no documentId is given */
+const MAX_DOCUMENTS_PER_REQUEST = 10;
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+
+    // Get current user
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's tenant_id
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("tenant_id")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile?.tenant_id) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 400 });
+    }
+
+    const { documentId, agentId } = await request.json().catch(() => ({}));
+
+    // One document, or the next batch of stale ones
+    const staleIds = documentId ? [documentId] : await getStaleDocumentIds(profile.tenant_id, agentId || undefined);
+    const batch = staleIds.slice(0, MAX_DOCUMENTS_PER_REQUEST);
+
+    const results = [];
+    for (const id of batch) {
+      const result = await queueDocumentReindex(profile.tenant_id, id);
+      results.push({ id, ...result });
+
+      if (result.success) {
+        await recordAuditEvent({
+          tenantId: profile.tenant_id,
+          actor: user,
+          action: "document.reindexed",
+          target: { type: "document", id, name: result.name },
+        });
+      }
+    }
+
+    if (documentId && !results[0]?.success) {
+      return NextResponse.json({ error: results[0]?.error }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      queued: results.filter((result) => result.success).length,
+      failed: results.filter((result) => !result.success).length,
+      remaining: staleIds.length - batch.length,
+    });
+  } catch (error) {
+    console.error("Knowledge re-index API error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -5,7 +5,9 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { createServerClient } from "@/lib/supabase/server";
-import { uploadDocument, getDocuments, deleteDocument } from "@/lib/knowledge/actions";
+import { getDocument, getDocuments, deleteDocument } from "@/lib/knowledge/actions";
+import { queueDocumentIngestion } from "@/lib/knowledge/ingestion";
+import { recordAuditEvent } from "@/lib/audit/log";
 
 export async function POST(request: NextRequest) {
   try {
@@ -31,26 +33,67 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: "Profile not found" }, { status: 400 });
     }
 
-    const body = await request.json();
-    const { name, content, agentId, metadata } = body;
+    // Files are sent as multipart form data; plain text can still be sent as JSON
+    let name: string | undefined;
+    let file: Uint8Array | undefined;
+    let fileType: string | undefined;
+    let agentId: string | null = null;
+    let metadata: Record<string, any> = {};
+
+    if (request.headers.get("content-type")?.includes("multipart/form-data")) {
+      const form = await request.formData();
+      const upload = form.get("file");
+
+      if (upload instanceof File) {
+        name = upload.name;
+        file = new Uint8Array(await upload.arrayBuffer());
+        fileType = upload.type || undefined;
+      }
+
+      agentId = (form.get("agentId") as string | null) || null;
+      metadata = { fileName: name, fileSize: file?.byteLength, fileType };
+    } else {
+      const body = await request.json();
+      name = body.name;
+      file = body.content ? new TextEncoder().encode(body.content) : undefined;
+      agentId = body.agentId || null;
+      metadata = body.metadata || {};
+      fileType = metadata.fileType;
+    }
 
-    if (!name || !content) {
-      return NextResponse.json({ error: "Name and content are required" }, { status: 400 });
+    if (!name || !file) {
+      return NextResponse.json({ error: "A file (or name and content) is required" }, { status: 400 });
     }
 
-    const result = await uploadDocument(
-      profile.tenant_id,
-      agentId || null,
+    const result = await queueDocumentIngestion({
+      tenantId: profile.tenant_id,
+      agentId,
       name,
-      content,
-      metadata || {}
-    );
-
-    if (result.success) {
-      return NextResponse.json(result);
-    } else {
-      return NextResponse.json({ error: result.error }, { status: 500 });
+      file,
+      fileType,
+      metadata,
+      createdBy: user.id,
+    });
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
     }
+
+    await recordAuditEvent({
+      tenantId: profile.tenant_id,
+      actor: user,
+      action: "document.uploaded",
+      target: { type: "document", id: result.document.id, name },
+      metadata: {
+        agent_id: agentId,
+        size_bytes: file.byteLength,
+      },
+    });
+
+    // Ingestion may already have finished inline; return the current state either way
+    const document = await getDocument(profile.tenant_id, result.document.id);
+
+    return NextResponse.json({ success: true, document }, { status: 202 });
   } catch (error) {
     console.error("Knowledge API error:", error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
@@ -82,12 +125,33 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url);
+
+    // A single document, polled for ingestion progress
+    const documentId = searchParams.get("id");
+    if (documentId) {
+      const document = await getDocument(profile.tenant_id, documentId);
+
+      if (!document) {
+        return NextResponse.json({ error: "Document not found" }, { status: 404 });
+      }
+
+      return NextResponse.json({ document });
+    }
+
     const agentId = searchParams.get("agentId");
+    const page = Math.max(1, parseInt(searchParams.get("page") || "1") || 1);
+    const pageSize = parseInt(searchParams.get("pageSize") || "") || undefined;
 
-    const result = await getDocuments(profile.tenant_id, agentId || undefined);
+    const result = await getDocuments(
+      profile.tenant_id,
+      agentId || undefined,
+      page,
+      pageSize,
+      searchParams.get("search") || undefined
+    );
 
     if (result.success) {
-      return NextResponse.json({ documents: result.documents });
+      return NextResponse.json({ documents: result.documents, pagination: result.pagination });
     } else {
       return NextResponse.json({ error: result.error }, { status: 500 });
     }
@@ -122,15 +186,23 @@ export async function DELETE(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url);
-    const documentName = searchParams.get("name");
+    const documentId = searchParams.get("id");
 
-    if (!documentName) {
-      return NextResponse.json({ error: "Document name is required" }, { status: 400 });
+    if (!documentId) {
+      return NextResponse.json({ error: "Document ID is required" }, { status: 400 });
     }
 
-    const result = await deleteDocument(profile.tenant_id, documentName);
+    const result = await deleteDocument(profile.tenant_id, documentId);
 
     if (result.success) {
+      await recordAuditEvent({
+        tenantId: profile.tenant_id,
+        actor: user,
+        action: "document.deleted",
+        target: { type: "document", id: documentId, name: result.name },
+        metadata: { freed_bytes: result.freedBytes },
+      });
+
       return NextResponse.json({ success: true });
     } else {
       return NextResponse.json({ error: result.error }, { status: 500 });
@@ -0,0 +1,59 @@
+/**
+ * Knowledge Source Crawl API
+ * Queues an immediate re-crawl of a website or sitemap
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServerClient } from "@/lib/supabase/server";
+import { requestSourceCrawl } from "@/lib/knowledge/sources";
+import { recordAuditEvent } from "@/lib/audit/log";
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+
+    // Get current user
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's tenant_id
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("tenant_id")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile?.tenant_id) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 400 });
+    }
+
+    const { sourceId } = await request.json().catch(() => ({}));
+
+    if (!sourceId) {
+      return NextResponse.json({ error: "Source ID is required" }, { status: 400 });
+    }
+
+    const result = await requestSourceCrawl(profile.tenant_id, sourceId);
+
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    await recordAuditEvent({
+      tenantId: profile.tenant_id,
+      actor: user,
+      action: "knowledge_source.crawled",
+      target: { type: "knowledge_source", id: sourceId, name: result.url },
+    });
+
+    return NextResponse.json({ success: true }, { status: 202 });
+  } catch (error) {
+    console.error("Knowledge source crawl API error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
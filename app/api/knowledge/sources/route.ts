@@ -0,0 +1,165 @@
+/**
+ * Knowledge Sources API
+ * Adds, lists and removes websites and sitemaps crawled into the knowledge base
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServerClient } from "@/lib/supabase/server";
+import { createKnowledgeSource, deleteKnowledgeSource, getKnowledgeSources } from "@/lib/knowledge/sources";
+import { recordAuditEvent } from "@/lib/audit/log";
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+
+    // Get current user
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's tenant_id
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("tenant_id")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile?.tenant_id) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 400 });
+    }
+
+    const body = await request.json();
+
+    if (!body.url) {
+      return NextResponse.json({ error: "A URL is required" }, { status: 400 });
+    }
+
+    const result = await createKnowledgeSource({
+      tenantId: profile.tenant_id,
+      agentId: body.agentId || null,
+      type: body.type === "sitemap" ? "sitemap" : "website",
+      url: body.url,
+      maxDepth: body.maxDepth,
+      maxPages: body.maxPages,
+      recrawlIntervalHours: body.recrawlIntervalHours,
+      createdBy: user.id,
+    });
+
+    if (!result.success || !result.source) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    await recordAuditEvent({
+      tenantId: profile.tenant_id,
+      actor: user,
+      action: "knowledge_source.created",
+      target: { type: "knowledge_source", id: result.source.id, name: result.source.url },
+      metadata: {
+        agent_id: result.source.agent_id,
+        type: result.source.type,
+        max_depth: result.source.maxDepth,
+        max_pages: result.source.maxPages,
+        recrawl_interval_hours: result.source.recrawlIntervalHours,
+      },
+    });
+
+    return NextResponse.json({ success: true, source: result.source }, { status: 202 });
+  } catch (error) {
+    console.error("Knowledge sources API error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+
+    // Get current user
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's tenant_id
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("tenant_id")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile?.tenant_id) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const result = await getKnowledgeSources(profile.tenant_id, searchParams.get("agentId") || undefined);
+
+    if (result.success) {
+      return NextResponse.json({ sources: result.sources });
+    } else {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+  } catch (error) {
+    console.error("Knowledge sources API error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createServerClient();
+
+    // Get current user
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Get user's tenant_id
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("tenant_id")
+      .eq("id", user.id)
+      .single();
+
+    if (!profile?.tenant_id) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const sourceId = searchParams.get("id");
+
+    if (!sourceId) {
+      return NextResponse.json({ error: "Source ID is required" }, { status: 400 });
+    }
+
+    const result = await deleteKnowledgeSource(profile.tenant_id, sourceId);
+
+    if (result.success) {
+      await recordAuditEvent({
+        tenantId: profile.tenant_id,
+        actor: user,
+        action: "knowledge_source.deleted",
+        target: { type: "knowledge_source", id: sourceId, name: result.url },
+        metadata: { pages: result.pages, freed_bytes: result.freedBytes },
+      });
+
+      return NextResponse.json({ success: true });
+    } else {
+      return NextResponse.json({ error: result.error }, { status: 500 });
+    }
+  } catch (error) {
+    console.error("Knowledge sources API error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Discord Webhook Handler
+ * Receives Discord interactions and dispatches them to the tenant's Discord integration
+ * Configure the Interactions Endpoint URL as /api/webhooks/discord?integration_id=<id>&agent_id=<id>
+ * Slash commands are deferred and answered by the agent once it finishes
+ */
+
+import { NextRequest, NextResponse, after } from "next/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import { createIntegrationInstance, type IntegrationRecord } from "@/lib/integrations/registry";
+import { DISCORD_EPHEMERAL_FLAG, type DiscordIntegration } from "@/lib/integrations/discord";
+
+// Discord interaction types we respond to directly
+const INTERACTION_PING = 1;
+const INTERACTION_APPLICATION_COMMAND = 2;
+const RESPONSE_PONG = 1;
+const RESPONSE_CHANNEL_MESSAGE = 4;
+const RESPONSE_DEFERRED_CHANNEL_MESSAGE = 5;
+
+function ephemeralReply(content: string) {
+  return NextResponse.json({
+    type: RESPONSE_CHANNEL_MESSAGE,
+    data: { content, flags: DISCORD_EPHEMERAL_FLAG },
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const integrationId = request.nextUrl.searchParams.get("integration_id");
+    if (!integrationId) {
+      return NextResponse.json(
+        { error: "Missing integration_id parameter" },
+        { status: 400 }
+      );
+    }
+
+    const signature = request.headers.get("X-Signature-Ed25519");
+    const timestamp = request.headers.get("X-Signature-Timestamp");
+    if (!signature || !timestamp) {
+      return NextResponse.json({ error: "Missing signature" }, { status: 401 });
+    }
+
+    // Load the integration with the service client (no user session on webhooks)
+    const supabase = createServiceClient();
+    const { data: record } = await supabase
+      .from("integrations")
+      .select("*")
+      .eq("id", integrationId)
+      .eq("provider", "discord")
+      .eq("status", "connected")
+      .single();
+
+    if (!record) {
+      return NextResponse.json({ error: "Integration not found" }, { status: 404 });
+    }
+
+    const integration = createIntegrationInstance(
+      record as IntegrationRecord
+    ) as DiscordIntegration | null;
+
+    if (!integration) {
+      return NextResponse.json(
+        { error: "Failed to load integration" },
+        { status: 500 }
+      );
+    }
+
+    // Verify signature against the raw body
+    const body = await request.text();
+    if (!integration.verifySignature(body, signature, timestamp)) {
+      console.error("Invalid Discord signature");
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+    }
+
+    const payload = JSON.parse(body);
+
+    // Discord pings the endpoint when it is first configured
+    if (payload.type === INTERACTION_PING) {
+      return NextResponse.json({ type: RESPONSE_PONG });
+    }
+
+    await integration.handleWebhook(payload);
+
+    if (payload.type !== INTERACTION_APPLICATION_COMMAND) {
+      return ephemeralReply("This interaction isn't supported.");
+    }
+
+    const agentId = request.nextUrl.searchParams.get("agent_id");
+    if (!agentId) {
+      return ephemeralReply("This command isn't connected to an agent.");
+    }
+
+    // Discord needs a response within 3 seconds, so defer and edit in the agent's answer
+    after(() => integration.answerInteraction(payload, agentId));
+
+    return NextResponse.json({ type: RESPONSE_DEFERRED_CHANNEL_MESSAGE });
+  } catch (error) {
+    console.error("Discord webhook error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -78,6 +78,10 @@ export async function POST(request: NextRequest) {
           attachments: event.attachments || [],
           timestamp: event.timestamp || new Date().toISOString(),
           spam_score: event.spam_score,
+          message_id: event.message_id,
+          in_reply_to: event.in_reply_to,
+          references: event.references,
+          headers: event.headers,
         };
 
         await emailIntegration.handleWebhook(emailPayload);
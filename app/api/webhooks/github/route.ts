@@ -0,0 +1,79 @@
+/**
+ * GitHub Webhook Handler
+ * Receives repository events and dispatches them to the tenant's GitHub integration
+ * Configure the Payload URL as /api/webhooks/github?integration_id=<id>
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import { createIntegrationInstance, type IntegrationRecord } from "@/lib/integrations/registry";
+import type { GitHubIntegration } from "@/lib/integrations/github";
+
+export async function POST(request: NextRequest) {
+  try {
+    const integrationId = request.nextUrl.searchParams.get("integration_id");
+    if (!integrationId) {
+      return NextResponse.json(
+        { error: "Missing integration_id parameter" },
+        { status: 400 }
+      );
+    }
+
+    const signature = request.headers.get("X-Hub-Signature-256");
+    const eventName = request.headers.get("X-GitHub-Event");
+    if (!signature) {
+      return NextResponse.json({ error: "Missing signature" }, { status: 401 });
+    }
+
+    // Load the integration with the service client (no user session on webhooks)
+    const supabase = createServiceClient();
+    const { data: record } = await supabase
+      .from("integrations")
+      .select("*")
+      .eq("id", integrationId)
+      .eq("provider", "github")
+      .eq("status", "connected")
+      .single();
+
+    if (!record) {
+      return NextResponse.json({ error: "Integration not found" }, { status: 404 });
+    }
+
+    const integration = createIntegrationInstance(
+      record as IntegrationRecord
+    ) as GitHubIntegration | null;
+
+    if (!integration) {
+      return NextResponse.json(
+        { error: "Failed to load integration" },
+        { status: 500 }
+      );
+    }
+
+    // Verify signature against the raw body (requires a webhook secret)
+    const body = await request.text();
+    if (!integration.verifySignature(body, signature)) {
+      console.error("Invalid GitHub signature");
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+    }
+
+    // GitHub sends a ping when the webhook is created
+    if (eventName === "ping") {
+      return NextResponse.json({ message: "pong" });
+    }
+
+    const payload = JSON.parse(body);
+    await integration.handleWebhook({ ...payload, event: eventName });
+
+    return NextResponse.json({
+      message: "Webhook processed successfully",
+      event: eventName,
+    });
+  } catch (error) {
+    console.error("GitHub webhook error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Slack Events API Handler
+ * Receives app mentions and direct messages and routes them to the agent configured
+ * for the workspace and channel. Configure the Request URL as /api/webhooks/slack
+ */
+
+import { after, NextRequest, NextResponse } from "next/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import { createIntegrationInstance, type IntegrationRecord } from "@/lib/integrations/registry";
+import { matchesSlackInstall, SlackIntegration } from "@/lib/integrations/slack";
+
+export async function POST(request: NextRequest) {
+  try {
+    // Verify the request came from Slack before parsing it
+    const body = await request.text();
+    const valid = SlackIntegration.verifyRequestSignature({
+      body,
+      timestamp: request.headers.get("X-Slack-Request-Timestamp"),
+      signature: request.headers.get("X-Slack-Signature"),
+      signingSecret: process.env.SLACK_SIGNING_SECRET || "",
+    });
+
+    if (!valid) {
+      console.error("Invalid Slack signature");
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+    }
+
+    const payload = JSON.parse(body);
+
+    // Slack verifies the Request URL when it is first configured
+    if (payload.type === "url_verification") {
+      return NextResponse.json({ challenge: payload.challenge });
+    }
+
+    if (payload.type !== "event_callback" || !payload.event) {
+      return NextResponse.json({ ok: true });
+    }
+
+    // Slack retries events it thinks timed out; the first delivery is already being handled
+    if (request.headers.get("X-Slack-Retry-Num")) {
+      return NextResponse.json({ ok: true });
+    }
+
+    const integration = await findIntegrationForEvent(payload);
+    if (!integration) {
+      console.log(`No single connected Slack integration for team ${payload.team_id}`);
+      return NextResponse.json({ ok: true });
+    }
+
+    // Slack expects a response within 3 seconds, so the agent runs after responding
+    after(() => integration.handleEvent(payload.event));
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Slack webhook error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Find the connected Slack integration an event was sent for
+ * Matches the workspace, app and Enterprise Grid org recorded at install time. Integrations
+ * connected before these were stored in config are matched by their credentials.
+ * More than one match is ambiguous and the event is dropped rather than routed to a guess.
+ */
+async function findIntegrationForEvent(payload: {
+  team_id?: string;
+  api_app_id?: string;
+  enterprise_id?: string | null;
+}): Promise<SlackIntegration | null> {
+  const teamId = payload.team_id;
+  if (!teamId) return null;
+
+  // Load with the service client (no user session on webhooks)
+  const supabase = createServiceClient();
+
+  const { data: records } = await supabase
+    .from("integrations")
+    .select("*")
+    .eq("provider", "slack")
+    .eq("status", "connected");
+
+  const candidates = (records || []) as IntegrationRecord[];
+  let matches = candidates.filter((record) => matchesSlackInstall(record.config || {}, payload));
+  const legacy = matches.length === 0;
+
+  if (legacy) {
+    matches = candidates.filter(
+      (record) =>
+        !record.config?.team_id &&
+        (createIntegrationInstance(record) as SlackIntegration | null)?.getTeamId() === teamId
+    );
+  }
+
+  if (matches.length > 1) {
+    console.error(
+      `Ambiguous Slack event for team ${teamId}: ${matches.length} connected integrations match`
+    );
+    return null;
+  }
+
+  const [record] = matches;
+  if (!record) return null;
+
+  if (legacy) {
+    await supabase
+      .from("integrations")
+      .update({ config: { ...(record.config || {}), team_id: teamId } })
+      .eq("id", record.id);
+  }
+
+  return createIntegrationInstance(record) as SlackIntegration | null;
+}
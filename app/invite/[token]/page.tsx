@@ -0,0 +1,94 @@
+/**
+ * Invitation Page
+ * Landing page for team invite links: sign up to join, or accept as a signed-in user
+ */
+
+import { Metadata } from "next";
+import Link from "next/link";
+import { createServerClient } from "@/lib/supabase/server";
+import { getInvitationByToken } from "@/lib/team/invitations";
+import { ROLE_LABELS } from "@/lib/team/permissions";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AcceptInvitationButton } from "@/components/settings/accept-invitation-button";
+
+export const metadata: Metadata = {
+  title: "Join your team - Zapta",
+};
+
+export default async function InvitePage({ params }: { params: Promise<{ token: string }> }) {
+  const { token } = await params;
+  const invitation = await getInvitationByToken(token);
+
+  const supabase = await createServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data: profile } = user
+    ? await supabase.from("profiles").select("tenant_id").eq("id", user.id).maybeSingle()
+    : { data: null };
+
+  const alreadyMember = !!invitation && profile?.tenant_id === invitation.tenantId;
+
+  let body: React.ReactNode;
+
+  if (!invitation || invitation.status === "revoked") {
+    body = <p className="text-sm text-muted-foreground">This invitation link is invalid or has been revoked.</p>;
+  } else if (alreadyMember) {
+    body = (
+      <Button asChild className="w-full">
+        <Link href="/dashboard">Go to dashboard</Link>
+      </Button>
+    );
+  } else if (invitation.status !== "pending") {
+    body = (
+      <p className="text-sm text-muted-foreground">
+        This invitation has {invitation.status === "accepted" ? "already been used" : "expired"}. Ask an
+        admin of {invitation.organizationName} to invite you again.
+      </p>
+    );
+  } else if (!user) {
+    body = (
+      <div className="space-y-3">
+        <Button asChild className="w-full">
+          <Link href={`/signup?invite=${encodeURIComponent(token)}`}>Create account and join</Link>
+        </Button>
+        <p className="text-center text-sm text-muted-foreground">
+          Already signed up with {invitation.email}?{" "}
+          <Link href="/login" className="font-semibold text-primary hover:underline">
+            Sign in
+          </Link>{" "}
+          and open this link again.
+        </p>
+      </div>
+    );
+  } else if (profile?.tenant_id) {
+    body = (
+      <p className="text-sm text-muted-foreground">
+        You&apos;re signed in as {user.email}, which already belongs to another organization. Sign out
+        and create an account with {invitation.email} to join {invitation.organizationName}.
+      </p>
+    );
+  } else {
+    body = <AcceptInvitationButton token={token} organizationName={invitation.organizationName} />;
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted/30 p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">
+            {invitation ? `Join ${invitation.organizationName}` : "Invitation not found"}
+          </CardTitle>
+          {invitation && (
+            <CardDescription>
+              {invitation.email} was invited as {ROLE_LABELS[invitation.role].toLowerCase()}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent>{body}</CardContent>
+      </Card>
+    </div>
+  );
+}
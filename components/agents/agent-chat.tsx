@@ -4,23 +4,30 @@ import { useState, useRef, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Bot, User, Loader2, Send, FileText } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Bot, User, Loader2, Send, FileText, FlaskConical } from "lucide-react";
+import type { SimulatedAction } from "@/lib/agents/sandbox";
 
 interface Message {
   role: "user" | "assistant";
   content: string;
   sources?: string[];
+  simulatedActions?: SimulatedAction[];
 }
 
 interface AgentChatProps {
   agentId: string;
   agentStatus: string;
+  agentType?: string;
 }
 
-export function AgentChat({ agentId, agentStatus }: AgentChatProps) {
+export function AgentChat({ agentId, agentStatus, agentType }: AgentChatProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [sending, setSending] = useState(false);
+  // Business Assistants only: simulate write tools for this chat session
+  const [sandbox, setSandbox] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -42,7 +49,12 @@ export function AgentChat({ agentId, agentStatus }: AgentChatProps) {
 
     try {
       const { sendMessage } = await import("@/lib/ai/chat");
-      const response = await sendMessage(agentId, userMessage, messages);
+      const response = await sendMessage(
+        agentId,
+        userMessage,
+        messages.map(({ role, content }) => ({ role, content })),
+        { sandbox }
+      );
 
       if (response.error) {
         setError(response.error);
@@ -53,7 +65,8 @@ export function AgentChat({ agentId, agentStatus }: AgentChatProps) {
         setMessages((prev) => [...prev, { 
           role: "assistant", 
           content: response.message!,
-          sources: response.sources 
+          sources: response.sources,
+          simulatedActions: response.simulatedActions,
         }]);
       }
     } catch (err) {
@@ -107,6 +120,22 @@ export function AgentChat({ agentId, agentStatus }: AgentChatProps) {
                   }`}
                 >
                   <p className="whitespace-pre-wrap">{message.content}</p>
+                  {message.simulatedActions && message.simulatedActions.length > 0 && (
+                    <div className="mt-2 pt-2 border-t border-gray-100 space-y-1">
+                      <div className="flex items-center gap-1 text-xs text-amber-700">
+                        <FlaskConical className="w-3 h-3" />
+                        <span>Simulated in sandbox (not executed):</span>
+                      </div>
+                      {message.simulatedActions.map((action, idx) => (
+                        <details key={idx} className="text-xs text-gray-600">
+                          <summary className="cursor-pointer">{action.label}</summary>
+                          <pre className="mt-1 p-2 bg-gray-50 rounded whitespace-pre-wrap break-all">
+                            {JSON.stringify(action.params, null, 2)}
+                          </pre>
+                        </details>
+                      ))}
+                    </div>
+                  )}
                   {message.role === "assistant" && message.sources && message.sources.length > 0 && (
                     <div className="mt-2 pt-2 border-t border-gray-100">
                       <div className="flex items-center gap-1 text-xs text-gray-500 mb-1">
@@ -158,7 +187,20 @@ export function AgentChat({ agentId, agentStatus }: AgentChatProps) {
       )}
 
       {/* Input */}
-      <div className="border-t bg-white p-4">
+      <div className="border-t bg-white p-4 space-y-3">
+        {agentType === "business_assistant" && (
+          <div className="flex items-center gap-2">
+            <Switch id="chat-sandbox" checked={sandbox} onCheckedChange={setSandbox} />
+            <Label htmlFor="chat-sandbox" className="text-sm font-normal">
+              Sandbox mode
+            </Label>
+            <span className="text-xs text-muted-foreground">
+              {sandbox
+                ? "Emails, deals and other changes are simulated. Unconnected integrations return sample data."
+                : "Tools act on your connected integrations."}
+            </span>
+          </div>
+        )}
         <div className="flex gap-2">
           <Input
             placeholder="Type your message..."
@@ -0,0 +1,197 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { rollbackAgentConfig } from "@/lib/agents/actions";
+import { diffConfigs, diffLines } from "@/lib/agents/config-diff";
+import type { AgentConfigVersion } from "@/lib/agents/versions";
+
+interface AgentConfigHistoryProps {
+  agentId: string;
+  currentVersion: number;
+  /** Newest first */
+  versions: AgentConfigVersion[];
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+export function AgentConfigHistory({ agentId, currentVersion, versions }: AgentConfigHistoryProps) {
+  const router = useRouter();
+  const [from, setFrom] = useState(String(versions[1]?.version ?? versions[0].version));
+  const [to, setTo] = useState(String(versions[0].version));
+  const [restoring, setRestoring] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const changes = useMemo(() => {
+    const before = versions.find((v) => String(v.version) === from);
+    const after = versions.find((v) => String(v.version) === to);
+    return diffConfigs(before?.config, after?.config);
+  }, [versions, from, to]);
+
+  const handleRestore = async (version: number) => {
+    if (!confirm(`Restore version ${version}? The agent will start using it immediately.`)) return;
+
+    setRestoring(version);
+    setError(null);
+
+    const result = await rollbackAgentConfig(agentId, version);
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      router.refresh();
+    }
+    setRestoring(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <History className="w-5 h-5" />
+          <CardTitle>Version History</CardTitle>
+        </div>
+        <CardDescription>
+          Every saved configuration is kept. Compare any two versions or restore an earlier one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Versions */}
+        <div className="divide-y rounded-md border">
+          {versions.map((version) => (
+            <div key={version.id} className="flex flex-col sm:flex-row sm:items-center gap-2 p-3">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">Version {version.version}</span>
+                  {version.version === currentVersion && <Badge>Live</Badge>}
+                  {version.restored_from && (
+                    <Badge variant="outline" className="text-xs">
+                      Restored from v{version.restored_from}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm text-muted-foreground truncate">
+                  {new Date(version.created_at).toLocaleString()}
+                  {version.author_email && ` · ${version.author_email}`}
+                  {version.note && ` · ${version.note}`}
+                </p>
+              </div>
+              {version.version !== currentVersion && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleRestore(version.version)}
+                  disabled={restoring !== null}
+                >
+                  {restoring === version.version ? (
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  ) : (
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                  )}
+                  Restore
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Compare */}
+        {versions.length > 1 && (
+          <div className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-3">
+              <div className="space-y-2 flex-1">
+                <Label>Compare</Label>
+                <Select value={from} onValueChange={setFrom}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={String(version.version)}>
+                        Version {version.version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 flex-1">
+                <Label>With</Label>
+                <Select value={to} onValueChange={setTo}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.map((version) => (
+                      <SelectItem key={version.id} value={String(version.version)}>
+                        Version {version.version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {changes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">These versions have the same configuration.</p>
+            ) : (
+              <div className="space-y-3">
+                {changes.map((change) => (
+                  <div key={change.path} className="rounded-md border p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono text-xs">{change.path}</span>
+                      <Badge variant="secondary" className="text-xs">
+                        {change.kind}
+                      </Badge>
+                    </div>
+                    {change.path === "instructions" ? (
+                      <pre className="text-xs whitespace-pre-wrap break-words font-mono max-h-96 overflow-y-auto">
+                        {diffLines(formatValue(change.before), formatValue(change.after)).map((line, index) => (
+                          <div
+                            key={index}
+                            className={
+                              line.type === "added"
+                                ? "bg-green-50 text-green-800"
+                                : line.type === "removed"
+                                  ? "bg-red-50 text-red-800"
+                                  : "text-muted-foreground"
+                            }
+                          >
+                            {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+                            {line.text}
+                          </div>
+                        ))}
+                      </pre>
+                    ) : (
+                      <p className="text-sm break-all">
+                        <span className="text-red-700 line-through">{formatValue(change.before)}</span>{" "}
+                        → <span className="text-green-700">{formatValue(change.after)}</span>
+                      </p>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -21,6 +21,10 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { ArrowLeft, Save, ExternalLink } from "lucide-react";
 import Link from "next/link";
 import { LeadCollectionSettings, type LeadCollectionConfig } from "@/components/agents/lead-collection-settings";
+import { WRITE_TOOLS } from "@/lib/agents/write-tools";
+import { AgentConfigHistory } from "@/components/agents/agent-config-history";
+import type { AgentConfigVersion } from "@/lib/agents/versions";
+import type { RetrievalSettings } from "@/lib/knowledge/hybrid";
 
 const AGENT_TYPES = [
   { value: "support", label: "Customer Support" },
@@ -66,16 +70,23 @@ interface AgentEditFormProps {
     name: string;
     type: string;
     description: string;
+    email_address?: string | null;
+    config_version?: number | null;
     config: {
       model: string;
+      fallbackModels?: string[];
       tone: string;
       instructions: string;
       leadCollection?: any;
+      requireApproval?: string[];
+      slack?: { channels?: string[]; directMessages?: boolean };
+      retrieval?: Partial<RetrievalSettings>;
     };
   };
+  versions?: AgentConfigVersion[];
 }
 
-export function AgentEditForm({ agent }: AgentEditFormProps) {
+export function AgentEditForm({ agent, versions = [] }: AgentEditFormProps) {
   const router = useRouter();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -86,6 +97,20 @@ export function AgentEditForm({ agent }: AgentEditFormProps) {
   const [availableIntegrations, setAvailableIntegrations] = useState<any[]>([]);
   const [loadingIntegrations, setLoadingIntegrations] = useState(true);
 
+  // Inbound email address routed to this agent
+  const [emailAddress, setEmailAddress] = useState(agent.email_address || "");
+
+  // Slack routing, edited as a comma-separated list of channel IDs
+  const [slackChannels, setSlackChannels] = useState((agent.config?.slack?.channels || []).join(", "));
+  const [slackDirectMessages, setSlackDirectMessages] = useState(!!agent.config?.slack?.directMessages);
+  const [versionNote, setVersionNote] = useState("");
+
+  // Knowledge retrieval overrides; blank fields and untouched toggles keep the global defaults
+  const [contextLimit, setContextLimit] = useState(agent.config?.retrieval?.contextLimit?.toString() ?? "");
+  const [threshold, setThreshold] = useState(agent.config?.retrieval?.threshold?.toString() ?? "");
+  const [hybridSearch, setHybridSearch] = useState(agent.config?.retrieval?.hybrid);
+  const [rerank, setRerank] = useState(agent.config?.retrieval?.rerank);
+
   // Form data initialized with agent values
   const [formData, setFormData] = useState<{
     name: string;
@@ -93,14 +118,17 @@ export function AgentEditForm({ agent }: AgentEditFormProps) {
     description: string;
     instructions: string;
     model: string;
+    fallbackModels: string[];
     tone: string;
     leadCollection: LeadCollectionConfig;
+    requireApproval: string[];
   }>({
     name: agent.name,
     type: agent.type,
     description: agent.description,
     instructions: agent.config?.instructions || "",
     model: agent.config?.model || "gemini-2.5-flash",
+    fallbackModels: agent.config?.fallbackModels || [],
     tone: agent.config?.tone || "professional",
     leadCollection: agent.config?.leadCollection || {
       enabled: false,
@@ -113,6 +141,7 @@ export function AgentEditForm({ agent }: AgentEditFormProps) {
       welcomeMessage: "Let us know how to reach you",
       submitButtonText: "Start Chat",
     },
+    requireApproval: agent.config?.requireApproval || [],
   });
 
   // Load integrations and user plan on mount
@@ -205,7 +234,20 @@ export function AgentEditForm({ agent }: AgentEditFormProps) {
       const { updateAgent } = await import("@/lib/agents/actions");
       const result = await updateAgent(agent.id, {
         ...formData,
+        fallbackModels: formData.fallbackModels.filter((name) => name !== formData.model),
         integration_ids: selectedIntegrations,
+        emailAddress,
+        versionNote,
+        slack: {
+          channels: slackChannels.split(",").map((channel) => channel.trim()).filter(Boolean),
+          directMessages: slackDirectMessages,
+        },
+        retrieval: {
+          ...(contextLimit.trim() && { contextLimit: Number(contextLimit) }),
+          ...(threshold.trim() && { threshold: Number(threshold) }),
+          ...(hybridSearch !== undefined && { hybrid: hybridSearch }),
+          ...(rerank !== undefined && { rerank }),
+        },
       });
 
       if (result.error) {
@@ -379,6 +421,57 @@ export function AgentEditForm({ agent }: AgentEditFormProps) {
             </CardContent>
           </Card>
 
+          {/* Fallback Models Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Fallback Models</CardTitle>
+              <CardDescription>
+                Tried in the order selected when the primary model is rate limited or unavailable
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {AI_MODELS.filter((model) => model.value !== formData.model).map((model) => {
+                  const isAllowed = canUseModel(userPlan, model.value);
+                  const position = formData.fallbackModels.indexOf(model.value);
+                  return (
+                    <div key={model.value} className="flex items-center space-x-3">
+                      <Checkbox
+                        id={`fallback-${model.value}`}
+                        checked={position >= 0}
+                        disabled={!isAllowed && position < 0}
+                        onCheckedChange={(checked) => {
+                          setFormData((prev) => ({
+                            ...prev,
+                            fallbackModels: checked
+                              ? [...prev.fallbackModels, model.value]
+                              : prev.fallbackModels.filter((name) => name !== model.value),
+                          }));
+                        }}
+                      />
+                      <label
+                        htmlFor={`fallback-${model.value}`}
+                        className={`text-sm cursor-pointer ${!isAllowed ? "opacity-50" : ""}`}
+                      >
+                        {model.label}
+                      </label>
+                      {position >= 0 && (
+                        <Badge variant="secondary" className="text-xs">
+                          #{position + 1}
+                        </Badge>
+                      )}
+                      {!isAllowed && (
+                        <Badge variant="outline" className="text-xs">
+                          Upgrade
+                        </Badge>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Integrations Section */}
           <Card>
             <CardHeader>
@@ -463,9 +556,181 @@ export function AgentEditForm({ agent }: AgentEditFormProps) {
             </CardContent>
           </Card>
 
+          {/* Approval Policy Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Approval Policy</CardTitle>
+              <CardDescription>
+                Hold selected actions for review in Approvals before they run
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {Object.entries(WRITE_TOOLS).map(([toolName, spec]) => (
+                  <div key={toolName} className="flex items-center space-x-3">
+                    <Checkbox
+                      id={`approval-${toolName}`}
+                      checked={formData.requireApproval.includes(toolName)}
+                      onCheckedChange={(checked) => {
+                        setFormData((prev) => ({
+                          ...prev,
+                          requireApproval: checked
+                            ? [...prev.requireApproval, toolName]
+                            : prev.requireApproval.filter((name) => name !== toolName),
+                        }));
+                      }}
+                    />
+                    <label htmlFor={`approval-${toolName}`} className="text-sm cursor-pointer">
+                      {spec.label}
+                      <span className="text-muted-foreground"> ({spec.integrationName})</span>
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Knowledge Retrieval Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Knowledge Retrieval</CardTitle>
+              <CardDescription>
+                How many knowledge base chunks this agent adds to each answer, and how they are found
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="retrieval-context-limit">Context Chunks</Label>
+                  <Input
+                    id="retrieval-context-limit"
+                    type="number"
+                    min={1}
+                    max={50}
+                    placeholder="Default (3)"
+                    value={contextLimit}
+                    onChange={(e) => setContextLimit(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="retrieval-threshold">Similarity Threshold</Label>
+                  <Input
+                    id="retrieval-threshold"
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    placeholder="Default (0.7)"
+                    value={threshold}
+                    onChange={(e) => setThreshold(e.target.value)}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Lower the threshold for broad questions; raise it when answers pick up unrelated content.
+              </p>
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="retrieval-hybrid"
+                  checked={hybridSearch ?? true}
+                  onCheckedChange={(checked) => setHybridSearch(checked === true)}
+                />
+                <label htmlFor="retrieval-hybrid" className="text-sm cursor-pointer">
+                  Hybrid search
+                  <span className="text-muted-foreground"> (also match exact keywords such as SKUs and error codes)</span>
+                </label>
+              </div>
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="retrieval-rerank"
+                  checked={rerank ?? false}
+                  onCheckedChange={(checked) => setRerank(checked === true)}
+                />
+                <label htmlFor="retrieval-rerank" className="text-sm cursor-pointer">
+                  Rerank results
+                  <span className="text-muted-foreground"> (slower, more precise; requires a Cohere API key)</span>
+                </label>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Inbound Email Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Inbound Email</CardTitle>
+              <CardDescription>
+                Email sent to this address is answered by this agent, with replies kept in the same thread
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="email-address">Address</Label>
+              <Input
+                id="email-address"
+                type="email"
+                placeholder="your-workspace.support@inbound.zapta.ai"
+                value={emailAddress}
+                onChange={(e) => setEmailAddress(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Use your workspace slug, optionally followed by a dot and a name, on the inbound email domain, and
+                forward your own support address to it. Plus-addressed mail such as
+                your-workspace.support+billing@inbound.zapta.ai also reaches this agent.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* Slack Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Slack</CardTitle>
+              <CardDescription>
+                Answer @mentions and direct messages in your connected Slack workspace
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="slack-channels">Channel IDs</Label>
+                <Input
+                  id="slack-channels"
+                  className="font-mono"
+                  placeholder="C0123456789, C0987654321"
+                  value={slackChannels}
+                  onChange={(e) => setSlackChannels(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Comma-separated channel IDs where this agent answers mentions. Use * for any channel
+                  without a dedicated agent.
+                </p>
+              </div>
+              <div className="flex items-center space-x-3">
+                <Checkbox
+                  id="slack-direct-messages"
+                  checked={slackDirectMessages}
+                  onCheckedChange={(checked) => setSlackDirectMessages(checked === true)}
+                />
+                <label htmlFor="slack-direct-messages" className="text-sm cursor-pointer">
+                  Respond to direct messages
+                </label>
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Submit Buttons */}
           <Card>
             <CardContent className="pt-6">
+              <div className="space-y-2">
+                <Label htmlFor="versionNote">Change Note (Optional)</Label>
+                <Input
+                  id="versionNote"
+                  placeholder="e.g., Shorter answers, added refund policy"
+                  value={versionNote}
+                  onChange={(e) => setVersionNote(e.target.value)}
+                  maxLength={200}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Saved with this configuration version so you can find it in the history below
+                </p>
+              </div>
               <div className="flex gap-3 pt-4">
                 <Button type="submit" disabled={loading} className="flex-1">
                   {loading ? (
@@ -489,6 +754,14 @@ export function AgentEditForm({ agent }: AgentEditFormProps) {
             </CardContent>
           </Card>
         </form>
+
+        {versions.length > 0 && (
+          <AgentConfigHistory
+            agentId={agent.id}
+            currentVersion={agent.config_version ?? versions[0].version}
+            versions={versions}
+          />
+        )}
       </div>
     </div>
   );
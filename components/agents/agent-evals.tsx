@@ -0,0 +1,522 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FlaskConical, Loader2, Pencil, Play, Plus, Trash2 } from "lucide-react";
+import {
+  createEvalSuite,
+  deleteEvalCase,
+  deleteEvalSuite,
+  evaluateAgentVersion,
+  getEvalResults,
+  saveEvalCase,
+  type EvalCase,
+  type EvalResult,
+  type EvalRun,
+  type EvalSuite,
+} from "@/lib/evals/actions";
+import { compareEvalResults } from "@/lib/evals/compare";
+
+interface AgentEvalsProps {
+  agentId: string;
+  currentVersion: number;
+  suites: EvalSuite[];
+  /** Newest first */
+  runs: EvalRun[];
+  /** Config version numbers, newest first */
+  versions: number[];
+}
+
+interface CaseForm {
+  id?: string;
+  name: string;
+  input: string;
+  expectedFacts: string;
+  forbiddenPhrases: string;
+  requiredTools: string;
+  rubric: string;
+  fixtures: string;
+}
+
+const EMPTY_CASE: CaseForm = {
+  name: "",
+  input: "",
+  expectedFacts: "",
+  forbiddenPhrases: "",
+  requiredTools: "",
+  rubric: "",
+  fixtures: "{}",
+};
+
+const CHANGE_STYLES: Record<string, string> = {
+  improved: "bg-green-100 text-green-800",
+  regressed: "bg-red-100 text-red-800",
+  unchanged: "bg-gray-100 text-gray-700",
+  added: "bg-blue-100 text-blue-800",
+  removed: "bg-gray-100 text-gray-500",
+};
+
+function toLines(value: string): string[] {
+  return value.split("\n").map((line) => line.trim()).filter(Boolean);
+}
+
+function toCaseForm(evalCase: EvalCase): CaseForm {
+  return {
+    id: evalCase.id,
+    name: evalCase.name,
+    input: evalCase.input,
+    expectedFacts: evalCase.expected_facts.join("\n"),
+    forbiddenPhrases: evalCase.forbidden_phrases.join("\n"),
+    requiredTools: evalCase.required_tools.join("\n"),
+    rubric: evalCase.rubric || "",
+    fixtures: JSON.stringify(evalCase.fixtures || {}, null, 2),
+  };
+}
+
+function formatScore(score: number | null | undefined): string {
+  return score === null || score === undefined ? "—" : `${Math.round(Number(score) * 100)}%`;
+}
+
+function ResultCell({ result }: { result: EvalResult | null }) {
+  if (!result) return <p className="text-sm text-muted-foreground">Not in this run</p>;
+
+  return (
+    <div className="space-y-2 min-w-0">
+      <div className="flex items-center gap-2">
+        <Badge variant={result.passed ? "default" : "destructive"}>{result.passed ? "Pass" : "Fail"}</Badge>
+        <span className="text-sm font-medium">{formatScore(result.score)}</span>
+      </div>
+      {result.error ? (
+        <p className="text-sm text-red-700 break-words">{result.error}</p>
+      ) : (
+        <p className="text-sm whitespace-pre-wrap break-words max-h-40 overflow-y-auto">{result.output}</p>
+      )}
+      {result.tool_calls.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Tools: {result.tool_calls.map((call) => call.toolName).join(", ")}
+        </p>
+      )}
+      <ul className="space-y-1">
+        {result.checks.map((check) => (
+          <li key={check.name} className="text-xs">
+            <span className={check.passed ? "text-green-700" : "text-red-700"}>{check.passed ? "✓" : "✗"}</span>{" "}
+            <span className="font-medium">{check.name}</span>
+            {check.detail && <span className="text-muted-foreground"> · {check.detail}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function AgentEvals({ agentId, currentVersion, suites, runs, versions }: AgentEvalsProps) {
+  const router = useRouter();
+  const [suiteId, setSuiteId] = useState(suites[0]?.id ?? "");
+  const [newSuiteName, setNewSuiteName] = useState("");
+  const [caseForm, setCaseForm] = useState<CaseForm | null>(null);
+  const [runVersion, setRunVersion] = useState(String(currentVersion));
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [compare, setCompare] = useState<{ before: string; after: string }>({ before: "", after: "" });
+  const [results, setResults] = useState<Record<string, EvalResult[]>>({});
+
+  const suite = suites.find((s) => s.id === suiteId);
+  const suiteRuns = useMemo(() => runs.filter((run) => run.suite_id === suiteId), [runs, suiteId]);
+
+  // Default the comparison to the two latest completed runs of the suite
+  useEffect(() => {
+    const completed = suiteRuns.filter((run) => run.status === "completed");
+    setCompare({ before: completed[1]?.id ?? "", after: completed[0]?.id ?? "" });
+  }, [suiteRuns]);
+
+  // Load results for the runs being compared
+  useEffect(() => {
+    for (const runId of [compare.before, compare.after]) {
+      if (!runId || results[runId]) continue;
+      getEvalResults(runId).then((result) => {
+        if (result.results) {
+          setResults((prev) => ({ ...prev, [runId]: result.results }));
+        }
+      });
+    }
+  }, [compare, results]);
+
+  const comparison = useMemo(() => {
+    const after = results[compare.after];
+    if (!after) return null;
+    return compareEvalResults(compare.before ? results[compare.before] || [] : [], after);
+  }, [compare, results]);
+
+  const perform = async (key: string, action: () => Promise<{ error?: string }>) => {
+    setBusy(key);
+    setError(null);
+
+    const result = await action();
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      router.refresh();
+    }
+    setBusy(null);
+    return !result.error;
+  };
+
+  const handleCreateSuite = async () => {
+    const created = await perform("suite", () => createEvalSuite(agentId, { name: newSuiteName }));
+    if (created) setNewSuiteName("");
+  };
+
+  const handleDeleteSuite = async () => {
+    if (!suite || !confirm(`Delete "${suite.name}" with its cases and runs?`)) return;
+    const deleted = await perform("delete-suite", () => deleteEvalSuite(suite.id));
+    if (deleted) setSuiteId(suites.find((s) => s.id !== suite.id)?.id ?? "");
+  };
+
+  const handleSaveCase = async () => {
+    if (!caseForm || !suite) return;
+
+    let fixtures;
+    try {
+      fixtures = JSON.parse(caseForm.fixtures || "{}");
+    } catch {
+      setError("Fixtures must be valid JSON");
+      return;
+    }
+
+    const saved = await perform("case", () =>
+      saveEvalCase(
+        suite.id,
+        {
+          name: caseForm.name,
+          input: caseForm.input,
+          expectedFacts: toLines(caseForm.expectedFacts),
+          forbiddenPhrases: toLines(caseForm.forbiddenPhrases),
+          requiredTools: toLines(caseForm.requiredTools),
+          rubric: caseForm.rubric,
+          fixtures,
+        },
+        caseForm.id
+      )
+    );
+    if (saved) setCaseForm(null);
+  };
+
+  const handleDeleteCase = async (evalCase: EvalCase) => {
+    if (!confirm(`Delete case "${evalCase.name}"?`)) return;
+    await perform(`delete-${evalCase.id}`, () => deleteEvalCase(evalCase.id));
+  };
+
+  const handleRun = async () => {
+    if (!suite) return;
+    await perform("run", () => evaluateAgentVersion(suite.id, Number(runVersion)));
+  };
+
+  const runLabel = (run: EvalRun) =>
+    `v${run.config_version} · ${formatScore(run.score)} · ${new Date(run.started_at).toLocaleString()}`;
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {/* Suites */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <FlaskConical className="w-5 h-5" />
+            <CardTitle>Test Suites</CardTitle>
+          </div>
+          <CardDescription>
+            Each case sends a question to the agent and checks the answer for expected facts, forbidden phrases,
+            required tool calls and, optionally, a rubric graded by a model.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-3">
+            {suites.length > 0 && (
+              <Select value={suiteId} onValueChange={setSuiteId}>
+                <SelectTrigger className="sm:w-72">
+                  <SelectValue placeholder="Select a suite" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suites.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>
+                      {s.name} ({s.cases.length})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <div className="flex gap-2 flex-1">
+              <Input
+                placeholder="New suite name"
+                value={newSuiteName}
+                onChange={(e) => setNewSuiteName(e.target.value)}
+              />
+              <Button type="button" variant="outline" onClick={handleCreateSuite} disabled={!newSuiteName.trim() || busy !== null}>
+                {busy === "suite" ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+                Create
+              </Button>
+            </div>
+          </div>
+
+          {suite && (
+            <>
+              <div className="divide-y rounded-md border">
+                {suite.cases.length === 0 && (
+                  <p className="p-3 text-sm text-muted-foreground">No cases yet.</p>
+                )}
+                {suite.cases.map((evalCase) => (
+                  <div key={evalCase.id} className="flex items-center gap-2 p-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium">{evalCase.name}</p>
+                      <p className="text-sm text-muted-foreground truncate">{evalCase.input}</p>
+                    </div>
+                    <Button type="button" variant="ghost" size="sm" onClick={() => setCaseForm(toCaseForm(evalCase))}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeleteCase(evalCase)}
+                      disabled={busy !== null}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={() => setCaseForm({ ...EMPTY_CASE })}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Case
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={handleDeleteSuite} disabled={busy !== null}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete Suite
+                </Button>
+              </div>
+            </>
+          )}
+
+          {caseForm && (
+            <div className="rounded-md border p-4 space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="case-name">Name</Label>
+                  <Input
+                    id="case-name"
+                    value={caseForm.name}
+                    onChange={(e) => setCaseForm({ ...caseForm, name: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="case-input">Question</Label>
+                  <Input
+                    id="case-input"
+                    value={caseForm.input}
+                    onChange={(e) => setCaseForm({ ...caseForm, input: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="case-facts">Expected Facts (one per line)</Label>
+                  <Textarea
+                    id="case-facts"
+                    rows={3}
+                    value={caseForm.expectedFacts}
+                    onChange={(e) => setCaseForm({ ...caseForm, expectedFacts: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="case-forbidden">Forbidden Phrases (one per line)</Label>
+                  <Textarea
+                    id="case-forbidden"
+                    rows={3}
+                    value={caseForm.forbiddenPhrases}
+                    onChange={(e) => setCaseForm({ ...caseForm, forbiddenPhrases: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="case-tools">Required Tools (one per line)</Label>
+                  <Textarea
+                    id="case-tools"
+                    rows={3}
+                    placeholder="getRevenue"
+                    value={caseForm.requiredTools}
+                    onChange={(e) => setCaseForm({ ...caseForm, requiredTools: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="case-rubric">Rubric (Optional)</Label>
+                  <Textarea
+                    id="case-rubric"
+                    rows={3}
+                    placeholder="Gives the January total from Stripe and offers a breakdown"
+                    value={caseForm.rubric}
+                    onChange={(e) => setCaseForm({ ...caseForm, rubric: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="case-fixtures">Recorded Integration Responses (JSON)</Label>
+                <Textarea
+                  id="case-fixtures"
+                  rows={6}
+                  className="font-mono text-xs"
+                  placeholder='{ "stripe": { "getRevenue": { "total": 12500 } } }'
+                  value={caseForm.fixtures}
+                  onChange={(e) => setCaseForm({ ...caseForm, fixtures: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Only providers listed here count as connected during the run.
+                </p>
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" onClick={handleSaveCase} disabled={busy !== null}>
+                  {busy === "case" && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Save Case
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setCaseForm(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Runs */}
+      {suite && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Runs</CardTitle>
+            <CardDescription>
+              Score a config version against &quot;{suite.name}&quot;. Each case counts as one message.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="flex flex-col sm:flex-row gap-3">
+              <Select value={runVersion} onValueChange={setRunVersion}>
+                <SelectTrigger className="sm:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version} value={String(version)}>
+                      Version {version}
+                      {version === currentVersion ? " (live)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="button" onClick={handleRun} disabled={busy !== null || suite.cases.length === 0}>
+                {busy === "run" ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+                Run Suite
+              </Button>
+            </div>
+
+            {suiteRuns.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No runs yet.</p>
+            ) : (
+              <div className="divide-y rounded-md border">
+                {suiteRuns.map((run) => (
+                  <div key={run.id} className="flex flex-wrap items-center gap-2 p-3 text-sm">
+                    <span className="font-medium">Version {run.config_version}</span>
+                    <Badge variant={run.status === "failed" ? "destructive" : "secondary"}>{run.status}</Badge>
+                    <span>{formatScore(run.score)}</span>
+                    <span className="text-muted-foreground">
+                      {run.passed_count}/{run.case_count} passed · {new Date(run.started_at).toLocaleString()}
+                    </span>
+                    {run.error && <span className="text-red-700">{run.error}</span>}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Compare */}
+            {suiteRuns.some((run) => run.status === "completed") && (
+              <div className="space-y-4">
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <div className="space-y-2 flex-1">
+                    <Label>Compare</Label>
+                    <Select
+                      value={compare.before || "none"}
+                      onValueChange={(value) => setCompare({ ...compare, before: value === "none" ? "" : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Nothing</SelectItem>
+                        {suiteRuns
+                          .filter((run) => run.status === "completed")
+                          .map((run) => (
+                            <SelectItem key={run.id} value={run.id}>
+                              {runLabel(run)}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2 flex-1">
+                    <Label>With</Label>
+                    <Select value={compare.after} onValueChange={(value) => setCompare({ ...compare, after: value })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {suiteRuns
+                          .filter((run) => run.status === "completed")
+                          .map((run) => (
+                            <SelectItem key={run.id} value={run.id}>
+                              {runLabel(run)}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {!comparison ? (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Loading results...
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {comparison.map((row) => (
+                      <div key={`${row.caseName}-${row.after?.id ?? row.before?.id}`} className="rounded-md border p-3 space-y-3">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium">{row.caseName}</span>
+                          <span className={`text-xs px-2 py-0.5 rounded ${CHANGE_STYLES[row.change]}`}>{row.change}</span>
+                        </div>
+                        <div className="grid gap-4 md:grid-cols-2">
+                          <ResultCell result={row.before} />
+                          <ResultCell result={row.after} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
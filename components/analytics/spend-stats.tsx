@@ -0,0 +1,93 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DollarSign } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+
+interface SpendStatsProps {
+  metrics: {
+    totalCostUsd: number;
+    inputTokens: number;
+    outputTokens: number;
+    executions: number;
+    avgLatencyMs: number;
+    byAgent: Array<{
+      id: string;
+      name: string;
+      costUsd: number;
+      inputTokens: number;
+      outputTokens: number;
+      executions: number;
+    }>;
+  };
+}
+
+function formatCost(value: number) {
+  return `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+}
+
+export function SpendStats({ metrics }: SpendStatsProps) {
+  const maxCost = Math.max(...metrics.byAgent.map(a => a.costUsd), 0.000001);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="w-5 h-5" />
+          Model Spend
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Tenant Totals */}
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Estimated Cost</p>
+            <p className="text-3xl font-bold">{formatCost(metrics.totalCostUsd)}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Model Calls</p>
+            <p className="text-3xl font-bold">{metrics.executions}</p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Tokens (in / out)</p>
+            <p className="text-xl font-bold">
+              {metrics.inputTokens.toLocaleString()} / {metrics.outputTokens.toLocaleString()}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Avg Latency</p>
+            <p className="text-3xl font-bold">{(metrics.avgLatencyMs / 1000).toFixed(1)}s</p>
+          </div>
+        </div>
+
+        {/* Agent Breakdown */}
+        {metrics.byAgent.length > 0 ? (
+          <div className="space-y-4">
+            <h4 className="text-sm font-medium">By Agent</h4>
+            {metrics.byAgent.map((agent) => (
+              <div key={agent.id} className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{agent.name}</span>
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm text-muted-foreground">
+                      {agent.executions} calls · {(agent.inputTokens + agent.outputTokens).toLocaleString()} tokens
+                    </span>
+                    <span className="text-sm font-medium">{formatCost(agent.costUsd)}</span>
+                  </div>
+                </div>
+                <Progress
+                  value={(agent.costUsd / maxCost) * 100}
+                  className="h-2"
+                />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No model usage recorded yet
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import { useCallback, useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ShieldCheck, Calendar, Loader2, Check, X, Pencil } from "lucide-react";
+import {
+  getPendingActions,
+  approvePendingAction,
+  rejectPendingAction,
+  type PendingAction,
+} from "@/lib/approvals/actions";
+import { WRITE_TOOLS, isWriteTool } from "@/lib/agents/write-tools";
+
+const statusVariants: Record<PendingAction["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "default",
+  approved: "secondary",
+  executed: "secondary",
+  rejected: "outline",
+  failed: "destructive",
+};
+
+export function PendingActionsList() {
+  const [actions, setActions] = useState<PendingAction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedStatus, setSelectedStatus] = useState<string>("pending");
+
+  // Action currently being reviewed
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editedArgs, setEditedArgs] = useState("");
+
+  const loadActions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const result = await getPendingActions({ status: selectedStatus });
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setActions(result.actions || []);
+    }
+
+    setLoading(false);
+  }, [selectedStatus]);
+
+  // Load actions
+  useEffect(() => {
+    loadActions();
+  }, [loadActions]);
+
+  const startEditing = (action: PendingAction) => {
+    setEditingId(action.id);
+    setEditedArgs(JSON.stringify(action.args, null, 2));
+  };
+
+  const handleApprove = async (action: PendingAction) => {
+    let args: Record<string, any> | undefined;
+
+    if (editingId === action.id) {
+      try {
+        args = JSON.parse(editedArgs);
+      } catch {
+        setError("Edited arguments must be valid JSON");
+        return;
+      }
+    }
+
+    setBusyId(action.id);
+    setError(null);
+
+    const result = await approvePendingAction(action.id, args);
+
+    if (result.error) {
+      setError(result.error);
+    }
+
+    setEditingId(null);
+    setBusyId(null);
+    await loadActions();
+  };
+
+  const handleReject = async (action: PendingAction) => {
+    const reason = prompt("Reason for rejecting (optional):");
+    if (reason === null) return;
+
+    setBusyId(action.id);
+    setError(null);
+
+    const result = await rejectPendingAction(action.id, reason || undefined);
+
+    if (result.error) {
+      setError(result.error);
+    }
+
+    setBusyId(null);
+    await loadActions();
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString();
+  };
+
+  return (
+    <div className="p-4 sm:p-6 md:p-8">
+      <div className="mx-auto max-w-7xl space-y-6 sm:space-y-8">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Approvals</h1>
+            <p className="text-sm sm:text-base text-muted-foreground mt-2">
+              Review actions your agents proposed before they run
+            </p>
+          </div>
+          <Select value={selectedStatus} onValueChange={setSelectedStatus}>
+            <SelectTrigger className="w-full sm:w-[200px]">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="executed">Executed</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="failed">Failed</SelectItem>
+              <SelectItem value="all">All</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Error Alert */}
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Loading State */}
+        {loading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        )}
+
+        {!loading && actions.length === 0 && (
+          <Card>
+            <CardContent className="py-12">
+              <div className="text-center">
+                <ShieldCheck className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">Nothing to review</h3>
+                <p className="text-muted-foreground">
+                  Actions appear here when an agent with an approval policy tries to use a write tool
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {!loading && actions.length > 0 && (
+          <div className="space-y-4">
+            {actions.map((action) => (
+              <Card key={action.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex-1 min-w-0">
+                      <CardTitle className="text-base sm:text-lg">
+                        {isWriteTool(action.tool_name) ? WRITE_TOOLS[action.tool_name].label : action.tool_name}
+                      </CardTitle>
+                      {action.agent && (
+                        <CardDescription className="mt-1 text-sm truncate">
+                          proposed by {action.agent.name}
+                        </CardDescription>
+                      )}
+                    </div>
+                    <Badge variant={statusVariants[action.status]} className="capitalize shrink-0">
+                      {action.status}
+                    </Badge>
+                  </div>
+                </CardHeader>
+
+                <CardContent className="space-y-3">
+                  {editingId === action.id ? (
+                    <Textarea
+                      value={editedArgs}
+                      onChange={(e) => setEditedArgs(e.target.value)}
+                      rows={10}
+                      className="font-mono text-xs"
+                    />
+                  ) : (
+                    <pre className="bg-muted rounded-md p-3 text-xs overflow-x-auto whitespace-pre-wrap">
+                      {JSON.stringify(action.args, null, 2)}
+                    </pre>
+                  )}
+
+                  {action.rejection_reason && (
+                    <p className="text-sm text-muted-foreground">
+                      Rejected: {action.rejection_reason}
+                    </p>
+                  )}
+
+                  {action.error_message && (
+                    <p className="text-sm text-destructive">{action.error_message}</p>
+                  )}
+
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 pt-2 border-t">
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Calendar className="w-3 h-3 shrink-0" />
+                      <span>{formatDate(action.created_at)}</span>
+                    </div>
+
+                    {action.status === "pending" && (
+                      <div className="flex gap-2">
+                        {editingId !== action.id && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => startEditing(action)}
+                            disabled={busyId === action.id}
+                          >
+                            <Pencil className="w-4 h-4 mr-1" />
+                            Edit
+                          </Button>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleReject(action)}
+                          disabled={busyId === action.id}
+                        >
+                          <X className="w-4 h-4 mr-1" />
+                          Reject
+                        </Button>
+                        <Button
+                          size="sm"
+                          onClick={() => handleApprove(action)}
+                          disabled={busyId === action.id}
+                        >
+                          {busyId === action.id ? (
+                            <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                          ) : (
+                            <Check className="w-4 h-4 mr-1" />
+                          )}
+                          Approve
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -15,7 +15,16 @@ import { PasswordStrength } from "@/components/auth/password-strength";
 import { PasswordInput } from "@/components/auth/password-input";
 import { signup } from "@/lib/auth/actions";
 
-export function SignupForm() {
+interface SignupFormProps {
+  /** Invitation being accepted; the user joins its organization instead of creating one */
+  invitation?: {
+    token: string;
+    email: string;
+    organizationName: string;
+  };
+}
+
+export function SignupForm({ invitation }: SignupFormProps = {}) {
   const router = useRouter();
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
@@ -103,18 +112,22 @@ export function SignupForm() {
         />
       </div>
 
-      {/* Organization name field */}
-      <div className="space-y-2">
-        <Label htmlFor="organizationName">Organization name</Label>
-        <Input
-          id="organizationName"
-          name="organizationName"
-          type="text"
-          placeholder="Acme Inc"
-          required
-          disabled={loading}
-        />
-      </div>
+      {/* Organization name field (invited users join the inviting organization) */}
+      {invitation ? (
+        <input type="hidden" name="inviteToken" value={invitation.token} />
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="organizationName">Organization name</Label>
+          <Input
+            id="organizationName"
+            name="organizationName"
+            type="text"
+            placeholder="Acme Inc"
+            required
+            disabled={loading}
+          />
+        </div>
+      )}
 
       {/* Email field */}
       <div className="space-y-2">
@@ -127,6 +140,8 @@ export function SignupForm() {
           required
           autoComplete="email"
           disabled={loading}
+          defaultValue={invitation?.email}
+          readOnly={!!invitation}
         />
       </div>
 
@@ -197,7 +212,7 @@ export function SignupForm() {
             Creating account...
           </span>
         ) : (
-          "Create account →"
+          invitation ? `Join ${invitation.organizationName} →` : "Create account →"
         )}
       </Button>
 
@@ -0,0 +1,171 @@
+/**
+ * Overage Settings Component
+ * Opt in to overage billing, set the spending cap and show this period's overage lines
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, Save } from "lucide-react";
+import { updateOverageSettings } from "@/lib/billing/actions";
+import type { OverageSummary } from "@/lib/billing/overage";
+import { useRouter } from "next/navigation";
+
+const METRIC_LABELS: Record<string, string> = {
+  messages: "Messages",
+  sms: "SMS",
+  email: "Emails",
+};
+
+function formatUsd(amount: number, fractionDigits = 2) {
+  return `$${amount.toFixed(fractionDigits)}`;
+}
+
+export function OverageSettings({ overage }: { overage: OverageSummary }) {
+  const router = useRouter();
+  const [enabled, setEnabled] = useState(overage.enabled);
+  const [cap, setCap] = useState(overage.capUsd?.toString() ?? "");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const capUsage = overage.capUsd ? Math.min((overage.totalCost / overage.capUsd) * 100, 100) : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    const result = await updateOverageSettings({
+      enabled,
+      capUsd: cap.trim() === "" ? null : Number(cap),
+    });
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setSuccess(enabled ? "Overage billing enabled" : "Overage settings saved");
+      router.refresh();
+    }
+    setIsLoading(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Overage</CardTitle>
+        <CardDescription>
+          {overage.supported
+            ? "Keep your agents running past plan limits and pay per unit, up to a monthly spending cap"
+            : "Usage stops at your plan limits. Upgrade to Pro or higher to pay for overage instead"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {success && (
+          <Alert className="border-green-200 bg-green-50">
+            <AlertDescription className="text-green-800">{success}</AlertDescription>
+          </Alert>
+        )}
+
+        {overage.supported && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor="overage-enabled">Allow overage</Label>
+                <p className="text-sm text-muted-foreground">
+                  Usage beyond your plan is billed at the end of the billing period
+                </p>
+              </div>
+              <Switch id="overage-enabled" checked={enabled} onCheckedChange={setEnabled} />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="overage-cap">Spending cap (USD per billing period)</Label>
+              <Input
+                id="overage-cap"
+                type="number"
+                min="1"
+                step="0.01"
+                placeholder="100.00"
+                value={cap}
+                onChange={(e) => setCap(e.target.value)}
+                className="max-w-[200px]"
+              />
+              <p className="text-sm text-muted-foreground">
+                Once reached, limits are enforced again until the next billing period
+              </p>
+            </div>
+
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Save
+            </Button>
+          </form>
+        )}
+
+        {overage.supported && (
+          <div className="space-y-2">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left text-muted-foreground">
+                    <th className="py-2 font-medium">Item</th>
+                    <th className="py-2 font-medium text-right">Included</th>
+                    <th className="py-2 font-medium text-right">Used</th>
+                    <th className="py-2 font-medium text-right">Overage</th>
+                    <th className="py-2 font-medium text-right">Unit price</th>
+                    <th className="py-2 font-medium text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {overage.lines.map((line) => (
+                    <tr key={line.metric} className="border-b last:border-0">
+                      <td className="py-2">{METRIC_LABELS[line.metric]}</td>
+                      <td className="py-2 text-right">
+                        {line.included === -1 ? "Unlimited" : line.included.toLocaleString()}
+                      </td>
+                      <td className="py-2 text-right">{line.used.toLocaleString()}</td>
+                      <td className="py-2 text-right">{line.overageQuantity.toLocaleString()}</td>
+                      <td className="py-2 text-right">
+                        {line.unitPrice === null ? "—" : formatUsd(line.unitPrice, 3)}
+                      </td>
+                      <td className="py-2 text-right">{formatUsd(line.cost)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex justify-between text-sm font-medium">
+              <span>Overage this period</span>
+              <span>
+                {formatUsd(overage.totalCost)}
+                {overage.capUsd !== null && (
+                  <span className="text-muted-foreground font-normal">
+                    {" "}of {formatUsd(overage.capUsd)} cap ({Math.round(capUsage)}%)
+                  </span>
+                )}
+              </span>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -18,6 +18,8 @@ import {
   BarChart3,
   Crown,
   Zap,
+  ShieldCheck,
+  CalendarClock,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -33,6 +35,8 @@ const navigation = [
   { name: "Dashboard", href: "/dashboard", icon: LayoutDashboard },
   { name: "Agents", href: "/agents", icon: Bot },
   { name: "Leads", href: "/leads", icon: Users },
+  { name: "Approvals", href: "/approvals", icon: ShieldCheck },
+  { name: "Schedules", href: "/schedules", icon: CalendarClock },
   { name: "Analytics", href: "/analytics", icon: BarChart3 },
   { name: "Conversations", href: "/conversations", icon: MessageSquare },
   { name: "Integrations", href: "/integrations", icon: Plug },
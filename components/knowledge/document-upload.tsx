@@ -1,11 +1,24 @@
 "use client";
 
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Progress } from "@/components/ui/progress";
 import { Upload, FileText, Loader2, X, CheckCircle2, AlertCircle } from "lucide-react";
-import { uploadDocument } from "@/lib/knowledge/client-actions";
+import { uploadDocument, getDocumentStatus, Document, IngestionStatus } from "@/lib/knowledge/client-actions";
+
+/** How often documents being ingested are checked for progress */
+const POLL_INTERVAL_MS = 2000;
+
+const INGESTION_LABELS: Record<IngestionStatus, string> = {
+  queued: "Queued for processing...",
+  extracting: "Extracting text...",
+  chunking: "Splitting into chunks...",
+  embedding: "Embedding",
+  indexed: "Indexed",
+  failed: "Failed",
+};
 
 interface DocumentUploadProps {
   agentId?: string;
@@ -15,10 +28,24 @@ interface DocumentUploadProps {
 interface FileWithStatus {
   file: File;
   id: string;
-  status: 'pending' | 'extracting' | 'uploading' | 'success' | 'error';
+  status: 'pending' | 'uploading' | 'processing' | 'success' | 'error';
   error?: string;
-  extractedText?: string;
-  chunksCreated?: number;
+  /** Latest ingestion state reported by the server */
+  document?: Document;
+  /** Set when the upload replaces an indexed version */
+  replacedVersion?: number;
+}
+
+/**
+ * Fold a document's ingestion state into its upload row
+ */
+function withDocument(fileWithStatus: FileWithStatus, document: Document): FileWithStatus {
+  return {
+    ...fileWithStatus,
+    document,
+    status: document.status === 'indexed' ? 'success' : document.status === 'failed' ? 'error' : 'processing',
+    error: document.status === 'failed' ? document.error || "Processing failed" : undefined,
+  };
 }
 
 export function DocumentUpload({ agentId, onUploadComplete }: DocumentUploadProps) {
@@ -74,54 +101,6 @@ export function DocumentUpload({ agentId, onUploadComplete }: DocumentUploadProp
     }
   };
 
-  const readFileAsText = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = (e) => resolve(e.target?.result as string);
-      reader.onerror = () => reject(new Error("Failed to read file"));
-      reader.readAsText(file);
-    });
-  };
-
-  const extractTextViaAPI = async (file: File): Promise<string> => {
-    const formData = new FormData();
-    formData.append('file', file);
-
-    const response = await fetch('/api/knowledge/extract', {
-      method: 'POST',
-      body: formData,
-    });
-
-    const data = await response.json();
-
-    if (!response.ok) {
-      throw new Error(data.error || 'Server-side extraction failed');
-    }
-
-    if (!data.success || !data.text) {
-      throw new Error('No text extracted from file');
-    }
-
-    return data.text;
-  };
-
-  const extractTextFromFile = async (file: File): Promise<string> => {
-    const fileExtension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'));
-
-    switch (fileExtension) {
-      case '.pdf':
-      case '.docx':
-      case '.doc':
-        return await extractTextViaAPI(file);
-      case '.txt':
-      case '.md':
-      case '.csv':
-      case '.json':
-      default:
-        return await readFileAsText(file);
-    }
-  };
-
   // Drag and drop handlers
   const handleDragEnter = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -174,47 +153,30 @@ export function DocumentUpload({ agentId, onUploadComplete }: DocumentUploadProp
     setIsProcessing(true);
     setGeneralError("");
 
-    // Process files sequentially
+    // Upload files sequentially; each is then ingested in the background
     for (const fileWithStatus of filesToUpload) {
       try {
-        // Update status to extracting
         setFiles(prev => prev.map(f =>
           f.id === fileWithStatus.id
-            ? { ...f, status: 'extracting' as const, error: undefined }
+            ? { ...f, status: 'uploading' as const, error: undefined, document: undefined }
             : f
         ));
 
-        // Extract text from file
-        const extractedText = await extractTextFromFile(fileWithStatus.file);
+        const result = await uploadDocument(fileWithStatus.file, agentId);
+        const document = result.document;
+
+        if (!result.success || !document) {
+          throw new Error(result.error || "Upload failed");
+        }
 
-        // Update status to uploading
         setFiles(prev => prev.map(f =>
           f.id === fileWithStatus.id
-            ? { ...f, status: 'uploading' as const, extractedText }
+            ? {
+                ...withDocument(f, document),
+                replacedVersion: document.indexed_at && document.status !== 'indexed' ? document.version : undefined,
+              }
             : f
         ));
-
-        // Upload to server
-        const result = await uploadDocument(
-          fileWithStatus.file.name,
-          extractedText,
-          agentId,
-          {
-            fileType: fileWithStatus.file.type,
-            fileSize: fileWithStatus.file.size,
-          }
-        );
-
-        if (result.success) {
-          // Update status to success
-          setFiles(prev => prev.map(f =>
-            f.id === fileWithStatus.id
-              ? { ...f, status: 'success' as const, chunksCreated: result.chunksCreated }
-              : f
-          ));
-        } else {
-          throw new Error(result.error || "Upload failed");
-        }
       } catch (error) {
         // Update status to error
         setFiles(prev => prev.map(f =>
@@ -233,9 +195,36 @@ export function DocumentUpload({ agentId, onUploadComplete }: DocumentUploadProp
     onUploadComplete?.();
   };
 
+  // Poll documents being ingested until they are indexed or fail
+  useEffect(() => {
+    const polling = files.filter(f => f.status === 'processing' && f.document);
+    if (polling.length === 0) return;
+
+    const timeout = setTimeout(async () => {
+      const updates = await Promise.all(
+        polling.map(async (f) => ({ id: f.id, result: await getDocumentStatus(f.document!.id) }))
+      );
+
+      setFiles(prev => prev.map(f => {
+        const update = updates.find(u => u.id === f.id);
+        if (!update) return f;
+        if (!update.result.document) {
+          return { ...f, status: 'error' as const, error: update.result.error || "Lost track of this upload" };
+        }
+        return withDocument(f, update.result.document);
+      }));
+
+      if (updates.some(u => u.result.document?.status === 'indexed')) {
+        onUploadComplete?.();
+      }
+    }, POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timeout);
+  }, [files, onUploadComplete]);
+
   const pendingCount = files.filter(f => f.status === 'pending' || f.status === 'error').length;
   const successCount = files.filter(f => f.status === 'success').length;
-  const processingCount = files.filter(f => f.status === 'extracting' || f.status === 'uploading').length;
+  const uploadingCount = files.filter(f => f.status === 'uploading').length;
 
   return (
     <Card className="w-full">
@@ -300,7 +289,7 @@ export function DocumentUpload({ agentId, onUploadComplete }: DocumentUploadProp
                 Files ({files.length})
                 {successCount > 0 && (
                   <span className="ml-2 text-green-600">
-                    {successCount} uploaded
+                    {successCount} indexed
                   </span>
                 )}
               </h3>
@@ -334,7 +323,7 @@ export function DocumentUpload({ agentId, onUploadComplete }: DocumentUploadProp
                         <CheckCircle2 className="h-5 w-5 text-green-600 flex-shrink-0 mt-0.5" />
                       ) : fileWithStatus.status === 'error' ? (
                         <AlertCircle className="h-5 w-5 text-red-600 flex-shrink-0 mt-0.5" />
-                      ) : fileWithStatus.status === 'extracting' || fileWithStatus.status === 'uploading' ? (
+                      ) : fileWithStatus.status === 'uploading' || fileWithStatus.status === 'processing' ? (
                         <Loader2 className="h-5 w-5 text-blue-600 animate-spin flex-shrink-0 mt-0.5" />
                       ) : (
                         <FileText className="h-5 w-5 text-gray-400 flex-shrink-0 mt-0.5" />
@@ -350,21 +339,35 @@ export function DocumentUpload({ agentId, onUploadComplete }: DocumentUploadProp
                           </span>
                         </div>
 
-                        {fileWithStatus.status === 'extracting' && (
-                          <p className="text-xs text-blue-600 mt-1">
-                            Extracting text...
-                          </p>
-                        )}
-
                         {fileWithStatus.status === 'uploading' && (
                           <p className="text-xs text-blue-600 mt-1">
                             Uploading to knowledge base...
                           </p>
                         )}
 
-                        {fileWithStatus.status === 'success' && fileWithStatus.chunksCreated && (
+                        {fileWithStatus.status === 'processing' && fileWithStatus.document && (
+                          <div className="mt-1 space-y-1">
+                            <p className="text-xs text-blue-600">
+                              {INGESTION_LABELS[fileWithStatus.document.status]}
+                              {fileWithStatus.document.status === 'embedding' &&
+                                ` ${fileWithStatus.document.chunksEmbedded} of ${fileWithStatus.document.totalChunks} chunks...`}
+                            </p>
+                            {fileWithStatus.document.status === 'embedding' && fileWithStatus.document.totalChunks > 0 && (
+                              <Progress
+                                value={(fileWithStatus.document.chunksEmbedded / fileWithStatus.document.totalChunks) * 100}
+                                className="h-1.5"
+                              />
+                            )}
+                          </div>
+                        )}
+
+                        {fileWithStatus.status === 'success' && fileWithStatus.document && (
                           <p className="text-xs text-green-600 mt-1">
-                            Uploaded! Created {fileWithStatus.chunksCreated} chunk{fileWithStatus.chunksCreated > 1 ? 's' : ''}
+                            {fileWithStatus.document.version === fileWithStatus.replacedVersion
+                              ? 'Already up to date - no changes since the last upload'
+                              : `${fileWithStatus.document.version > 1
+                                  ? `Updated to version ${fileWithStatus.document.version}`
+                                  : 'Indexed!'} ${fileWithStatus.document.totalChunks} chunk${fileWithStatus.document.totalChunks !== 1 ? 's' : ''}`}
                           </p>
                         )}
 
@@ -376,7 +379,7 @@ export function DocumentUpload({ agentId, onUploadComplete }: DocumentUploadProp
                       </div>
                     </div>
 
-                    {!isProcessing && fileWithStatus.status !== 'extracting' && fileWithStatus.status !== 'uploading' && (
+                    {!isProcessing && fileWithStatus.status !== 'uploading' && fileWithStatus.status !== 'processing' && (
                       <button
                         type="button"
                         onClick={() => removeFile(fileWithStatus.id)}
@@ -402,7 +405,7 @@ export function DocumentUpload({ agentId, onUploadComplete }: DocumentUploadProp
             {isProcessing ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Processing {processingCount} of {files.length} files...
+                Uploading {uploadingCount} of {files.length} files...
               </>
             ) : (
               <>
@@ -1,14 +1,17 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { FileText, Trash2, Search, Calendar, Hash } from "lucide-react";
-import { getDocuments, deleteDocument, Document } from "@/lib/knowledge/client-actions";
+import { FileText, Trash2, Search, Calendar, Hash, RefreshCw, ChevronLeft, ChevronRight } from "lucide-react";
+import { getDocuments, deleteDocument, reindexDocuments, Document, ListResult } from "@/lib/knowledge/client-actions";
 import { Input } from "@/components/ui/input";
 
+/** How often the list refreshes while documents are being ingested */
+const REFRESH_INTERVAL_MS = 3000;
+
 interface DocumentsListProps {
   agentId?: string;
   refreshKey?: number;
@@ -16,50 +19,88 @@ interface DocumentsListProps {
 
 export function DocumentsList({ agentId, refreshKey }: DocumentsListProps) {
   const [documents, setDocuments] = useState<Document[]>([]);
-  const [filteredDocuments, setFilteredDocuments] = useState<Document[]>([]);
+  const [pagination, setPagination] = useState<ListResult["pagination"]>();
+  const [page, setPage] = useState(1);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
   const [searchTerm, setSearchTerm] = useState("");
+  const [search, setSearch] = useState("");
   const [deletingDoc, setDeletingDoc] = useState<string | null>(null);
+  const [reindexing, setReindexing] = useState<string | null>(null);
+  const [refreshTick, setRefreshTick] = useState(0);
+  // Only the newest request may update the list, so paging or searching quickly never shows an older page
+  const latestRequest = useRef(0);
+
+  const fetchDocuments = useCallback(async () => {
+    const request = ++latestRequest.current;
 
-  const fetchDocuments = async () => {
     try {
       setLoading(true);
-      const result = await getDocuments(agentId);
+      const result = await getDocuments(agentId, { page, search });
+      if (request !== latestRequest.current) return;
       
       if (result.success) {
         setDocuments(result.documents);
+        setPagination(result.pagination);
         setError("");
       } else {
         setError(result.error || "Failed to fetch documents");
       }
     } catch (err) {
+      if (request !== latestRequest.current) return;
       setError("An unexpected error occurred while fetching documents.");
     } finally {
-      setLoading(false);
+      if (request === latestRequest.current) setLoading(false);
     }
-  };
+  }, [agentId, page, search]);
 
   useEffect(() => {
     fetchDocuments();
-  }, [agentId, refreshKey]);
+  }, [fetchDocuments, refreshKey, refreshTick]);
+
+  // Keep ingestion progress current until every listed document settles
+  const ingesting = documents.some((doc) => doc.status !== "indexed" && doc.status !== "failed");
 
   useEffect(() => {
-    if (searchTerm) {
-      const filtered = documents.filter(doc =>
-        doc.name.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-      setFilteredDocuments(filtered);
-    } else {
-      setFilteredDocuments(documents);
+    if (!ingesting) return;
+    const timeout = setTimeout(() => setRefreshTick((tick) => tick + 1), REFRESH_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [documents, ingesting]);
+
+  // Search by name on the server once typing pauses
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setSearch(searchTerm.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
+
+  const handleReindex = async (documentId?: string) => {
+    setReindexing(documentId || "all");
+
+    try {
+      const result = await reindexDocuments({ documentId, agentId });
+
+      if (result.success) {
+        await fetchDocuments();
+      } else {
+        setError(result.error || "Failed to re-index documents");
+      }
+    } catch (err) {
+      setError("An unexpected error occurred while re-indexing.");
+    } finally {
+      setReindexing(null);
     }
-  }, [documents, searchTerm]);
+  };
+
+  const staleCount = documents.filter((doc) => doc.needsReindex).length;
 
-  const handleDelete = async (documentName: string) => {
-    setDeletingDoc(documentName);
+  const handleDelete = async (documentId: string) => {
+    setDeletingDoc(documentId);
     
     try {
-      const result = await deleteDocument(documentName);
+      const result = await deleteDocument(documentId);
       
       if (result.success) {
         await fetchDocuments(); // Refresh the list
@@ -73,7 +114,8 @@ export function DocumentsList({ agentId, refreshKey }: DocumentsListProps) {
     }
   };
 
-  if (loading) {
+  // Only the first load replaces the card, so the search box keeps focus while filtering
+  if (loading && !pagination) {
     return (
       <Card>
         <CardContent className="p-6">
@@ -103,6 +145,21 @@ export function DocumentsList({ agentId, refreshKey }: DocumentsListProps) {
           </Alert>
         )}
 
+        {staleCount > 0 && (
+          <Alert className="mb-4">
+            <AlertDescription className="flex items-center justify-between gap-4">
+              <span>
+                {staleCount} document{staleCount !== 1 ? "s were" : " was"} embedded with a different provider
+                and won&apos;t match searches until re-indexed.
+              </span>
+              <Button size="sm" variant="outline" onClick={() => handleReindex()} disabled={reindexing !== null}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${reindexing === "all" ? "animate-spin" : ""}`} />
+                Re-index
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="mb-4">
           <div className="relative">
             <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
@@ -115,7 +172,7 @@ export function DocumentsList({ agentId, refreshKey }: DocumentsListProps) {
           </div>
         </div>
 
-        {filteredDocuments.length === 0 ? (
+        {documents.length === 0 ? (
           <div className="text-center py-12">
             <div className="p-4 bg-blue-50 rounded-full w-20 h-20 mx-auto mb-6 flex items-center justify-center">
               <FileText className="h-10 w-10 text-blue-500" />
@@ -154,7 +211,7 @@ export function DocumentsList({ agentId, refreshKey }: DocumentsListProps) {
           </div>
         ) : (
           <div className="space-y-3">
-            {filteredDocuments.map((doc) => (
+            {documents.map((doc) => (
               <div
                 key={doc.id}
                 className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
@@ -167,12 +224,28 @@ export function DocumentsList({ agentId, refreshKey }: DocumentsListProps) {
                       <Hash className="h-3 w-3" />
                       {doc.totalChunks} chunks
                     </Badge>
+                    {doc.version > 1 && <Badge variant="outline">v{doc.version}</Badge>}
+                    {doc.status === "embedding" && (
+                      <Badge variant="outline">
+                        Embedding {doc.chunksEmbedded}/{doc.totalChunks}
+                      </Badge>
+                    )}
+                    {(doc.status === "queued" || doc.status === "extracting" || doc.status === "chunking") && (
+                      <Badge variant="outline" className="capitalize">
+                        {doc.status}
+                      </Badge>
+                    )}
+                    {doc.status === "failed" && (
+                      <Badge variant="destructive" title={doc.error || undefined}>
+                        Failed
+                      </Badge>
+                    )}
                   </div>
                   
                   <div className="flex items-center gap-4 text-sm text-muted-foreground">
                     <div className="flex items-center gap-1">
                       <Calendar className="h-3 w-3" />
-                      {new Date(doc.created_at).toLocaleDateString()}
+                      {new Date(doc.updated_at).toLocaleDateString()}
                     </div>
                     {agentId && (
                       <Badge variant="outline">
@@ -182,23 +255,51 @@ export function DocumentsList({ agentId, refreshKey }: DocumentsListProps) {
                   </div>
                 </div>
 
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => handleDelete(doc.name)}
-                  disabled={deletingDoc === doc.name}
-                  className="text-destructive hover:text-destructive"
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
+                <div className="flex items-center">
+                  {(doc.needsReindex || doc.status === "failed") && doc.totalChunks > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Re-index"
+                      onClick={() => handleReindex(doc.id)}
+                      disabled={reindexing !== null}
+                    >
+                      <RefreshCw className={`h-4 w-4 ${reindexing === doc.id ? "animate-spin" : ""}`} />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(doc.id)}
+                    disabled={deletingDoc === doc.id}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
               </div>
             ))}
           </div>
         )}
 
-        {filteredDocuments.length > 0 && (
-          <div className="mt-4 text-sm text-muted-foreground text-center">
-            {filteredDocuments.length} document{filteredDocuments.length !== 1 ? 's' : ''} in knowledge base
+        {pagination && pagination.totalDocuments > 0 && (
+          <div className="mt-4 flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {pagination.totalDocuments} document{pagination.totalDocuments !== 1 ? 's' : ''} in knowledge base
+            </span>
+            {pagination.totalPages > 1 && (
+              <div className="flex items-center gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span>
+                  Page {page} of {pagination.totalPages}
+                </span>
+                <Button variant="ghost" size="sm" onClick={() => setPage(page + 1)} disabled={!pagination.hasMore}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </CardContent>
@@ -0,0 +1,290 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Globe, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import {
+  addKnowledgeSource,
+  crawlKnowledgeSource,
+  deleteKnowledgeSource,
+  getKnowledgeSources,
+  KnowledgeSource,
+} from "@/lib/knowledge/client-actions";
+
+/** How often the list refreshes while a source is being crawled */
+const REFRESH_INTERVAL_MS = 3000;
+
+const RECRAWL_OPTIONS = [
+  { value: "never", label: "Only when I re-crawl" },
+  { value: "24", label: "Daily" },
+  { value: "168", label: "Weekly" },
+  { value: "720", label: "Monthly" },
+];
+
+interface WebsiteSourcesProps {
+  agentId?: string;
+  /** Called when crawled pages may have been added or removed */
+  onSourcesChange?: () => void;
+}
+
+export function WebsiteSources({ agentId, onSourcesChange }: WebsiteSourcesProps) {
+  const [sources, setSources] = useState<KnowledgeSource[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState("");
+  const [url, setUrl] = useState("");
+  const [type, setType] = useState<"website" | "sitemap">("website");
+  const [maxDepth, setMaxDepth] = useState("2");
+  const [maxPages, setMaxPages] = useState("50");
+  const [recrawl, setRecrawl] = useState("168");
+  const [adding, setAdding] = useState(false);
+  const [busySource, setBusySource] = useState<string | null>(null);
+  const [refreshTick, setRefreshTick] = useState(0);
+
+  const fetchSources = useCallback(async () => {
+    const result = await getKnowledgeSources(agentId);
+
+    if (result.success) {
+      setSources(result.sources);
+      setError("");
+    } else {
+      setError(result.error || "Failed to fetch websites");
+    }
+    setLoading(false);
+  }, [agentId]);
+
+  useEffect(() => {
+    fetchSources();
+  }, [fetchSources, refreshTick]);
+
+  // Keep crawl status current; pages crawled meanwhile show up in the documents list
+  const crawling = sources.some((source) => source.status === "queued" || source.status === "crawling");
+
+  useEffect(() => {
+    if (!crawling) return;
+    const timeout = setTimeout(() => {
+      setRefreshTick((tick) => tick + 1);
+      onSourcesChange?.();
+    }, REFRESH_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [sources, crawling, onSourcesChange]);
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!url.trim()) return;
+
+    setAdding(true);
+    setError("");
+
+    try {
+      const result = await addKnowledgeSource({
+        url: url.trim(),
+        type,
+        agentId,
+        // 0 is a valid depth (the start page only)
+        maxDepth: maxDepth === "" ? undefined : parseInt(maxDepth),
+        maxPages: parseInt(maxPages) || undefined,
+        recrawlIntervalHours: recrawl === "never" ? null : parseInt(recrawl),
+      });
+
+      if (result.success) {
+        setUrl("");
+        await fetchSources();
+        onSourcesChange?.();
+      } else {
+        setError(result.error || "Failed to add website");
+      }
+    } catch (err) {
+      setError("An unexpected error occurred while adding the website.");
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleCrawl = async (sourceId: string) => {
+    setBusySource(sourceId);
+
+    try {
+      const result = await crawlKnowledgeSource(sourceId);
+
+      if (result.success) {
+        await fetchSources();
+      } else {
+        setError(result.error || "Failed to start crawl");
+      }
+    } finally {
+      setBusySource(null);
+    }
+  };
+
+  const handleDelete = async (sourceId: string) => {
+    setBusySource(sourceId);
+
+    try {
+      const result = await deleteKnowledgeSource(sourceId);
+
+      if (result.success) {
+        await fetchSources();
+        onSourcesChange?.();
+      } else {
+        setError(result.error || "Failed to delete website");
+      }
+    } finally {
+      setBusySource(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Globe className="h-5 w-5" />
+          Websites
+        </CardTitle>
+        <CardDescription>
+          Crawl a website or sitemap into the knowledge base. Answers cite the page they came from, and
+          re-crawls only re-embed pages that changed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleAdd} className="space-y-3">
+          <div className="flex gap-2">
+            <Select value={type} onValueChange={(value) => setType(value as "website" | "sitemap")}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="website">Website</SelectItem>
+                <SelectItem value="sitemap">Sitemap</SelectItem>
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder={type === "sitemap" ? "https://example.com/sitemap.xml" : "https://example.com/docs"}
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {type === "website" && (
+              <div className="space-y-1">
+                <Label htmlFor="crawl-depth">Link depth</Label>
+                <Input
+                  id="crawl-depth"
+                  type="number"
+                  min={0}
+                  max={5}
+                  value={maxDepth}
+                  onChange={(e) => setMaxDepth(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="crawl-pages">Max pages</Label>
+              <Input
+                id="crawl-pages"
+                type="number"
+                min={1}
+                value={maxPages}
+                onChange={(e) => setMaxPages(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Re-crawl</Label>
+              <Select value={recrawl} onValueChange={setRecrawl}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RECRAWL_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <Button type="submit" disabled={adding || !url.trim()} className="w-full">
+            {adding ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Plus className="h-4 w-4 mr-2" />}
+            Add {type === "sitemap" ? "sitemap" : "website"}
+          </Button>
+        </form>
+
+        {loading ? (
+          <div className="text-sm text-muted-foreground">Loading websites...</div>
+        ) : (
+          sources.length > 0 && (
+            <div className="space-y-3">
+              {sources.map((source) => (
+                <div key={source.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <h4 className="font-medium truncate" title={source.url}>
+                        {source.url}
+                      </h4>
+                      <Badge variant="secondary">{source.pageCount} pages</Badge>
+                      {(source.status === "queued" || source.status === "crawling") && (
+                        <Badge variant="outline" className="capitalize">
+                          {source.status}
+                        </Badge>
+                      )}
+                      {source.status === "failed" && (
+                        <Badge variant="destructive" title={source.error || undefined}>
+                          Failed
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {source.lastCrawledAt
+                        ? `Crawled ${new Date(source.lastCrawledAt).toLocaleString()}` +
+                          (source.status === "ready"
+                            ? ` · ${source.lastCrawlStats.queued ?? 0} updated, ${source.lastCrawlStats.unchanged ?? 0} unchanged`
+                            : "")
+                        : "Not crawled yet"}
+                      {source.nextCrawlAt && ` · next ${new Date(source.nextCrawlAt).toLocaleDateString()}`}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Re-crawl now"
+                      onClick={() => handleCrawl(source.id)}
+                      disabled={busySource !== null || source.status === "queued" || source.status === "crawling"}
+                    >
+                      <RefreshCw className={`h-4 w-4 ${source.status === "crawling" ? "animate-spin" : ""}`} />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Delete website and its pages"
+                      onClick={() => handleDelete(source.id)}
+                      disabled={busySource === source.id}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,282 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2, Save } from "lucide-react";
+import {
+  createSchedule,
+  getScheduleDestinations,
+  updateSchedule,
+  type ScheduleData,
+} from "@/lib/schedules/actions";
+import { DESTINATION_PROVIDERS, type ScheduleDestinationType } from "@/lib/schedules/cron";
+
+const CRON_PRESETS = [
+  { value: "0 9 * * *", label: "Every day at 9:00" },
+  { value: "0 9 * * 1", label: "Every Monday at 9:00" },
+  { value: "0 9 * * 1-5", label: "Weekdays at 9:00" },
+  { value: "0 9 1 * *", label: "First of the month at 9:00" },
+  { value: "0 * * * *", label: "Every hour" },
+];
+
+const DESTINATION_LABELS: Record<ScheduleDestinationType, string> = {
+  email: "Email",
+  slack: "Slack",
+  webhook: "Webhook",
+};
+
+interface ScheduleFormProps {
+  agents: Array<{ id: string; name: string }>;
+  /** Existing schedule to edit; creates a new one when omitted */
+  schedule?: ScheduleData & { id: string };
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+export function ScheduleForm({ agents, schedule, onSaved, onCancel }: ScheduleFormProps) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [integrations, setIntegrations] = useState<Array<{ id: string; provider: string; created_at: string }>>([]);
+  const [formData, setFormData] = useState<ScheduleData>(
+    schedule || {
+      agentId: agents[0]?.id || "",
+      name: "",
+      cron: CRON_PRESETS[1].value,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+      prompt: "",
+      destination: { type: "email", integrationId: "" },
+    }
+  );
+
+  // Load integrations that can receive the output
+  useEffect(() => {
+    getScheduleDestinations().then((result) => {
+      if (result.integrations) setIntegrations(result.integrations);
+    });
+  }, []);
+
+  const destinationIntegrations = integrations.filter(
+    (integration) => integration.provider === DESTINATION_PROVIDERS[formData.destination.type]
+  );
+
+  const updateDestination = (fields: Partial<ScheduleData["destination"]>) => {
+    setFormData((prev) => ({ ...prev, destination: { ...prev.destination, ...fields } }));
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    const result = schedule
+      ? await updateSchedule(schedule.id, {
+          name: formData.name,
+          cron: formData.cron,
+          timezone: formData.timezone,
+          prompt: formData.prompt,
+          destination: formData.destination,
+        })
+      : await createSchedule(formData);
+
+    setSaving(false);
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      onSaved();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{schedule ? "Edit Schedule" : "New Schedule"}</CardTitle>
+        <CardDescription>
+          Run an agent on a recurring schedule and send the result to email, Slack or a webhook
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-name">Name</Label>
+              <Input
+                id="schedule-name"
+                placeholder="Weekly finance report"
+                value={formData.name}
+                onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Agent</Label>
+              <Select
+                value={formData.agentId}
+                onValueChange={(value) => setFormData((prev) => ({ ...prev, agentId: value }))}
+                disabled={!!schedule}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select an agent" />
+                </SelectTrigger>
+                <SelectContent>
+                  {agents.map((agent) => (
+                    <SelectItem key={agent.id} value={agent.id}>
+                      {agent.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Preset</Label>
+              <Select
+                value={CRON_PRESETS.some((preset) => preset.value === formData.cron) ? formData.cron : ""}
+                onValueChange={(value) => setFormData((prev) => ({ ...prev, cron: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Custom" />
+                </SelectTrigger>
+                <SelectContent>
+                  {CRON_PRESETS.map((preset) => (
+                    <SelectItem key={preset.value} value={preset.value}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-cron">Cron</Label>
+              <Input
+                id="schedule-cron"
+                className="font-mono"
+                value={formData.cron}
+                onChange={(e) => setFormData((prev) => ({ ...prev, cron: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-timezone">Timezone</Label>
+              <Input
+                id="schedule-timezone"
+                placeholder="Europe/Berlin"
+                value={formData.timezone}
+                onChange={(e) => setFormData((prev) => ({ ...prev, timezone: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-prompt">Prompt</Label>
+            <Textarea
+              id="schedule-prompt"
+              rows={4}
+              placeholder="Summarize last week's invoices and flag anything overdue"
+              value={formData.prompt}
+              onChange={(e) => setFormData((prev) => ({ ...prev, prompt: e.target.value }))}
+            />
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Send result to</Label>
+              <Select
+                value={formData.destination.type}
+                onValueChange={(value) =>
+                  updateDestination({ type: value as ScheduleDestinationType, integrationId: "" })
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DESTINATION_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Integration</Label>
+              <Select
+                value={formData.destination.integrationId}
+                onValueChange={(value) => updateDestination({ integrationId: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue
+                    placeholder={
+                      destinationIntegrations.length === 0
+                        ? `No ${DESTINATION_LABELS[formData.destination.type]} integration connected`
+                        : "Select an integration"
+                    }
+                  />
+                </SelectTrigger>
+                <SelectContent>
+                  {destinationIntegrations.map((integration) => (
+                    <SelectItem key={integration.id} value={integration.id}>
+                      {DESTINATION_LABELS[formData.destination.type]} (connected{" "}
+                      {new Date(integration.created_at).toLocaleDateString()})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {formData.destination.type === "email" && (
+              <div className="space-y-2">
+                <Label htmlFor="schedule-to">Recipient</Label>
+                <Input
+                  id="schedule-to"
+                  type="email"
+                  placeholder="you@company.com"
+                  value={formData.destination.to || ""}
+                  onChange={(e) => updateDestination({ to: e.target.value })}
+                />
+              </div>
+            )}
+            {formData.destination.type === "slack" && (
+              <div className="space-y-2">
+                <Label htmlFor="schedule-channel">Channel</Label>
+                <Input
+                  id="schedule-channel"
+                  placeholder="#finance"
+                  value={formData.destination.channel || ""}
+                  onChange={(e) => updateDestination({ channel: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <Button type="submit" disabled={saving}>
+              {saving ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              {schedule ? "Save Changes" : "Create Schedule"}
+            </Button>
+            <Button type="button" variant="outline" onClick={onCancel} disabled={saving}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,295 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  CalendarClock,
+  Calendar,
+  Loader2,
+  Pencil,
+  Plus,
+  Trash2,
+  ChevronDown,
+  ChevronUp,
+} from "lucide-react";
+import {
+  deleteSchedule,
+  getScheduleRuns,
+  getSchedules,
+  setScheduleEnabled,
+  type ScheduleRun,
+} from "@/lib/schedules/actions";
+import type { AgentSchedule } from "@/lib/schedules/runner";
+import { ScheduleForm } from "./schedule-form";
+
+type ScheduleWithAgent = AgentSchedule & { agent?: { id: string; name: string } };
+
+const runStatusVariants: Record<ScheduleRun["status"], "default" | "secondary" | "destructive" | "outline"> = {
+  running: "secondary",
+  success: "default",
+  failed: "destructive",
+  skipped: "outline",
+};
+
+interface SchedulesListProps {
+  agents: Array<{ id: string; name: string }>;
+}
+
+export function SchedulesList({ agents }: SchedulesListProps) {
+  const [schedules, setSchedules] = useState<ScheduleWithAgent[]>([]);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+  const [usage, setUsage] = useState<{ current: number; limit: number } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<ScheduleWithAgent | "new" | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+
+  // Load schedules and run history
+  useEffect(() => {
+    loadSchedules();
+  }, []);
+
+  const loadSchedules = async () => {
+    setLoading(true);
+    setError(null);
+
+    const [schedulesResult, runsResult] = await Promise.all([getSchedules(), getScheduleRuns()]);
+
+    if (schedulesResult.error || runsResult.error) {
+      setError(schedulesResult.error || runsResult.error || "Failed to load schedules");
+    } else {
+      setSchedules(schedulesResult.schedules || []);
+      setUsage(schedulesResult.usage || null);
+      setRuns(runsResult.runs || []);
+    }
+
+    setLoading(false);
+  };
+
+  const handleToggle = async (schedule: ScheduleWithAgent, enabled: boolean) => {
+    setBusyId(schedule.id);
+    const result = await setScheduleEnabled(schedule.id, enabled);
+    if (result.error) setError(result.error);
+    setBusyId(null);
+    await loadSchedules();
+  };
+
+  const handleDelete = async (schedule: ScheduleWithAgent) => {
+    if (!confirm(`Delete schedule "${schedule.name}"? Its run history will also be removed.`)) return;
+
+    setBusyId(schedule.id);
+    const result = await deleteSchedule(schedule.id);
+    if (result.error) setError(result.error);
+    setBusyId(null);
+    await loadSchedules();
+  };
+
+  const handleSaved = async () => {
+    setEditing(null);
+    await loadSchedules();
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString();
+  };
+
+  return (
+    <div className="p-4 sm:p-6 md:p-8">
+      <div className="mx-auto max-w-7xl space-y-6 sm:space-y-8">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Schedules</h1>
+            <p className="text-sm sm:text-base text-muted-foreground mt-2">
+              Run agents on a recurring schedule and deliver the results
+              {usage && (
+                <>
+                  {" · "}
+                  {usage.current} / {usage.limit === -1 ? "unlimited" : usage.limit} runs this month
+                </>
+              )}
+            </p>
+          </div>
+          {!editing && (
+            <Button onClick={() => setEditing("new")} disabled={agents.length === 0}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Schedule
+            </Button>
+          )}
+        </div>
+
+        {/* Error Alert */}
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {editing && (
+          <ScheduleForm
+            agents={agents}
+            schedule={
+              editing === "new"
+                ? undefined
+                : {
+                    id: editing.id,
+                    agentId: editing.agent_id,
+                    name: editing.name,
+                    cron: editing.cron,
+                    timezone: editing.timezone,
+                    prompt: editing.prompt,
+                    destination: editing.destination,
+                  }
+            }
+            onSaved={handleSaved}
+            onCancel={() => setEditing(null)}
+          />
+        )}
+
+        {/* Loading State */}
+        {loading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        )}
+
+        {!loading && schedules.length === 0 && !editing && (
+          <Card>
+            <CardContent className="py-12">
+              <div className="text-center">
+                <CalendarClock className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">No schedules yet</h3>
+                <p className="text-muted-foreground">
+                  {agents.length === 0
+                    ? "Create an agent first, then schedule it to run automatically"
+                    : "Schedule an agent to run automatically, e.g. every Monday at 9 with the result posted to Slack"}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {!loading && schedules.length > 0 && (
+          <div className="space-y-4">
+            {schedules.map((schedule) => (
+              <Card key={schedule.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex-1 min-w-0">
+                      <CardTitle className="text-base sm:text-lg">{schedule.name}</CardTitle>
+                      <CardDescription className="mt-1 text-sm">
+                        {schedule.agent?.name || "Deleted agent"}
+                        {" · "}
+                        <span className="font-mono">{schedule.cron}</span> ({schedule.timezone})
+                        {" · "}
+                        {schedule.destination.type === "email" && `Email to ${schedule.destination.to}`}
+                        {schedule.destination.type === "slack" && `Slack ${schedule.destination.channel}`}
+                        {schedule.destination.type === "webhook" && "Webhook"}
+                      </CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant={schedule.enabled ? "default" : "outline"}>
+                        {schedule.enabled ? "Active" : "Paused"}
+                      </Badge>
+                      <Switch
+                        checked={schedule.enabled}
+                        disabled={busyId === schedule.id}
+                        onCheckedChange={(checked) => handleToggle(schedule, checked)}
+                      />
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <p className="text-sm text-muted-foreground line-clamp-2">{schedule.prompt}</p>
+                  <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 pt-2 border-t">
+                    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                      <Calendar className="w-3 h-3 shrink-0" />
+                      <span>
+                        {schedule.last_run_at ? `Last run ${formatDate(schedule.last_run_at)}` : "Not run yet"}
+                      </span>
+                    </div>
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" onClick={() => setEditing(schedule)}>
+                        <Pencil className="w-4 h-4 mr-1" />
+                        Edit
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDelete(schedule)}
+                        disabled={busyId === schedule.id}
+                      >
+                        <Trash2 className="w-4 h-4 mr-1" />
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {/* Run History */}
+        {!loading && runs.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Run History</CardTitle>
+              <CardDescription>Most recent scheduled runs across all schedules</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {runs.map((run) => {
+                const expanded = expandedRunId === run.id;
+
+                return (
+                  <div key={run.id} className="rounded-lg border p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">
+                          {run.schedule?.name || "Deleted schedule"}
+                          <span className="text-muted-foreground font-normal">
+                            {" · "}
+                            {run.agent?.name || "Deleted agent"}
+                          </span>
+                        </p>
+                        <p className="text-xs text-muted-foreground">{formatDate(run.started_at)}</p>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <Badge variant={runStatusVariants[run.status]}>{run.status}</Badge>
+                        {(run.output || run.error) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setExpandedRunId(expanded ? null : run.id)}
+                          >
+                            {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {expanded && (
+                      <div className="space-y-2">
+                        {run.error && <p className="text-sm text-destructive">{run.error}</p>}
+                        {run.output && (
+                          <pre className="bg-muted rounded-md p-3 text-xs overflow-x-auto whitespace-pre-wrap">
+                            {run.output}
+                          </pre>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
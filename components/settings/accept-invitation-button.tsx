@@ -0,0 +1,48 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+import { acceptInvitation } from "@/lib/team/actions";
+
+interface AcceptInvitationButtonProps {
+  token: string;
+  organizationName: string;
+}
+
+export function AcceptInvitationButton({ token, organizationName }: AcceptInvitationButtonProps) {
+  const router = useRouter();
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAccept = async () => {
+    setIsLoading(true);
+    setError(null);
+
+    const result = await acceptInvitation(token);
+
+    if (result.error) {
+      setError(result.error);
+      setIsLoading(false);
+      return;
+    }
+
+    router.push("/dashboard");
+  };
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+      <Button className="w-full" onClick={handleAccept} disabled={isLoading}>
+        {isLoading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        Join {organizationName}
+      </Button>
+    </div>
+  );
+}
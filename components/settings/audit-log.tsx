@@ -0,0 +1,364 @@
+"use client";
+
+import { Fragment, useCallback, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, ChevronDown, ChevronRight, Download, History, Loader2, Search } from "lucide-react";
+import {
+  exportAuditLogsCsv,
+  getAuditLogs,
+  type AuditLogEntry,
+  type AuditLogFilters,
+} from "@/lib/audit/actions";
+
+const TARGET_TYPES: Array<{ value: string; label: string }> = [
+  { value: "agent", label: "Agents" },
+  { value: "integration", label: "Integrations" },
+  { value: "lead", label: "Leads" },
+  { value: "conversation", label: "Conversations" },
+  { value: "document", label: "Knowledge" },
+  { value: "schedule", label: "Schedules" },
+  { value: "eval_suite", label: "Eval suites" },
+  { value: "pending_action", label: "Approvals" },
+  { value: "webhook_delivery", label: "Webhooks" },
+  { value: "member", label: "Members" },
+  { value: "invitation", label: "Invitations" },
+  { value: "organization", label: "Organization" },
+  { value: "user", label: "Profile" },
+  { value: "billing", label: "Billing" },
+  { value: "audit_log", label: "Audit log" },
+];
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "string") return value;
+  return JSON.stringify(value);
+}
+
+export function AuditLog() {
+  const [logs, setLogs] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [pageSize, setPageSize] = useState(50);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  // Filters; the search box applies on submit rather than on every keystroke
+  const [searchQuery, setSearchQuery] = useState("");
+  const [search, setSearch] = useState("");
+  const [targetType, setTargetType] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [page, setPage] = useState(0);
+
+  const filters = useMemo(
+    (): AuditLogFilters => ({
+      targetType: targetType === "all" ? undefined : targetType,
+      search: search || undefined,
+      from: from || undefined,
+      to: to || undefined,
+    }),
+    [targetType, search, from, to]
+  );
+
+  const loadLogs = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const result = await getAuditLogs({ ...filters, page });
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setLogs(result.logs || []);
+      setTotal(result.total || 0);
+      setPageSize(result.pageSize || 50);
+    }
+
+    setLoading(false);
+  }, [filters, page]);
+
+  useEffect(() => {
+    loadLogs();
+  }, [loadLogs]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (page === 0 && search === searchQuery) {
+      // Nothing changed, so no reload would be triggered; refresh anyway
+      loadLogs();
+    } else {
+      setSearch(searchQuery);
+      setPage(0);
+    }
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    const result = await exportAuditLogsCsv(filters);
+
+    if (result.error) {
+      alert(result.error);
+    } else if (result.csv) {
+      // Download CSV
+      const blob = new Blob([result.csv], { type: "text/csv" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `audit-log-${new Date().toISOString().split("T")[0]}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    }
+
+    setExporting(false);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  return (
+    <div className="p-4 sm:p-6 md:p-8">
+      <div className="mx-auto max-w-6xl space-y-6 sm:space-y-8">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <Link
+              href="/settings"
+              className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-2"
+            >
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Settings
+            </Link>
+            <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Audit Log</h1>
+            <p className="text-sm sm:text-base text-muted-foreground mt-2">
+              Every change to agents, integrations, leads, settings and your team
+            </p>
+          </div>
+          <Button onClick={handleExport} disabled={exporting || total === 0} variant="outline" className="w-full sm:w-auto">
+            <Download className="w-4 h-4 mr-2" />
+            {exporting ? "Exporting..." : "Export CSV"}
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex flex-col lg:flex-row gap-4 lg:items-end">
+              <form onSubmit={handleSearch} className="flex-1 flex gap-2">
+                <div className="relative flex-1">
+                  <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                  <Input
+                    placeholder="Search by person, action or target..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+                <Button type="submit" disabled={loading}>
+                  Search
+                </Button>
+              </form>
+
+              <Select
+                value={targetType}
+                onValueChange={(value) => {
+                  setTargetType(value);
+                  setPage(0);
+                }}
+              >
+                <SelectTrigger className="w-full lg:w-[180px]">
+                  <SelectValue placeholder="Everything" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Everything</SelectItem>
+                  {TARGET_TYPES.map((type) => (
+                    <SelectItem key={type.value} value={type.value}>
+                      {type.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <div className="flex gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="auditFrom" className="text-xs text-muted-foreground">From</Label>
+                  <Input
+                    id="auditFrom"
+                    type="date"
+                    value={from}
+                    onChange={(e) => {
+                      setFrom(e.target.value);
+                      setPage(0);
+                    }}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="auditTo" className="text-xs text-muted-foreground">To</Label>
+                  <Input
+                    id="auditTo"
+                    type="date"
+                    value={to}
+                    onChange={(e) => {
+                      setTo(e.target.value);
+                      setPage(0);
+                    }}
+                  />
+                </div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Error Alert */}
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Loading State */}
+        {loading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        )}
+
+        {!loading && !error && logs.length === 0 && (
+          <Card>
+            <CardContent className="py-12">
+              <div className="text-center">
+                <History className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">No activity found</h3>
+                <p className="text-muted-foreground">
+                  Changes made by your team will appear here
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {!loading && logs.length > 0 && (
+          <div className="space-y-4">
+            <div className="text-sm text-muted-foreground">
+              {total} entr{total !== 1 ? "ies" : "y"}
+            </div>
+
+            <Card>
+              <CardContent className="p-0 overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="border-b text-left text-muted-foreground">
+                    <tr>
+                      <th className="w-8" />
+                      <th className="px-3 py-3 font-medium">When</th>
+                      <th className="px-3 py-3 font-medium">Who</th>
+                      <th className="px-3 py-3 font-medium">Action</th>
+                      <th className="px-3 py-3 font-medium">Target</th>
+                      <th className="px-3 py-3 font-medium">IP Address</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {logs.map((log) => {
+                      const changes = Object.entries(log.changes || {});
+                      const metadata = Object.entries(log.metadata || {});
+                      const hasDetails = changes.length > 0 || metadata.length > 0;
+                      const isExpanded = expanded === log.id;
+
+                      return (
+                        <Fragment key={log.id}>
+                          <tr
+                            className={`border-b last:border-0 ${hasDetails ? "cursor-pointer hover:bg-muted/50" : ""}`}
+                            onClick={() => hasDetails && setExpanded(isExpanded ? null : log.id)}
+                          >
+                            <td className="pl-3 text-muted-foreground">
+                              {hasDetails &&
+                                (isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />)}
+                            </td>
+                            <td className="px-3 py-3 whitespace-nowrap">
+                              {new Date(log.created_at).toLocaleString()}
+                            </td>
+                            <td className="px-3 py-3">{log.actor_email || "System"}</td>
+                            <td className="px-3 py-3">
+                              <Badge variant="secondary" className="font-mono text-xs">
+                                {log.action}
+                              </Badge>
+                            </td>
+                            <td className="px-3 py-3 max-w-[240px] truncate" title={log.target_name || log.target_id || ""}>
+                              {log.target_name || log.target_id || "—"}
+                            </td>
+                            <td className="px-3 py-3 text-muted-foreground whitespace-nowrap">
+                              {log.ip_address || "—"}
+                            </td>
+                          </tr>
+                          {isExpanded && (
+                            <tr className="border-b last:border-0 bg-muted/30">
+                              <td />
+                              <td colSpan={5} className="px-3 py-3 space-y-3">
+                                {changes.length > 0 && (
+                                  <div className="space-y-1">
+                                    {changes.map(([field, change]) => (
+                                      <div key={field} className="grid grid-cols-[minmax(120px,auto)_1fr] gap-3">
+                                        <span className="font-mono text-xs text-muted-foreground">{field}</span>
+                                        <span className="break-all">
+                                          <span className="text-red-700 line-through">{formatValue(change.before)}</span>{" "}
+                                          → <span className="text-green-700">{formatValue(change.after)}</span>
+                                        </span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
+                                {metadata.length > 0 && (
+                                  <div className="space-y-1">
+                                    {metadata.map(([key, value]) => (
+                                      <div key={key} className="grid grid-cols-[minmax(120px,auto)_1fr] gap-3">
+                                        <span className="font-mono text-xs text-muted-foreground">{key}</span>
+                                        <span className="break-all">{formatValue(value)}</span>
+                                      </div>
+                                    ))}
+                                  </div>
+                                )}
+                                {log.user_agent && (
+                                  <p className="text-xs text-muted-foreground break-all">{log.user_agent}</p>
+                                )}
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+
+            {pageCount > 1 && (
+              <div className="flex items-center justify-between">
+                <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                  Previous
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Page {page + 1} of {pageCount}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page + 1 >= pageCount}
+                >
+                  Next
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
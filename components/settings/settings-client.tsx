@@ -1,12 +1,17 @@
 "use client";
 
 import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { User, Building, Bell, AlertTriangle } from "lucide-react";
+import { User, Building, Users, Bell, AlertTriangle, History } from "lucide-react";
 import { ProfileSettings } from "./profile-settings";
 import { OrganizationSettings } from "./organization-settings";
 import { NotificationsSettings } from "./notifications-settings";
 import { DangerZoneSettings } from "./danger-zone-settings";
+import { TeamSettings } from "./team-settings";
+import type { TeamInvitation, TeamMember } from "@/lib/team/actions";
+import { hasPermission, type TeamRole } from "@/lib/team/permissions";
 
 interface SettingsClientProps {
   profile: {
@@ -23,9 +28,15 @@ interface SettingsClientProps {
     name: string;
     created_at: string;
   };
+  team: {
+    members?: TeamMember[];
+    invitations?: TeamInvitation[];
+    currentUserId?: string;
+    currentRole?: TeamRole;
+  } | null;
 }
 
-export function SettingsClient({ profile, organization }: SettingsClientProps) {
+export function SettingsClient({ profile, organization, team }: SettingsClientProps) {
   const [activeTab, setActiveTab] = useState("profile");
 
   // Ensure notification preferences have default values
@@ -45,16 +56,26 @@ export function SettingsClient({ profile, organization }: SettingsClientProps) {
     <div className="p-8">
       <div className="mx-auto max-w-4xl space-y-8">
         {/* Header */}
-        <div>
-          <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
-          <p className="text-muted-foreground mt-2">
-            Manage your account and organization settings
-          </p>
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Settings</h1>
+            <p className="text-muted-foreground mt-2">
+              Manage your account and organization settings
+            </p>
+          </div>
+          {hasPermission(profile.role, "audit:view") && (
+            <Button variant="outline" asChild>
+              <Link href="/settings/audit">
+                <History className="w-4 h-4 mr-2" />
+                Audit Log
+              </Link>
+            </Button>
+          )}
         </div>
 
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="profile" className="flex items-center gap-2">
               <User className="w-4 h-4" />
               <span className="hidden sm:inline">Profile</span>
@@ -63,6 +84,10 @@ export function SettingsClient({ profile, organization }: SettingsClientProps) {
               <Building className="w-4 h-4" />
               <span className="hidden sm:inline">Organization</span>
             </TabsTrigger>
+            <TabsTrigger value="team" className="flex items-center gap-2">
+              <Users className="w-4 h-4" />
+              <span className="hidden sm:inline">Team</span>
+            </TabsTrigger>
             <TabsTrigger value="notifications" className="flex items-center gap-2">
               <Bell className="w-4 h-4" />
               <span className="hidden sm:inline">Notifications</span>
@@ -84,6 +109,17 @@ export function SettingsClient({ profile, organization }: SettingsClientProps) {
             />
           </TabsContent>
 
+          <TabsContent value="team" className="mt-6">
+            {team?.members && team.currentUserId && team.currentRole && (
+              <TeamSettings
+                members={team.members}
+                invitations={team.invitations || []}
+                currentUserId={team.currentUserId}
+                currentRole={team.currentRole}
+              />
+            )}
+          </TabsContent>
+
           <TabsContent value="notifications" className="mt-6">
             <NotificationsSettings preferences={notificationPreferences} />
           </TabsContent>
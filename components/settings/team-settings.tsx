@@ -0,0 +1,257 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Mail, UserPlus, Users, X } from "lucide-react";
+import {
+  inviteMember,
+  removeMember,
+  revokeInvitation,
+  updateMemberRole,
+  type TeamInvitation,
+  type TeamMember,
+} from "@/lib/team/actions";
+import {
+  canAssignRole,
+  canRemoveMember,
+  hasPermission,
+  ROLE_LABELS,
+  TEAM_ROLES,
+  type TeamRole,
+} from "@/lib/team/permissions";
+import { useRouter } from "next/navigation";
+
+interface TeamSettingsProps {
+  members: TeamMember[];
+  invitations: TeamInvitation[];
+  currentUserId: string;
+  currentRole: TeamRole;
+}
+
+export function TeamSettings({ members, invitations, currentUserId, currentRole }: TeamSettingsProps) {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<TeamRole>("member");
+  const [pending, setPending] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const actor = { id: currentUserId, role: currentRole };
+  const canManage = hasPermission(currentRole, "members:manage");
+
+  const run = async (key: string, action: () => Promise<{ error?: string; warning?: string }>, message: string) => {
+    setPending(key);
+    setError(null);
+    setSuccess(null);
+
+    const result = await action();
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setSuccess(result.warning || message);
+      router.refresh();
+    }
+    setPending(null);
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await run("invite", () => inviteMember({ email, role }), `Invitation sent to ${email}`);
+    setEmail("");
+  };
+
+  const handleRoleChange = (member: TeamMember, nextRole: TeamRole) => {
+    if (
+      nextRole === "owner" &&
+      !confirm(`Transfer ownership to ${member.full_name || member.email}? You will become an admin.`)
+    ) {
+      return;
+    }
+    run(`role:${member.id}`, () => updateMemberRole(member.id, nextRole), "Role updated");
+  };
+
+  const handleRemove = (member: TeamMember) => {
+    if (!confirm(`Remove ${member.full_name || member.email} from the organization?`)) return;
+    run(`remove:${member.id}`, () => removeMember(member.id), "Member removed");
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {success && (
+        <Alert className="border-green-200 bg-green-50">
+          <AlertDescription className="text-green-800">{success}</AlertDescription>
+        </Alert>
+      )}
+
+      {canManage && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <UserPlus className="w-5 h-5" />
+              <CardTitle>Invite a Teammate</CardTitle>
+            </div>
+            <CardDescription>
+              They&apos;ll get an email with a link to join. Invitations expire after 7 days.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-3 sm:items-end">
+              <div className="space-y-2 flex-1">
+                <Label htmlFor="inviteEmail">Email</Label>
+                <Input
+                  id="inviteEmail"
+                  type="email"
+                  placeholder="teammate@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  disabled={pending === "invite"}
+                />
+              </div>
+              <div className="space-y-2 sm:w-36">
+                <Label>Role</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as TeamRole)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="member">{ROLE_LABELS.member}</SelectItem>
+                    <SelectItem value="admin">{ROLE_LABELS.admin}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" disabled={pending === "invite" || !email}>
+                {pending === "invite" ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Mail className="w-4 h-4 mr-2" />
+                )}
+                Send Invite
+              </Button>
+            </form>
+            <p className="text-xs text-muted-foreground mt-3">
+              Admins can manage agents, integrations, settings and the team. Only the owner can manage
+              billing or delete the organization.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            <CardTitle>Members</CardTitle>
+          </div>
+          <CardDescription>People with access to this organization</CardDescription>
+        </CardHeader>
+        <CardContent className="divide-y">
+          {members.map((member) => {
+            const assignableRoles = TEAM_ROLES.filter(
+              (option) => option === member.role || canAssignRole(actor, member, option)
+            );
+
+            return (
+              <div key={member.id} className="flex flex-col sm:flex-row sm:items-center gap-3 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">
+                    {member.full_name || member.email}
+                    {member.id === currentUserId && (
+                      <span className="text-muted-foreground font-normal"> (you)</span>
+                    )}
+                  </p>
+                  <p className="text-sm text-muted-foreground truncate">{member.email}</p>
+                </div>
+                {assignableRoles.length > 1 ? (
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) => handleRoleChange(member, value as TeamRole)}
+                    disabled={pending === `role:${member.id}`}
+                  >
+                    <SelectTrigger className="sm:w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {assignableRoles.map((option) => (
+                        <SelectItem key={option} value={option}>
+                          {ROLE_LABELS[option]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Badge variant={member.role === "owner" ? "default" : "secondary"}>
+                    {ROLE_LABELS[member.role]}
+                  </Badge>
+                )}
+                {canRemoveMember(actor, member) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRemove(member)}
+                    disabled={pending === `remove:${member.id}`}
+                  >
+                    Remove
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {canManage && invitations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Pending Invitations</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {invitations.map((invitation) => (
+              <div key={invitation.id} className="flex items-center gap-3 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{invitation.email}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {ROLE_LABELS[invitation.role]} ·{" "}
+                    {invitation.status === "expired"
+                      ? "Expired"
+                      : `Expires ${new Date(invitation.expires_at).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() =>
+                    run(`revoke:${invitation.id}`, () => revokeInvitation(invitation.id), "Invitation revoked")
+                  }
+                  disabled={pending === `revoke:${invitation.id}`}
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
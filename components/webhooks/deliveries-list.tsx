@@ -0,0 +1,237 @@
+"use client";
+
+import { useCallback, useState, useEffect } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Send, Calendar, Loader2, RotateCcw, ChevronDown, ChevronUp } from "lucide-react";
+import { getWebhookDeliveries, replayWebhookDelivery } from "@/lib/webhooks/actions";
+import type { WebhookDelivery, WebhookDeliveryStatus } from "@/lib/webhooks/delivery";
+
+const statusVariants: Record<WebhookDeliveryStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  retrying: "secondary",
+  delivered: "default",
+  dead_lettered: "destructive",
+};
+
+const statusLabels: Record<WebhookDeliveryStatus, string> = {
+  pending: "Pending",
+  retrying: "Retrying",
+  delivered: "Delivered",
+  dead_lettered: "Dead-lettered",
+};
+
+export function DeliveriesList() {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedStatus, setSelectedStatus] = useState<string>("all");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  const loadDeliveries = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    const result = await getWebhookDeliveries({ status: selectedStatus });
+
+    if (result.error) {
+      setError(result.error);
+    } else {
+      setDeliveries(result.deliveries || []);
+    }
+
+    setLoading(false);
+  }, [selectedStatus]);
+
+  // Load deliveries
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  const handleReplay = async (delivery: WebhookDelivery) => {
+    setReplayingId(delivery.id);
+    setError(null);
+
+    const result = await replayWebhookDelivery(delivery.id);
+
+    if (result.error) {
+      setError(result.error);
+    }
+
+    setReplayingId(null);
+    await loadDeliveries();
+  };
+
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return date.toLocaleString();
+  };
+
+  return (
+    <div className="p-4 sm:p-6 md:p-8">
+      <div className="mx-auto max-w-7xl space-y-6 sm:space-y-8">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+          <div>
+            <Button variant="ghost" size="sm" asChild className="mb-2 -ml-2">
+              <Link href="/integrations">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Integrations
+              </Link>
+            </Button>
+            <h1 className="text-2xl sm:text-3xl font-bold tracking-tight">Webhook Deliveries</h1>
+            <p className="text-sm sm:text-base text-muted-foreground mt-2">
+              Inspect outbound webhook requests and replay failed deliveries
+            </p>
+          </div>
+          <Select value={selectedStatus} onValueChange={setSelectedStatus}>
+            <SelectTrigger className="w-full sm:w-[200px]">
+              <SelectValue placeholder="Status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All</SelectItem>
+              <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="retrying">Retrying</SelectItem>
+              <SelectItem value="delivered">Delivered</SelectItem>
+              <SelectItem value="dead_lettered">Dead-lettered</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Error Alert */}
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Loading State */}
+        {loading && (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        )}
+
+        {!loading && deliveries.length === 0 && (
+          <Card>
+            <CardContent className="py-12">
+              <div className="text-center">
+                <Send className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">No deliveries yet</h3>
+                <p className="text-muted-foreground">
+                  Deliveries appear here when events are sent to your webhook integrations
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {!loading && deliveries.length > 0 && (
+          <div className="space-y-4">
+            {deliveries.map((delivery) => {
+              const expanded = expandedId === delivery.id;
+
+              return (
+                <Card key={delivery.id}>
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex-1 min-w-0">
+                        <CardTitle className="text-base sm:text-lg font-mono">
+                          {delivery.event_type}
+                        </CardTitle>
+                        <CardDescription className="mt-1 text-sm truncate">
+                          {delivery.request_url || "Not sent yet"}
+                          {delivery.response_status ? ` · HTTP ${delivery.response_status}` : ""}
+                          {` · ${delivery.attempts} attempt${delivery.attempts !== 1 ? "s" : ""}`}
+                        </CardDescription>
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        {delivery.replayed_from && (
+                          <Badge variant="outline" className="text-xs">
+                            Replay
+                          </Badge>
+                        )}
+                        <Badge variant={statusVariants[delivery.status]}>
+                          {statusLabels[delivery.status]}
+                        </Badge>
+                      </div>
+                    </div>
+                  </CardHeader>
+
+                  <CardContent className="space-y-3">
+                    {delivery.last_error && (
+                      <p className="text-sm text-destructive">{delivery.last_error}</p>
+                    )}
+
+                    {expanded && (
+                      <div className="grid gap-4 md:grid-cols-2">
+                        <div className="space-y-2 min-w-0">
+                          <h4 className="text-sm font-semibold">Request</h4>
+                          <pre className="bg-muted rounded-md p-3 text-xs overflow-x-auto whitespace-pre-wrap">
+                            {JSON.stringify(delivery.request_headers || {}, null, 2)}
+                          </pre>
+                          <pre className="bg-muted rounded-md p-3 text-xs overflow-x-auto whitespace-pre-wrap">
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </pre>
+                        </div>
+                        <div className="space-y-2 min-w-0">
+                          <h4 className="text-sm font-semibold">
+                            Response{delivery.response_status ? ` (${delivery.response_status})` : ""}
+                          </h4>
+                          <pre className="bg-muted rounded-md p-3 text-xs overflow-x-auto whitespace-pre-wrap">
+                            {delivery.response_body || "No response body"}
+                          </pre>
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 pt-2 border-t">
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <Calendar className="w-3 h-3 shrink-0" />
+                        <span>{formatDate(delivery.created_at)}</span>
+                      </div>
+
+                      <div className="flex gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setExpandedId(expanded ? null : delivery.id)}
+                        >
+                          {expanded ? (
+                            <ChevronUp className="w-4 h-4 mr-1" />
+                          ) : (
+                            <ChevronDown className="w-4 h-4 mr-1" />
+                          )}
+                          {expanded ? "Hide" : "Inspect"}
+                        </Button>
+                        {(delivery.status === "delivered" || delivery.status === "dead_lettered") && (
+                          <Button
+                            size="sm"
+                            onClick={() => handleReplay(delivery)}
+                            disabled={replayingId === delivery.id}
+                          >
+                            {replayingId === delivery.id ? (
+                              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                            ) : (
+                              <RotateCcw className="w-4 h-4 mr-1" />
+                            )}
+                            Replay
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
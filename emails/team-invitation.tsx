@@ -0,0 +1,127 @@
+/**
+ * Team Invitation Email Template
+ * Sent when an owner or admin invites someone to their organization
+ */
+
+import {
+  Body,
+  Button,
+  Container,
+  Head,
+  Heading,
+  Hr,
+  Html,
+  Preview,
+  Section,
+  Text,
+} from "@react-email/components";
+import * as React from "react";
+
+interface TeamInvitationEmailProps {
+  organizationName: string;
+  inviterName: string;
+  roleLabel: string;
+  inviteUrl: string;
+}
+
+export const TeamInvitationEmail = ({
+  organizationName,
+  inviterName,
+  roleLabel,
+  inviteUrl,
+}: TeamInvitationEmailProps) => {
+  const previewText = `Join ${organizationName} on Zapta`;
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Heading style={h1}>You're invited to {organizationName}</Heading>
+
+          <Text style={text}>
+            <strong>{inviterName}</strong> invited you to join <strong>{organizationName}</strong> on
+            Zapta as {roleLabel === "Admin" ? "an" : "a"} <strong>{roleLabel}</strong>.
+          </Text>
+
+          <Section style={buttonContainer}>
+            <Button style={button} href={inviteUrl}>
+              Accept Invitation
+            </Button>
+          </Section>
+
+          <Hr style={hr} />
+
+          <Text style={footer}>
+            This invitation expires in 7 days. If you weren't expecting it, you can ignore this email.
+          </Text>
+        </Container>
+      </Body>
+    </Html>
+  );
+};
+
+export default TeamInvitationEmail;
+
+// Styles
+const main = {
+  backgroundColor: "#f6f9fc",
+  fontFamily:
+    '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+  backgroundColor: "#ffffff",
+  margin: "0 auto",
+  padding: "20px 0 48px",
+  marginBottom: "64px",
+  maxWidth: "600px",
+  width: "100%",
+};
+
+const h1 = {
+  color: "#333",
+  fontSize: "24px",
+  fontWeight: "bold",
+  margin: "40px 0",
+  padding: "0",
+  textAlign: "center" as const,
+};
+
+const text = {
+  color: "#333",
+  fontSize: "16px",
+  lineHeight: "26px",
+  margin: "16px 20px",
+};
+
+const buttonContainer = {
+  textAlign: "center" as const,
+  margin: "24px 0",
+};
+
+const button = {
+  backgroundColor: "#FF7A59",
+  borderRadius: "8px",
+  color: "#fff",
+  fontSize: "16px",
+  fontWeight: "bold",
+  textDecoration: "none",
+  textAlign: "center" as const,
+  display: "inline-block",
+  padding: "12px 24px",
+};
+
+const hr = {
+  borderColor: "#e5e7eb",
+  margin: "32px 20px",
+};
+
+const footer = {
+  color: "#6b7280",
+  fontSize: "12px",
+  lineHeight: "20px",
+  margin: "16px 20px",
+  textAlign: "center" as const,
+};
@@ -7,6 +7,16 @@
 
 import { revalidatePath } from "next/cache";
 import { createServerClient } from "@/lib/supabase/server";
+import type { SlackAgentConfig } from "@/lib/integrations/slack";
+import {
+  getInboundEmailDomain,
+  isTenantInboundAddress,
+  parseEmailAddress,
+} from "@/lib/integrations/email-threading";
+import { authorize } from "@/lib/team/permissions";
+import { recordAuditEvent } from "@/lib/audit/log";
+import { saveAgentConfig, type AgentConfigVersion } from "./versions";
+import type { RetrievalSettings } from "@/lib/knowledge/hybrid";
 
 interface CreateAgentData {
   name: string;
@@ -14,9 +24,14 @@ interface CreateAgentData {
   description: string;
   instructions: string;
   model: string;
+  fallbackModels?: string[]; // Tried in order when the primary model's provider fails
   tone: string;
   template?: string; // Business Assistant template (executive, sales, finance, etc.)
   integration_ids?: string[]; // Selected integration IDs
+  requireApproval?: string[]; // Write tools held for human approval
+  slack?: SlackAgentConfig; // Channels and DMs this agent answers in Slack
+  emailAddress?: string | null; // Inbound address routed to this agent ("" or null clears it)
+  retrieval?: Partial<RetrievalSettings>; // Knowledge search overrides; unset fields use knowledgeConfig
   leadCollection?: {
     enabled: boolean;
     fields: {
@@ -30,6 +45,48 @@ interface CreateAgentData {
   };
 }
 
+/**
+ * Normalize an inbound email address, returning null to clear it
+ * New addresses must be on the inbound domain under the tenant's slug; an agent keeps
+ * the address it already has.
+ */
+async function normalizeEmailAddress(
+  supabase: Awaited<ReturnType<typeof createServerClient>>,
+  tenantId: string,
+  value: string | null,
+  currentAddress: string | null = null
+): Promise<{ address: string | null; error?: string }> {
+  if (!value?.trim()) return { address: null };
+
+  const parsed = parseEmailAddress(value);
+  if (!parsed || !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(parsed.address)) {
+    return { address: null, error: "Enter a valid inbound email address" };
+  }
+
+  if (parsed.address === currentAddress) {
+    return { address: parsed.address };
+  }
+
+  const { data: tenant } = await supabase
+    .from("tenants")
+    .select("slug")
+    .eq("id", tenantId)
+    .single();
+
+  if (!tenant?.slug || !isTenantInboundAddress(parsed, tenant.slug)) {
+    const domain = getInboundEmailDomain();
+    return {
+      address: null,
+      error: `Inbound addresses must be ${tenant?.slug || "<workspace>"}@${domain} or ${tenant?.slug || "<workspace>"}.<name>@${domain}`,
+    };
+  }
+
+  return { address: parsed.address };
+}
+
+/** Postgres unique_violation, raised when another agent already owns the address */
+const UNIQUE_VIOLATION = "23505";
+
 /**
  * Create a new agent
  */
@@ -45,20 +102,16 @@ export async function createAgent(data: CreateAgentData) {
     return { error: "Unauthorized" };
   }
 
-  // Get user's tenant_id
-  const { data: profile } = await supabase
-    .from("profiles")
-    .select("tenant_id")
-    .eq("id", user.id)
-    .single();
+  // Get user's tenant_id and check their role
+  const access = await authorize(supabase, user.id, "agents:manage");
 
-  if (!profile) {
-    return { error: "Profile not found" };
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
   }
 
   // Check agent creation limit
   const { checkAgentLimit } = await import("@/lib/billing/usage");
-  const limitCheck = await checkAgentLimit(profile.tenant_id);
+  const limitCheck = await checkAgentLimit(access.tenantId);
 
   if (!limitCheck.allowed) {
     return {
@@ -78,6 +131,11 @@ export async function createAgent(data: CreateAgentData) {
     return { error: "Agent type is required" };
   }
 
+  const email = await normalizeEmailAddress(supabase, access.tenantId, data.emailAddress ?? null);
+  if (email.error) {
+    return { error: email.error };
+  }
+
   if (!data.instructions?.trim()) {
     return { error: "Instructions are required" };
   }
@@ -96,27 +154,63 @@ export async function createAgent(data: CreateAgentData) {
       config.leadCollection = data.leadCollection;
     }
 
+    if (data.fallbackModels) {
+      config.fallbackModels = data.fallbackModels;
+    }
+
+    if (data.requireApproval) {
+      config.requireApproval = data.requireApproval;
+    }
+
+    if (data.slack) {
+      config.slack = data.slack;
+    }
+
+    if (data.retrieval) {
+      config.retrieval = data.retrieval;
+    }
+
     // Insert agent
     const { data: agent, error } = await supabase
       .from("agents")
       .insert({
-        tenant_id: profile.tenant_id,
+        tenant_id: access.tenantId,
         name: data.name,
         type: data.type,
         description: data.description,
         template: data.template || null, // Business Assistant template
         config,
+        email_address: email.address,
         status: "active",
         created_by: user.id,
       })
       .select()
       .single();
 
+    if (error?.code === UNIQUE_VIOLATION) {
+      return { error: "That email address is already used by another agent" };
+    }
+
     if (error) {
       console.error("Agent creation error:", error);
       return { error: "Failed to create agent" };
     }
 
+    try {
+      await saveAgentConfig(agent.id, config, { author: user, note: "Initial version" });
+    } catch {
+      // The agent works without history; the next save starts it
+    }
+
+    await recordAuditEvent({
+      tenantId: access.tenantId,
+      actor: user,
+      action: "agent.created",
+      target: { type: "agent", id: agent.id, name: agent.name },
+      before: null,
+      after: { name: agent.name, type: agent.type, description: agent.description, email_address: agent.email_address, config },
+    });
+
     // Revalidate agents page
     revalidatePath("/agents");
 
@@ -129,8 +223,9 @@ export async function createAgent(data: CreateAgentData) {
 
 /**
  * Update an existing agent
+ * Config changes are saved as a new version; versionNote describes the change
  */
-export async function updateAgent(id: string, data: Partial<CreateAgentData>) {
+export async function updateAgent(id: string, data: Partial<CreateAgentData> & { versionNote?: string }) {
   const supabase = await createServerClient();
 
   // Get current user
@@ -142,6 +237,12 @@ export async function updateAgent(id: string, data: Partial<CreateAgentData>) {
     return { error: "Unauthorized" };
   }
 
+  const access = await authorize(supabase, user.id, "agents:manage");
+
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
+  }
+
   try {
     const updateData: any = {
       updated_at: new Date().toISOString(),
@@ -151,37 +252,84 @@ export async function updateAgent(id: string, data: Partial<CreateAgentData>) {
     if (data.type) updateData.type = data.type;
     if (data.description) updateData.description = data.description;
 
-    if (data.instructions || data.model || data.tone || data.leadCollection) {
-      // Get current configuration
-      const { data: currentAgent } = await supabase
-        .from("agents")
-        .select("config")
-        .eq("id", id)
-        .single();
+    // Current state, for merging the configuration and the audit diff
+    const { data: currentAgent } = await supabase
+      .from("agents")
+      .select("name, type, description, email_address, config")
+      .eq("id", id)
+      .eq("tenant_id", access.tenantId)
+      .single();
+
+    if (!currentAgent) {
+      return { error: "Agent not found" };
+    }
 
-      updateData.config = {
+    if (data.emailAddress !== undefined) {
+      const email = await normalizeEmailAddress(
+        supabase,
+        access.tenantId,
+        data.emailAddress,
+        currentAgent.email_address
+      );
+      if (email.error) return { error: email.error };
+      updateData.email_address = email.address;
+    }
+
+    let config: Record<string, any> | null = null;
+
+    if (data.instructions || data.model || data.fallbackModels || data.tone || data.integration_ids || data.leadCollection || data.requireApproval || data.slack || data.retrieval) {
+      config = {
         ...(currentAgent?.config || {}),
         ...(data.model && { model: data.model }),
+        ...(data.fallbackModels && { fallbackModels: data.fallbackModels }),
         ...(data.tone && { tone: data.tone }),
         ...(data.instructions && { instructions: data.instructions }),
+        ...(data.integration_ids && { integration_ids: data.integration_ids }),
         ...(data.leadCollection && { leadCollection: data.leadCollection }),
+        ...(data.requireApproval && { requireApproval: data.requireApproval }),
+        ...(data.slack && { slack: data.slack }),
+        ...(data.retrieval && { retrieval: data.retrieval }),
       };
+
+      // Saving without changes doesn't create a version
+      if (JSON.stringify(config) === JSON.stringify(currentAgent.config || {})) {
+        config = null;
+      }
     }
 
     const { error } = await supabase
       .from("agents")
       .update(updateData)
-      .eq("id", id);
+      .eq("id", id)
+      .eq("tenant_id", access.tenantId);
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      return { error: "That email address is already used by another agent" };
+    }
 
     if (error) {
       console.error("Agent update error:", error);
       return { error: "Failed to update agent" };
     }
 
+    const configVersion = config
+      ? await saveAgentConfig(id, config, { author: user, note: data.versionNote })
+      : undefined;
+
+    await recordAuditEvent({
+      tenantId: access.tenantId,
+      actor: user,
+      action: "agent.updated",
+      target: { type: "agent", id, name: updateData.name || currentAgent.name },
+      before: currentAgent,
+      after: { ...updateData, ...(config && { config }) },
+      metadata: configVersion ? { config_version: configVersion } : undefined,
+    });
+
     revalidatePath("/agents");
     revalidatePath(`/agents/${id}`);
 
-    return { success: true };
+    return { success: true, configVersion };
   } catch (error) {
     console.error("Agent update error:", error);
     return { error: "An unexpected error occurred" };
@@ -203,14 +351,40 @@ export async function deleteAgent(id: string) {
     return { error: "Unauthorized" };
   }
 
+  const access = await authorize(supabase, user.id, "agents:manage");
+
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
+  }
+
   try {
-    const { error } = await supabase.from("agents").delete().eq("id", id);
+    const { data: agent } = await supabase
+      .from("agents")
+      .select("name, type, description, email_address, status, config")
+      .eq("id", id)
+      .eq("tenant_id", access.tenantId)
+      .single();
+
+    const { error } = await supabase
+      .from("agents")
+      .delete()
+      .eq("id", id)
+      .eq("tenant_id", access.tenantId);
 
     if (error) {
       console.error("Agent deletion error:", error);
       return { error: "Failed to delete agent" };
     }
 
+    await recordAuditEvent({
+      tenantId: access.tenantId,
+      actor: user,
+      action: "agent.deleted",
+      target: { type: "agent", id, name: agent?.name },
+      before: agent,
+      after: null,
+    });
+
     revalidatePath("/agents");
 
     return { success: true };
@@ -235,17 +409,40 @@ export async function toggleAgentStatus(id: string, status: "active" | "inactive
     return { error: "Unauthorized" };
   }
 
+  const access = await authorize(supabase, user.id, "agents:manage");
+
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
+  }
+
   try {
+    const { data: agent } = await supabase
+      .from("agents")
+      .select("name, status")
+      .eq("id", id)
+      .eq("tenant_id", access.tenantId)
+      .single();
+
     const { error } = await supabase
       .from("agents")
       .update({ status, updated_at: new Date().toISOString() })
-      .eq("id", id);
+      .eq("id", id)
+      .eq("tenant_id", access.tenantId);
 
     if (error) {
       console.error("Agent status toggle error:", error);
       return { error: "Failed to update agent status" };
     }
 
+    await recordAuditEvent({
+      tenantId: access.tenantId,
+      actor: user,
+      action: status === "active" ? "agent.activated" : "agent.deactivated",
+      target: { type: "agent", id, name: agent?.name },
+      before: agent ? { status: agent.status } : null,
+      after: { status },
+    });
+
     revalidatePath("/agents");
     revalidatePath(`/agents/${id}`);
 
@@ -255,3 +452,114 @@ export async function toggleAgentStatus(id: string, status: "active" | "inactive
     return { error: "An unexpected error occurred" };
   }
 }
+
+/**
+ * Config version history of an agent, newest first
+ */
+export async function getAgentConfigVersions(agentId: string) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  try {
+    // RLS limits versions to the user's tenant
+    const { data: versions, error } = await supabase
+      .from("agent_config_versions")
+      .select("id, version, config, note, restored_from, created_by, author_email, created_at")
+      .eq("agent_id", agentId)
+      .order("version", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching agent versions:", error);
+      return { error: "Failed to fetch version history" };
+    }
+
+    return { versions: (versions || []) as AgentConfigVersion[] };
+  } catch (error) {
+    console.error("Error fetching agent versions:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Roll an agent's config back to an earlier version
+ * The restored config is saved as a new version so the history stays linear
+ */
+export async function rollbackAgentConfig(agentId: string, version: number) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  const access = await authorize(supabase, user.id, "agents:manage");
+
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
+  }
+
+  try {
+    const { data: agent } = await supabase
+      .from("agents")
+      .select("name, config, config_version")
+      .eq("id", agentId)
+      .eq("tenant_id", access.tenantId)
+      .single();
+
+    if (!agent) {
+      return { error: "Agent not found" };
+    }
+
+    const { data: target } = await supabase
+      .from("agent_config_versions")
+      .select("version, config")
+      .eq("agent_id", agentId)
+      .eq("tenant_id", access.tenantId)
+      .eq("version", version)
+      .single();
+
+    if (!target) {
+      return { error: "Version not found" };
+    }
+
+    if (agent.config_version === version) {
+      return { error: `Version ${version} is already live` };
+    }
+
+    const configVersion = await saveAgentConfig(agentId, target.config, {
+      author: user,
+      note: `Rolled back to version ${version}`,
+      restoredFrom: version,
+    });
+
+    await recordAuditEvent({
+      tenantId: access.tenantId,
+      actor: user,
+      action: "agent.rolled_back",
+      target: { type: "agent", id: agentId, name: agent.name },
+      before: { config: agent.config },
+      after: { config: target.config },
+      metadata: { restored_version: version, config_version: configVersion },
+    });
+
+    revalidatePath("/agents");
+    revalidatePath(`/agents/${agentId}`);
+
+    return { success: true, configVersion };
+  } catch (error) {
+    console.error("Agent rollback error:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Prompt Budgeting and Cost Accounting
+ * Per-model prompt budgets and prices, plus trimming of history and RAG context to fit
+ */
+
+export interface ModelProfile {
+  /** Max tokens to send as prompt (system + context + history + user message) */
+  promptBudget: number;
+  /** USD per 1M input tokens */
+  inputPricePerMillion: number;
+  /** USD per 1M output tokens */
+  outputPricePerMillion: number;
+}
+
+/**
+ * Prompt budgets sit well below each model's context window to keep per-message cost predictable
+ * Prices are list prices in USD and only used for estimates
+ */
+export const MODEL_PROFILES: Record<string, ModelProfile> = {
+  // Gemini
+  "gemini-3-pro": { promptBudget: 32000, inputPricePerMillion: 2.0, outputPricePerMillion: 12.0 },
+  "gemini-2.5-pro": { promptBudget: 32000, inputPricePerMillion: 1.25, outputPricePerMillion: 10.0 },
+  "gemini-2.5-flash": { promptBudget: 24000, inputPricePerMillion: 0.3, outputPricePerMillion: 2.5 },
+  "gemini-2.5-flash-lite": { promptBudget: 16000, inputPricePerMillion: 0.1, outputPricePerMillion: 0.4 },
+  "gemini-2.0-flash": { promptBudget: 16000, inputPricePerMillion: 0.1, outputPricePerMillion: 0.4 },
+  "gemini-2.0-flash-thinking": { promptBudget: 16000, inputPricePerMillion: 0.1, outputPricePerMillion: 0.4 },
+  "gemini-1.5-flash": { promptBudget: 16000, inputPricePerMillion: 0.075, outputPricePerMillion: 0.3 },
+  "gemini-1.5-flash-8b": { promptBudget: 12000, inputPricePerMillion: 0.0375, outputPricePerMillion: 0.15 },
+  "gemini-1.5-pro": { promptBudget: 32000, inputPricePerMillion: 1.25, outputPricePerMillion: 5.0 },
+  // Claude
+  "claude-sonnet-4-5": { promptBudget: 32000, inputPricePerMillion: 3.0, outputPricePerMillion: 15.0 },
+  "claude-3.5-sonnet": { promptBudget: 32000, inputPricePerMillion: 3.0, outputPricePerMillion: 15.0 },
+  "claude-3.5-haiku": { promptBudget: 16000, inputPricePerMillion: 0.8, outputPricePerMillion: 4.0 },
+  "claude-3-opus": { promptBudget: 32000, inputPricePerMillion: 15.0, outputPricePerMillion: 75.0 },
+  "claude-3-haiku": { promptBudget: 16000, inputPricePerMillion: 0.25, outputPricePerMillion: 1.25 },
+  // OpenAI
+  "gpt-5": { promptBudget: 32000, inputPricePerMillion: 1.25, outputPricePerMillion: 10.0 },
+  "gpt-4.5": { promptBudget: 16000, inputPricePerMillion: 75.0, outputPricePerMillion: 150.0 },
+  "gpt-4o": { promptBudget: 32000, inputPricePerMillion: 2.5, outputPricePerMillion: 10.0 },
+  "gpt-3.5-turbo": { promptBudget: 12000, inputPricePerMillion: 0.5, outputPricePerMillion: 1.5 },
+};
+
+/** Used for models missing from the table (matches the default gemini-2.0-flash) */
+const DEFAULT_MODEL_PROFILE = MODEL_PROFILES["gemini-2.0-flash"];
+
+/**
+ * Rough token estimate (~4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Look up a model's budget and prices
+ */
+export function getModelProfile(modelName?: string): ModelProfile {
+  return (modelName && MODEL_PROFILES[modelName]) || DEFAULT_MODEL_PROFILE;
+}
+
+/**
+ * Estimated cost in USD for a model call
+ */
+export function estimateCost(
+  modelName: string | undefined,
+  inputTokens: number,
+  outputTokens: number
+): number {
+  const profile = getModelProfile(modelName);
+  const cost =
+    (inputTokens * profile.inputPricePerMillion +
+      outputTokens * profile.outputPricePerMillion) /
+    1_000_000;
+
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+export interface PromptParts<TMessage extends { content: string }> {
+  /** System prompt without RAG context (always kept) */
+  system: string;
+  /** Current user prompt (always kept) */
+  user: string;
+  /** Conversation history, oldest first */
+  history: TMessage[];
+  /** Knowledge base chunks, most relevant first */
+  ragChunks: string[];
+}
+
+export interface FittedPrompt<TMessage> {
+  history: TMessage[];
+  ragChunks: string[];
+  estimatedTokens: number;
+  trimmedMessages: number;
+  trimmedChunks: number;
+}
+
+/**
+ * Trim history and RAG chunks so the prompt fits the budget
+ * Priority after the system and user prompts:
+ *   1. the latest exchange of history
+ *   2. RAG chunks, most relevant first
+ *   3. older history, newest first
+ */
+export function fitPromptToBudget<TMessage extends { content: string }>(
+  parts: PromptParts<TMessage>,
+  budget: number
+): FittedPrompt<TMessage> {
+  let used = estimateTokens(parts.system) + estimateTokens(parts.user);
+
+  const fits = (text: string) => used + estimateTokens(text) <= budget;
+
+  // 1. Latest exchange
+  const history = parts.history;
+  const keptFromEnd: TMessage[] = [];
+  let index = history.length - 1;
+
+  while (index >= 0 && keptFromEnd.length < 2 && fits(history[index].content)) {
+    used += estimateTokens(history[index].content);
+    keptFromEnd.unshift(history[index]);
+    index--;
+  }
+
+  // 2. RAG chunks in relevance order; stop at the first that doesn't fit to keep ranking intact
+  const ragChunks: string[] = [];
+  for (const chunk of parts.ragChunks) {
+    if (!fits(chunk)) break;
+    used += estimateTokens(chunk);
+    ragChunks.push(chunk);
+  }
+
+  // 3. Older history, newest first, stopping at the first message that doesn't fit so history stays contiguous
+  while (index >= 0 && fits(history[index].content)) {
+    used += estimateTokens(history[index].content);
+    keptFromEnd.unshift(history[index]);
+    index--;
+  }
+
+  return {
+    history: keptFromEnd,
+    ragChunks,
+    estimatedTokens: used,
+    trimmedMessages: history.length - keptFromEnd.length,
+    trimmedChunks: parts.ragChunks.length - ragChunks.length,
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Agent Config Diff
+ * Compares two agent config versions field by field, with a line diff for long text
+ */
+
+export interface ConfigFieldChange {
+  /** Dotted path into the config, e.g. leadCollection.fields.email.required */
+  path: string;
+  kind: "added" | "removed" | "changed";
+  before: unknown;
+  after: unknown;
+}
+
+export interface LineChange {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+/** Fields shown first in the diff, in this order */
+const FIELD_ORDER = ["instructions", "model", "fallbackModels", "tone", "integration_ids"];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function flatten(value: Record<string, unknown>, prefix = "", out: Record<string, unknown> = {}) {
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child) && Object.keys(child).length > 0) {
+      flatten(child, path, out);
+    } else {
+      out[path] = child;
+    }
+  }
+  return out;
+}
+
+function fieldRank(path: string): number {
+  const index = FIELD_ORDER.indexOf(path.split(".")[0]);
+  return index === -1 ? FIELD_ORDER.length : index;
+}
+
+/**
+ * Every config path that differs between two versions
+ */
+export function diffConfigs(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): ConfigFieldChange[] {
+  const previous = flatten(before || {});
+  const next = flatten(after || {});
+  const changes: ConfigFieldChange[] = [];
+
+  for (const path of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    const inBefore = previous[path] !== undefined;
+    const inAfter = next[path] !== undefined;
+
+    if (inBefore && inAfter && JSON.stringify(previous[path]) === JSON.stringify(next[path])) {
+      continue;
+    }
+
+    changes.push({
+      path,
+      kind: !inBefore ? "added" : !inAfter ? "removed" : "changed",
+      before: inBefore ? previous[path] : null,
+      after: inAfter ? next[path] : null,
+    });
+  }
+
+  return changes.sort((a, b) => fieldRank(a.path) - fieldRank(b.path) || a.path.localeCompare(b.path));
+}
+
+/**
+ * Line-by-line diff of two texts (longest common subsequence), for instructions
+ */
+export function diffLines(before: string, after: string): LineChange[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: LineChange[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+
+  return lines;
+}
@@ -0,0 +1,282 @@
+/**
+ * Conversation Memory
+ * Loads the history of the conversation an agent run belongs to, scoped by
+ * widget session or conversation ID for chat, by thread for email and by phone number for SMS.
+ * Older turns are folded into a cached summary once the history exceeds a token budget.
+ */
+
+import { generateText, type LanguageModel } from "ai";
+import { createServiceClient } from "@/lib/supabase/service";
+import { estimateTokens } from "./budget";
+
+export interface MemoryMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ConversationMemory {
+  /** Stored conversation row, when one exists */
+  conversationId?: string;
+  /** Recent messages passed to the model verbatim */
+  messages: MemoryMessage[];
+  /** Summary of older messages that no longer fit the budget */
+  summary?: string;
+}
+
+/** Fields of AgentInput that identify which conversation a run belongs to */
+export interface MemoryInput {
+  type: string;
+  from?: string;
+  subject?: string;
+  sessionId?: string;
+  conversationId?: string;
+  threadKey?: string;
+  history?: MemoryMessage[];
+}
+
+/** Default history budget, overridable per agent with config.memoryTokenBudget */
+export const DEFAULT_MEMORY_TOKEN_BUDGET = 3000;
+
+/**
+ * Key used to find the stored conversation for email and SMS runs
+ * Inbound email passes the thread's root Message-ID as threadKey; without one,
+ * email threads are identified by sender and subject with reply/forward prefixes removed
+ */
+export function getThreadKey(input: MemoryInput): string | null {
+  if (input.threadKey) return input.threadKey;
+
+  if (input.type === "email" && input.from) {
+    const subject = (input.subject || "")
+      .replace(/^\s*((re|fw|fwd|aw)\s*:\s*)+/i, "")
+      .trim()
+      .toLowerCase();
+    return `email:${extractAddress(input.from)}:${subject}`;
+  }
+
+  if (input.type === "sms" && input.from) {
+    return `sms:${input.from.replace(/[^\d+]/g, "")}`;
+  }
+
+  return null;
+}
+
+/**
+ * Load the conversation history for this run
+ * Returns empty memory when the run can't be tied to a conversation,
+ * so history never leaks between visitors or senders
+ */
+export async function loadConversationMemory(
+  agent: { id: string; tenant_id: string; config?: any },
+  input: MemoryInput,
+  model: LanguageModel
+): Promise<ConversationMemory> {
+  const conversation = await findConversation(agent, input);
+
+  const stored = sanitizeMessages(conversation?.messages);
+  const messages = stored.length > 0 ? stored : sanitizeMessages(input.history);
+
+  if (messages.length === 0) {
+    return { conversationId: conversation?.id, messages: [] };
+  }
+
+  const budget = agent.config?.memoryTokenBudget || DEFAULT_MEMORY_TOKEN_BUDGET;
+  const totalTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+
+  if (totalTokens <= budget) {
+    return { conversationId: conversation?.id, messages };
+  }
+
+  // Keep the most recent turns verbatim within half the budget, summarize the rest
+  const recent = takeRecent(messages, Math.floor(budget / 2));
+  const olderCount = messages.length - recent.length;
+
+  const cached = conversation?.metadata?.memorySummary as
+    | { text: string; summarizedCount: number }
+    | undefined;
+
+  if (cached && cached.summarizedCount === olderCount) {
+    return { conversationId: conversation?.id, messages: recent, summary: cached.text };
+  }
+
+  try {
+    // Extend the cached summary with only the newly folded messages when possible
+    const canExtend = cached && cached.summarizedCount < olderCount;
+    const toSummarize = messages.slice(canExtend ? cached.summarizedCount : 0, olderCount);
+    const summary = await summarizeMessages(
+      model,
+      toSummarize,
+      canExtend ? cached.text : undefined
+    );
+
+    if (conversation) {
+      const supabase = createServiceClient();
+      await supabase
+        .from("conversations")
+        .update({
+          metadata: {
+            ...(conversation.metadata || {}),
+            memorySummary: { text: summary, summarizedCount: olderCount },
+          },
+        })
+        .eq("id", conversation.id);
+    }
+
+    return { conversationId: conversation?.id, messages: recent, summary };
+  } catch (error) {
+    console.error("[MEMORY] Summarization failed, using recent messages only:", error);
+    return { conversationId: conversation?.id, messages: recent, summary: cached?.text };
+  }
+}
+
+/**
+ * Append a finished turn to the email/SMS thread's conversation
+ * Chat conversations are saved by the chat route, which owns the widget session
+ */
+export async function saveThreadTurn(
+  agent: { id: string; tenant_id: string; type?: string },
+  input: MemoryInput & { body?: string; message?: string },
+  reply: string
+): Promise<void> {
+  const threadKey = getThreadKey(input);
+  if (!threadKey) return;
+
+  const userContent = input.body || input.message || "";
+  const turn: MemoryMessage[] = [
+    { role: "user", content: userContent },
+    { role: "assistant", content: reply },
+  ];
+
+  try {
+    const supabase = createServiceClient();
+    const existing = await findConversation(agent, input);
+
+    if (existing) {
+      await supabase
+        .from("conversations")
+        .update({
+          messages: [...(existing.messages || []), ...turn],
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", existing.id);
+    } else {
+      await supabase.from("conversations").insert({
+        tenant_id: agent.tenant_id,
+        agent_id: agent.id,
+        messages: turn,
+        conversation_type:
+          agent.type === "business_assistant" ? "business_assistant" : "widget",
+        metadata: {
+          channel: input.type,
+          threadKey,
+          from: input.from,
+          ...(input.subject && { subject: input.subject }),
+        },
+      });
+    }
+  } catch (error) {
+    // Don't let memory persistence break the reply
+    console.error("[MEMORY] Failed to save thread turn:", error);
+  }
+}
+
+/**
+ * Find the stored conversation for a run, always scoped to the agent and tenant
+ */
+async function findConversation(
+  agent: { id: string; tenant_id: string },
+  input: MemoryInput
+): Promise<{ id: string; messages: any[]; metadata: any } | null> {
+  const supabase = createServiceClient();
+
+  let query = supabase
+    .from("conversations")
+    .select("id, messages, metadata")
+    .eq("agent_id", agent.id)
+    .eq("tenant_id", agent.tenant_id);
+
+  if (input.conversationId) {
+    query = query.eq("id", input.conversationId);
+  } else if (input.type === "chat" && input.sessionId) {
+    query = query.eq("metadata->>sessionId", input.sessionId);
+  } else {
+    const threadKey = getThreadKey(input);
+    if (!threadKey) return null;
+    query = query.eq("metadata->>threadKey", threadKey);
+  }
+
+  const { data, error } = await query
+    .order("updated_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[MEMORY] Failed to load conversation:", error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * Ask the model to condense older messages, folding in an existing summary
+ */
+async function summarizeMessages(
+  model: LanguageModel,
+  messages: MemoryMessage[],
+  previousSummary?: string
+): Promise<string> {
+  const transcript = messages
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+    .join("\n");
+
+  const { text } = await generateText({
+    model,
+    temperature: 0,
+    prompt: `Summarize this conversation so an assistant can continue it. Keep names, contact details, requests, decisions and open questions. Be concise.
+
+${previousSummary ? `SUMMARY SO FAR:\n${previousSummary}\n\nNEW MESSAGES:\n` : ""}${transcript}`,
+  });
+
+  return text.trim();
+}
+
+/**
+ * Take messages from the end until the budget is used, always keeping the last exchange
+ */
+function takeRecent(messages: MemoryMessage[], budget: number): MemoryMessage[] {
+  const recent: MemoryMessage[] = [];
+  let used = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const tokens = estimateTokens(messages[i].content);
+    if (recent.length >= 2 && used + tokens > budget) break;
+    recent.unshift(messages[i]);
+    used += tokens;
+  }
+
+  return recent;
+}
+
+/**
+ * Keep only user/assistant messages with text content
+ */
+function sanitizeMessages(messages: any): MemoryMessage[] {
+  if (!Array.isArray(messages)) return [];
+
+  return messages
+    .filter(
+      (m) =>
+        (m?.role === "user" || m?.role === "assistant") &&
+        typeof m.content === "string" &&
+        m.content.trim().length > 0
+    )
+    .map((m) => ({ role: m.role, content: m.content }));
+}
+
+/**
+ * Extract the bare address from "Name <address>"
+ */
+function extractAddress(from: string): string {
+  const match = from.match(/<([^>]+)>/);
+  return (match ? match[1] : from).trim().toLowerCase();
+}
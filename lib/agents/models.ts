@@ -0,0 +1,301 @@
+/**
+ * Model Selection and Fallback
+ * Resolves configured model names to providers, builds the per-agent fallback chain
+ * and moves on to the next model when a provider is rate limited or failing.
+ */
+
+import {
+  APICallError,
+  RetryError,
+  generateText,
+  streamText,
+  type LanguageModel,
+} from "ai";
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { createOpenAI } from "@ai-sdk/openai";
+import { canUseModel } from "@/lib/billing/plans";
+
+export type ModelProvider = "google" | "anthropic" | "openai";
+
+export interface ModelCandidate {
+  /** Configured model name, as stored in agent.config */
+  name: string;
+  provider: ModelProvider;
+  model: LanguageModel;
+}
+
+const GEMINI_MODELS: Record<string, string> = {
+  // Gemini 3 Pro (preview - may require paid API)
+  "gemini-3-pro": "gemini-3-pro-preview",
+  "gemini-3-pro-preview": "gemini-3-pro-preview",
+  // Gemini 2.5 Pro
+  "gemini-2.5-pro": "gemini-2.5-pro",
+  // Gemini 2.5 Flash (speed + cost efficient)
+  "gemini-2.5-flash": "gemini-2.5-flash",
+  // Gemini 2.5 Flash-Lite (fastest/cheapest)
+  "gemini-2.5-flash-lite": "gemini-2.5-flash-lite",
+  // Gemini 2.0 Flash (stable)
+  "gemini-2.0-flash": "gemini-2.0-flash",
+  "gemini-2.0-flash-exp": "gemini-2.0-flash-exp",
+  "gemini-2.0-flash-thinking": "gemini-2.0-flash-thinking-exp",
+  // Gemini 1.5
+  "gemini-1.5-flash": "gemini-1.5-flash-latest",
+  "gemini-1.5-flash-8b": "gemini-1.5-flash-8b-latest",
+  "gemini-1.5-pro": "gemini-1.5-pro-latest",
+  // Legacy
+  "gemini-pro": "gemini-1.5-pro-latest",
+};
+
+const CLAUDE_MODELS: Record<string, string> = {
+  // Claude Sonnet 4.5 (latest - best coding model)
+  "claude-sonnet-4-5": "claude-sonnet-4-5",
+  "claude-4-sonnet": "claude-sonnet-4-5",
+  // Claude 3.5
+  "claude-3.5-sonnet": "claude-3-5-sonnet-20241022",
+  "claude-3.5-haiku": "claude-3-5-haiku-20241022",
+  // Claude 3
+  "claude-3-sonnet": "claude-3-sonnet-20240229",
+  "claude-3-opus": "claude-3-opus-20240229",
+  "claude-3-haiku": "claude-3-haiku-20240307",
+};
+
+/** Consecutive failures before a provider is skipped */
+export const CIRCUIT_FAILURE_THRESHOLD = 3;
+
+/** How long a tripped provider is skipped before it is tried again */
+export const CIRCUIT_OPEN_MS = 60_000;
+
+/**
+ * Per-provider health, kept in memory per server instance
+ */
+const circuits = new Map<ModelProvider, { failures: number; openUntil: number }>();
+
+/**
+ * Provider for a configured model name, or null for unknown names
+ */
+export function getModelProvider(modelName: string): ModelProvider | null {
+  if (GEMINI_MODELS[modelName]) return "google";
+  if (CLAUDE_MODELS[modelName]) return "anthropic";
+  // OpenAI model IDs are passed through unchanged
+  if (modelName.startsWith("gpt-")) return "openai";
+  return null;
+}
+
+/**
+ * Resolve a configured model name to a provider model
+ * Returns null for unknown names instead of silently substituting another model
+ */
+export function resolveModel(modelName: string): ModelCandidate | null {
+  const provider = getModelProvider(modelName);
+
+  switch (provider) {
+    case "google": {
+      const google = createGoogleGenerativeAI({
+        apiKey: process.env.GOOGLE_API_KEY!,
+      });
+      return { name: modelName, provider, model: google(GEMINI_MODELS[modelName]) };
+    }
+    case "anthropic": {
+      const anthropic = createAnthropic({
+        apiKey: process.env.ANTHROPIC_API_KEY!,
+      });
+      return { name: modelName, provider, model: anthropic(CLAUDE_MODELS[modelName]) };
+    }
+    case "openai": {
+      const openai = createOpenAI({
+        apiKey: process.env.OPENAI_API_KEY!,
+      });
+      return { name: modelName, provider, model: openai(modelName) };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build the ordered model chain for an agent: its primary model, then its fallbacks
+ * Fallbacks the tenant's plan doesn't allow and unknown names are dropped
+ */
+export function buildModelChain(
+  primary: string,
+  fallbacks: string[] = [],
+  planId?: string
+): ModelCandidate[] {
+  const chain: ModelCandidate[] = [];
+  const seen = new Set<string>();
+
+  [primary, ...fallbacks].forEach((name, index) => {
+    if (!name || seen.has(name)) return;
+    seen.add(name);
+
+    if (index > 0 && planId && !canUseModel(planId, name)) {
+      console.warn(`[MODEL] Skipping fallback ${name}: not available on ${planId} plan`);
+      return;
+    }
+
+    const candidate = resolveModel(name);
+    if (!candidate) {
+      console.warn(`[MODEL] Skipping unknown model: ${name}`);
+      return;
+    }
+
+    chain.push(candidate);
+  });
+
+  if (chain.length === 0) {
+    throw new Error(`Unknown model "${primary}". Please choose a supported model for this agent.`);
+  }
+
+  return chain;
+}
+
+/**
+ * Whether an error should move on to the next model (rate limits, timeouts and 5xx)
+ * Bad requests and auth errors would fail the same way on retry, so they are surfaced
+ */
+export function isFallbackError(error: unknown): boolean {
+  if (RetryError.isInstance(error)) {
+    return isFallbackError(error.lastError);
+  }
+
+  if (APICallError.isInstance(error)) {
+    const status = error.statusCode;
+    if (status === undefined) return error.isRetryable;
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  return false;
+}
+
+/**
+ * Whether a provider's circuit is closed (or has cooled down)
+ */
+export function isProviderAvailable(provider: ModelProvider, now = Date.now()): boolean {
+  const circuit = circuits.get(provider);
+  return !circuit || circuit.openUntil <= now;
+}
+
+/**
+ * Count a failure; trips the circuit once the threshold is reached
+ */
+export function recordProviderFailure(provider: ModelProvider, now = Date.now()): void {
+  const circuit = circuits.get(provider) || { failures: 0, openUntil: 0 };
+  circuit.failures++;
+
+  if (circuit.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openUntil = now + CIRCUIT_OPEN_MS;
+    console.warn(`[MODEL] Circuit open for ${provider} after ${circuit.failures} failures`);
+  }
+
+  circuits.set(provider, circuit);
+}
+
+/**
+ * Reset a provider's circuit after a successful call
+ */
+export function recordProviderSuccess(provider: ModelProvider): void {
+  circuits.delete(provider);
+}
+
+/**
+ * Chain order with tripped providers moved to the end (still tried as a last resort)
+ */
+export function orderByHealth(chain: ModelCandidate[], now = Date.now()): ModelCandidate[] {
+  const healthy = chain.filter((c) => isProviderAvailable(c.provider, now));
+  const tripped = chain.filter((c) => !isProviderAvailable(c.provider, now));
+  return [...healthy, ...tripped];
+}
+
+/**
+ * generateText across the model chain
+ * Returns the result along with the name of the model that answered
+ */
+export async function generateWithFallback(
+  chain: ModelCandidate[],
+  options: any
+): Promise<{ result: Awaited<ReturnType<typeof generateText>>; modelName: string }> {
+  const candidates = orderByHealth(chain);
+  let lastError: unknown;
+
+  for (const [index, candidate] of candidates.entries()) {
+    try {
+      const result = await generateText({ ...options, model: candidate.model });
+      recordProviderSuccess(candidate.provider);
+      return { result, modelName: candidate.name };
+    } catch (error) {
+      lastError = error;
+      if (!isFallbackError(error)) throw error;
+
+      recordProviderFailure(candidate.provider);
+      if (index < candidates.length - 1) {
+        console.warn(`[MODEL] ${candidate.name} failed, falling back to ${candidates[index + 1].name}:`, (error as Error)?.message);
+      }
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * streamText across the model chain
+ * Falls back only while the provider has produced nothing, so a reply is never mixed across models.
+ * Callbacks fire for the model that was kept.
+ */
+export async function streamWithFallback(
+  chain: ModelCandidate[],
+  options: any,
+  callbacks: {
+    onFinish: (event: any, modelName: string) => Promise<void>;
+    onError: (error: unknown, modelName: string) => Promise<void>;
+  }
+): Promise<{ result: ReturnType<typeof streamText>; modelName: string }> {
+  const candidates = orderByHealth(chain);
+
+  for (const [index, candidate] of candidates.entries()) {
+    const isLast = index === candidates.length - 1;
+    let state: "pending" | "kept" | "discarded" = "pending";
+    let pendingError: unknown;
+
+    const result = streamText({
+      ...options,
+      model: candidate.model,
+      onFinish: async (event: any) => {
+        recordProviderSuccess(candidate.provider);
+        await callbacks.onFinish(event, candidate.name);
+      },
+      onError: async ({ error }: { error: unknown }) => {
+        if (state === "pending") pendingError = error;
+        if (state === "kept") await callbacks.onError(error, candidate.name);
+      },
+    });
+
+    // Wait for the first meaningful part to see whether the provider accepted the request
+    let firstError: unknown;
+    for await (const part of result.fullStream) {
+      if (part.type === "start" || part.type === "start-step") continue;
+      if (part.type === "error") firstError = part.error;
+      break;
+    }
+
+    if (firstError !== undefined && isFallbackError(firstError)) {
+      recordProviderFailure(candidate.provider);
+
+      if (!isLast) {
+        state = "discarded";
+        console.warn(`[MODEL] ${candidate.name} failed, falling back to ${candidates[index + 1].name}:`, (firstError as Error)?.message);
+        continue;
+      }
+    }
+
+    state = "kept";
+    if (pendingError !== undefined) {
+      await callbacks.onError(pendingError, candidate.name);
+    }
+
+    return { result, modelName: candidate.name };
+  }
+
+  // Unreachable: the last candidate is always kept
+  throw new Error("No model available");
+}
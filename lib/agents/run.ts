@@ -0,0 +1,911 @@
+/**
+ * Agent Runs
+ * Runs agents with various input types (chat, email, webhook, etc.)
+ * Server-only; not a server action module, so dry runs (executeAgentDryRun) can't be requested
+ * from the client. Everything else goes through the executeAgent/streamAgent actions in ./execute.
+ */
+
+import { createRequestOrServiceClient } from "@/lib/supabase/server";
+import { stepCountIs, type LanguageModel, type LanguageModelUsage } from "ai";
+import { getIntegrationMap } from "@/lib/integrations/registry";
+import { searchDocuments } from "@/lib/knowledge/actions";
+import { trackContextUsage } from "@/lib/knowledge/analytics";
+import { resolveRetrievalSettings } from "@/lib/knowledge/hybrid";
+import { citationFor } from "@/lib/knowledge/sources";
+import {
+  triggerAgentCompletedEvent,
+  triggerAgentFailedEvent,
+} from "@/lib/webhooks/triggers";
+import { estimateCost, fitPromptToBudget, getModelProfile } from "./budget";
+import {
+  buildModelChain,
+  generateWithFallback,
+  getModelProvider,
+  streamWithFallback,
+  type ModelCandidate,
+} from "./models";
+import {
+  loadConversationMemory,
+  saveThreadTurn,
+  type MemoryMessage,
+} from "./memory";
+import { createCompletion } from "./stream";
+
+export interface AgentInput {
+  type: "chat" | "email" | "webhook" | "slack" | "discord" | "sms" | "schedule";
+  from?: string;
+  to?: string | string[];
+  subject?: string;
+  body?: string;
+  message?: string;
+  userSession?: string; // NEW - for RAG tracking and analytics
+  sessionId?: string; // Widget session - scopes chat memory
+  conversationId?: string; // Stored conversation to continue
+  threadKey?: string; // Overrides the derived email/SMS thread key
+  history?: MemoryMessage[]; // Client-held history, used when nothing is stored yet
+  payload?: any;
+  timestamp?: string;
+  attachments?: any[];
+  html?: string;
+}
+
+export interface AgentOutput {
+  message: string;
+  actions?: any[];
+  sources?: string[]; // NEW - source documents from knowledge base
+  toolCalls?: AgentToolCall[]; // Dry runs and sandbox runs only
+  metadata?: any;
+}
+
+export interface AgentToolCall {
+  toolName: string;
+  args: any;
+  result: any;
+}
+
+/**
+ * Run an agent without side effects, e.g. for offline evaluation
+ * Nothing is billed, logged, remembered or sent to webhooks, and tools only
+ * reach the integrations given here
+ */
+export interface DryRunOptions {
+  /** Agent row to run instead of loading it (e.g. with an earlier config version) */
+  agent?: any;
+  /** Integrations the tools call, usually recorded fixtures */
+  integrationMap: Map<string, any>;
+  /** Model used instead of the agent's model chain, e.g. a stub in tests */
+  model?: LanguageModel;
+}
+
+export interface RunAgentOptions {
+  dryRun?: DryRunOptions;
+  /** Simulate write tools and use sample data for unconnected integrations (see ./sandbox) */
+  sandbox?: boolean;
+}
+
+/**
+ * Prepared agent run - everything needed to call the model
+ */
+interface PreparedRun {
+  options: any;
+  /** Primary model followed by allowed fallbacks */
+  chain: ModelCandidate[];
+  ragContext: { hasContext: boolean; context: string; sources: string[] };
+}
+
+/**
+ * Finished model response passed to post-processing
+ */
+interface ModelResult {
+  text: string;
+  /** Model that actually answered (may be a fallback) */
+  model: string;
+  steps?: any[];
+  usage?: LanguageModelUsage;
+  durationMs: number;
+}
+
+/**
+ * Token usage, latency and estimated cost recorded on agent_executions
+ */
+interface ExecutionMetrics {
+  model?: string;
+  /** agent_config_versions.version the run used */
+  configVersion?: number | null;
+  durationMs?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  costUsd?: number;
+}
+
+/**
+ * Streaming agent result
+ * textStream yields response chunks; completion resolves once post-processing is done
+ */
+export interface AgentStream {
+  textStream: AsyncIterable<string>;
+  sources?: string[];
+  completion: Promise<AgentOutput>;
+  /** Stop generating, e.g. when the client disconnects; completion then never settles */
+  abort: () => void;
+}
+
+/**
+ * Run an agent with given input
+ */
+export async function runAgent(
+  agentId: string,
+  input: AgentInput,
+  options: RunAgentOptions = {}
+): Promise<AgentOutput> {
+  const { dryRun, sandbox } = options;
+  let agent: any = null; // Declare outside try-catch for error handling
+  const startedAt = Date.now();
+
+  try {
+    agent = dryRun?.agent ?? (await loadAgent(agentId));
+
+    const run = await prepareAgentRun(agent, input, options);
+
+    const { result, modelName } = await generateWithFallback(run.chain, run.options);
+
+    return await completeAgentRun(
+      agent,
+      input,
+      run,
+      {
+        text: result.text,
+        model: modelName,
+        steps: result.steps,
+        usage: result.totalUsage,
+        durationMs: Date.now() - startedAt,
+      },
+      options
+    );
+  } catch (error) {
+    if (!dryRun && !sandbox) {
+      await handleAgentFailure(agentId, agent, input, error, Date.now() - startedAt);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run an agent without side effects (see DryRunOptions)
+ * For internal callers such as the eval runner only; never exposed as a server action.
+ */
+export async function executeAgentDryRun(
+  agentId: string,
+  input: AgentInput,
+  dryRun: DryRunOptions
+): Promise<AgentOutput> {
+  return runAgent(agentId, input, { dryRun });
+}
+
+/**
+ * Run an agent and stream the response as it is generated
+ * Limit, subscription and model checks still throw before streaming starts.
+ * Logging and webhooks run once the stream has been fully consumed.
+ */
+export async function runAgentStream(
+  agentId: string,
+  input: AgentInput
+): Promise<AgentStream> {
+  let agent: any = null;
+  const startedAt = Date.now();
+
+  try {
+    agent = await loadAgent(agentId);
+
+    const run = await prepareAgentRun(agent, input);
+
+    const completion = createCompletion();
+    const abortController = new AbortController();
+
+    const { result } = await streamWithFallback(run.chain, { ...run.options, abortSignal: abortController.signal }, {
+      onFinish: async (
+        {
+          text,
+          steps,
+          totalUsage,
+        }: {
+          text: string;
+          steps: any[];
+          totalUsage: LanguageModelUsage;
+        },
+        modelName
+      ) => {
+        try {
+          completion.resolve(
+            await completeAgentRun(agent, input, run, {
+              text,
+              model: modelName,
+              steps,
+              usage: totalUsage,
+              durationMs: Date.now() - startedAt,
+            })
+          );
+        } catch (error) {
+          completion.reject(error);
+        }
+      },
+      onError: async (error) => {
+        console.error("Agent stream error:", error);
+        await handleAgentFailure(agentId, agent, input, error, Date.now() - startedAt);
+        completion.reject(error);
+      },
+    });
+
+    return {
+      textStream: result.textStream,
+      sources: run.ragContext.hasContext ? run.ragContext.sources : undefined,
+      completion: completion.promise,
+      abort: () => abortController.abort(),
+    };
+  } catch (error) {
+    await handleAgentFailure(agentId, agent, input, error, Date.now() - startedAt);
+    throw error;
+  }
+}
+
+/**
+ * Load agent configuration with tenant info
+ */
+async function loadAgent(agentId: string): Promise<any> {
+  const supabase = await createRequestOrServiceClient();
+
+  const { data: agentData, error: agentError } = await supabase
+    .from("agents")
+    .select(
+      `
+      *,
+      tenants!inner(
+        name,
+        slug
+      )
+    `
+    )
+    .eq("id", agentId)
+    .single();
+
+  if (agentError || !agentData) {
+    throw new Error(`Agent not found: ${agentId}`);
+  }
+
+  return agentData;
+}
+
+/**
+ * Resolve the tenant's plan - active subscription first, then tenants.subscription_plan
+ */
+async function getTenantPlanId(tenantId: string): Promise<string> {
+  const supabase = await createRequestOrServiceClient();
+
+  // Get tenant's subscription plan - check subscriptions table first (source of truth)
+  const { data: tenant } = await supabase
+    .from("tenants")
+    .select("subscription_plan")
+    .eq("id", tenantId)
+    .single();
+
+  // Check subscriptions table for active subscription (source of truth for paid plans)
+  const { data: subscriptions } = await supabase
+    .from("subscriptions")
+    .select("plan_id, status")
+    .eq("tenant_id", tenantId)
+    .eq("status", "active")
+    .order("created_at", { ascending: false })
+    .limit(1);
+
+  const subscription = subscriptions?.[0];
+
+  // Use subscription plan_id if available, fallback to tenants.subscription_plan
+  const planId = subscription?.plan_id || tenant?.subscription_plan || "free";
+
+  console.log(`[EXECUTE] Tenant plan detected: ${planId} (from ${subscription?.plan_id ? 'subscriptions' : 'tenants'} table)`);
+
+  return planId;
+}
+
+/**
+ * Run billing checks, gather RAG context and build model options
+ */
+async function prepareAgentRun(
+  agent: any,
+  input: AgentInput,
+  { dryRun, sandbox = false }: RunAgentOptions = {}
+): Promise<PreparedRun> {
+  const agentId = agent.id;
+  // A dry run with its own model never needs the plan
+  const planId = dryRun?.model ? null : await getTenantPlanId(agent.tenant_id);
+
+  // 1.25. Check subscription validity and message usage limit (for chat messages; dry runs are not billed)
+  if (input.type === "chat" && !dryRun && planId) {
+    const { validateSubscription } = await import("@/lib/billing/usage");
+    const { reserveUsage, getUsageLimitError } = await import("@/lib/billing/ledger");
+    const { canUseModel, getPlanLimits } = await import("@/lib/billing/plans");
+    
+    // First, validate subscription (checks for expired/canceled/past_due)
+    const subscriptionCheck = await validateSubscription(agent.tenant_id);
+    
+    if (!subscriptionCheck.valid) {
+      const errorMessages: Record<string, string> = {
+        canceled: "This service is currently unavailable (subscription canceled).",
+        past_due: "This service is currently unavailable (payment overdue).",
+        incomplete: "This service is currently unavailable (payment incomplete).",
+        expired: "This service is currently unavailable (subscription expired).",
+      };
+      
+      throw new Error(
+        errorMessages[subscriptionCheck.subscriptionStatus || ''] || 
+        subscriptionCheck.reason || 
+        "Service unavailable"
+      );
+    }
+    
+    // Check if agent's model is allowed on current plan
+    const agentModel = agent.config?.model || "gemini-2.0-flash";
+    if (!canUseModel(planId, agentModel)) {
+      const planLimits = getPlanLimits(planId);
+      const allowedModels = planLimits.models === '*' 
+        ? 'all models' 
+        : (planLimits.models as readonly string[]).join(', ');
+      
+      throw new Error(
+        `This agent uses ${agentModel} which is not available on your ${planId} plan. ` +
+        `Available models: ${allowedModels}. Please upgrade your plan or change the agent's model.`
+      );
+    }
+    
+    // Then reserve the message against the plan limit (check and count in one atomic step)
+    const usage = await reserveUsage(agent.tenant_id, "messages", {
+      agentId,
+      source: "chat",
+    });
+
+    if (!usage.allowed) {
+      throw new Error(getUsageLimitError(usage, "Message", "continue"));
+    }
+  }
+
+  // 1.5. Retrieve RAG context from knowledge base (if applicable)
+  let ragDocuments: Array<{ chunk: string; source: string }> = [];
+  
+  if (input.type === "chat" && input.message) {
+    try {
+      // Agent's own limit, threshold and hybrid/rerank choices, else the global defaults
+      const retrieval = resolveRetrievalSettings(agent.config);
+      const result = await searchDocuments(
+        agent.tenant_id,
+        input.message,
+        agentId,
+        retrieval.contextLimit,
+        retrieval.threshold,
+        input.userSession,
+        { trackAnalytics: !dryRun, hybrid: retrieval.hybrid, rerank: retrieval.rerank }
+      );
+      
+      if (result.success && result.documents && result.documents.length > 0) {
+        // Track usage for each document
+        for (const doc of dryRun ? [] : result.documents) {
+          try {
+            await trackContextUsage(
+              agent.tenant_id,
+              agentId,
+              doc.id,
+              input.message,
+              doc.similarity || 0,
+              input.userSession
+            );
+          } catch (trackError) {
+            console.error("Failed to track context usage:", trackError);
+          }
+        }
+        
+        // Format chunks for AI (most relevant first; trimmed to the prompt budget below)
+        ragDocuments = result.documents.map((doc: any) => {
+          const citation = citationFor(doc.metadata);
+          return { chunk: `${citation.header}\n${doc.content}`, source: citation.source };
+        });
+        
+        console.log(`[RAG] Found ${result.documents.length} relevant documents for agent ${agentId}`);
+      }
+    } catch (ragError) {
+      console.error("RAG search error:", ragError);
+      // Continue without RAG context
+    }
+  }
+
+  // 2. Build the model chain: primary model, then fallbacks allowed on the plan
+  const chain: ModelCandidate[] = dryRun?.model
+    ? [
+        {
+          name: agent.config.model,
+          provider: getModelProvider(agent.config.model) ?? "openai",
+          model: dryRun.model,
+        },
+      ]
+    : buildModelChain(
+        agent.config.model,
+        agent.config.fallbackModels || [],
+        planId ?? undefined
+      );
+
+  // 3. Build context (conversation history, knowledge base)
+  const context = await buildContext(agent, input, chain[0].model, dryRun);
+
+  // 4. Fit history and RAG chunks into the model's prompt budget
+  const userPrompt = buildUserPrompt(input);
+  const fitted = fitPromptToBudget(
+    {
+      system: buildSystemPrompt(agent.name, agent.config.instructions, agent.config.tone, context),
+      user: userPrompt,
+      history: context.messages || [],
+      ragChunks: ragDocuments.map((doc) => doc.chunk),
+    },
+    // Smallest budget in the chain so the prompt fits whichever model answers
+    Math.min(...chain.map((candidate) => getModelProfile(candidate.name).promptBudget))
+  );
+
+  if (fitted.trimmedMessages > 0 || fitted.trimmedChunks > 0) {
+    console.log(
+      `[BUDGET] Trimmed ${fitted.trimmedMessages} messages and ${fitted.trimmedChunks} RAG chunks to fit ~${fitted.estimatedTokens} tokens`
+    );
+  }
+
+  const ragContext = {
+    hasContext: fitted.ragChunks.length > 0,
+    context: fitted.ragChunks.join('\n\n---\n\n'),
+    sources: ragDocuments.slice(0, fitted.ragChunks.length).map((doc) => doc.source),
+  };
+
+  // 5. Build system prompt
+  const systemPrompt = buildSystemPrompt(
+    agent.name,
+    agent.config.instructions,
+    agent.config.tone,
+    context,
+    ragContext.context || undefined // Pass RAG context to system prompt
+  );
+
+  // 6. Prepare conversation messages
+  const conversationMessages = [
+    { role: "system" as const, content: systemPrompt },
+    // Add context messages that fit the budget
+    ...fitted.history,
+    // Add current input as user message
+    {
+      role: "user" as const,
+      content: userPrompt,
+    },
+  ];
+
+  // 7. Load tools for Business Assistants only (not Customer Assistants/widget)
+  let availableTools = {};
+  
+  if (agent.type === 'business_assistant') {
+    // Only load integrations for Business Assistants
+    let integrationMap = dryRun
+      ? dryRun.integrationMap
+      : await getIntegrationMap(agent.tenant_id, agent.id);
+
+    if (sandbox) {
+      const { withSandboxFixtures } = await import('./sandbox');
+      integrationMap = withSandboxFixtures(integrationMap);
+    }
+    
+    const { createTools } = await import('./tools');
+    
+    // Create tools with context injected via closure
+    const allTools = createTools({
+      integrationMap,
+      tenantId: agent.tenant_id,
+      agentId: agent.id,
+      requireApproval: agent.config?.requireApproval || [],
+      dryRun: !!dryRun,
+      sandbox,
+    });
+    
+    availableTools = allTools;
+    
+    console.log(`🔧 Loaded ${Object.keys(availableTools).length} tools for Business Assistant`);
+  }
+
+  // 8. Execute with tools (if Business Assistant) or without (if Customer Assistant)
+  const generateOptions: any = {
+    messages: conversationMessages,
+    temperature: 0.7,
+  };
+
+  // Add tools and enable multi-step execution for Business Assistants
+  if (Object.keys(availableTools).length > 0) {
+    generateOptions.tools = availableTools;
+    generateOptions.stopWhen = stepCountIs(5); // Allow up to 5 tool calls in sequence
+  }
+
+  return { options: generateOptions, chain, ragContext };
+}
+
+/**
+ * Post-process a finished model response
+ * Logs tool usage and execution, processes actions and fires completion webhooks
+ * (except for dry runs and sandbox runs)
+ */
+async function completeAgentRun(
+  agent: any,
+  input: AgentInput,
+  run: PreparedRun,
+  result: ModelResult,
+  { dryRun, sandbox = false }: RunAgentOptions = {}
+): Promise<AgentOutput> {
+  const { text, steps } = result;
+  const toolCallResults: AgentToolCall[] = [];
+
+  // Extract tool calls if any were made
+  if (steps) {
+    for (const step of steps) {
+      if (step.toolCalls && step.toolCalls.length > 0) {
+        toolCallResults.push(...step.toolCalls.map((tc: any, index: number) => ({
+          toolName: tc.toolName,
+          args: tc.input ?? tc.args,
+          result: step.toolResults?.[index]?.output ?? step.toolResults?.[index],
+        })));
+      }
+    }
+  }
+
+  const inputTokens = result.usage?.inputTokens ?? 0;
+  const outputTokens = result.usage?.outputTokens ?? 0;
+  const metrics: ExecutionMetrics = {
+    model: result.model,
+    configVersion: agent.config_version ?? null,
+    durationMs: result.durationMs,
+    inputTokens,
+    outputTokens,
+    costUsd: estimateCost(result.model, inputTokens, outputTokens),
+  };
+
+  // Dry runs and sandbox previews stop here: nothing is logged, remembered or sent
+  if (dryRun || sandbox) {
+    return {
+      message: text,
+      actions: [],
+      sources: run.ragContext.hasContext ? run.ragContext.sources : undefined,
+      toolCalls: toolCallResults,
+      metadata: metrics,
+    };
+  }
+
+  // 9. Log tool usage if any tools were called
+  if (toolCallResults.length > 0) {
+    await logToolUsage(agent.tenant_id, agent.id, toolCallResults, agent.config_version ?? null);
+    console.log(`✅ Executed ${toolCallResults.length} tool calls`);
+  }
+
+  // 10. Process legacy agent actions (for Customer Assistants or as fallback)
+  const actions = agent.type === 'customer_assistant' 
+    ? await processAgentActions(agent, input, text)
+    : []; // Business Assistants use tools instead
+
+  // 11. Remember this turn in the email/SMS/Slack/Discord thread (chat is saved by the chat route)
+  if (input.type === "email" || input.type === "sms" || input.type === "slack" || input.type === "discord") {
+    await saveThreadTurn(agent, input, text);
+  }
+
+  // 12. Log execution with token usage, latency and estimated cost
+  if (result.model !== agent.config.model) {
+    console.log(`[MODEL] Answered by fallback ${result.model} (primary ${agent.config.model})`);
+  }
+
+  await logExecution(
+    agent.id,
+    agent.tenant_id,
+    input,
+    { message: text, actions },
+    undefined,
+    metrics
+  );
+
+  // 13. Trigger webhook event for agent completion
+  await triggerAgentCompletedEvent(
+    agent.tenant_id,
+    agent.id,
+    agent.name,
+    input,
+    { message: text, actions }
+  );
+
+  return {
+    message: text,
+    actions: actions || [],
+    sources: run.ragContext.hasContext ? run.ragContext.sources : undefined, // Include RAG sources if available
+    metadata: metrics,
+  };
+}
+
+/**
+ * Log a failed execution and trigger the failure webhook
+ */
+async function handleAgentFailure(
+  agentId: string,
+  agent: any,
+  input: AgentInput,
+  error: unknown,
+  durationMs?: number
+): Promise<void> {
+  console.error("Agent execution error:", error);
+
+  // Log error execution
+  const tenantId = agent?.tenant_id || "unknown";
+  const agentName = agent?.name || "Unknown Agent";
+  
+  await logExecution(
+    agentId,
+    tenantId,
+    input,
+    { message: "" },
+    (error as Error)?.message || "Unknown error",
+    { model: agent?.config?.model, configVersion: agent?.config_version ?? null, durationMs }
+  );
+
+  // Trigger webhook event for agent failure
+  if (tenantId !== "unknown") {
+    await triggerAgentFailedEvent(
+      tenantId,
+      agentId,
+      agentName,
+      input,
+      (error as Error)?.message || "Unknown error"
+    );
+  }
+}
+
+/**
+ * Build context for agent execution
+ */
+async function buildContext(
+  agent: any,
+  input: AgentInput,
+  model: LanguageModel,
+  dryRun?: DryRunOptions
+): Promise<any> {
+  const context: any = {
+    tenant: agent.tenants?.name,
+    agent: agent.name,
+    type: input.type,
+  };
+
+  // Dry runs only see the history they were given
+  if (dryRun) {
+    if (input.history && input.history.length > 0) {
+      context.messages = input.history;
+    }
+  } else if (
+    input.type === "chat" ||
+    input.type === "email" ||
+    input.type === "sms" ||
+    input.type === "slack" ||
+    input.type === "discord"
+  ) {
+    // Add history of this conversation only (widget session, email thread, SMS sender, Slack thread or Discord channel)
+    const memory = await loadConversationMemory(agent, input, model);
+
+    if (memory.messages.length > 0) {
+      context.messages = memory.messages;
+    }
+    if (memory.summary) {
+      context.summary = memory.summary;
+    }
+  }
+
+  // Add knowledge base context if available
+  // This would integrate with your existing knowledge base system
+  context.knowledge = await getKnowledgeContext(agent.id, input);
+
+  return context;
+}
+
+/**
+ * Build system prompt for agent
+ */
+function buildSystemPrompt(
+  name: string,
+  instructions: string,
+  tone: string,
+  context: any,
+  ragContext?: string // NEW - RAG context from knowledge base
+): string {
+  const toneInstructions = {
+    professional:
+      "Maintain a professional and courteous tone in all responses.",
+    friendly:
+      "Be warm, friendly, and approachable while remaining helpful and informative.",
+    casual: "Use a casual, conversational tone as if chatting with a friend.",
+    formal:
+      "Use formal language and maintain a serious, respectful tone throughout.",
+  };
+
+  const contextSection = context
+    ? `\n\nCONTEXT:\n- Tenant: ${context.tenant}\n- Agent Type: ${context.type}\n${context.messages ? `- Recent Messages: ${context.messages.length} messages` : ""}\n${context.knowledge ? `- Knowledge Base: ${context.knowledge.documents?.length || 0} documents available` : ""}\n\nUse this context to inform your responses.`
+    : "";
+
+  // Add summary of earlier turns that were trimmed from the message history
+  const summarySection = context?.summary
+    ? `\n\nEARLIER IN THIS CONVERSATION (summary):\n${context.summary}`
+    : "";
+
+  // Add RAG context if available
+  const ragContextSection = ragContext
+    ? `\n\nKNOWLEDGE BASE CONTEXT:\n${ragContext}\n\nUse the above information from the knowledge base to provide accurate, context-specific answers. If the answer is in the knowledge base, use it. If not, provide general assistance.`
+    : "";
+
+  return `You are ${name}, an AI assistant.\n\n${instructions}\n\n${toneInstructions[tone as keyof typeof toneInstructions] || toneInstructions.professional}${contextSection}${summarySection}${ragContextSection}\n\nGuidelines:\n- Be helpful and accurate\n- Stay in character as defined\n- Use available context when relevant\n- If you don't know something, admit it clearly\n- If a tool result says an action is pending approval, tell the user it is awaiting review and has not happened yet\n- Keep responses concise but complete`;
+}
+
+/**
+ * Build user prompt based on input type
+ */
+function buildUserPrompt(input: AgentInput): string {
+  switch (input.type) {
+    case "email":
+      return `From: ${input.from}
+To: ${Array.isArray(input.to) ? input.to.join(", ") : input.to}
+Subject: ${input.subject}
+${input.attachments && input.attachments.length > 0 ? `Attachments: ${input.attachments.map((a) => a.filename).join(", ")}` : ""}
+
+${input.body}`;
+
+    case "webhook":
+      return `Webhook Event: ${input.payload ? JSON.stringify(input.payload, null, 2) : "No payload"}
+Timestamp: ${input.timestamp || new Date().toISOString()}`;
+
+    case "slack":
+      return `Slack Message
+Channel: ${input.to}
+User: ${input.from}
+Message: ${input.message}`;
+
+    case "discord":
+      return `Discord Command
+Channel: ${input.to}
+User: ${input.from}
+Message: ${input.message}`;
+
+    case "sms":
+      return `SMS From: ${input.from}
+To: ${input.to}
+Message: ${input.message}`;
+
+    case "schedule":
+      return `Scheduled Task (${input.timestamp || new Date().toISOString()})
+${input.message}`;
+
+    case "chat":
+    default:
+      return input.message || "";
+  }
+}
+
+/**
+ * Process agent actions based on response
+ * Note: This is primarily for email/sms trigger-based agents, not widget chat
+ */
+async function processAgentActions(
+  agent: any,
+  input: AgentInput,
+  response: string
+): Promise<any[]> {
+  const actions: any[] = [];
+
+  // Skip integration loading for widget chat - Customer Assistants don't use integrations
+  if (input.type === "chat") {
+    return actions;
+  }
+
+  try {
+    // Get integration instances with credentials loaded from database
+    // Only needed for email/sms triggered agents
+    const integrationMap = await getIntegrationMap(agent.tenant_id, agent.id);
+
+    console.log(
+      `🔌 Available integrations for triggered agent: ${Array.from(integrationMap.keys()).join(", ")}`
+    );
+
+    // Inbound email is answered in-thread by EmailIntegration.handleWebhook,
+    // so no separate email reply is sent here
+
+    // Note: Chat-type inputs return early above since Customer Assistants don't use integrations
+    // The remaining code handles email/sms triggered agents only
+  } catch (error) {
+    console.error("Error processing agent actions:", error);
+  }
+
+  return actions;
+}
+
+/**
+ * Log agent execution for analytics
+ */
+async function logExecution(
+  agentId: string,
+  tenantId: string,
+  input: AgentInput,
+  output: any,
+  error?: string,
+  metrics: ExecutionMetrics = {}
+): Promise<void> {
+  const supabase = await createRequestOrServiceClient();
+
+  try {
+    await supabase.from("agent_executions").insert({
+      agent_id: agentId,
+      tenant_id: tenantId,
+      status: error ? "error" : "success",
+      input,
+      output,
+      error,
+      model: metrics.model ?? null,
+      config_version: metrics.configVersion ?? null,
+      duration_ms: metrics.durationMs ?? null,
+      input_tokens: metrics.inputTokens ?? null,
+      output_tokens: metrics.outputTokens ?? null,
+      cost_usd: metrics.costUsd ?? null,
+    });
+  } catch (logError) {
+    console.error("Failed to log execution:", logError);
+  }
+}
+
+/**
+ * Log tool usage for analytics
+ */
+async function logToolUsage(
+  tenantId: string,
+  agentId: string,
+  toolCalls: any[],
+  configVersion: number | null
+): Promise<void> {
+  const supabase = await createRequestOrServiceClient();
+
+  try {
+    // Log each tool call individually
+    const records = toolCalls.map(call => ({
+      agent_id: agentId,
+      tenant_id: tenantId,
+      status: call.result?.error ? 'error' : 'success',
+      input: {
+        tool: call.toolName,
+        args: call.args,
+      },
+      output: {
+        result: call.result,
+      },
+      error: call.result?.error || null,
+      config_version: configVersion,
+      duration_ms: null, // Could track this if needed
+    }));
+
+    // Store in agent_executions with tool_call metadata
+    await supabase.from('agent_executions').insert(records);
+
+    console.log(`📊 Logged ${toolCalls.length} tool calls for agent ${agentId}`);
+  } catch (error) {
+    console.error('Failed to log tool usage:', error);
+    // Don't throw - logging failure shouldn't break execution
+  }
+}
+
+/**
+ * Get knowledge base context (placeholder - integrate with your existing system)
+ */
+async function getKnowledgeContext(
+  agentId: string,
+  input: AgentInput
+): Promise<any> {
+  // This would integrate with your existing knowledge base system
+  // For now, return empty context
+  return {
+    documents: [],
+    relevant: [],
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Sandbox Mode
+ * Lets a Business Assistant be tried in the dashboard chat without changing anything:
+ * write tools are simulated, and read tools use sample data for integrations that aren't connected
+ */
+
+import { createFixtureIntegrationMap, type IntegrationFixtures } from "@/lib/evals/fixtures";
+import { WRITE_TOOLS, type WriteToolName } from "./write-tools";
+
+/**
+ * What a simulated write tool would have done
+ */
+export interface SimulatedAction {
+  toolName: string;
+  label: string;
+  provider: string;
+  action: string;
+  params: any;
+}
+
+/**
+ * Sample responses for read tools, used when the provider isn't connected
+ */
+export const SANDBOX_FIXTURES: IntegrationFixtures = {
+  stripe: {
+    getRevenue: { total: 48250, currency: "usd", count: 112 },
+    getRecentPayments: [
+      { id: "ch_sample_1", amount: 1200, currency: "usd", customer: "Northwind Traders", created: "2025-01-14T10:12:00Z" },
+      { id: "ch_sample_2", amount: 450, currency: "usd", customer: "Contoso Ltd", created: "2025-01-13T16:40:00Z" },
+    ],
+    getFailedCharges: [
+      { id: "ch_sample_3", amount: 300, currency: "usd", customer: "Fabrikam", failure_message: "Card declined" },
+    ],
+    getCustomerCount: { count: 342 },
+  },
+  email: {
+    getRecentEmails: [
+      { from: "jane@northwind.example", subject: "Renewal question", date: "2025-01-14T09:00:00Z", unread: true },
+      { from: "ops@contoso.example", subject: "Invoice #1042", date: "2025-01-13T15:20:00Z", unread: false },
+    ],
+    searchEmails: [
+      { from: "jane@northwind.example", subject: "Renewal question", date: "2025-01-14T09:00:00Z", snippet: "Can we move to annual billing?" },
+    ],
+    getUnreadCount: { count: 7 },
+  },
+  "google-calendar": {
+    getUpcomingEvents: [
+      { summary: "Pipeline review", start: "2025-01-15T09:00:00Z", end: "2025-01-15T09:30:00Z", attendees: 4 },
+      { summary: "Northwind renewal call", start: "2025-01-16T14:00:00Z", end: "2025-01-16T14:45:00Z", attendees: 2 },
+    ],
+    getMeetingSummary: { date: "2025-01-15", meetings: 3, totalMinutes: 105 },
+    check_availability: { available: true, conflicts: [] },
+  },
+  hubspot: {
+    getRecentContacts: [
+      { id: "101", email: "jane@northwind.example", firstname: "Jane", lastname: "Cooper", company: "Northwind Traders" },
+      { id: "102", email: "raj@contoso.example", firstname: "Raj", lastname: "Patel", company: "Contoso Ltd" },
+    ],
+    get_deals: [
+      { id: "501", dealname: "Northwind annual plan", amount: 18000, dealstage: "contractsent" },
+      { id: "502", dealname: "Contoso expansion", amount: 7200, dealstage: "qualifiedtobuy" },
+    ],
+    getPipelineValue: { total: 25200, deals: 2, currency: "usd" },
+    search_contacts: [
+      { id: "101", email: "jane@northwind.example", firstname: "Jane", lastname: "Cooper", company: "Northwind Traders" },
+    ],
+  },
+  "google-drive": {
+    list_files: [
+      { id: "file_sample_1", name: "Q1 Plan", mimeType: "application/vnd.google-apps.document" },
+      { id: "file_sample_2", name: "Pricing 2025", mimeType: "application/vnd.google-apps.spreadsheet" },
+    ],
+    search_files: [{ id: "file_sample_1", name: "Q1 Plan", mimeType: "application/vnd.google-apps.document" }],
+    read_document: { id: "file_sample_1", name: "Q1 Plan", content: "Goals: grow annual plans 20%, launch partner program." },
+  },
+  notion: {
+    get_databases: [{ id: "db_sample_1", title: "Customer Feedback" }],
+    query_database: [{ id: "page_sample_1", title: "Faster exports", status: "Planned" }],
+    get_page: { id: "page_sample_1", title: "Faster exports", content: "Customers want CSV exports under 5 seconds." },
+    search: [{ id: "page_sample_1", title: "Faster exports" }],
+  },
+  github: {
+    list_pull_requests: [
+      { number: 42, title: "Add CSV export", state: "open", user: "octocat" },
+      { number: 41, title: "Fix login redirect", state: "closed", user: "hubot" },
+    ],
+  },
+};
+
+/**
+ * Connected integrations plus sample-data stand-ins for the providers that aren't connected
+ * Sample results are labelled so the agent doesn't present them as the tenant's real data.
+ */
+export function withSandboxFixtures(integrationMap: Map<string, any>): Map<string, any> {
+  const missing = Object.fromEntries(
+    Object.entries(SANDBOX_FIXTURES).filter(([provider]) => !integrationMap.has(provider))
+  );
+  const { integrationMap: samples } = createFixtureIntegrationMap(missing);
+  const combined = new Map(integrationMap);
+
+  for (const [provider, sample] of samples) {
+    combined.set(provider, {
+      executeAction: async (action: string, params: unknown) => ({
+        sampleData: true,
+        note: "Sandbox sample data - this integration is not connected. Say the figures are examples.",
+        data: await sample.executeAction(action, params),
+      }),
+    });
+  }
+
+  return combined;
+}
+
+/**
+ * Result returned instead of running a write tool
+ */
+export function simulateWriteTool(toolName: WriteToolName, args: any, agentId: string) {
+  const spec = WRITE_TOOLS[toolName];
+  const simulated: SimulatedAction = {
+    toolName,
+    label: spec.label,
+    provider: spec.provider,
+    action: spec.action,
+    params: spec.buildParams(args, agentId),
+  };
+
+  console.log(`🧪 Sandbox: simulated ${toolName}`);
+
+  return {
+    status: "simulated",
+    simulated,
+    message: `Sandbox mode: ${spec.label} was NOT executed. Tell the user what would have happened; nothing was sent or changed in ${spec.integrationName}.`,
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Agent Streaming
+ * Completion promise for streamed runs and the Server-Sent Events response the widget reads
+ */
+
+import type { AgentOutput, AgentStream } from "./run";
+
+export interface Completion {
+  promise: Promise<AgentOutput>;
+  resolve: (output: AgentOutput) => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Deferred completion for a streamed run
+ * It can reject while the caller is still reading textStream, or after the client has gone
+ * and nobody awaits it; a handler is attached up front so that is never an unhandled rejection.
+ * Callers that await it still see the error.
+ */
+export function createCompletion(): Completion {
+  let resolve!: Completion["resolve"];
+  let reject!: Completion["reject"];
+  const promise = new Promise<AgentOutput>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+
+  promise.catch(() => {});
+
+  return { promise, resolve, reject };
+}
+
+/**
+ * Build an SSE response from an agent stream
+ * Events: "start" (sources), "delta" (text chunk), "done" (final message), "error"
+ * When the client disconnects the model stream is aborted and nothing more is sent.
+ */
+export function createStreamResponse(
+  agentStream: AgentStream,
+  sessionId: string,
+  onComplete: (reply: string) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: Record<string, any>) => {
+        if (cancelled) return;
+        controller.enqueue(
+          encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+        );
+      };
+
+      send("start", { sessionId, sources: agentStream.sources });
+
+      try {
+        for await (const text of agentStream.textStream) {
+          if (cancelled) return;
+          send("delta", { text });
+        }
+
+        const result = await agentStream.completion;
+        if (cancelled) return;
+
+        // Save conversation before closing so the next message sees it
+        await onComplete(result.message);
+
+        send("done", {
+          message: result.message,
+          sessionId,
+          sources: result.sources,
+        });
+      } catch (error) {
+        if (cancelled) return;
+        console.error("Widget chat stream error:", error);
+        send("error", {
+          error: "I'm having trouble responding right now. Please try again in a moment.",
+        });
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+      agentStream.abort();
+    },
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
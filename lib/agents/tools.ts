@@ -6,6 +6,9 @@
 
 import { tool } from 'ai';
 import { z } from 'zod';
+import { createRequestOrServiceClient } from '@/lib/supabase/server';
+import { WRITE_TOOLS, executeWriteTool, type WriteToolName } from './write-tools';
+import { simulateWriteTool } from './sandbox';
 
 /**
  * Tool Context
@@ -15,6 +18,9 @@ export interface ToolContext {
   integrationMap: Map<string, any>;
   tenantId: string;
   agentId: string;
+  requireApproval?: string[]; // Write tools that must be approved before running
+  dryRun?: boolean; // Report approval-gated calls instead of queuing them
+  sandbox?: boolean; // Simulate every write tool (dashboard sandbox chat)
 }
 
 /**
@@ -22,7 +28,29 @@ export interface ToolContext {
  * This factory function binds context to tools via closure
  */
 export function createTools(context: ToolContext) {
-  const { integrationMap, tenantId, agentId } = context;
+  const { integrationMap, tenantId, agentId, requireApproval = [], dryRun = false, sandbox = false } = context;
+
+  /**
+   * Run a write-side tool, or queue it for review if the agent requires approval
+   */
+  const runWriteTool = async (toolName: WriteToolName, args: any) => {
+    if (sandbox) {
+      return simulateWriteTool(toolName, args, agentId);
+    }
+
+    if (requireApproval.includes(toolName)) {
+      if (dryRun) {
+        return {
+          status: 'pending_approval',
+          dryRun: true,
+          message: `${WRITE_TOOLS[toolName].label} would be submitted for approval and has NOT been executed. Tell the user it is pending review by their team.`,
+        };
+      }
+      return await queuePendingAction(tenantId, agentId, toolName, args);
+    }
+
+    return await executeWriteTool(integrationMap, toolName, args, agentId);
+  };
 
   return {
     // ========================================================================
@@ -327,29 +355,33 @@ export function createTools(context: ToolContext) {
     }),
 
     // ========================================================================
-    // EMAIL ACTION TOOLS
+    // GITHUB QUERY TOOLS
     // ========================================================================
 
-    sendEmail: tool({
-      description: 'Send an email to one or more recipients. Use this to send notifications, responses, or messages.',
+    listPullRequests: tool({
+      description: 'List pull requests in a GitHub repository. Use this to review open work or recent merges.',
       inputSchema: z.object({
-        to: z.union([z.string(), z.array(z.string())]).describe('Recipient email address(es)'),
-        subject: z.string().describe('Email subject line'),
-        body: z.string().describe('Email body content (plain text or HTML)'),
-        from: z.string().optional().describe('Optional from address (uses default if not specified)'),
+        repo: z.string().describe('Repository in owner/name format'),
+        state: z.enum(['open', 'closed', 'all']).optional().default('open').describe('Pull request state filter'),
+        limit: z.number().optional().default(10).describe('Number of pull requests to retrieve'),
       }),
-      execute: async ({ to, subject, body, from }) => {
-        const email = integrationMap.get('email');
-        if (!email) throw new Error('Email integration not connected');
+      execute: async ({ repo, state, limit }) => {
+        const github = integrationMap.get('github');
+        if (!github) throw new Error('GitHub integration not connected');
         
-        return await email.executeAction('send_email', { 
-          to, 
-          subject, 
-          body,
-          from,
-          agent_id: agentId,
-          billable: true
-        });
+        return await github.executeAction('list_pull_requests', { repo, state, limit });
+      },
+    }),
+
+    // ========================================================================
+    // EMAIL ACTION TOOLS
+    // ========================================================================
+
+    sendEmail: tool({
+      description: 'Send an email to one or more recipients. Use this to send notifications, responses, or messages.',
+      inputSchema: WRITE_TOOLS.sendEmail.inputSchema,
+      execute: async (args) => {
+        return await runWriteTool('sendEmail', args);
       },
     }),
 
@@ -359,29 +391,9 @@ export function createTools(context: ToolContext) {
 
     createCalendarEvent: tool({
      description: 'Create a new event in Google Calendar. Use this to schedule meetings or appointments.',
-      inputSchema: z.object({
-        summary: z.string().describe('Event title/summary'),
-        description: z.string().optional().describe('Event description'),
-        startTime: z.string().describe('Start time in ISO 8601 format'),
-        endTime: z.string().describe('End time in ISO 8601 format'),
-        attendees: z.array(z.string()).optional().describe('List of attendee email addresses'),
-        location: z.string().optional().describe('Event location'),
-      }),
-      execute: async ({ summary, description, startTime, endTime, attendees, location }) => {
-        const calendar = integrationMap.get('google-calendar');
-        if (!calendar) throw new Error('Google Calendar integration not connected');
-        
-        return await calendar.executeAction('create_event', {
-          event: {
-            summary,
-            description,
-            start: { dateTime: startTime },
-            end: { dateTime: endTime },
-            attendees: attendees?.map(email => ({ email })),
-            location,
-          },
-          agent_id: agentId,
-        });
+      inputSchema: WRITE_TOOLS.createCalendarEvent.inputSchema,
+      execute: async (args) => {
+        return await runWriteTool('createCalendarEvent', args);
       },
     }),
 
@@ -391,56 +403,93 @@ export function createTools(context: ToolContext) {
 
     createContact: tool({
       description: 'Create a new contact in HubSpot CRM. Use this to add leads or customers.',
-      inputSchema: z.object({
-        email: z.string().email().describe('Contact email address (required)'),
-        firstName: z.string().optional().describe('Contact first name'),
-        lastName: z.string().optional().describe('Contact last name'),
-        phone: z.string().optional().describe('Contact phone number'),
-        company: z.string().optional().describe('Contact company name'),
-      }),
-      execute: async ({ email, firstName, lastName, phone, company }) => {
-        const hubspot = integrationMap.get('hubspot');
-        if (!hubspot) throw new Error('HubSpot integration not connected');
-        
-        return await hubspot.executeAction('create_contact', {
-          contact: {
-            properties: {
-              email,
-              firstname: firstName,
-              lastname: lastName,
-              phone,
-              company,
-            },
-          },
-        });
+      inputSchema: WRITE_TOOLS.createContact.inputSchema,
+      execute: async (args) => {
+        return await runWriteTool('createContact', args);
       },
     }),
 
     createDeal: tool({
       description: 'Create a new deal in HubSpot CRM. Use this to track sales opportunities.',
-      inputSchema: z.object({
-        dealName: z.string().describe('Name of the deal'),
-        amount: z.number().describe('Deal amount in dollars'),
-        stage: z.string().optional().describe('Deal stage (default: appointmentscheduled)'),
-      }),
-      execute: async ({ dealName, amount, stage }) => {
-        const hubspot = integrationMap.get('hubspot');
-        if (!hubspot) throw new Error('HubSpot integration not connected');
-        
-        return await hubspot.executeAction('create_deal', {
-          deal: {
-            properties: {
-              dealname: dealName,
-              amount: amount.toString(),
-              dealstage: stage || 'appointmentscheduled',
-            },
-          },
-        });
+      inputSchema: WRITE_TOOLS.createDeal.inputSchema,
+      execute: async (args) => {
+        return await runWriteTool('createDeal', args);
+      },
+    }),
+
+    // ========================================================================
+    // DISCORD ACTION TOOLS
+    // ========================================================================
+
+    sendDiscordMessage: tool({
+      description: 'Post a message to a Discord channel. Use this to share updates or alerts with a community or team.',
+      inputSchema: WRITE_TOOLS.sendDiscordMessage.inputSchema,
+      execute: async (args) => {
+        return await runWriteTool('sendDiscordMessage', args);
+      },
+    }),
+
+    // ========================================================================
+    // GITHUB ACTION TOOLS
+    // ========================================================================
+
+    createGitHubIssue: tool({
+      description: 'Open a new issue in a GitHub repository. Use this to report bugs or track follow-up work.',
+      inputSchema: WRITE_TOOLS.createGitHubIssue.inputSchema,
+      execute: async (args) => {
+        return await runWriteTool('createGitHubIssue', args);
+      },
+    }),
+
+    updateGitHubIssue: tool({
+      description: 'Update an existing GitHub issue. Use this to change its title, body, labels or to close/reopen it.',
+      inputSchema: WRITE_TOOLS.updateGitHubIssue.inputSchema,
+      execute: async (args) => {
+        return await runWriteTool('updateGitHubIssue', args);
       },
     }),
   };
 }
 
+/**
+ * Save a write tool call for human review instead of running it
+ * The returned result tells the model the action has not happened yet
+ */
+async function queuePendingAction(
+  tenantId: string,
+  agentId: string,
+  toolName: WriteToolName,
+  args: any
+) {
+  const supabase = await createRequestOrServiceClient();
+
+  const { data: pendingAction, error } = await supabase
+    .from('pending_actions')
+    .insert({
+      tenant_id: tenantId,
+      agent_id: agentId,
+      tool_name: toolName,
+      provider: WRITE_TOOLS[toolName].provider,
+      args,
+      status: 'pending',
+    })
+    .select('id')
+    .single();
+
+  if (error || !pendingAction) {
+    console.error('Failed to queue pending action:', error);
+    throw new Error('Failed to submit action for approval');
+  }
+
+  console.log(`⏸️ Queued ${toolName} for approval (${pendingAction.id})`);
+
+  return {
+    status: 'pending_approval',
+    pendingActionId: pendingAction.id,
+    message: `${WRITE_TOOLS[toolName].label} has been submitted for approval and has NOT been executed yet. Tell the user it is pending review by their team.`,
+  };
+}
+
 /**
  * Get tools available based on connected integrations
  * Filters to only include tools for integrations that are connected
@@ -467,6 +516,12 @@ export function getAvailableToolNames(integrationMap: Map<string, any>): string[
   if (integrationMap.has('notion')) {
     availableTools.push('getDatabases', 'queryDatabase', 'getPage', 'searchNotion');
   }
+  if (integrationMap.has('discord')) {
+    availableTools.push('sendDiscordMessage');
+  }
+  if (integrationMap.has('github')) {
+    availableTools.push('listPullRequests', 'createGitHubIssue', 'updateGitHubIssue');
+  }
   
   return availableTools;
 }
@@ -0,0 +1,51 @@
+/**
+ * Agent Config Versions
+ * Saves agent configs as immutable, numbered versions through save_agent_config()
+ */
+
+import { createServiceClient } from "@/lib/supabase/service";
+
+export interface AgentConfigVersion {
+  id: string;
+  version: number;
+  config: Record<string, any>;
+  note: string | null;
+  restored_from: number | null;
+  created_by: string | null;
+  author_email: string | null;
+  created_at: string;
+}
+
+interface SaveAgentConfigOptions {
+  author: { id: string; email?: string | null };
+  note?: string | null;
+  restoredFrom?: number | null;
+}
+
+/**
+ * Write an agent's config and record it as the next version
+ * Callers must have checked that the author may manage the agent.
+ */
+export async function saveAgentConfig(
+  agentId: string,
+  config: Record<string, any>,
+  options: SaveAgentConfigOptions
+): Promise<number> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc("save_agent_config", {
+    p_agent_id: agentId,
+    p_config: config,
+    p_created_by: options.author.id,
+    p_author_email: options.author.email || null,
+    p_note: options.note?.trim() || null,
+    p_restored_from: options.restoredFrom ?? null,
+  });
+
+  if (error) {
+    console.error(`[VERSIONS] Failed to save config for agent ${agentId}:`, error);
+    throw new Error("Failed to save agent configuration");
+  }
+
+  return Number(data);
+}
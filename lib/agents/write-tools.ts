@@ -0,0 +1,208 @@
+/**
+ * Write-side Agent Tools
+ * Tools that change data in external systems (send email, create deals, etc.)
+ * Shared by createTools and the approval queue so both run the same integration action
+ * and validate arguments against the same schema
+ */
+
+import { z } from "zod";
+
+export interface WriteToolSpec {
+  /** Human readable name shown in the dashboard */
+  label: string;
+  /** Integration display name used in error messages */
+  integrationName: string;
+  /** Key in the integration map */
+  provider: string;
+  /** Action passed to integration.executeAction */
+  action: string;
+  /** Arguments the model (or a reviewer editing them) may pass */
+  inputSchema: z.ZodType;
+  /** Map tool arguments to integration action params */
+  buildParams: (args: any, agentId: string) => any;
+}
+
+export const WRITE_TOOLS = {
+  sendEmail: {
+    label: "Send email",
+    integrationName: "Email",
+    provider: "email",
+    action: "send_email",
+    inputSchema: z.object({
+      to: z.union([z.string(), z.array(z.string())]).describe("Recipient email address(es)"),
+      subject: z.string().describe("Email subject line"),
+      body: z.string().describe("Email body content (plain text or HTML)"),
+      from: z.string().optional().describe("Optional from address (uses default if not specified)"),
+    }),
+    buildParams: ({ to, subject, body, from }, agentId) => ({
+      to,
+      subject,
+      body,
+      from,
+      agent_id: agentId,
+      billable: true,
+    }),
+  },
+  createCalendarEvent: {
+    label: "Create calendar event",
+    integrationName: "Google Calendar",
+    provider: "google-calendar",
+    action: "create_event",
+    inputSchema: z.object({
+      summary: z.string().describe("Event title/summary"),
+      description: z.string().optional().describe("Event description"),
+      startTime: z.string().describe("Start time in ISO 8601 format"),
+      endTime: z.string().describe("End time in ISO 8601 format"),
+      attendees: z.array(z.string()).optional().describe("List of attendee email addresses"),
+      location: z.string().optional().describe("Event location"),
+    }),
+    buildParams: ({ summary, description, startTime, endTime, attendees, location }, agentId) => ({
+      event: {
+        summary,
+        description,
+        start: { dateTime: startTime },
+        end: { dateTime: endTime },
+        attendees: attendees?.map((email: string) => ({ email })),
+        location,
+      },
+      agent_id: agentId,
+    }),
+  },
+  createContact: {
+    label: "Create HubSpot contact",
+    integrationName: "HubSpot",
+    provider: "hubspot",
+    action: "create_contact",
+    inputSchema: z.object({
+      email: z.string().email().describe("Contact email address (required)"),
+      firstName: z.string().optional().describe("Contact first name"),
+      lastName: z.string().optional().describe("Contact last name"),
+      phone: z.string().optional().describe("Contact phone number"),
+      company: z.string().optional().describe("Contact company name"),
+    }),
+    buildParams: ({ email, firstName, lastName, phone, company }) => ({
+      contact: {
+        properties: {
+          email,
+          firstname: firstName,
+          lastname: lastName,
+          phone,
+          company,
+        },
+      },
+    }),
+  },
+  createDeal: {
+    label: "Create HubSpot deal",
+    integrationName: "HubSpot",
+    provider: "hubspot",
+    action: "create_deal",
+    inputSchema: z.object({
+      dealName: z.string().describe("Name of the deal"),
+      amount: z.number().describe("Deal amount in dollars"),
+      stage: z.string().optional().describe("Deal stage (default: appointmentscheduled)"),
+    }),
+    buildParams: ({ dealName, amount, stage }) => ({
+      deal: {
+        properties: {
+          dealname: dealName,
+          amount: Number(amount).toString(),
+          dealstage: stage || "appointmentscheduled",
+        },
+      },
+    }),
+  },
+  sendDiscordMessage: {
+    label: "Post Discord message",
+    integrationName: "Discord",
+    provider: "discord",
+    action: "send_message",
+    inputSchema: z.object({
+      channelId: z.string().optional().describe("Discord channel ID (uses the default channel if not specified)"),
+      content: z.string().describe("Message text to post"),
+    }),
+    buildParams: ({ channelId, content }) => ({
+      channel_id: channelId,
+      content,
+    }),
+  },
+  createGitHubIssue: {
+    label: "Open GitHub issue",
+    integrationName: "GitHub",
+    provider: "github",
+    action: "create_issue",
+    inputSchema: z.object({
+      repo: z.string().describe("Repository in owner/name format"),
+      title: z.string().describe("Issue title"),
+      body: z.string().optional().describe("Issue description (markdown)"),
+      labels: z.array(z.string()).optional().describe("Labels to apply"),
+    }),
+    buildParams: ({ repo, title, body, labels }) => ({
+      repo,
+      issue: { title, body, labels },
+    }),
+  },
+  updateGitHubIssue: {
+    label: "Update GitHub issue",
+    integrationName: "GitHub",
+    provider: "github",
+    action: "update_issue",
+    inputSchema: z.object({
+      repo: z.string().describe("Repository in owner/name format"),
+      issueNumber: z.number().describe("Issue number to update"),
+      title: z.string().optional().describe("New issue title"),
+      body: z.string().optional().describe("New issue description (markdown)"),
+      state: z.enum(["open", "closed"]).optional().describe("Set to closed to close the issue"),
+      labels: z.array(z.string()).optional().describe("Replace the issue labels"),
+    }),
+    buildParams: ({ repo, issueNumber, title, body, state, labels }) => ({
+      repo,
+      issue_number: issueNumber,
+      data: { title, body, state, labels },
+    }),
+  },
+} as const satisfies Record<string, WriteToolSpec>;
+
+export type WriteToolName = keyof typeof WRITE_TOOLS;
+
+/**
+ * Check whether a tool name is a write-side tool
+ */
+export function isWriteTool(toolName: string): toolName is WriteToolName {
+  return toolName in WRITE_TOOLS;
+}
+
+/**
+ * Validate arguments for a write tool, e.g. ones a reviewer edited before approving
+ */
+export function parseWriteToolArgs(
+  toolName: WriteToolName,
+  args: unknown
+): { success: true; args: Record<string, any> } | { success: false; error: string } {
+  const parsed = WRITE_TOOLS[toolName].inputSchema.safeParse(args);
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) =>
+      issue.path.length ? `${issue.path.join(".")}: ${issue.message}` : issue.message
+    );
+    return { success: false, error: `Invalid arguments for ${WRITE_TOOLS[toolName].label}: ${issues.join("; ")}` };
+  }
+
+  return { success: true, args: parsed.data };
+}
+
+/**
+ * Run a write tool against its integration
+ */
+export async function executeWriteTool(
+  integrationMap: Map<string, any>,
+  toolName: WriteToolName,
+  args: any,
+  agentId: string
+): Promise<any> {
+  const spec = WRITE_TOOLS[toolName];
+  const integration = integrationMap.get(spec.provider);
+  if (!integration) throw new Error(`${spec.integrationName} integration not connected`);
+
+  return await integration.executeAction(spec.action, spec.buildParams(args, agentId));
+}
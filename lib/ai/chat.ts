@@ -13,11 +13,13 @@ import { createGoogleGenerativeAI } from "@ai-sdk/google";
 import { searchDocuments } from "@/lib/knowledge/actions";
 import { trackContextUsage } from "@/lib/knowledge/analytics";
 import { knowledgeConfig } from "@/lib/knowledge/config";
+import { citationFor } from "@/lib/knowledge/sources";
 import {
   triggerAgentCompletedEvent,
   triggerAgentFailedEvent,
 } from "@/lib/webhooks/triggers";
 import { executeAgent } from "@/lib/agents/execute"; // NEW - use unified agent execution
+import type { SimulatedAction } from "@/lib/agents/sandbox";
 
 interface Message {
   role: "user" | "assistant";
@@ -66,13 +68,13 @@ async function getRAGContext(tenantId: string, agentId: string, message: string,
       }
       
       const context = result.documents
-        .map((doc: SearchDocument) => `[Document: ${doc.metadata?.originalFileName || 'Unknown'}]\n${doc.content}`)
+        .map((doc: SearchDocument) => `${citationFor(doc.metadata).header}\n${doc.content}`)
         .join('\n\n---\n\n');
       
       return {
         hasContext: true,
         context,
-        sources: result.documents.map((doc: SearchDocument) => doc.metadata?.originalFileName || 'Unknown'),
+        sources: result.documents.map((doc: SearchDocument) => citationFor(doc.metadata).source),
       };
     }
     
@@ -85,11 +87,13 @@ async function getRAGContext(tenantId: string, agentId: string, message: string,
 
 /**
  * Send a message to an agent and get AI response with RAG support
+ * In sandbox mode write tools are simulated and returned as simulatedActions
  */
 export async function sendMessage(
   agentId: string,
   message: string,
-  history: Message[]
+  history: Message[],
+  options: { sandbox?: boolean } = {}
 ) {
   const supabase = await createServerClient();
 
@@ -155,11 +159,20 @@ export async function sendMessage(
 
     // Use unified executeAgent (includes RAG, integrations, webhooks)
     const userSession = `${user.id}-${Date.now()}`;
-    const result = await executeAgent(agentId, {
-      type: "chat",
-      message,
-      userSession
-    });
+    const result = await executeAgent(
+      agentId,
+      {
+        type: "chat",
+        message,
+        userSession,
+        history, // Dashboard test chats aren't stored, so memory comes from the client
+      },
+      { sandbox: options.sandbox }
+    );
+
+    const simulatedActions: SimulatedAction[] = (result.toolCalls || [])
+      .filter((call) => call.result?.status === "simulated")
+      .map((call) => call.result.simulated);
 
     // Log usage to database
     // Note: executeAgent already logs internally, but we need to track at message level
@@ -167,36 +180,39 @@ export async function sendMessage(
       supabase,
       profile.tenant_id,
       agentId,
-      0, // Token counting handled in executeAgent
-      0
+      result.metadata?.inputTokens || 0,
+      result.metadata?.outputTokens || 0
     );
 
     return { 
       message: result.message,
-      sources: result.sources
+      sources: result.sources,
+      simulatedActions: options.sandbox ? simulatedActions : undefined,
     };
   } catch (error) {
     console.error("AI chat error:", error);
     
-    // Try to trigger failure webhook if we have agent context
-    try {
-      const { data: agent } = await supabase
-        .from("agents")
-        .select("name, tenant_id")
-        .eq("id", agentId)
-        .single();
-        
-      if (agent) {
-        await triggerAgentFailedEvent(
-          agent.tenant_id,
-          agentId,
-          agent.name,
-          { type: "chat" as const, message },
-          (error as Error)?.message || "Unknown error"
-        );
+    // Try to trigger failure webhook if we have agent context (sandbox runs never reach webhooks)
+    if (!options.sandbox) {
+      try {
+        const { data: agent } = await supabase
+          .from("agents")
+          .select("name, tenant_id")
+          .eq("id", agentId)
+          .single();
+
+        if (agent) {
+          await triggerAgentFailedEvent(
+            agent.tenant_id,
+            agentId,
+            agent.name,
+            { type: "chat" as const, message },
+            (error as Error)?.message || "Unknown error"
+          );
+        }
+      } catch (webhookError) {
+        // Ignore webhook errors
       }
-    } catch (webhookError) {
-      // Ignore webhook errors
     }
     
     return { error: "Failed to get AI response. Please try again." };
@@ -236,7 +252,7 @@ Important guidelines:
 - If you don't know something, admit it rather than making up information
 - Stay focused on helping the user with their query
 - Always be respectful and helpful
-${context ? '- When using knowledge base information, be specific and cite the relevant documents when helpful' : ''}`;
+${context ? '- When using knowledge base information, be specific and cite the relevant documents (with their links, for web pages) when helpful' : ''}`;
 }
 
 /**
@@ -67,6 +67,21 @@ export interface AnalyticsMetrics {
       percentage: number;
     }>;
   };
+  spend: {
+    totalCostUsd: number;
+    inputTokens: number;
+    outputTokens: number;
+    executions: number;
+    avgLatencyMs: number;
+    byAgent: Array<{
+      id: string;
+      name: string;
+      costUsd: number;
+      inputTokens: number;
+      outputTokens: number;
+      executions: number;
+    }>;
+  };
 }
 
 /**
@@ -243,6 +258,76 @@ async function getWebhookMetrics(
   };
 }
 
+/**
+ * Get model spend analytics from agent executions
+ */
+async function getSpendMetrics(
+  tenantId: string,
+  startDate: Date,
+  agents: Array<{ id: string; name: string }>
+) {
+  const supabase = await createServerClient();
+
+  // Tool usage rows have no model, so only model calls are counted
+  const { data: executions } = await supabase
+    .from("agent_executions")
+    .select("agent_id, input_tokens, output_tokens, cost_usd, duration_ms")
+    .eq("tenant_id", tenantId)
+    .not("model", "is", null)
+    .gte("created_at", startDate.toISOString());
+
+  const agentNames = new Map(agents.map((a) => [a.id, a.name]));
+  const byAgent = new Map<string, {
+    id: string;
+    name: string;
+    costUsd: number;
+    inputTokens: number;
+    outputTokens: number;
+    executions: number;
+  }>();
+
+  let totalCostUsd = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let totalLatency = 0;
+  let latencyCount = 0;
+
+  executions?.forEach(exec => {
+    const cost = Number(exec.cost_usd) || 0;
+    totalCostUsd += cost;
+    inputTokens += exec.input_tokens || 0;
+    outputTokens += exec.output_tokens || 0;
+
+    if (exec.duration_ms) {
+      totalLatency += exec.duration_ms;
+      latencyCount++;
+    }
+
+    const stats = byAgent.get(exec.agent_id) || {
+      id: exec.agent_id,
+      name: agentNames.get(exec.agent_id) || "Deleted agent",
+      costUsd: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      executions: 0,
+    };
+    stats.costUsd += cost;
+    stats.inputTokens += exec.input_tokens || 0;
+    stats.outputTokens += exec.output_tokens || 0;
+    stats.executions++;
+    byAgent.set(exec.agent_id, stats);
+  });
+
+  return {
+    totalCostUsd,
+    inputTokens,
+    outputTokens,
+    executions: executions?.length || 0,
+    avgLatencyMs: latencyCount > 0 ? Math.round(totalLatency / latencyCount) : 0,
+    byAgent: Array.from(byAgent.values()).sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
+
 /**
  * Get comprehensive analytics metrics for the dashboard
  * Includes current period stats and comparison to previous period
@@ -410,10 +495,11 @@ export async function getAnalyticsMetrics(
       .slice(0, 5);
 
     // Fetch new analytics metrics
-    const [knowledgeBase, integrations, webhooks] = await Promise.all([
+    const [knowledgeBase, integrations, webhooks, spend] = await Promise.all([
       getKnowledgeBaseMetrics(profile.tenant_id, currentPeriodStart),
       getIntegrationMetrics(profile.tenant_id, currentPeriodStart),
-      getWebhookMetrics(profile.tenant_id, currentPeriodStart)
+      getWebhookMetrics(profile.tenant_id, currentPeriodStart),
+      getSpendMetrics(profile.tenant_id, currentPeriodStart, agents || [])
     ]);
 
     // Calculate agent type breakdown
@@ -450,6 +536,7 @@ export async function getAnalyticsMetrics(
       knowledgeBase,
       integrations,
       webhooks,
+      spend,
     };
 
     return { metrics };
@@ -0,0 +1,302 @@
+/**
+ * Approval Queue Actions
+ * Server actions for reviewing write-side tool calls held for human approval
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createServerClient } from "@/lib/supabase/server";
+import { recordAuditEvent } from "@/lib/audit/log";
+import { getIntegrationMap } from "@/lib/integrations/registry";
+import { executeWriteTool, isWriteTool, parseWriteToolArgs } from "@/lib/agents/write-tools";
+
+export interface PendingAction {
+  id: string;
+  tenant_id: string;
+  agent_id: string | null;
+  tool_name: string;
+  provider: string;
+  args: Record<string, any>;
+  status: "pending" | "approved" | "rejected" | "executed" | "failed";
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  rejection_reason?: string | null;
+  result?: any;
+  error_message?: string | null;
+  executed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  agent?: {
+    id: string;
+    name: string;
+  };
+}
+
+/**
+ * Get pending actions for the current user's tenant
+ */
+export async function getPendingActions(options: { status?: string } = {}) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  // Get user's tenant_id
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("tenant_id")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.tenant_id) {
+    return { error: "User profile not found" };
+  }
+
+  try {
+    let query = supabase
+      .from("pending_actions")
+      .select(
+        `
+        *,
+        agent:agents(id, name)
+      `
+      )
+      .eq("tenant_id", profile.tenant_id)
+      .order("created_at", { ascending: false })
+      .limit(100);
+
+    if (options.status && options.status !== "all") {
+      query = query.eq("status", options.status);
+    }
+
+    const { data: actions, error } = await query;
+
+    if (error) {
+      console.error("Error fetching pending actions:", error);
+      return { error: "Failed to fetch pending actions" };
+    }
+
+    return { actions: (actions || []) as PendingAction[] };
+  } catch (error) {
+    console.error("Error fetching pending actions:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Approve a pending action and run it through its integration
+ * Optionally replaces the proposed arguments with edited ones first; edited arguments must
+ * match the tool's input schema or the action stays pending.
+ */
+export async function approvePendingAction(
+  id: string,
+  editedArgs?: Record<string, any>
+) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  // Get user's tenant_id
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("tenant_id")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.tenant_id) {
+    return { error: "User profile not found" };
+  }
+
+  try {
+    const updateData: any = {
+      status: "approved",
+      reviewed_by: user.id,
+      reviewed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+
+    if (editedArgs) {
+      const { data: pending } = await supabase
+        .from("pending_actions")
+        .select("tool_name")
+        .eq("id", id)
+        .eq("tenant_id", profile.tenant_id)
+        .eq("status", "pending")
+        .single();
+
+      if (!pending) {
+        return { error: "Pending action not found or already reviewed" };
+      }
+
+      if (!isWriteTool(pending.tool_name)) {
+        return { error: `Unknown tool: ${pending.tool_name}` };
+      }
+
+      const parsed = parseWriteToolArgs(pending.tool_name, editedArgs);
+      if (!parsed.success) {
+        return { error: parsed.error };
+      }
+
+      updateData.args = parsed.args;
+    }
+
+    // Only transition from pending so an action can't be approved twice
+    const { data: action, error } = await supabase
+      .from("pending_actions")
+      .update(updateData)
+      .eq("id", id)
+      .eq("tenant_id", profile.tenant_id)
+      .eq("status", "pending")
+      .select()
+      .single();
+
+    if (error || !action) {
+      return { error: "Pending action not found or already reviewed" };
+    }
+
+    // From here on the action is approved; any failure must be recorded on it
+    // so it doesn't stay "approved" without ever running
+    try {
+      await recordAuditEvent({
+        tenantId: profile.tenant_id,
+        actor: user,
+        action: "approval.approved",
+        target: { type: "pending_action", id, name: action.tool_name },
+        metadata: { agent_id: action.agent_id, args_edited: !!editedArgs },
+      });
+
+      if (!isWriteTool(action.tool_name)) {
+        throw new Error(`Unknown tool: ${action.tool_name}`);
+      }
+
+      const integrationMap = await getIntegrationMap(
+        profile.tenant_id,
+        action.agent_id || undefined
+      );
+
+      const result = await executeWriteTool(
+        integrationMap,
+        action.tool_name,
+        action.args,
+        action.agent_id
+      );
+
+      await supabase
+        .from("pending_actions")
+        .update({
+          status: "executed",
+          result,
+          executed_at: new Date().toISOString(),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", id);
+
+      revalidatePath("/approvals");
+      return { success: true, result };
+    } catch (executionError) {
+      const message = (executionError as Error)?.message || "Action failed";
+      console.error("Approved action failed:", executionError);
+      await markActionFailed(supabase, id, message);
+
+      revalidatePath("/approvals");
+      return { error: message };
+    }
+  } catch (error) {
+    console.error("Error approving action:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Reject a pending action without running it
+ */
+export async function rejectPendingAction(id: string, reason?: string) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  // Get user's tenant_id
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("tenant_id")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.tenant_id) {
+    return { error: "User profile not found" };
+  }
+
+  try {
+    const { data: action, error } = await supabase
+      .from("pending_actions")
+      .update({
+        status: "rejected",
+        rejection_reason: reason || null,
+        reviewed_by: user.id,
+        reviewed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", id)
+      .eq("tenant_id", profile.tenant_id)
+      .eq("status", "pending")
+      .select("id, tool_name, agent_id")
+      .single();
+
+    if (error || !action) {
+      return { error: "Pending action not found or already reviewed" };
+    }
+
+    await recordAuditEvent({
+      tenantId: profile.tenant_id,
+      actor: user,
+      action: "approval.rejected",
+      target: { type: "pending_action", id, name: action.tool_name },
+      metadata: { agent_id: action.agent_id, reason: reason || null },
+    });
+
+    revalidatePath("/approvals");
+    return { success: true };
+  } catch (error) {
+    console.error("Error rejecting action:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Record an execution failure on a pending action
+ */
+async function markActionFailed(
+  supabase: Awaited<ReturnType<typeof createServerClient>>,
+  id: string,
+  message: string
+): Promise<void> {
+  await supabase
+    .from("pending_actions")
+    .update({
+      status: "failed",
+      error_message: message,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", id);
+}
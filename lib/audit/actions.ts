@@ -0,0 +1,182 @@
+/**
+ * Audit Log Actions
+ * Server actions for browsing and exporting the tenant's audit log
+ */
+
+"use server";
+
+import { createServerClient } from "@/lib/supabase/server";
+import { authorize } from "@/lib/team/permissions";
+import { auditLogsToCsv, type AuditChanges } from "./format";
+import { recordAuditEvent } from "./log";
+
+const PAGE_SIZE = 50;
+const EXPORT_LIMIT = 10000;
+
+export interface AuditLogEntry {
+  id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: string;
+  target_type: string;
+  target_id: string | null;
+  target_name: string | null;
+  changes: AuditChanges;
+  metadata: Record<string, any>;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+}
+
+export interface AuditLogFilters {
+  targetType?: string;
+  /** Matches actor email, action or target name */
+  search?: string;
+  /** Inclusive ISO dates (YYYY-MM-DD) */
+  from?: string;
+  to?: string;
+  page?: number;
+}
+
+/**
+ * Resolve the signed-in owner or admin's tenant
+ */
+async function getAuditAccess() {
+  const supabase = await createServerClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { supabase, error: "Unauthorized" };
+  }
+
+  const access = await authorize(supabase, user.id, "audit:view");
+
+  if (access.error || !access.tenantId) {
+    return { supabase, error: access.error };
+  }
+
+  return { supabase, user, tenantId: access.tenantId };
+}
+
+/**
+ * Build the filtered audit log query for a tenant, newest first
+ */
+function buildQuery(
+  supabase: Awaited<ReturnType<typeof createServerClient>>,
+  tenantId: string,
+  filters: AuditLogFilters,
+  count = false
+) {
+  let query = supabase
+    .from("audit_logs")
+    .select("*", count ? { count: "exact" } : undefined)
+    .eq("tenant_id", tenantId)
+    .order("created_at", { ascending: false });
+
+  if (filters.targetType) {
+    query = query.eq("target_type", filters.targetType);
+  }
+
+  if (filters.from) {
+    query = query.gte("created_at", new Date(`${filters.from}T00:00:00Z`).toISOString());
+  }
+
+  if (filters.to) {
+    query = query.lt("created_at", new Date(new Date(`${filters.to}T00:00:00Z`).getTime() + 86400000).toISOString());
+  }
+
+  // PostgREST filter syntax: drop separators and escape LIKE wildcards
+  const search = filters.search?.replace(/[,()]/g, " ").replace(/[\\%_]/g, "\\$&").trim();
+  if (search) {
+    query = query.or(`actor_email.ilike.%${search}%,action.ilike.%${search}%,target_name.ilike.%${search}%`);
+  }
+
+  return query;
+}
+
+function isValidDate(value?: string) {
+  return !value || (/^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)));
+}
+
+/**
+ * Get a page of audit log entries for the current tenant
+ */
+export async function getAuditLogs(filters: AuditLogFilters = {}) {
+  const { supabase, tenantId, error: authError } = await getAuditAccess();
+  if (authError || !tenantId) return { error: authError };
+
+  if (!isValidDate(filters.from) || !isValidDate(filters.to)) {
+    return { error: "Invalid date range" };
+  }
+
+  const page = Math.max(0, Math.floor(filters.page || 0));
+
+  try {
+    const { data, count, error } = await buildQuery(supabase, tenantId, filters, true).range(
+      page * PAGE_SIZE,
+      page * PAGE_SIZE + PAGE_SIZE - 1
+    );
+
+    if (error) {
+      console.error("[AUDIT] Error fetching audit log:", error);
+      return { error: "Failed to fetch audit log" };
+    }
+
+    return {
+      logs: (data || []) as AuditLogEntry[],
+      total: count || 0,
+      page,
+      pageSize: PAGE_SIZE,
+    };
+  } catch (error) {
+    console.error("[AUDIT] Error fetching audit log:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Export the filtered audit log as CSV (most recent 10,000 entries)
+ */
+export async function exportAuditLogsCsv(filters: AuditLogFilters = {}) {
+  const { supabase, user, tenantId, error: authError } = await getAuditAccess();
+  if (authError || !tenantId || !user) return { error: authError };
+
+  if (!isValidDate(filters.from) || !isValidDate(filters.to)) {
+    return { error: "Invalid date range" };
+  }
+
+  try {
+    const { data, error } = await buildQuery(supabase, tenantId, filters).limit(EXPORT_LIMIT);
+
+    if (error) {
+      console.error("[AUDIT] Error exporting audit log:", error);
+      return { error: "Failed to export audit log" };
+    }
+
+    const logs = (data || []) as AuditLogEntry[];
+
+    await recordAuditEvent({
+      tenantId,
+      actor: user,
+      action: "audit_log.exported",
+      target: { type: "audit_log" },
+      metadata: {
+        count: logs.length,
+        filters: {
+          targetType: filters.targetType || null,
+          search: filters.search || null,
+          from: filters.from || null,
+          to: filters.to || null,
+        },
+      },
+    });
+
+    return { csv: auditLogsToCsv(logs), truncated: logs.length === EXPORT_LIMIT };
+  } catch (error) {
+    console.error("[AUDIT] Error exporting audit log:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Audit Log Formatting
+ * Pure helpers for building before/after diffs and exporting entries as CSV
+ */
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export const REDACTED = "[redacted]";
+
+// Credentials and tokens are recorded as changed, never by value
+const SENSITIVE_KEY_PATTERN = /(secret|password|credential|api_?key|private_?key|token$)/i;
+
+export function isSensitiveKey(key: string): boolean {
+  return SENSITIVE_KEY_PATTERN.test(key);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Flatten nested objects into dotted paths (config.instructions); arrays stay whole
+ */
+function flatten(value: Record<string, unknown>, prefix = "", out: Record<string, unknown> = {}) {
+  for (const [key, child] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child) && Object.keys(child).length > 0) {
+      flatten(child, path, out);
+    } else {
+      out[path] = child;
+    }
+  }
+  return out;
+}
+
+/**
+ * Fields that differ between two snapshots of a record, as { "config.tone": { before, after } }
+ * Top-level keys missing from `after` are ignored so partial updates only record what they
+ * touched. Pass `before` as null for creations and `after` as null for deletions.
+ */
+export function diffChanges(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): AuditChanges {
+  const touched = new Set(Object.keys(after || before || {}));
+  touched.delete("updated_at");
+  touched.delete("created_at");
+
+  const pick = (record: Record<string, any> | null | undefined) => {
+    const picked: Record<string, unknown> = {};
+    for (const key of touched) {
+      if (record?.[key] !== undefined) picked[key] = record[key];
+    }
+    return flatten(picked);
+  };
+
+  const previous = pick(before);
+  const next = after ? pick(after) : {};
+  const changes: AuditChanges = {};
+
+  for (const path of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    const from = previous[path] ?? null;
+    const to = next[path] ?? null;
+    if (isEqual(from, to)) continue;
+
+    changes[path] = path.split(".").some(isSensitiveKey)
+      ? { before: from === null ? null : REDACTED, after: to === null ? null : REDACTED }
+      : { before: from, after: to };
+  }
+
+  return changes;
+}
+
+export interface AuditCsvRow {
+  created_at: string;
+  actor_email: string | null;
+  action: string;
+  target_type: string;
+  target_id: string | null;
+  target_name: string | null;
+  changes: AuditChanges;
+  ip_address: string | null;
+}
+
+/**
+ * Quote a CSV cell, escaping quotes and neutralising spreadsheet formulas
+ */
+export function escapeCsvCell(value: unknown): string {
+  let text = value === null || value === undefined ? "" : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+export function auditLogsToCsv(rows: AuditCsvRow[]): string {
+  const headers = ["Timestamp", "Actor", "Action", "Target Type", "Target ID", "Target", "Changes", "IP Address"];
+
+  const lines = rows.map((row) =>
+    [
+      row.created_at,
+      row.actor_email,
+      row.action,
+      row.target_type,
+      row.target_id,
+      row.target_name,
+      Object.keys(row.changes || {}).length > 0 ? JSON.stringify(row.changes) : "",
+      row.ip_address,
+    ]
+      .map(escapeCsvCell)
+      .join(",")
+  );
+
+  return [headers.join(","), ...lines].join("\n");
+}
@@ -0,0 +1,95 @@
+/**
+ * Audit Log Recorder
+ * Appends an entry to audit_logs for every mutating server action
+ * Recording never fails the action it describes; errors are logged and swallowed
+ */
+
+import { headers } from "next/headers";
+import { createServerClient } from "@/lib/supabase/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import { diffChanges } from "./format";
+
+export interface AuditActor {
+  id: string;
+  email?: string | null;
+}
+
+export interface AuditEvent {
+  tenantId: string;
+  /** Null when no user is signed in (e.g. an OAuth callback without a session) */
+  actor: AuditActor | null;
+  /** "<target type>.<verb>", e.g. agent.updated */
+  action: string;
+  target: {
+    type: string;
+    id?: string | null;
+    name?: string | null;
+  };
+  before?: Record<string, any> | null;
+  after?: Record<string, any> | null;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Client IP and user agent of the current request, when called inside one
+ */
+async function getRequestContext(): Promise<{ ipAddress: string | null; userAgent: string | null }> {
+  try {
+    const headersList = await headers();
+    const forwardedFor = headersList.get("x-forwarded-for");
+
+    return {
+      ipAddress: forwardedFor?.split(",")[0]?.trim() || headersList.get("x-real-ip") || null,
+      userAgent: headersList.get("user-agent"),
+    };
+  } catch {
+    // Outside a request scope (background jobs)
+    return { ipAddress: null, userAgent: null };
+  }
+}
+
+/**
+ * The signed-in user, for routes that don't already resolve one
+ */
+export async function getAuditActor(): Promise<AuditActor | null> {
+  try {
+    const supabase = await createServerClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    return user ? { id: user.id, email: user.email } : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function recordAuditEvent(event: AuditEvent): Promise<void> {
+  try {
+    const { ipAddress, userAgent } = await getRequestContext();
+    const supabase = createServiceClient();
+
+    const { error } = await supabase.from("audit_logs").insert({
+      tenant_id: event.tenantId,
+      actor_id: event.actor?.id || null,
+      actor_email: event.actor?.email || null,
+      action: event.action,
+      target_type: event.target.type,
+      target_id: event.target.id || null,
+      target_name: event.target.name || null,
+      changes:
+        event.before !== undefined || event.after !== undefined
+          ? diffChanges(event.before, event.after)
+          : {},
+      metadata: event.metadata || {},
+      ip_address: ipAddress,
+      user_agent: userAgent,
+    });
+
+    if (error) {
+      console.error(`[AUDIT] Failed to record ${event.action}:`, error);
+    }
+  } catch (error) {
+    console.error(`[AUDIT] Failed to record ${event.action}:`, error);
+  }
+}
@@ -9,11 +9,14 @@ import { revalidatePath } from "next/cache";
 import { redirect } from "next/navigation";
 import { createServerClient } from "@/lib/supabase/server";
 import { createClient } from "@supabase/supabase-js";
+import { getInvitationByToken, markInvitationAccepted } from "@/lib/team/invitations";
+import { recordAuditEvent } from "@/lib/audit/log";
 
 /**
  * Sign up a new user and create their tenant/organization
  *
  * @param formData - Form data containing email, password, fullName, organizationName
+ * (or inviteToken to join an existing organization)
  * @returns Object with success status or error message
  */
 export async function signup(formData: FormData) {
@@ -24,18 +27,30 @@ export async function signup(formData: FormData) {
   const password = formData.get("password") as string;
   const fullName = formData.get("fullName") as string;
   const organizationName = formData.get("organizationName") as string;
+  const inviteToken = formData.get("inviteToken") as string | null;
+
+  // Invited users join the inviting organization instead of creating one
+  const invitation = inviteToken ? await getInvitationByToken(inviteToken) : null;
+
+  if (inviteToken && (!invitation || invitation.status !== "pending")) {
+    return { error: "This invitation is no longer valid. Ask for a new one." };
+  }
 
   // Validate inputs
-  if (!email || !password || !fullName || !organizationName) {
+  if (!email || !password || !fullName || (!organizationName && !invitation)) {
     return { error: "All fields are required" };
   }
 
+  if (invitation && email.trim().toLowerCase() !== invitation.email) {
+    return { error: `This invitation was sent to ${invitation.email}. Sign up with that address to accept it.` };
+  }
+
   if (password.length < 10) {
     return { error: "Password must be at least 10 characters" };
   }
 
   // Create slug from organization name (lowercase, replace spaces with hyphens)
-  const slug = organizationName
+  const slug = (organizationName || "")
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, "-")
     .replace(/^-|-$/g, "");
@@ -80,6 +95,36 @@ export async function signup(formData: FormData) {
       }
     );
 
+    if (invitation) {
+      if (!(await markInvitationAccepted(invitation.id, authData.user.id))) {
+        return { error: "This invitation is no longer valid. Ask for a new one." };
+      }
+
+      const { error: profileError } = await supabaseAdmin.from("profiles").insert({
+        id: authData.user.id,
+        tenant_id: invitation.tenantId,
+        email,
+        full_name: fullName,
+        role: invitation.role,
+      });
+
+      if (profileError) {
+        console.error("Profile creation error:", profileError);
+        return { error: "Failed to create user profile" };
+      }
+
+      await recordAuditEvent({
+        tenantId: invitation.tenantId,
+        actor: { id: authData.user.id, email },
+        action: "member.joined",
+        target: { type: "member", id: authData.user.id, name: email },
+        after: { role: invitation.role },
+        metadata: { invitation_id: invitation.id },
+      });
+
+      return { success: true };
+    }
+
     // Create tenant (organization)
     const { data: tenant, error: tenantError } = await supabaseAdmin
       .from("tenants")
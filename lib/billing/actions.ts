@@ -6,8 +6,14 @@
 "use server";
 
 import { createServerClient } from "@/lib/supabase/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import { authorize } from "@/lib/team/permissions";
+import { recordAuditEvent } from "@/lib/audit/log";
+import { revalidatePath } from "next/cache";
 import Stripe from "stripe";
-import { getPlanPrice, PLAN_LIMITS } from "./plans";
+import { getPlanPrice, PLAN_LIMITS, planSupportsOverage } from "./plans";
+import { getTenantPlanId, getUsageTotals } from "./ledger";
+import { ensureOverageSubscriptionItems, getOverageSummary } from "./overage";
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: "2025-11-17.clover",
@@ -77,7 +83,7 @@ export async function getUsageStats() {
 
   const { data: profile } = await supabase
     .from("profiles")
-    .select("tenant_id, tenants(*)")
+    .select("tenant_id")
     .eq("id", user.id)
     .single();
 
@@ -85,7 +91,8 @@ export async function getUsageStats() {
     return { error: "Profile not found" };
   }
 
-  const tenant = (profile as any).tenants;
+  // Current period totals rolled up from the usage ledger
+  const totals = await getUsageTotals(profile.tenant_id);
 
   // Get agent count
   const { count: agentCount } = await supabase
@@ -96,13 +103,133 @@ export async function getUsageStats() {
 
   const usage = {
     agents: agentCount || 0,
-    messages: tenant.usage_messages_month || 0,
-    storage_mb: Math.round((tenant.usage_storage_bytes || 0) / 1024 / 1024),
+    messages: totals.messages,
+    storage_mb: Math.round(totals.storage / 1024 / 1024),
   };
 
   return { usage };
 }
 
+/**
+ * Get overage settings and current-period overage lines for the billing page
+ */
+export async function getOverageBilling() {
+  const supabase = await createServerClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("tenant_id")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile) {
+    return { error: "Profile not found" };
+  }
+
+  const overage = await getOverageSummary(profile.tenant_id);
+
+  return { overage };
+}
+
+/**
+ * Opt in to (or out of) overage billing and set the per-period spending cap
+ */
+export async function updateOverageSettings(settings: { enabled: boolean; capUsd: number | null }) {
+  const supabase = await createServerClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Not authenticated" };
+  }
+
+  // Only the owner can change what the organization pays for
+  const access = await authorize(supabase, user.id, "billing:manage");
+
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
+  }
+
+  const capUsd = settings.capUsd === null ? null : Math.round(settings.capUsd * 100) / 100;
+
+  if (capUsd !== null && (!Number.isFinite(capUsd) || capUsd <= 0)) {
+    return { error: "Spending cap must be greater than $0" };
+  }
+
+  if (settings.enabled && capUsd === null) {
+    return { error: "Set a spending cap to enable overage billing" };
+  }
+
+  const planId = await getTenantPlanId(access.tenantId);
+
+  if (settings.enabled && !planSupportsOverage(planId)) {
+    return { error: "Your plan doesn't support overage billing. Upgrade to Pro or higher." };
+  }
+
+  try {
+    if (settings.enabled) {
+      const { data: subscription } = await supabase
+        .from("subscriptions")
+        .select("stripe_subscription_id")
+        .eq("tenant_id", access.tenantId)
+        .single();
+
+      if (!subscription?.stripe_subscription_id) {
+        return { error: "Overage billing requires an active paid subscription" };
+      }
+
+      await ensureOverageSubscriptionItems(subscription.stripe_subscription_id);
+    }
+
+    // The tenant comes from the session above
+    const serviceClient = createServiceClient();
+
+    const { data: tenant } = await serviceClient
+      .from("tenants")
+      .select("overage_enabled, overage_cap_usd")
+      .eq("id", access.tenantId)
+      .single();
+
+    const { error } = await serviceClient
+      .from("tenants")
+      .update({
+        overage_enabled: settings.enabled,
+        overage_cap_usd: capUsd,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", access.tenantId);
+
+    if (error) {
+      console.error("[OVERAGE] Failed to update settings:", error);
+      return { error: "Failed to update overage settings" };
+    }
+
+    await recordAuditEvent({
+      tenantId: access.tenantId,
+      actor: user,
+      action: "billing.overage_updated",
+      target: { type: "billing", id: access.tenantId },
+      before: tenant,
+      after: { overage_enabled: settings.enabled, overage_cap_usd: capUsd },
+    });
+
+    revalidatePath("/settings/billing");
+    return { success: true };
+  } catch (error: any) {
+    return { error: error.message };
+  }
+}
+
 /**
  * Get or create Stripe customer
  */
@@ -158,18 +285,15 @@ export async function createCheckoutSession(planId: string) {
     return { error: "Not authenticated" };
   }
 
-  const { data: profile } = await supabase
-    .from("profiles")
-    .select("tenant_id")
-    .eq("id", user.id)
-    .single();
+  // Only the owner can change what the organization pays for
+  const access = await authorize(supabase, user.id, "billing:manage");
 
-  if (!profile) {
-    return { error: "Profile not found" };
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
   }
 
   try {
-    const customerId = await getOrCreateStripeCustomer(profile.tenant_id);
+    const customerId = await getOrCreateStripeCustomer(access.tenantId);
 
     const session = await stripe.checkout.sessions.create({
       customer: customerId,
@@ -184,7 +308,7 @@ export async function createCheckoutSession(planId: string) {
       success_url: `${process.env.NEXT_PUBLIC_URL}/billing/success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: `${process.env.NEXT_PUBLIC_URL}/settings/billing`,
       metadata: {
-        tenant_id: profile.tenant_id,
+        tenant_id: access.tenantId,
         plan_id: planId,
       },
     });
@@ -224,18 +348,15 @@ export async function createPortalSession() {
     return { error: "Not authenticated" };
   }
 
-  const { data: profile } = await supabase
-    .from("profiles")
-    .select("tenant_id")
-    .eq("id", user.id)
-    .single();
+  // Only the owner can change what the organization pays for
+  const access = await authorize(supabase, user.id, "billing:manage");
 
-  if (!profile) {
-    return { error: "Profile not found" };
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
   }
 
   try {
-    const customerId = await getOrCreateStripeCustomer(profile.tenant_id);
+    const customerId = await getOrCreateStripeCustomer(access.tenantId);
 
     const session = await stripe.billingPortal.sessions.create({
       customer: customerId,
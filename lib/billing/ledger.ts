@@ -0,0 +1,263 @@
+/**
+ * Usage Ledger
+ * Append-only metering for messages, SMS, email, calendar and storage
+ * Limits are checked and usage appended atomically by the reserve_usage database function,
+ * so concurrent requests can't lose increments or go over the plan limit
+ * Server-only (service client); not a server action module, so tenants can't be spoofed from the client
+ */
+
+import { createServiceClient } from "@/lib/supabase/service";
+import { getOveragePrice, getPlanLimits, OVERAGE_METRICS, type OverageMetric } from "./plans";
+
+export type UsageMetric = "messages" | "sms" | "email" | "calendar" | "storage";
+
+export const USAGE_METRICS: UsageMetric[] = ["messages", "sms", "email", "calendar", "storage"];
+
+export interface UsageReservation {
+  allowed: boolean;
+  /** Billable usage this period (storage: all time), including this reservation when allowed */
+  current: number;
+  /** Plan limit in the metric's unit; -1 means unlimited */
+  limit: number;
+  planId: string;
+  /** Ledger entry to release if the metered action doesn't happen */
+  ledgerId: string | null;
+  /** USD charged as overage for this reservation */
+  overageCost: number;
+  /** Refused because the tenant's overage spending cap for the period is reached */
+  capReached: boolean;
+}
+
+export interface OverageSettings {
+  enabled: boolean;
+  /** Maximum overage spend per billing period in USD; null = no cap */
+  capUsd: number | null;
+}
+
+export interface ReserveUsageOptions {
+  /** Units to reserve (bytes for storage). Negative values record a decrease and are always allowed */
+  quantity?: number;
+  /** Non-billable usage is recorded but never limited */
+  billable?: boolean;
+  agentId?: string | null;
+  source?: string;
+  /** Provider ID of the metered action, e.g. a Twilio SID */
+  referenceId?: string | null;
+}
+
+/**
+ * Plan limit for a metric, in ledger units (-1 = unlimited)
+ */
+export function getUsageLimit(planId: string, metric: UsageMetric): number {
+  const limits = getPlanLimits(planId);
+
+  switch (metric) {
+    case "messages":
+      return limits.messages;
+    case "sms":
+      return limits.integrations.sms;
+    case "email":
+      return limits.integrations.email;
+    case "calendar":
+      // Calendar is a feature flag rather than a quota
+      return limits.integrations.calendar ? -1 : 0;
+    case "storage":
+      return limits.storage_mb * 1024 * 1024;
+  }
+}
+
+/**
+ * Resolve a tenant's plan: active subscription first (source of truth), then tenants.subscription_plan
+ */
+export async function getTenantPlanId(tenantId: string): Promise<string> {
+  const supabase = createServiceClient();
+
+  const { data: subscriptions } = await supabase
+    .from("subscriptions")
+    .select("plan_id")
+    .eq("tenant_id", tenantId)
+    .eq("status", "active")
+    .order("created_at", { ascending: false })
+    .limit(1);
+
+  if (subscriptions?.[0]?.plan_id) {
+    return subscriptions[0].plan_id;
+  }
+
+  const { data: tenant } = await supabase
+    .from("tenants")
+    .select("subscription_plan")
+    .eq("id", tenantId)
+    .single();
+
+  return tenant?.subscription_plan || "free";
+}
+
+/**
+ * Error shown when a reservation is refused
+ * @param label - What ran out, e.g. "Message"
+ * @param action - What upgrading allows, e.g. "send more emails"
+ */
+export function getUsageLimitError(reservation: UsageReservation, label: string, action: string): string {
+  if (reservation.capReached) {
+    return `${label} limit reached and the overage spending cap for this billing period is used up. Raise the cap in billing settings to ${action}.`;
+  }
+
+  return `${label} limit reached (${reservation.current}/${reservation.limit}). Please upgrade your plan to ${action}.`;
+}
+
+/**
+ * Tenant's overage opt-in and spending cap
+ */
+export async function getOverageSettings(tenantId: string): Promise<OverageSettings> {
+  const supabase = createServiceClient();
+
+  const { data: tenant } = await supabase
+    .from("tenants")
+    .select("overage_enabled, overage_cap_usd")
+    .eq("id", tenantId)
+    .single();
+
+  return {
+    enabled: !!tenant?.overage_enabled,
+    capUsd: tenant?.overage_cap_usd == null ? null : Number(tenant.overage_cap_usd),
+  };
+}
+
+/**
+ * Overage already spent this billing period across all metrics, in USD
+ */
+export async function getCurrentOverageCost(tenantId: string): Promise<number> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase.rpc("current_overage_cost", { p_tenant_id: tenantId });
+
+  if (error) {
+    console.error("[USAGE] Failed to load overage cost:", error);
+    throw new Error("Failed to load overage cost");
+  }
+
+  return Number(data ?? 0);
+}
+
+/**
+ * Whether spending costUsd more would pass the cap, as reserve_usage decides it
+ */
+export function isOverageCapReached(capUsd: number | null, spentUsd: number, costUsd: number): boolean {
+  return capUsd !== null && spentUsd + costUsd > capUsd;
+}
+
+/**
+ * Check the plan limit and append usage in one step
+ * Returns allowed = false without recording anything when the limit would be exceeded,
+ * unless the tenant opted in to overage and is under its spending cap
+ */
+export async function reserveUsage(
+  tenantId: string,
+  metric: UsageMetric,
+  options: ReserveUsageOptions = {}
+): Promise<UsageReservation> {
+  const supabase = createServiceClient();
+  const planId = await getTenantPlanId(tenantId);
+  const limit = getUsageLimit(planId, metric);
+
+  // Overage only applies to priced metrics on plans that offer it, and only when the tenant opted in
+  const unitPrice = OVERAGE_METRICS.includes(metric as OverageMetric)
+    ? getOveragePrice(planId, metric as OverageMetric)
+    : null;
+  const overage = unitPrice !== null ? await getOverageSettings(tenantId) : null;
+
+  const { data, error } = await supabase.rpc("reserve_usage", {
+    p_tenant_id: tenantId,
+    p_metric: metric,
+    p_quantity: options.quantity ?? 1,
+    p_limit: limit,
+    p_billable: options.billable ?? true,
+    p_agent_id: options.agentId ?? null,
+    p_source: options.source ?? null,
+    p_reference_id: options.referenceId ?? null,
+    p_overage_unit_price: overage?.enabled ? unitPrice : null,
+    p_overage_cap: overage?.enabled ? overage.capUsd : null,
+  });
+
+  if (error) {
+    console.error(`[USAGE] Failed to reserve ${metric} usage:`, error);
+    throw new Error("Failed to record usage");
+  }
+
+  const row = Array.isArray(data) ? data[0] : data;
+
+  return {
+    allowed: !!row?.allowed,
+    current: Number(row?.current_usage ?? 0),
+    limit,
+    planId,
+    ledgerId: row?.ledger_id ?? null,
+    overageCost: Number(row?.overage_cost ?? 0),
+    capReached: !!row?.cap_reached,
+  };
+}
+
+/**
+ * Append usage that has already happened and isn't limited (e.g. inbound SMS)
+ */
+export async function recordUsage(
+  tenantId: string,
+  metric: UsageMetric,
+  options: ReserveUsageOptions = {}
+): Promise<void> {
+  try {
+    const supabase = createServiceClient();
+
+    const { error } = await supabase.rpc("reserve_usage", {
+      p_tenant_id: tenantId,
+      p_metric: metric,
+      p_quantity: options.quantity ?? 1,
+      p_limit: -1,
+      p_billable: options.billable ?? true,
+      p_agent_id: options.agentId ?? null,
+      p_source: options.source ?? null,
+      p_reference_id: options.referenceId ?? null,
+    });
+
+    if (error) throw error;
+  } catch (error) {
+    // Don't fail the action if metering fails
+    console.error(`[USAGE] Failed to record ${metric} usage:`, error);
+  }
+}
+
+/**
+ * Reverse a reservation whose action didn't happen
+ */
+export async function releaseUsage(ledgerId: string | null | undefined): Promise<void> {
+  if (!ledgerId) return;
+
+  const supabase = createServiceClient();
+  const { error } = await supabase.rpc("release_usage", { p_ledger_id: ledgerId });
+
+  if (error) {
+    console.error(`[USAGE] Failed to release usage ${ledgerId}:`, error);
+  }
+}
+
+/**
+ * Billable usage per metric for the current period (storage: all time), rolled up from the ledger
+ */
+export async function getUsageTotals(tenantId: string): Promise<Record<UsageMetric, number>> {
+  const supabase = createServiceClient();
+  const totals = Object.fromEntries(USAGE_METRICS.map((metric) => [metric, 0])) as Record<UsageMetric, number>;
+
+  const { data, error } = await supabase.rpc("get_usage_totals", { p_tenant_id: tenantId });
+
+  if (error) {
+    console.error("[USAGE] Failed to load usage totals:", error);
+    return totals;
+  }
+
+  for (const row of (data || []) as Array<{ metric: UsageMetric; quantity: number | string }>) {
+    totals[row.metric] = Number(row.quantity);
+  }
+
+  return totals;
+}
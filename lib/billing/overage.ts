@@ -0,0 +1,333 @@
+/**
+ * Overage Billing
+ * Summarizes priced overage from the usage ledger and reports it to Stripe meters
+ * Each metric has a Stripe meter whose events carry overage cost in cents, billed through a
+ * metered price of $0.01 per unit, so per-plan unit prices never have to be mirrored in Stripe
+ * Server-only (service client)
+ */
+
+import Stripe from "stripe";
+import { createServiceClient } from "@/lib/supabase/service";
+import { getOveragePrice, OVERAGE_METRICS, planSupportsOverage, type OverageMetric } from "./plans";
+import { getOverageSettings, getTenantPlanId, getUsageLimit, type OverageSettings } from "./ledger";
+
+/** Report a period's overage once its end is this close, so it lands on that period's invoice */
+const REPORT_BEFORE_PERIOD_END_MS = 2 * 60 * 60 * 1000;
+
+/** Periods older than this are assumed settled and no longer scanned */
+const REPORT_LOOKBACK_MS = 62 * 24 * 60 * 60 * 1000;
+
+/** Stripe meter event names per metric */
+export const OVERAGE_METER_EVENTS: Record<OverageMetric, string> = {
+  messages: process.env.STRIPE_METER_OVERAGE_MESSAGES || "overage_messages",
+  sms: process.env.STRIPE_METER_OVERAGE_SMS || "overage_sms",
+  email: process.env.STRIPE_METER_OVERAGE_EMAIL || "overage_email",
+};
+
+/** Metered $0.01/unit prices attached to subscriptions when a tenant opts in */
+export const OVERAGE_PRICE_IDS: Record<OverageMetric, string | undefined> = {
+  messages: process.env.STRIPE_PRICE_ID_OVERAGE_MESSAGES,
+  sms: process.env.STRIPE_PRICE_ID_OVERAGE_SMS,
+  email: process.env.STRIPE_PRICE_ID_OVERAGE_EMAIL,
+};
+
+export interface OverageLine {
+  metric: OverageMetric;
+  /** Units included in the plan (-1 = unlimited) */
+  included: number;
+  used: number;
+  overageQuantity: number;
+  /** USD per overage unit, or null when the plan has hard limits only */
+  unitPrice: number | null;
+  /** USD */
+  cost: number;
+}
+
+export interface OverageSummary extends OverageSettings {
+  planId: string;
+  supported: boolean;
+  periodStart: string;
+  lines: OverageLine[];
+  /** USD across all metrics */
+  totalCost: number;
+}
+
+export interface OverageReportResult {
+  reported: number;
+  skipped: number;
+  failed: number;
+}
+
+interface PeriodTotalRow {
+  tenant_id: string;
+  metric: OverageMetric;
+  period_start: string;
+  billable_quantity: number | string | null;
+  overage_quantity: number | string | null;
+  overage_cost: number | string | null;
+}
+
+let stripeClient: Stripe | null = null;
+
+function getStripe(): Stripe {
+  if (!stripeClient) {
+    stripeClient = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+      apiVersion: "2025-11-17.clover",
+    });
+  }
+  return stripeClient;
+}
+
+/**
+ * Whole cents still to report for a period, given its ledger cost in USD and what Stripe already has
+ * Cost is rounded once on the running total so per-entry fractions of a cent aren't lost
+ */
+export function getUnreportedOverageCents(totalCostUsd: number, reportedCents: number): number {
+  return Math.max(Math.round(totalCostUsd * 100) - reportedCents, 0);
+}
+
+/**
+ * Whether a period's overage should be reported now: after the period has ended,
+ * or shortly before it ends so it is included on the period's invoice
+ */
+export function isOveragePeriodDue(
+  periodStart: Date,
+  subscription: { current_period_start: string | null; current_period_end: string | null } | null,
+  now: Date
+): boolean {
+  if (!subscription?.current_period_start) {
+    // No Stripe billing period; the ledger falls back to calendar months
+    const nextMonth = Date.UTC(periodStart.getUTCFullYear(), periodStart.getUTCMonth() + 1, 1);
+    return nextMonth - now.getTime() <= REPORT_BEFORE_PERIOD_END_MS;
+  }
+
+  if (periodStart < new Date(subscription.current_period_start)) {
+    return true;
+  }
+
+  return (
+    !!subscription.current_period_end &&
+    new Date(subscription.current_period_end).getTime() - now.getTime() <= REPORT_BEFORE_PERIOD_END_MS
+  );
+}
+
+/**
+ * Current-period overage per metric for a tenant, for the billing page
+ */
+export async function getOverageSummary(tenantId: string): Promise<OverageSummary> {
+  const supabase = createServiceClient();
+  const planId = await getTenantPlanId(tenantId);
+  const settings = await getOverageSettings(tenantId);
+
+  const { data: periodStart } = await supabase.rpc("usage_period_start", { p_tenant_id: tenantId });
+
+  const { data: totals } = await supabase
+    .from("usage_period_totals")
+    .select("metric, billable_quantity, overage_quantity, overage_cost")
+    .eq("tenant_id", tenantId)
+    .eq("period_start", periodStart)
+    .in("metric", OVERAGE_METRICS);
+
+  const byMetric = new Map(
+    ((totals || []) as PeriodTotalRow[]).map((row) => [row.metric, row])
+  );
+
+  const lines = OVERAGE_METRICS.map((metric): OverageLine => {
+    const row = byMetric.get(metric);
+    return {
+      metric,
+      included: getUsageLimit(planId, metric),
+      used: Number(row?.billable_quantity ?? 0),
+      overageQuantity: Number(row?.overage_quantity ?? 0),
+      unitPrice: getOveragePrice(planId, metric),
+      cost: Number(row?.overage_cost ?? 0),
+    };
+  });
+
+  return {
+    ...settings,
+    planId,
+    supported: planSupportsOverage(planId),
+    periodStart: periodStart as string,
+    lines,
+    totalCost: lines.reduce((sum, line) => sum + line.cost, 0),
+  };
+}
+
+/**
+ * Attach the metered overage prices to a subscription so meter events are invoiced
+ * Prices that aren't configured or are already on the subscription are skipped
+ */
+export async function ensureOverageSubscriptionItems(stripeSubscriptionId: string): Promise<void> {
+  const stripe = getStripe();
+  const subscription = await stripe.subscriptions.retrieve(stripeSubscriptionId);
+  const existing = new Set(subscription.items.data.map((item) => item.price.id));
+
+  for (const metric of OVERAGE_METRICS) {
+    const priceId = OVERAGE_PRICE_IDS[metric];
+    if (!priceId || existing.has(priceId)) continue;
+
+    await stripe.subscriptionItems.create({
+      subscription: stripeSubscriptionId,
+      price: priceId,
+    });
+    console.log(`[OVERAGE] Added ${metric} overage price to subscription ${stripeSubscriptionId}`);
+  }
+}
+
+/**
+ * Report unreported overage to Stripe for periods that have ended or are about to
+ * Safe to re-run: each meter event's identifier is the newest ledger entry it covers, so a retry
+ * after a failed bookkeeping write is deduplicated by Stripe while new usage always gets a new one
+ */
+export async function reportOverageUsage(now: Date = new Date()): Promise<OverageReportResult> {
+  const supabase = createServiceClient();
+  const result: OverageReportResult = { reported: 0, skipped: 0, failed: 0 };
+
+  const { data: totals, error } = await supabase
+    .from("usage_period_totals")
+    .select("tenant_id, metric, period_start, billable_quantity, overage_quantity, overage_cost")
+    .in("metric", OVERAGE_METRICS)
+    .gt("overage_cost", 0)
+    .gte("period_start", new Date(now.getTime() - REPORT_LOOKBACK_MS).toISOString());
+
+  if (error) {
+    console.error("[OVERAGE] Failed to load period totals:", error);
+    throw new Error("Failed to load overage totals");
+  }
+
+  const rows = (totals || []) as PeriodTotalRow[];
+  if (rows.length === 0) return result;
+
+  const tenantIds = [...new Set(rows.map((row) => row.tenant_id))];
+
+  const { data: subscriptions } = await supabase
+    .from("subscriptions")
+    .select("tenant_id, stripe_customer_id, current_period_start, current_period_end")
+    .in("tenant_id", tenantIds)
+    .order("created_at", { ascending: false });
+
+  const subscriptionByTenant = new Map<string, NonNullable<typeof subscriptions>[number]>();
+  for (const subscription of subscriptions || []) {
+    if (!subscriptionByTenant.has(subscription.tenant_id)) {
+      subscriptionByTenant.set(subscription.tenant_id, subscription);
+    }
+  }
+
+  const { data: reports } = await supabase
+    .from("overage_reports")
+    .select("tenant_id, period_start, metric, reported_cents")
+    .in("tenant_id", tenantIds);
+
+  const reportedCents = new Map<string, number>();
+  for (const report of reports || []) {
+    const key = `${report.tenant_id}:${new Date(report.period_start).toISOString()}:${report.metric}`;
+    reportedCents.set(key, Number(report.reported_cents));
+  }
+
+  for (const row of rows) {
+    const periodStart = new Date(row.period_start);
+    const key = `${row.tenant_id}:${periodStart.toISOString()}:${row.metric}`;
+    const subscription = subscriptionByTenant.get(row.tenant_id) || null;
+
+    if (!isOveragePeriodDue(periodStart, subscription, now)) continue;
+
+    const deltaCents = getUnreportedOverageCents(Number(row.overage_cost), reportedCents.get(key) || 0);
+    if (deltaCents === 0) continue;
+
+    if (!subscription?.stripe_customer_id) {
+      console.warn(`[OVERAGE] Tenant ${row.tenant_id} has overage but no Stripe customer`);
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      const period = await getLatestPeriodOverage(supabase, row);
+      const reportCents = getUnreportedOverageCents(period.overageCost, reportedCents.get(key) || 0);
+      if (reportCents === 0) continue;
+
+      const totalCents = (reportedCents.get(key) || 0) + reportCents;
+
+      await getStripe().billing.meterEvents.create({
+        event_name: OVERAGE_METER_EVENTS[row.metric],
+        payload: {
+          stripe_customer_id: subscription.stripe_customer_id,
+          value: String(reportCents),
+        },
+        identifier: `${key}:${period.ledgerEntryId}`,
+        timestamp: Math.floor(now.getTime() / 1000),
+      });
+
+      const { error: upsertError } = await supabase.from("overage_reports").upsert({
+        tenant_id: row.tenant_id,
+        period_start: row.period_start,
+        metric: row.metric,
+        reported_quantity: period.overageQuantity,
+        reported_cents: totalCents,
+        last_reported_at: now.toISOString(),
+      });
+
+      if (upsertError) throw upsertError;
+
+      if (row.metric === "email") {
+        // Email sends are also tracked per message; mark the period's billable sends as billed
+        await supabase
+          .from("email_usage")
+          .update({ billed_at: now.toISOString() })
+          .eq("tenant_id", row.tenant_id)
+          .eq("billable", true)
+          .is("billed_at", null)
+          .gte("created_at", row.period_start);
+      }
+
+      console.log(
+        `[OVERAGE] Reported ${reportCents}¢ of ${row.metric} overage for tenant ${row.tenant_id} (period ${row.period_start})`
+      );
+      result.reported++;
+    } catch (reportError) {
+      console.error(`[OVERAGE] Failed to report ${row.metric} overage for tenant ${row.tenant_id}:`, reportError);
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Newest ledger entry for a tenant's metric and period, and the period's overage up to it
+ * The entry is read before the total, so the total covers at least that entry; usage recorded
+ * after it (including releases) adds newer entries and so a different meter event identifier
+ */
+async function getLatestPeriodOverage(
+  supabase: ReturnType<typeof createServiceClient>,
+  row: PeriodTotalRow
+): Promise<{ ledgerEntryId: string; overageQuantity: number; overageCost: number }> {
+  const { data: entry, error: entryError } = await supabase
+    .from("usage_ledger")
+    .select("id")
+    .eq("tenant_id", row.tenant_id)
+    .eq("metric", row.metric)
+    .eq("period_start", row.period_start)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .limit(1)
+    .single();
+
+  if (entryError || !entry) throw entryError || new Error("No ledger entries for period");
+
+  const { data: total, error: totalError } = await supabase
+    .from("usage_period_totals")
+    .select("overage_quantity, overage_cost")
+    .eq("tenant_id", row.tenant_id)
+    .eq("metric", row.metric)
+    .eq("period_start", row.period_start)
+    .single();
+
+  if (totalError || !total) throw totalError || new Error("No usage total for period");
+
+  return {
+    ledgerEntryId: entry.id,
+    overageQuantity: Number(total.overage_quantity ?? 0),
+    overageCost: Number(total.overage_cost ?? 0),
+  };
+}
@@ -26,9 +26,12 @@ export const PLAN_LIMITS = {
       webhooks: false,
       stripe: false,
       slack: false,
+      discord: false,
+      github: false,
     },
     storage_mb: 10,
     trigger_jobs: 100,
+    overage: null, // Hard limits only
 
   },
   starter: {
@@ -57,9 +60,12 @@ export const PLAN_LIMITS = {
       webhooks: false,
       stripe: false,
       slack: false,
+      discord: false,
+      github: false,
     },
     storage_mb: 100,
     trigger_jobs: 1000,
+    overage: null, // Hard limits only
 
   },
   pro: {
@@ -93,9 +99,17 @@ export const PLAN_LIMITS = {
       webhooks: false,
       stripe: false,
       slack: false,
+      discord: false,
+      github: false,
     },
     storage_mb: 1024, // 1 GB
     trigger_jobs: 5000,
+    // Opt-in overage, USD per unit beyond the included amount
+    overage: {
+      messages: 0.02,
+      sms: 0.05,
+      email: 0.004,
+    },
 
   },
   business: {
@@ -120,7 +134,7 @@ export const PLAN_LIMITS = {
       'claude-3.5-haiku',
     ],
     integrations: {
-      // Pro + HubSpot, Webhooks, Stripe
+      // Pro + HubSpot, Webhooks, Stripe, Discord, GitHub
       email: 2000,
       sms: 500,
       calendar: true,
@@ -132,9 +146,17 @@ export const PLAN_LIMITS = {
       webhooks: true,
       stripe: true,
       slack: false,
+      discord: true,
+      github: true,
     },
     storage_mb: 5120, // 5 GB
     trigger_jobs: 20000,
+    // Opt-in overage, USD per unit beyond the included amount
+    overage: {
+      messages: 0.015,
+      sms: 0.04,
+      email: 0.003,
+    },
 
   },
   enterprise: {
@@ -154,9 +176,17 @@ export const PLAN_LIMITS = {
       webhooks: true,
       stripe: true,
       slack: true,
+      discord: true,
+      github: true,
     },
     storage_mb: 51200, // 50 GB
     trigger_jobs: -1, // unlimited
+    // Opt-in overage, USD per unit beyond the included amount
+    overage: {
+      messages: 0.01,
+      sms: 0.03,
+      email: 0.002,
+    },
 
   },
 } as const;
@@ -215,6 +245,37 @@ export function canSendMessage(planId: string, monthlyCount: number): boolean {
   return monthlyCount < limits.messages;
 }
 
+/**
+ * Check if a plan has background job runs left this month (scheduled agent runs)
+ */
+export function canRunTriggerJob(planId: string, monthlyCount: number): boolean {
+  const limits = getPlanLimits(planId);
+
+  if (limits.trigger_jobs === -1) return true; // unlimited
+
+  return monthlyCount < limits.trigger_jobs;
+}
+
+/** Metrics that can be billed as overage instead of being cut off at the plan limit */
+export type OverageMetric = 'messages' | 'sms' | 'email';
+
+export const OVERAGE_METRICS: OverageMetric[] = ['messages', 'sms', 'email'];
+
+/**
+ * Per-unit overage price in USD, or null when the plan only has hard limits
+ */
+export function getOveragePrice(planId: string, metric: OverageMetric): number | null {
+  const overage = getPlanLimits(planId).overage;
+  return overage ? overage[metric] : null;
+}
+
+/**
+ * Whether tenants on this plan can opt in to overage billing
+ */
+export function planSupportsOverage(planId: string): boolean {
+  return getPlanLimits(planId).overage !== null;
+}
+
 /**
  * Check if a plan allows using a specific integration
  */
@@ -250,6 +311,9 @@ export function canUseIntegration(planId: string, provider: string): boolean {
     'webhook': 'webhooks',
     'webhooks': 'webhooks',
     'slack': 'slack',
+    // Developer & Community
+    'discord': 'discord',
+    'github': 'github',
   };
   
   const limitKey = providerToLimit[provider.toLowerCase()];
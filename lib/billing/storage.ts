@@ -1,12 +1,12 @@
 /**
  * Storage Usage Tracking
  * Track and enforce storage limits for file uploads
+ * Storage is metered in the usage ledger in bytes; uploads reserve with reserveUsage("storage")
+ * Server-only (ledger service client); not a server action module, so tenants can't be spoofed from the client
  */
 
-"use server";
-
-import { createServerClient } from "@/lib/supabase/server";
 import { getPlanLimits } from "./plans";
+import { getTenantPlanId, getUsageTotals, recordUsage } from "./ledger";
 
 /**
  * Check if tenant can upload more files
@@ -20,42 +20,17 @@ export async function checkStorageLimit(
   limitMB: number;
   planId: string;
 }> {
-  const supabase = await createServerClient();
-
-  // Get tenant's usage data
-  const { data: tenant } = await supabase
-    .from("tenants")
-    .select("subscription_plan, usage_storage_bytes")
-    .eq("id", tenantId)
-    .single();
-
-  if (!tenant) {
-    throw new Error("Tenant not found");
-  }
-
-  // Check subscriptions table first (source of truth for paid plans)
-  const { data: subscriptions } = await supabase
-    .from("subscriptions")
-    .select("plan_id, status")
-    .eq("tenant_id", tenantId)
-    .eq("status", "active")
-    .order("created_at", { ascending: false })
-    .limit(1);
-
-  const subscription = subscriptions?.[0];
-  
-  // Use subscription plan_id if available, fallback to tenants.subscription_plan
-  const planId = subscription?.plan_id || tenant.subscription_plan || "free";
+  const [planId, totals] = await Promise.all([getTenantPlanId(tenantId), getUsageTotals(tenantId)]);
   const planLimits = getPlanLimits(planId);
-  
-  const currentBytes = tenant.usage_storage_bytes || 0;
+
+  const currentBytes = totals.storage;
   const currentMB = Math.round(currentBytes / (1024 * 1024));
   const limitMB = planLimits.storage_mb;
-  
+
   // Check if adding this file would exceed limit
   const newTotalBytes = currentBytes + fileSizeBytes;
   const newTotalMB = newTotalBytes / (1024 * 1024);
-  
+
   const allowed = newTotalMB <= limitMB;
 
   return {
@@ -67,55 +42,15 @@ export async function checkStorageLimit(
 }
 
 /**
- * Increment storage usage
- */
-export async function incrementStorageUsage(
-  tenantId: string,
-  fileSizeBytes: number
-): Promise<void> {
-  const supabase = await createServerClient();
-
-  const { data: tenant } = await supabase
-    .from("tenants")
-    .select("usage_storage_bytes")
-    .eq("id", tenantId)
-    .single();
-
-  if (!tenant) {
-    throw new Error("Tenant not found");
-  }
-
-  const newUsage = (tenant.usage_storage_bytes || 0) + fileSizeBytes;
-
-  await supabase
-    .from("tenants")
-    .update({ usage_storage_bytes: newUsage })
-    .eq("id", tenantId);
-}
-
-/**
- * Decrement storage usage (when file is deleted)
+ * Decrement storage usage (when file is deleted or replaced by a smaller version)
  */
 export async function decrementStorageUsage(
   tenantId: string,
-  fileSizeBytes: number
+  fileSizeBytes: number,
+  source: "document_deleted" | "document_replaced" = "document_deleted"
 ): Promise<void> {
-  const supabase = await createServerClient();
-
-  const { data: tenant } = await supabase
-    .from("tenants")
-    .select("usage_storage_bytes")
-    .eq("id", tenantId)
-    .single();
-
-  if (!tenant) {
-    throw new Error("Tenant not found");
-  }
-
-  const newUsage = Math.max(0, (tenant.usage_storage_bytes || 0) - fileSizeBytes);
-
-  await supabase
-    .from("tenants")
-    .update({ usage_storage_bytes: newUsage })
-    .eq("id", tenantId);
+  await recordUsage(tenantId, "storage", {
+    quantity: -fileSizeBytes,
+    source,
+  });
 }
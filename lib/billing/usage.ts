@@ -1,138 +1,61 @@
 /**
- * Usage Tracking Actions
+ * Usage Limits
  * Track and enforce usage limits for billing plans
+ * Server-only; not a server action module, so tenants can't be spoofed from the client.
+ * The dashboard reads the signed-in tenant's usage through getUsageStats in ./actions
  */
 
-"use server";
-
 import { createServerClient } from "@/lib/supabase/server";
-import { getPlanLimits, canSendMessage, canCreateAgent } from "./plans";
-
-/**
- * Increment message usage for tenant
- */
-export async function incrementMessageUsage(tenantId: string): Promise<void> {
-  const supabase = await createServerClient();
-
-  // Get current usage and subscription info
-  const { data: tenant } = await supabase
-    .from("tenants")
-    .select("usage_messages_month, usage_reset_at, subscription_plan")
-    .eq("id", tenantId)
-    .single();
-
-  if (!tenant) {
-    throw new Error("Tenant not found");
-  }
-
-  // Get subscription billing period (for paid plans)
-  let resetAt = tenant.usage_reset_at ? new Date(tenant.usage_reset_at) : null;
-  const now = new Date();
-
-  // For paid plans, use Stripe billing cycle
-  if (tenant.subscription_plan !== 'free') {
-    const { data: subscription } = await supabase
-      .from("subscriptions")
-      .select("current_period_end, status")
-      .eq("tenant_id", tenantId)
-      .single();
-
-    // If subscription exists and is active, use its billing period
-    if (subscription && subscription.status === 'active' && subscription.current_period_end) {
-      resetAt = new Date(subscription.current_period_end);
-    }
-  }
-
-  // If no reset date, set to next month (calendar month for free plan)
-  if (!resetAt) {
-    resetAt = new Date(now.getFullYear(), now.getMonth() + 1, 1);
-  }
-
-  // Check if we need to reset monthly usage
-  if (now > resetAt) {
-    // Calculate next reset date
-    let nextReset: Date;
-    
-    if (tenant.subscription_plan !== 'free') {
-      // For paid plans, get updated billing period from Stripe
-      const { data: subscription } = await supabase
-        .from("subscriptions")
-        .select("current_period_end")
-        .eq("tenant_id", tenantId)
-        .single();
-      
-      if (subscription?.current_period_end) {
-        nextReset = new Date(subscription.current_period_end);
-      } else {
-        // Fallback: add 30 days
-        nextReset = new Date(now.getTime() + 30 * 24 * 60 * 60 * 1000);
-      }
-    } else {
-      // Free plan: use calendar month
-      nextReset = new Date(now.getFullYear(), now.getMonth() + 1, 1);
-    }
-    
-    await supabase
-      .from("tenants")
-      .update({
-        usage_messages_month: 1,
-        usage_reset_at: nextReset.toISOString(),
-      })
-      .eq("id", tenantId);
-  } else {
-    // Increment usage
-    await supabase
-      .from("tenants")
-      .update({
-        usage_messages_month: tenant.usage_messages_month + 1,
-      })
-      .eq("id", tenantId);
-  }
-}
+import { getPlanLimits, canSendMessage, canCreateAgent, getOveragePrice, planSupportsOverage } from "./plans";
+import {
+  getCurrentOverageCost,
+  getOverageSettings,
+  getTenantPlanId,
+  getUsageTotals,
+  isOverageCapReached,
+} from "./ledger";
 
 /**
  * Check if tenant can send more messages
+ * Read-only view for dashboards; agent runs reserve usage atomically with reserveUsage
  */
 export async function checkMessageLimit(tenantId: string): Promise<{
   allowed: boolean;
   current: number;
   limit: number;
   planId: string;
+  /** Usage past the limit is billed as overage (up to the tenant's spending cap) */
+  overage: boolean;
+  /** Past the limit with the overage spending cap used up */
+  capReached: boolean;
 }> {
-  const supabase = await createServerClient();
-
-  const { data: tenant } = await supabase
-    .from("tenants")
-    .select("usage_messages_month, subscription_plan")
-    .eq("id", tenantId)
-    .single();
-
-  if (!tenant) {
-    throw new Error("Tenant not found");
-  }
-
-  // Check subscriptions table for active subscription (source of truth)
-  const { data: subscriptions } = await supabase
-    .from("subscriptions")
-    .select("plan_id, status")
-    .eq("tenant_id", tenantId)
-    .eq("status", "active")
-    .order("created_at", { ascending: false })
-    .limit(1);
-
-  const subscription = subscriptions?.[0];
-  
-  // Use subscription plan_id if available, fallback to tenants.subscription_plan
-  const planId = subscription?.plan_id || tenant.subscription_plan || "free";
-  const current = tenant.usage_messages_month || 0;
-  const allowed = canSendMessage(planId, current);
+  const [planId, totals, overageSettings] = await Promise.all([
+    getTenantPlanId(tenantId),
+    getUsageTotals(tenantId),
+    getOverageSettings(tenantId),
+  ]);
+  const current = totals.messages;
   const limits = getPlanLimits(planId);
+  const overage = overageSettings.enabled && planSupportsOverage(planId);
+  const withinLimit = canSendMessage(planId, current);
+
+  // The next message past the limit is only allowed if its overage fits under the cap
+  const capReached =
+    overage &&
+    !withinLimit &&
+    isOverageCapReached(
+      overageSettings.capUsd,
+      overageSettings.capUsd === null ? 0 : await getCurrentOverageCost(tenantId),
+      getOveragePrice(planId, "messages") ?? 0
+    );
 
   return {
-    allowed,
+    allowed: withinLimit || (overage && !capReached),
     current,
     limit: limits.messages,
     planId,
+    overage,
+    capReached,
   };
 }
 
@@ -6,6 +6,7 @@
 "use server";
 
 import { createServerClient } from "@/lib/supabase/server";
+import { recordAuditEvent } from "@/lib/audit/log";
 
 interface Message {
   role: "user" | "assistant";
@@ -228,6 +229,13 @@ export async function deleteConversation(conversationId: string) {
       return { error: "Failed to delete conversation" };
     }
 
+    await recordAuditEvent({
+      tenantId: profile.tenant_id,
+      actor: user,
+      action: "conversation.deleted",
+      target: { type: "conversation", id: conversationId },
+    });
+
     return { success: true };
   } catch (error) {
     console.error("Error deleting conversation:", error);
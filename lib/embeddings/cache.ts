@@ -0,0 +1,129 @@
+/**
+ * Embedding Cache
+ * Embeddings keyed by provider and the SHA-256 of the embedded text, kept in memory
+ * and in the embedding_cache table so they survive restarts and are shared across workers
+ */
+
+import { createHash } from "crypto";
+import { createServiceClient } from "@/lib/supabase/service";
+
+/** Entries kept in memory per process; the least recently used go first */
+const MEMORY_MAX_ENTRIES = 5000;
+
+/** How often expired rows are purged from embedding_cache */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export function hashText(text: string): string {
+  return createHash("sha256").update(text, "utf8").digest("hex");
+}
+
+export class EmbeddingCache {
+  private memory = new Map<string, { embedding: number[]; expiresAt: number }>();
+  private lastPurge = 0;
+
+  constructor(
+    private ttlSeconds: number,
+    /** Also read and write the embedding_cache table */
+    private persist: boolean = true
+  ) {}
+
+  /**
+   * Cached embeddings for the given content hashes, by hash
+   */
+  async getMany(provider: string, hashes: string[]): Promise<Map<string, number[]>> {
+    const found = new Map<string, number[]>();
+    const now = Date.now();
+
+    for (const hash of hashes) {
+      const key = `${provider}:${hash}`;
+      const entry = this.memory.get(key);
+      if (!entry) continue;
+
+      if (entry.expiresAt <= now) {
+        this.memory.delete(key);
+        continue;
+      }
+
+      // Re-insert so the entry counts as recently used
+      this.memory.delete(key);
+      this.memory.set(key, entry);
+      found.set(hash, entry.embedding);
+    }
+
+    const missing = [...new Set(hashes.filter((hash) => !found.has(hash)))];
+    if (!this.persist || missing.length === 0) {
+      return found;
+    }
+
+    try {
+      const { data, error } = await createServiceClient()
+        .from("embedding_cache")
+        .select("content_hash, embedding, created_at")
+        .eq("provider", provider)
+        .in("content_hash", missing)
+        .gte("created_at", new Date(now - this.ttlSeconds * 1000).toISOString());
+
+      if (error) throw error;
+
+      for (const row of (data || []) as Array<{ content_hash: string; embedding: number[]; created_at: string }>) {
+        found.set(row.content_hash, row.embedding);
+        this.remember(provider, row.content_hash, row.embedding, new Date(row.created_at).getTime());
+      }
+    } catch (error) {
+      // The cache is an optimisation; embedding carries on without it
+      console.warn("[EMBEDDINGS] Cache lookup failed:", error);
+    }
+
+    return found;
+  }
+
+  async setMany(provider: string, entries: Array<{ hash: string; embedding: number[] }>): Promise<void> {
+    if (entries.length === 0) return;
+
+    const now = Date.now();
+    for (const { hash, embedding } of entries) {
+      this.remember(provider, hash, embedding, now);
+    }
+
+    if (!this.persist) return;
+
+    try {
+      const supabase = createServiceClient();
+      const createdAt = new Date(now).toISOString();
+
+      const { error } = await supabase.from("embedding_cache").upsert(
+        entries.map(({ hash, embedding }) => ({
+          content_hash: hash,
+          provider,
+          embedding,
+          dimensions: embedding.length,
+          created_at: createdAt,
+        })),
+        { onConflict: "content_hash,provider" }
+      );
+
+      if (error) throw error;
+
+      if (now - this.lastPurge > PURGE_INTERVAL_MS) {
+        this.lastPurge = now;
+        await supabase
+          .from("embedding_cache")
+          .delete()
+          .lt("created_at", new Date(now - this.ttlSeconds * 1000).toISOString());
+      }
+    } catch (error) {
+      console.warn("[EMBEDDINGS] Cache write failed:", error);
+    }
+  }
+
+  private remember(provider: string, hash: string, embedding: number[], createdAt: number) {
+    const key = `${provider}:${hash}`;
+
+    this.memory.delete(key);
+    this.memory.set(key, { embedding, expiresAt: createdAt + this.ttlSeconds * 1000 });
+
+    if (this.memory.size > MEMORY_MAX_ENTRIES) {
+      this.memory.delete(this.memory.keys().next().value!);
+    }
+  }
+}
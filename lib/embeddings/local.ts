@@ -0,0 +1,79 @@
+/**
+ * Local Embeddings
+ * Deterministic hashing vectorizer that needs no network or model download: words, word
+ * pairs and character trigrams are hashed (FNV-1a) into signed buckets, weighted by log
+ * term frequency and L2-normalised. It isn't semantic like a trained model, but texts that
+ * share vocabulary and word forms land close together, which is enough for development and CI.
+ */
+
+export const LOCAL_EMBEDDING_DIMENSIONS = 512;
+
+/** Feature weights: whole words count most, trigrams catch plurals and typos */
+const FEATURE_WEIGHTS = { word: 1, pair: 0.5, trigram: 0.25 };
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "does", "for", "from", "how", "i", "in", "is",
+  "it", "of", "on", "or", "that", "the", "this", "to", "was", "what", "when", "where", "which", "who",
+  "why", "with", "you", "your",
+]);
+
+/**
+ * Lowercase words with accents stripped and stop words removed
+ */
+export function tokenize(text: string): string[] {
+  return (
+    text
+      .normalize("NFKD")
+      .replace(/\p{M}/gu, "")
+      .toLowerCase()
+      .match(/[\p{L}\p{N}]+/gu) || []
+  ).filter((word) => !STOP_WORDS.has(word));
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Embed text into `dimensions` buckets; the same text always gives the same vector
+ */
+export function localEmbedding(text: string, dimensions: number = LOCAL_EMBEDDING_DIMENSIONS): number[] {
+  const words = tokenize(text);
+  const counts = new Map<string, { weight: number; count: number }>();
+
+  const add = (feature: string, weight: number) => {
+    const entry = counts.get(feature);
+    if (entry) entry.count++;
+    else counts.set(feature, { weight, count: 1 });
+  };
+
+  words.forEach((word, index) => {
+    add(`w:${word}`, FEATURE_WEIGHTS.word);
+
+    if (index > 0) {
+      add(`p:${words[index - 1]} ${word}`, FEATURE_WEIGHTS.pair);
+    }
+
+    const padded = `^${word}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      add(`t:${padded.slice(i, i + 3)}`, FEATURE_WEIGHTS.trigram);
+    }
+  });
+
+  const vector = new Array<number>(dimensions).fill(0);
+
+  for (const [feature, { weight, count }] of counts) {
+    const hash = fnv1a(feature);
+    // Signed hashing keeps collisions from only ever adding up
+    const sign = fnv1a(`${feature}#`) & 1 ? 1 : -1;
+    vector[hash % dimensions] += sign * weight * (1 + Math.log(count));
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
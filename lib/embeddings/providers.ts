@@ -1,15 +1,37 @@
 /**
  * Multiple Embedding Providers
- * Supports OpenAI, Cohere, Hugging Face, and local models
+ * Supports OpenAI, Cohere, Hugging Face, Voyage, and an offline local vectorizer
+ * Set EMBEDDING_PROVIDER=local to use only the local vectorizer (development and CI).
  */
 
 import OpenAI from "openai";
+import { estimateTokens } from "@/lib/agents/budget";
+import { knowledgeConfig } from "@/lib/knowledge/config";
+import { EmbeddingCache, hashText } from "./cache";
+import { LOCAL_EMBEDDING_DIMENSIONS, localEmbedding } from "./local";
 
 export interface EmbeddingProvider {
   name: string;
   generateEmbeddings(text: string): Promise<number[]>;
+  /** Embed several texts in one request; embeddings come back in input order */
+  generateEmbeddingsBatch(texts: string[]): Promise<number[][]>;
+  /** Most texts the provider accepts per request */
+  maxBatchSize: number;
   dimensions: number;
   costPer1kTokens: number;
+  /** Runs in-process, so its embeddings aren't worth caching */
+  local?: boolean;
+}
+
+export interface EmbeddingResult {
+  embedding: number[];
+  provider: string;
+  dimensions: number;
+  /** Estimated tokens sent to the provider; 0 when served from the cache */
+  tokens: number;
+  /** tokens priced at the provider's costPer1kTokens */
+  costUsd: number;
+  cached: boolean;
 }
 
 // OpenAI Provider
@@ -17,6 +39,7 @@ class OpenAIProvider implements EmbeddingProvider {
   name = "OpenAI";
   dimensions = 1536;
   costPer1kTokens = 0.00002;
+  maxBatchSize = 2048;
   
   private client: OpenAI;
 
@@ -27,11 +50,16 @@ class OpenAIProvider implements EmbeddingProvider {
   }
 
   async generateEmbeddings(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddingsBatch([text]);
+    return embedding;
+  }
+
+  async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
     const response = await this.client.embeddings.create({
       model: "text-embedding-3-small",
-      input: text,
+      input: texts,
     });
-    return response.data[0].embedding;
+    return [...response.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
   }
 }
 
@@ -40,8 +68,14 @@ class CohereProvider implements EmbeddingProvider {
   name = "Cohere";
   dimensions = 1024;
   costPer1kTokens = 0.0001; // Very affordable
+  maxBatchSize = 96;
   
   async generateEmbeddings(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddingsBatch([text]);
+    return embedding;
+  }
+
+  async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
     const response = await fetch('https://api.cohere.ai/v1/embed', {
       method: 'POST',
       headers: {
@@ -49,7 +83,7 @@ class CohereProvider implements EmbeddingProvider {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        texts: [text],
+        texts,
         model: 'embed-english-light-v3.0', // Free tier
         input_type: 'search_document',
       }),
@@ -60,7 +94,7 @@ class CohereProvider implements EmbeddingProvider {
     }
 
     const data = await response.json();
-    return data.embeddings[0];
+    return data.embeddings;
   }
 }
 
@@ -69,8 +103,14 @@ class HuggingFaceProvider implements EmbeddingProvider {
   name = "HuggingFace";
   dimensions = 384; // sentence-transformers/all-MiniLM-L6-v2
   costPer1kTokens = 0; // Free!
+  maxBatchSize = 32;
   
   async generateEmbeddings(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddingsBatch([text]);
+    return embedding;
+  }
+
+  async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
     const response = await fetch(
       'https://api-inference.huggingface.co/models/sentence-transformers/all-MiniLM-L6-v2',
       {
@@ -80,7 +120,7 @@ class HuggingFaceProvider implements EmbeddingProvider {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          inputs: text,
+          inputs: texts,
           options: { wait_for_model: true }
         }),
       }
@@ -90,8 +130,7 @@ class HuggingFaceProvider implements EmbeddingProvider {
       throw new Error(`HuggingFace API error: ${response.statusText}`);
     }
 
-    const data = await response.json();
-    return data;
+    return response.json();
   }
 }
 
@@ -100,8 +139,14 @@ class VoyageProvider implements EmbeddingProvider {
   name = "Voyage";
   dimensions = 1024;
   costPer1kTokens = 0.00013;
+  maxBatchSize = 128;
   
   async generateEmbeddings(text: string): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddingsBatch([text]);
+    return embedding;
+  }
+
+  async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
     const response = await fetch('https://api.voyageai.com/v1/embeddings', {
       method: 'POST',
       headers: {
@@ -109,7 +154,7 @@ class VoyageProvider implements EmbeddingProvider {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
-        input: [text],
+        input: texts,
         model: 'voyage-lite-02-instruct',
       }),
     });
@@ -119,49 +164,46 @@ class VoyageProvider implements EmbeddingProvider {
     }
 
     const data = await response.json();
-    return data.data[0].embedding;
+    return data.data.map((item: { embedding: number[] }) => item.embedding);
   }
 }
 
-// Simple hash-based embeddings (fallback when all else fails)
-class HashProvider implements EmbeddingProvider {
-  name = "Hash";
-  dimensions = 256;
+// Offline hashing vectorizer (fallback when all else fails, or the only provider in local mode)
+export class LocalProvider implements EmbeddingProvider {
+  name = "Local";
+  dimensions = LOCAL_EMBEDDING_DIMENSIONS;
   costPer1kTokens = 0; // Free!
-  
+  maxBatchSize = 1000;
+  local = true;
+
   async generateEmbeddings(text: string): Promise<number[]> {
-    // Simple hash-based embedding (not semantic, but better than nothing)
-    const words = text.toLowerCase().split(/\s+/);
-    const embedding = new Array(this.dimensions).fill(0);
-    
-    for (let i = 0; i < words.length; i++) {
-      const word = words[i];
-      const hash = this.simpleHash(word);
-      const index = Math.abs(hash) % this.dimensions;
-      embedding[index] += 1 / Math.sqrt(words.length);
-    }
-    
-    // Normalize
-    const norm = Math.sqrt(embedding.reduce((sum, val) => sum + val * val, 0));
-    return embedding.map(val => norm > 0 ? val / norm : 0);
+    return localEmbedding(text, this.dimensions);
   }
-  
-  private simpleHash(str: string): number {
-    let hash = 0;
-    for (let i = 0; i < str.length; i++) {
-      const char = str.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
-    }
-    return hash;
+
+  async generateEmbeddingsBatch(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => localEmbedding(text, this.dimensions));
   }
 }
 
 // Provider factory and failover system
 export class EmbeddingService {
   private providers: EmbeddingProvider[] = [];
+  private cache: EmbeddingCache | null;
   
-  constructor() {
+  constructor(options: { providers?: EmbeddingProvider[]; cache?: EmbeddingCache | null } = {}) {
+    this.cache = options.cache ?? null;
+
+    if (options.providers) {
+      this.providers = options.providers;
+      return;
+    }
+
+    // Offline mode: no API calls, even when keys are set
+    if (process.env.EMBEDDING_PROVIDER === 'local') {
+      this.providers.push(new LocalProvider());
+      return;
+    }
+
     // Add providers in order of preference
     if (process.env.OPENAI_API_KEY) {
       this.providers.push(new OpenAIProvider());
@@ -176,24 +218,97 @@ export class EmbeddingService {
       this.providers.push(new VoyageProvider());
     }
     
-    // Always add hash provider as final fallback
-    this.providers.push(new HashProvider());
+    // Always add the local provider as final fallback
+    this.providers.push(new LocalProvider());
   }
   
-  async generateEmbeddings(text: string): Promise<{ embedding: number[]; provider: string; dimensions: number }> {
+  async generateEmbeddings(text: string): Promise<EmbeddingResult> {
+    const [result] = await this.generateEmbeddingsBatch([text]);
+    return result;
+  }
+
+  /**
+   * Embed many texts, in input order
+   * Cached embeddings from the preferred provider are reused; the rest go to the first provider
+   * that succeeds, in requests of up to its maxBatchSize. Repeated texts are embedded once.
+   */
+  async generateEmbeddingsBatch(texts: string[]): Promise<EmbeddingResult[]> {
+    const results = new Array<EmbeddingResult>(texts.length);
+    const hashes = texts.map(hashText);
+    const preferred = this.providers[0];
+
+    if (this.cache && !preferred.local) {
+      const cached = await this.cache.getMany(preferred.name.toLowerCase(), hashes);
+
+      hashes.forEach((hash, index) => {
+        const embedding = cached.get(hash);
+        if (embedding) {
+          results[index] = {
+            embedding,
+            provider: preferred.name,
+            dimensions: preferred.dimensions,
+            tokens: 0,
+            costUsd: 0,
+            cached: true,
+          };
+        }
+      });
+    }
+
+    // One request slot per distinct uncached text
+    const pending = new Map<string, number[]>();
+    hashes.forEach((hash, index) => {
+      if (!results[index]) pending.set(hash, [...(pending.get(hash) || []), index]);
+    });
+
     const errors: string[] = [];
     
     for (const provider of this.providers) {
+      if (pending.size === 0) break;
+
       try {
-        console.log(`Trying ${provider.name} provider...`);
-        const embedding = await provider.generateEmbeddings(text);
-        
-        console.log(`✅ ${provider.name} succeeded (${provider.dimensions}D, $${provider.costPer1kTokens}/1k tokens)`);
-        return {
-          embedding,
-          provider: provider.name,
-          dimensions: provider.dimensions,
-        };
+        console.log(`Trying ${provider.name} provider for ${pending.size} text(s)...`);
+        const fresh: Array<{ hash: string; embedding: number[] }> = [];
+        let tokens = 0;
+
+        const entries = [...pending.entries()];
+        for (let start = 0; start < entries.length; start += provider.maxBatchSize) {
+          const batch = entries.slice(start, start + provider.maxBatchSize);
+          const embeddings = await provider.generateEmbeddingsBatch(batch.map(([, indexes]) => texts[indexes[0]]));
+
+          if (embeddings.length !== batch.length) {
+            throw new Error(`Expected ${batch.length} embeddings, got ${embeddings.length}`);
+          }
+
+          batch.forEach(([hash, indexes], i) => {
+            const textTokens = estimateTokens(texts[indexes[0]]);
+            tokens += textTokens;
+
+            // Repeats of a text share its embedding and are only charged once
+            indexes.forEach((index, repeat) => {
+              results[index] = {
+                embedding: embeddings[i],
+                provider: provider.name,
+                dimensions: provider.dimensions,
+                tokens: repeat === 0 ? textTokens : 0,
+                costUsd: repeat === 0 ? (textTokens / 1000) * provider.costPer1kTokens : 0,
+                cached: repeat > 0,
+              };
+            });
+
+            fresh.push({ hash, embedding: embeddings[i] });
+            pending.delete(hash);
+          });
+        }
+
+        console.log(
+          `✅ ${provider.name} succeeded (${provider.dimensions}D, ~${tokens} tokens, ` +
+          `$${((tokens / 1000) * provider.costPer1kTokens).toFixed(6)} at $${provider.costPer1kTokens}/1k tokens)`
+        );
+
+        if (this.cache && !provider.local) {
+          await this.cache.setMany(provider.name.toLowerCase(), fresh);
+        }
       } catch (error) {
         const errorMsg = `${provider.name}: ${error instanceof Error ? error.message : String(error)}`;
         errors.push(errorMsg);
@@ -201,14 +316,30 @@ export class EmbeddingService {
         continue;
       }
     }
-    
-    throw new Error(`All embedding providers failed:\n${errors.join('\n')}`);
+
+    if (pending.size > 0) {
+      throw new Error(`All embedding providers failed:\n${errors.join('\n')}`);
+    }
+
+    return results;
   }
   
+  /**
+   * First provider tried, as stored in documents.embedding_model
+   * Chunks embedded by any other provider (a fallback, or a since-removed key) need re-indexing.
+   */
+  getPreferredProvider(): string {
+    return this.providers[0].name.toLowerCase();
+  }
+
   getAvailableProviders(): string[] {
     return this.providers.map(p => `${p.name} (${p.dimensions}D, $${p.costPer1kTokens}/1k)`);
   }
 }
 
 // Export singleton instance
-export const embeddingService = new EmbeddingService();
\ No newline at end of file
+export const embeddingService = new EmbeddingService({
+  cache: knowledgeConfig.performance.enableEmbeddingCache
+    ? new EmbeddingCache(knowledgeConfig.performance.cacheTTL)
+    : null,
+});
\ No newline at end of file
@@ -0,0 +1,629 @@
+/**
+ * Agent Eval Actions
+ * Server actions for golden test suites and for scoring an agent config version against them
+ * Runs execute in dry-run mode with each case's recorded fixtures; only the answering
+ * model is called for real, and each case counts as a message against the plan
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createServerClient } from "@/lib/supabase/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import { authorize } from "@/lib/team/permissions";
+import { recordAuditEvent } from "@/lib/audit/log";
+import { getTenantPlanId, getUsageLimitError, reserveUsage } from "@/lib/billing/ledger";
+import { canUseModel } from "@/lib/billing/plans";
+import { resolveModel } from "@/lib/agents/models";
+import type { AgentToolCall } from "@/lib/agents/run";
+import type { IntegrationFixtures } from "./fixtures";
+import type { EvalCaseSpec, EvalCheck } from "./graders";
+import { runEvalSuite } from "./runner";
+
+/** Synchronous runs are capped so a suite finishes within a request */
+const MAX_CASES_PER_RUN = 25;
+
+/** Judge for rubric checks */
+const JUDGE_MODEL = process.env.EVAL_JUDGE_MODEL || "gemini-2.0-flash";
+
+export interface EvalCase {
+  id: string;
+  suite_id: string;
+  name: string;
+  input: string;
+  expected_facts: string[];
+  forbidden_phrases: string[];
+  required_tools: string[];
+  rubric: string | null;
+  fixtures: IntegrationFixtures;
+  created_at: string;
+}
+
+export interface EvalSuite {
+  id: string;
+  agent_id: string;
+  name: string;
+  description: string | null;
+  created_at: string;
+  cases: EvalCase[];
+}
+
+export interface EvalRun {
+  id: string;
+  suite_id: string;
+  config_version: number;
+  status: "running" | "completed" | "failed";
+  case_count: number;
+  passed_count: number;
+  score: number | null;
+  cost_usd: number | null;
+  error: string | null;
+  started_at: string;
+  completed_at: string | null;
+}
+
+export interface EvalResult {
+  id: string;
+  run_id: string;
+  case_id: string | null;
+  case_name: string;
+  input: string;
+  output: string | null;
+  tool_calls: AgentToolCall[];
+  checks: EvalCheck[];
+  score: number;
+  passed: boolean;
+  error: string | null;
+  model: string | null;
+  duration_ms: number | null;
+}
+
+export interface EvalCaseData {
+  name: string;
+  input: string;
+  expectedFacts: string[];
+  forbiddenPhrases: string[];
+  requiredTools: string[];
+  rubric?: string | null;
+  fixtures?: IntegrationFixtures;
+}
+
+/**
+ * Validate case fields, returning an error message when something is wrong
+ */
+function validateEvalCase(data: EvalCaseData): string | null {
+  if (!data.name?.trim()) return "Case name is required";
+  if (!data.input?.trim()) return "Case input is required";
+
+  const fixtures = data.fixtures ?? {};
+  const isObject = (value: unknown) => typeof value === "object" && value !== null && !Array.isArray(value);
+  if (!isObject(fixtures) || !Object.values(fixtures).every(isObject)) {
+    return 'Fixtures must map each provider to its recorded actions, e.g. { "stripe": { "getRevenue": { ... } } }';
+  }
+
+  return null;
+}
+
+function cleanList(values: string[] | undefined): string[] {
+  return (values || []).map((value) => value.trim()).filter(Boolean);
+}
+
+function toCaseSpec(row: EvalCase): EvalCaseSpec {
+  return {
+    id: row.id,
+    name: row.name,
+    input: row.input,
+    expectedFacts: row.expected_facts || [],
+    forbiddenPhrases: row.forbidden_phrases || [],
+    requiredTools: row.required_tools || [],
+    rubric: row.rubric,
+    fixtures: row.fixtures || {},
+  };
+}
+
+/**
+ * Suites for an agent with their cases
+ */
+export async function getEvalSuites(agentId: string) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  try {
+    // RLS limits suites to the user's tenant
+    const { data, error } = await supabase
+      .from("eval_suites")
+      .select("id, agent_id, name, description, created_at, cases:eval_cases(*)")
+      .eq("agent_id", agentId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching eval suites:", error);
+      return { error: "Failed to fetch eval suites" };
+    }
+
+    const suites = (data || []).map((suite: any) => ({
+      ...suite,
+      cases: [...(suite.cases || [])].sort((a, b) => a.created_at.localeCompare(b.created_at)),
+    }));
+
+    return { suites: suites as EvalSuite[] };
+  } catch (error) {
+    console.error("Error fetching eval suites:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Runs of an agent's suites, newest first
+ */
+export async function getEvalRuns(agentId: string) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("eval_runs")
+      .select("id, suite_id, config_version, status, case_count, passed_count, score, cost_usd, error, started_at, completed_at")
+      .eq("agent_id", agentId)
+      .order("started_at", { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error("Error fetching eval runs:", error);
+      return { error: "Failed to fetch eval runs" };
+    }
+
+    return { runs: (data || []) as EvalRun[] };
+  } catch (error) {
+    console.error("Error fetching eval runs:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Scored cases of one run
+ */
+export async function getEvalResults(runId: string) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from("eval_results")
+      .select("id, run_id, case_id, case_name, input, output, tool_calls, checks, score, passed, error, model, duration_ms")
+      .eq("run_id", runId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching eval results:", error);
+      return { error: "Failed to fetch eval results" };
+    }
+
+    return { results: (data || []) as EvalResult[] };
+  } catch (error) {
+    console.error("Error fetching eval results:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Create an empty suite for an agent
+ */
+export async function createEvalSuite(agentId: string, data: { name: string; description?: string }) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  const access = await authorize(supabase, user.id, "agents:manage");
+
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
+  }
+
+  if (!data.name?.trim()) {
+    return { error: "Suite name is required" };
+  }
+
+  try {
+    const { data: agent } = await supabase
+      .from("agents")
+      .select("id")
+      .eq("id", agentId)
+      .eq("tenant_id", access.tenantId)
+      .single();
+
+    if (!agent) {
+      return { error: "Agent not found" };
+    }
+
+    const { data: suite, error } = await supabase
+      .from("eval_suites")
+      .insert({
+        tenant_id: access.tenantId,
+        agent_id: agentId,
+        name: data.name.trim(),
+        description: data.description?.trim() || null,
+        created_by: user.id,
+      })
+      .select("id, name")
+      .single();
+
+    if (error || !suite) {
+      console.error("Eval suite creation error:", error);
+      return { error: "Failed to create suite" };
+    }
+
+    await recordAuditEvent({
+      tenantId: access.tenantId,
+      actor: user,
+      action: "eval_suite.created",
+      target: { type: "eval_suite", id: suite.id, name: suite.name },
+      metadata: { agent_id: agentId },
+    });
+
+    revalidatePath(`/agents/${agentId}/evals`);
+    return { success: true, suiteId: suite.id as string };
+  } catch (error) {
+    console.error("Eval suite creation error:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Delete a suite with its cases and runs
+ */
+export async function deleteEvalSuite(suiteId: string) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  const access = await authorize(supabase, user.id, "agents:manage");
+
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
+  }
+
+  try {
+    const { data: suite, error } = await supabase
+      .from("eval_suites")
+      .delete()
+      .eq("id", suiteId)
+      .eq("tenant_id", access.tenantId)
+      .select("id, name, agent_id")
+      .single();
+
+    if (error || !suite) {
+      console.error("Eval suite deletion error:", error);
+      return { error: "Failed to delete suite" };
+    }
+
+    await recordAuditEvent({
+      tenantId: access.tenantId,
+      actor: user,
+      action: "eval_suite.deleted",
+      target: { type: "eval_suite", id: suite.id, name: suite.name },
+      metadata: { agent_id: suite.agent_id },
+    });
+
+    revalidatePath(`/agents/${suite.agent_id}/evals`);
+    return { success: true };
+  } catch (error) {
+    console.error("Eval suite deletion error:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Add a case to a suite, or update it when caseId is given
+ */
+export async function saveEvalCase(suiteId: string, data: EvalCaseData, caseId?: string) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  const access = await authorize(supabase, user.id, "agents:manage");
+
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
+  }
+
+  const validationError = validateEvalCase(data);
+  if (validationError) return { error: validationError };
+
+  try {
+    const { data: suite } = await supabase
+      .from("eval_suites")
+      .select("id, agent_id")
+      .eq("id", suiteId)
+      .eq("tenant_id", access.tenantId)
+      .single();
+
+    if (!suite) {
+      return { error: "Suite not found" };
+    }
+
+    const fields = {
+      name: data.name.trim(),
+      input: data.input.trim(),
+      expected_facts: cleanList(data.expectedFacts),
+      forbidden_phrases: cleanList(data.forbiddenPhrases),
+      required_tools: cleanList(data.requiredTools),
+      rubric: data.rubric?.trim() || null,
+      fixtures: data.fixtures ?? {},
+      updated_at: new Date().toISOString(),
+    };
+
+    const { data: saved, error } = caseId
+      ? await supabase
+          .from("eval_cases")
+          .update(fields)
+          .eq("id", caseId)
+          .eq("suite_id", suiteId)
+          .select("id")
+          .single()
+      : await supabase
+          .from("eval_cases")
+          .insert({ ...fields, suite_id: suiteId, tenant_id: access.tenantId })
+          .select("id")
+          .single();
+
+    if (error || !saved) {
+      console.error("Eval case save error:", error);
+      return { error: "Failed to save case" };
+    }
+
+    revalidatePath(`/agents/${suite.agent_id}/evals`);
+    return { success: true, caseId: saved.id as string };
+  } catch (error) {
+    console.error("Eval case save error:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Remove a case; results of earlier runs keep their copy of it
+ */
+export async function deleteEvalCase(caseId: string) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  const access = await authorize(supabase, user.id, "agents:manage");
+
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
+  }
+
+  try {
+    const { error } = await supabase
+      .from("eval_cases")
+      .delete()
+      .eq("id", caseId)
+      .eq("tenant_id", access.tenantId);
+
+    if (error) {
+      console.error("Eval case deletion error:", error);
+      return { error: "Failed to delete case" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("Eval case deletion error:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Score one config version of the agent against a suite and store the run
+ */
+export async function evaluateAgentVersion(suiteId: string, configVersion: number) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  const access = await authorize(supabase, user.id, "agents:manage");
+
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
+  }
+
+  const tenantId = access.tenantId;
+  const service = createServiceClient();
+  let runId: string | null = null;
+
+  try {
+    const { data: suite } = await supabase
+      .from("eval_suites")
+      .select("id, agent_id, cases:eval_cases(*)")
+      .eq("id", suiteId)
+      .eq("tenant_id", tenantId)
+      .single();
+
+    if (!suite) {
+      return { error: "Suite not found" };
+    }
+
+    const cases = ((suite.cases || []) as EvalCase[]).sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+    if (cases.length === 0) {
+      return { error: "Add at least one case before running the suite" };
+    }
+    if (cases.length > MAX_CASES_PER_RUN) {
+      return { error: `A suite can run at most ${MAX_CASES_PER_RUN} cases at a time` };
+    }
+
+    const { data: agent } = await supabase
+      .from("agents")
+      .select("*, tenants!inner(name, slug)")
+      .eq("id", suite.agent_id)
+      .eq("tenant_id", tenantId)
+      .single();
+
+    const { data: version } = await supabase
+      .from("agent_config_versions")
+      .select("version, config")
+      .eq("agent_id", suite.agent_id)
+      .eq("version", configVersion)
+      .single();
+
+    if (!agent || !version) {
+      return { error: "Agent version not found" };
+    }
+
+    const model = version.config?.model || "gemini-2.0-flash";
+    const planId = await getTenantPlanId(tenantId);
+    if (!canUseModel(planId, model)) {
+      return { error: `Version ${configVersion} uses ${model}, which is not available on your ${planId} plan` };
+    }
+
+    const usage = await reserveUsage(tenantId, "messages", {
+      quantity: cases.length,
+      agentId: agent.id,
+      source: "eval",
+    });
+
+    if (!usage.allowed) {
+      return { error: getUsageLimitError(usage, "Message", "run this suite") };
+    }
+
+    const { data: run, error: runError } = await service
+      .from("eval_runs")
+      .insert({
+        suite_id: suiteId,
+        tenant_id: tenantId,
+        agent_id: agent.id,
+        config_version: configVersion,
+        case_count: cases.length,
+        created_by: user.id,
+      })
+      .select("id")
+      .single();
+
+    if (runError || !run) {
+      console.error("[EVALS] Failed to create run:", runError);
+      return { error: "Failed to start run" };
+    }
+    runId = run.id as string;
+
+    const summary = await runEvalSuite(
+      { ...agent, config: version.config, config_version: version.version },
+      cases.map(toCaseSpec),
+      { judgeModel: resolveModel(JUDGE_MODEL)?.model }
+    );
+
+    const { error: resultsError } = await service.from("eval_results").insert(
+      summary.results.map((result) => ({
+        run_id: runId,
+        tenant_id: tenantId,
+        case_id: result.caseId ?? null,
+        case_name: result.caseName,
+        input: result.input,
+        output: result.output,
+        tool_calls: result.toolCalls,
+        checks: result.checks,
+        score: result.score,
+        passed: result.passed,
+        error: result.error,
+        model: result.model ?? null,
+        duration_ms: result.durationMs ?? null,
+        input_tokens: result.inputTokens ?? null,
+        output_tokens: result.outputTokens ?? null,
+        cost_usd: result.costUsd ?? null,
+      }))
+    );
+
+    if (resultsError) {
+      throw new Error(`Failed to save results: ${resultsError.message}`);
+    }
+
+    await service
+      .from("eval_runs")
+      .update({
+        status: "completed",
+        passed_count: summary.passedCount,
+        score: summary.score,
+        cost_usd: summary.costUsd,
+        completed_at: new Date().toISOString(),
+      })
+      .eq("id", runId);
+
+    console.log(`[EVALS] Suite ${suiteId} v${configVersion}: ${summary.passedCount}/${summary.caseCount} passed`);
+
+    revalidatePath(`/agents/${agent.id}/evals`);
+    return { success: true, runId, score: summary.score, passedCount: summary.passedCount, caseCount: summary.caseCount };
+  } catch (error) {
+    console.error("[EVALS] Run failed:", error);
+
+    if (runId) {
+      await service
+        .from("eval_runs")
+        .update({
+          status: "failed",
+          error: (error as Error)?.message || "Unknown error",
+          completed_at: new Date().toISOString(),
+        })
+        .eq("id", runId);
+    }
+
+    return { error: "An unexpected error occurred" };
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Eval Run Comparison
+ * Lines up two runs of a suite case by case, e.g. two config versions
+ */
+
+export interface ComparableResult {
+  case_id: string | null;
+  case_name: string;
+  score: number;
+  passed: boolean;
+}
+
+export interface EvalComparisonRow<T extends ComparableResult = ComparableResult> {
+  caseName: string;
+  before: T | null;
+  after: T | null;
+  change: "improved" | "regressed" | "unchanged" | "added" | "removed";
+}
+
+function caseKey(result: ComparableResult): string {
+  return result.case_id ?? `name:${result.case_name}`;
+}
+
+/**
+ * Pair results by case (by name when the case has since been deleted)
+ * Rows follow the order of the newer run, then cases only the older run had
+ */
+export function compareEvalResults<T extends ComparableResult>(before: T[], after: T[]): EvalComparisonRow<T>[] {
+  const previous = new Map(before.map((result) => [caseKey(result), result]));
+  const rows: EvalComparisonRow<T>[] = [];
+
+  for (const result of after) {
+    const earlier = previous.get(caseKey(result)) ?? null;
+    previous.delete(caseKey(result));
+
+    let change: EvalComparisonRow["change"] = "added";
+    if (earlier) {
+      // Pass/fail flips outrank score movement
+      const delta = result.passed !== earlier.passed
+        ? (result.passed ? 1 : -1)
+        : Number(result.score) - Number(earlier.score);
+
+      if (Math.abs(delta) < 0.001) change = "unchanged";
+      else change = delta > 0 ? "improved" : "regressed";
+    }
+
+    rows.push({ caseName: result.case_name, before: earlier, after: result, change });
+  }
+
+  for (const earlier of previous.values()) {
+    rows.push({ caseName: earlier.case_name, before: earlier, after: null, change: "removed" });
+  }
+
+  return rows;
+}
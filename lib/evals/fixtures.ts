@@ -0,0 +1,47 @@
+/**
+ * Eval Fixtures
+ * Stand-in integrations that answer tool calls from recorded responses
+ * Passed to executeAgentDryRun in place of the tenant's connected integrations
+ */
+
+/**
+ * Recorded responses by provider and action
+ * e.g. { stripe: { getRevenue: { total: 1200, currency: "usd" } } }
+ */
+export type IntegrationFixtures = Record<string, Record<string, unknown>>;
+
+export interface FixtureCall {
+  provider: string;
+  action: string;
+  params: unknown;
+}
+
+/**
+ * Build an integration map from fixtures
+ * Only providers present in the fixtures count as connected. Calls are recorded
+ * in order; an action without a recorded response fails like a real integration error.
+ */
+export function createFixtureIntegrationMap(fixtures: IntegrationFixtures = {}): {
+  integrationMap: Map<string, any>;
+  calls: FixtureCall[];
+} {
+  const integrationMap = new Map<string, any>();
+  const calls: FixtureCall[] = [];
+
+  for (const [provider, responses] of Object.entries(fixtures)) {
+    integrationMap.set(provider, {
+      executeAction: async (action: string, params: unknown) => {
+        calls.push({ provider, action, params });
+
+        if (!Object.prototype.hasOwnProperty.call(responses, action)) {
+          throw new Error(`No recorded response for ${provider}.${action}`);
+        }
+
+        // Copy so a tool can't change the fixture for later cases
+        return structuredClone(responses[action]);
+      },
+    });
+  }
+
+  return { integrationMap, calls };
+}
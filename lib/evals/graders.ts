@@ -0,0 +1,203 @@
+/**
+ * Eval Graders
+ * Rule-based checks on an agent's answer and tool calls, plus a model-graded rubric check
+ */
+
+import { generateText, type LanguageModel } from "ai";
+import type { IntegrationFixtures } from "./fixtures";
+
+/**
+ * One golden test case, as stored in eval_cases
+ */
+export interface EvalCaseSpec {
+  id?: string;
+  name: string;
+  /** Message sent to the agent */
+  input: string;
+  /** Must appear in the answer (case-insensitive) */
+  expectedFacts: string[];
+  /** Must not appear in the answer (case-insensitive) */
+  forbiddenPhrases: string[];
+  /** Tools the agent must call */
+  requiredTools: string[];
+  /** What a good answer looks like; graded by a judge model when set */
+  rubric?: string | null;
+  fixtures?: IntegrationFixtures;
+}
+
+export interface EvalCheck {
+  name: string;
+  kind: "rule" | "model";
+  passed: boolean;
+  /** 0-1 */
+  score: number;
+  detail: string;
+}
+
+/** Lowest judge score that counts as a pass */
+export const JUDGE_PASS_SCORE = 0.7;
+
+/**
+ * Lowercase, collapse whitespace and drop thousands separators so "$1,200" matches "$1200"
+ */
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/(\d),(?=\d{3}\b)/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Share of expected facts found in the answer
+ */
+export function checkExpectedFacts(answer: string, facts: string[]): EvalCheck | null {
+  const expected = facts.filter((fact) => fact.trim());
+  if (expected.length === 0) return null;
+
+  const text = normalize(answer);
+  const missing = expected.filter((fact) => !text.includes(normalize(fact)));
+
+  return {
+    name: "Expected facts",
+    kind: "rule",
+    passed: missing.length === 0,
+    score: (expected.length - missing.length) / expected.length,
+    detail:
+      missing.length === 0
+        ? `All ${expected.length} facts found`
+        : `Missing: ${missing.join(", ")}`,
+  };
+}
+
+/**
+ * Fails if any forbidden phrase appears in the answer
+ */
+export function checkForbiddenPhrases(answer: string, phrases: string[]): EvalCheck | null {
+  const forbidden = phrases.filter((phrase) => phrase.trim());
+  if (forbidden.length === 0) return null;
+
+  const text = normalize(answer);
+  const found = forbidden.filter((phrase) => text.includes(normalize(phrase)));
+
+  return {
+    name: "Forbidden phrases",
+    kind: "rule",
+    passed: found.length === 0,
+    score: found.length === 0 ? 1 : 0,
+    detail: found.length === 0 ? "None used" : `Used: ${found.join(", ")}`,
+  };
+}
+
+/**
+ * Share of required tools the agent called
+ */
+export function checkRequiredTools(calledTools: string[], required: string[]): EvalCheck | null {
+  const tools = required.filter((name) => name.trim());
+  if (tools.length === 0) return null;
+
+  const called = new Set(calledTools);
+  const missing = tools.filter((name) => !called.has(name));
+
+  return {
+    name: "Required tools",
+    kind: "rule",
+    passed: missing.length === 0,
+    score: (tools.length - missing.length) / tools.length,
+    detail: missing.length === 0 ? `Called ${tools.join(", ")}` : `Not called: ${missing.join(", ")}`,
+  };
+}
+
+/**
+ * Read the judge's {"score", "reason"} reply, tolerating prose or code fences around it
+ */
+export function parseJudgeVerdict(text: string): { score: number; reason: string } | null {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+
+  try {
+    const verdict = JSON.parse(match[0]);
+    const score = Number(verdict.score);
+    if (!Number.isFinite(score)) return null;
+
+    return {
+      score: Math.min(1, Math.max(0, score)),
+      reason: typeof verdict.reason === "string" ? verdict.reason : "",
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Ask a judge model to score the answer against the case's rubric
+ * A judge failure fails the check rather than the run
+ */
+export async function gradeWithRubric(
+  judge: LanguageModel,
+  evalCase: { input: string; rubric: string },
+  answer: string
+): Promise<EvalCheck> {
+  const check = { name: "Rubric", kind: "model" as const };
+
+  try {
+    const { text } = await generateText({
+      model: judge,
+      temperature: 0,
+      system:
+        "You grade answers from a business AI assistant against a rubric. " +
+        'Reply with JSON only: {"score": <number from 0 to 1>, "reason": "<one sentence>"}.',
+      prompt: `RUBRIC:\n${evalCase.rubric}\n\nQUESTION:\n${evalCase.input}\n\nANSWER:\n${answer}`,
+    });
+
+    const verdict = parseJudgeVerdict(text);
+    if (!verdict) {
+      return { ...check, passed: false, score: 0, detail: "Judge reply could not be read" };
+    }
+
+    return {
+      ...check,
+      passed: verdict.score >= JUDGE_PASS_SCORE,
+      score: verdict.score,
+      detail: verdict.reason,
+    };
+  } catch (error) {
+    console.error("[EVALS] Judge model failed:", error);
+    return { ...check, passed: false, score: 0, detail: `Judge failed: ${(error as Error)?.message || "Unknown error"}` };
+  }
+}
+
+/**
+ * Run every check the case defines against an answer
+ */
+export async function gradeAnswer(
+  evalCase: EvalCaseSpec,
+  answer: string,
+  calledTools: string[],
+  judge?: LanguageModel
+): Promise<EvalCheck[]> {
+  const checks = [
+    checkExpectedFacts(answer, evalCase.expectedFacts),
+    checkForbiddenPhrases(answer, evalCase.forbiddenPhrases),
+    checkRequiredTools(calledTools, evalCase.requiredTools),
+  ].filter((check): check is EvalCheck => check !== null);
+
+  if (evalCase.rubric?.trim() && judge) {
+    checks.push(await gradeWithRubric(judge, { input: evalCase.input, rubric: evalCase.rubric }, answer));
+  }
+
+  return checks;
+}
+
+/**
+ * Mean check score; a case passes only when every check passes
+ * A case without checks passes as long as the agent answered
+ */
+export function scoreChecks(checks: EvalCheck[]): { score: number; passed: boolean } {
+  if (checks.length === 0) return { score: 1, passed: true };
+
+  return {
+    score: checks.reduce((sum, check) => sum + check.score, 0) / checks.length,
+    passed: checks.every((check) => check.passed),
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Eval Runner
+ * Runs golden test cases through executeAgentDryRun and grades the answers
+ * Has no database access of its own, so suites can run from vitest with a stubbed model
+ */
+
+import type { LanguageModel } from "ai";
+import { executeAgentDryRun, type AgentToolCall } from "@/lib/agents/run";
+import { createFixtureIntegrationMap } from "./fixtures";
+import { gradeAnswer, scoreChecks, type EvalCaseSpec, type EvalCheck } from "./graders";
+
+export interface EvalRunOptions {
+  /** Model the agent answers with instead of its configured chain (e.g. a stub in tests) */
+  model?: LanguageModel;
+  /** Grades rubric checks; rubric checks are skipped without one */
+  judgeModel?: LanguageModel;
+}
+
+export interface EvalCaseResult {
+  caseId?: string;
+  caseName: string;
+  input: string;
+  output: string | null;
+  toolCalls: AgentToolCall[];
+  checks: EvalCheck[];
+  score: number;
+  passed: boolean;
+  error: string | null;
+  model?: string;
+  durationMs?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  costUsd?: number;
+}
+
+export interface EvalRunSummary {
+  results: EvalCaseResult[];
+  caseCount: number;
+  passedCount: number;
+  /** Mean case score, 0-1 */
+  score: number;
+  costUsd: number;
+}
+
+/**
+ * Run one case against an agent row (whose config may be an earlier version)
+ * Agent errors are recorded on the result with a score of 0 instead of thrown
+ */
+export async function runEvalCase(
+  agent: any,
+  evalCase: EvalCaseSpec,
+  options: EvalRunOptions = {}
+): Promise<EvalCaseResult> {
+  const { integrationMap } = createFixtureIntegrationMap(evalCase.fixtures);
+  const base = { caseId: evalCase.id, caseName: evalCase.name, input: evalCase.input };
+
+  try {
+    const output = await executeAgentDryRun(
+      agent.id,
+      { type: "chat", message: evalCase.input },
+      { agent, integrationMap, model: options.model }
+    );
+
+    const toolCalls = output.toolCalls || [];
+    const checks = await gradeAnswer(
+      evalCase,
+      output.message,
+      toolCalls.map((call) => call.toolName),
+      options.judgeModel
+    );
+
+    return {
+      ...base,
+      output: output.message,
+      toolCalls,
+      checks,
+      ...scoreChecks(checks),
+      error: null,
+      model: output.metadata?.model,
+      durationMs: output.metadata?.durationMs,
+      inputTokens: output.metadata?.inputTokens,
+      outputTokens: output.metadata?.outputTokens,
+      costUsd: output.metadata?.costUsd,
+    };
+  } catch (error) {
+    return {
+      ...base,
+      output: null,
+      toolCalls: [],
+      checks: [],
+      score: 0,
+      passed: false,
+      error: (error as Error)?.message || "Unknown error",
+    };
+  }
+}
+
+/**
+ * Run every case in order and summarize
+ */
+export async function runEvalSuite(
+  agent: any,
+  cases: EvalCaseSpec[],
+  options: EvalRunOptions = {}
+): Promise<EvalRunSummary> {
+  const results: EvalCaseResult[] = [];
+
+  // One at a time so a suite doesn't trip provider rate limits
+  for (const evalCase of cases) {
+    results.push(await runEvalCase(agent, evalCase, options));
+  }
+
+  return {
+    results,
+    caseCount: results.length,
+    passedCount: results.filter((result) => result.passed).length,
+    score: results.length > 0 ? results.reduce((sum, result) => sum + result.score, 0) / results.length : 0,
+    costUsd: results.reduce((sum, result) => sum + (result.costUsd ?? 0), 0),
+  };
+}
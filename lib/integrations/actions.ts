@@ -8,6 +8,10 @@
 import { revalidatePath } from "next/cache";
 import { createServerClient } from "@/lib/supabase/server";
 import type { IntegrationCredentials } from "./base";
+import { safeDecryptCredentials } from "./encryption";
+import { applyWebhookSecretRotation } from "./webhook";
+import { authorize } from "@/lib/team/permissions";
+import { recordAuditEvent } from "@/lib/audit/log";
 
 /**
  * Create a new integration
@@ -30,22 +34,18 @@ export async function createIntegration(data: {
     return { error: "Unauthorized" };
   }
 
-  // Get user's tenant_id
-  const { data: profile } = await supabase
-    .from("profiles")
-    .select("tenant_id")
-    .eq("id", user.id)
-    .single();
+  // Get user's tenant_id and check their role
+  const access = await authorize(supabase, user.id, "integrations:manage");
 
-  if (!profile?.tenant_id) {
-    return { error: "User profile not found" };
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
   }
 
   try {
     const { data: integration, error } = await supabase
       .from("integrations")
       .insert({
-        tenant_id: profile.tenant_id,
+        tenant_id: access.tenantId,
         provider: data.provider,
         type: data.type,
         credentials: data.credentials,
@@ -61,6 +61,15 @@ export async function createIntegration(data: {
       return { error: "Failed to create integration" };
     }
 
+    await recordAuditEvent({
+      tenantId: access.tenantId,
+      actor: user,
+      action: "integration.connected",
+      target: { type: "integration", id: integration.id, name: data.provider },
+      before: null,
+      after: { provider: data.provider, type: data.type, credentials: data.credentials, config: data.config || {}, webhook_url: data.webhook_url },
+    });
+
     revalidatePath("/integrations");
     return { success: true, integration };
   } catch (error) {
@@ -183,15 +192,11 @@ export async function updateIntegration(
     return { error: "Unauthorized" };
   }
 
-  // Get user's tenant_id
-  const { data: profile } = await supabase
-    .from("profiles")
-    .select("tenant_id")
-    .eq("id", user.id)
-    .single();
+  // Get user's tenant_id and check their role
+  const access = await authorize(supabase, user.id, "integrations:manage");
 
-  if (!profile?.tenant_id) {
-    return { error: "User profile not found" };
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
   }
 
   try {
@@ -199,8 +204,25 @@ export async function updateIntegration(
       updated_at: new Date().toISOString(),
     };
 
-    if (data.credentials !== undefined)
+    // Current state, for webhook secret rotation and the audit diff
+    const { data: existing } = await supabase
+      .from("integrations")
+      .select("provider, credentials, config, status, webhook_url")
+      .eq("id", id)
+      .eq("tenant_id", access.tenantId)
+      .single();
+
+    if (data.credentials !== undefined) {
       updateData.credentials = data.credentials;
+
+      // Keep signing with the old webhook secret for a grace period after it changes
+      if (existing?.provider === "webhook") {
+        updateData.credentials = applyWebhookSecretRotation(
+          safeDecryptCredentials(existing.credentials) || {},
+          data.credentials || {}
+        );
+      }
+    }
     if (data.config !== undefined) updateData.config = data.config;
     if (data.status !== undefined) updateData.status = data.status;
     if (data.webhook_url !== undefined)
@@ -210,7 +232,7 @@ export async function updateIntegration(
       .from("integrations")
       .update(updateData)
       .eq("id", id)
-      .eq("tenant_id", profile.tenant_id)
+      .eq("tenant_id", access.tenantId)
       .select()
       .single();
 
@@ -219,6 +241,15 @@ export async function updateIntegration(
       return { error: "Failed to update integration" };
     }
 
+    await recordAuditEvent({
+      tenantId: access.tenantId,
+      actor: user,
+      action: "integration.updated",
+      target: { type: "integration", id, name: existing?.provider },
+      before: existing,
+      after: updateData,
+    });
+
     revalidatePath("/integrations");
     return { success: true, integration };
   } catch (error) {
@@ -242,29 +273,41 @@ export async function deleteIntegration(id: string) {
     return { error: "Unauthorized" };
   }
 
-  // Get user's tenant_id
-  const { data: profile } = await supabase
-    .from("profiles")
-    .select("tenant_id")
-    .eq("id", user.id)
-    .single();
+  // Get user's tenant_id and check their role
+  const access = await authorize(supabase, user.id, "integrations:manage");
 
-  if (!profile?.tenant_id) {
-    return { error: "User profile not found" };
+  if (access.error || !access.tenantId) {
+    return { error: access.error };
   }
 
   try {
+    const { data: integration } = await supabase
+      .from("integrations")
+      .select("provider, type, config, status, webhook_url")
+      .eq("id", id)
+      .eq("tenant_id", access.tenantId)
+      .single();
+
     const { error } = await supabase
       .from("integrations")
       .delete()
       .eq("id", id)
-      .eq("tenant_id", profile.tenant_id);
+      .eq("tenant_id", access.tenantId);
 
     if (error) {
       console.error("Integration deletion error:", error);
       return { error: "Failed to delete integration" };
     }
 
+    await recordAuditEvent({
+      tenantId: access.tenantId,
+      actor: user,
+      action: "integration.disconnected",
+      target: { type: "integration", id, name: integration?.provider },
+      before: integration,
+      after: null,
+    });
+
     revalidatePath("/integrations");
     return { success: true };
   } catch (error) {
@@ -486,6 +529,32 @@ export async function getAvailableProviders() {
         "Content retrieval",
       ],
     },
+    {
+      id: "discord",
+      name: "Discord",
+      description: "Post agent updates and alerts to Discord channels",
+      type: "communication",
+      icon: "🎮",
+      features: [
+        "Channel messages",
+        "Default channel",
+        "Interaction webhooks",
+        "Bot token auth",
+      ],
+    },
+    {
+      id: "github",
+      name: "GitHub",
+      description: "Open and update issues and review pull requests",
+      type: "development",
+      icon: "🐙",
+      features: [
+        "Issue creation",
+        "Issue updates",
+        "Pull request listing",
+        "Signed webhooks",
+      ],
+    },
     {
       id: "webhook",
       name: "Webhook",
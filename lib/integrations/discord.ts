@@ -3,12 +3,37 @@
  * Handles Discord bot and server management
  */
 
+import crypto from "crypto";
 import { BaseIntegration, type IntegrationConfigSchema } from "./base";
+import { createServiceClient } from "@/lib/supabase/service";
+
+/** Interaction response flag that shows a message only to the user who ran the command */
+export const DISCORD_EPHEMERAL_FLAG = 64;
+
+/** Discord rejects message content longer than this */
+const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * Text of a slash command: its option values, or the command name when it has none
+ */
+export function interactionText(interaction: any): string {
+  const values: string[] = [];
+  const collect = (options: any[] = []) => {
+    for (const option of options) {
+      if (option.value !== undefined) values.push(String(option.value));
+      collect(option.options);
+    }
+  };
+  collect(interaction.data?.options);
+
+  return values.join(" ").trim() || `/${interaction.data?.name || ""}`;
+}
 
 interface DiscordCredentials {
   bot_token: string;
   application_id: string;
   public_key: string;
+  default_channel_id?: string;
 }
 
 export class DiscordIntegration extends BaseIntegration {
@@ -29,8 +54,8 @@ export class DiscordIntegration extends BaseIntegration {
   }
 
   protected getCredentials(): DiscordCredentials {
-    // In a real implementation, this would fetch from secure storage
-    return {} as DiscordCredentials;
+    // Credentials are decrypted by the registry before the instance is created
+    return super.getCredentials() as DiscordCredentials;
   }
 
   /**
@@ -100,7 +125,10 @@ export class DiscordIntegration extends BaseIntegration {
 
     switch (action) {
       case "send_message":
-        return this.sendMessage(params);
+        return this.sendMessage({
+          ...params,
+          channel_id: params.channel_id || credentials.default_channel_id,
+        });
 
       case "create_channel":
         return this.createChannel(params);
@@ -120,10 +148,14 @@ export class DiscordIntegration extends BaseIntegration {
    * Send message to channel
    */
   private async sendMessage(messageData: {
-    channel_id: string;
+    channel_id?: string;
     content: string;
     embeds?: any[];
   }): Promise<any> {
+    if (!messageData.channel_id) {
+      throw new Error("Discord channel ID is required (no default channel configured)");
+    }
+
     const response = await fetch(
       `https://discord.com/api/v10/channels/${messageData.channel_id}/messages`,
       {
@@ -206,12 +238,116 @@ export class DiscordIntegration extends BaseIntegration {
     return await response.json();
   }
 
+  /**
+   * Verify a Discord interaction request signature (Ed25519)
+   */
+  verifySignature(body: string, signature: string, timestamp: string): boolean {
+    const credentials = this.getCredentials();
+
+    if (!credentials.public_key) {
+      return false;
+    }
+
+    try {
+      // Discord provides a raw 32-byte hex key - wrap it in an SPKI DER header
+      const publicKey = crypto.createPublicKey({
+        key: Buffer.from(`302a300506032b6570032100${credentials.public_key}`, "hex"),
+        format: "der",
+        type: "spki",
+      });
+
+      return crypto.verify(
+        null,
+        Buffer.from(timestamp + body),
+        publicKey,
+        Buffer.from(signature, "hex")
+      );
+    } catch (error) {
+      console.error("Discord signature verification error:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Run an agent on a slash command and replace the deferred "thinking" response with its answer
+   * The route has already deferred the response, so the original message is always edited,
+   * with an apology if the agent can't answer.
+   */
+  async answerInteraction(interaction: any, agentId: string): Promise<void> {
+    let content: string;
+
+    try {
+      const agent = await this.findAgent(agentId);
+
+      if (!agent) {
+        content = "This command isn't connected to an agent.";
+      } else {
+        const user = interaction.member?.user || interaction.user;
+        const { executeAgent } = await import("@/lib/agents/execute");
+        const response = await executeAgent(agent.id, {
+          type: "discord",
+          from: user?.username || user?.id,
+          to: interaction.channel_id,
+          message: interactionText(interaction),
+          // Each user's commands in a channel are one conversation for memory
+          threadKey: `discord:${interaction.guild_id || "dm"}:${interaction.channel_id}:${user?.id}`,
+        });
+
+        content = response.message || "I don't have an answer for that.";
+        console.log(`[DISCORD] ✓ Agent ${agent.id} answered /${interaction.data?.name}`);
+      }
+    } catch (error) {
+      console.error("[DISCORD] Error answering interaction:", error);
+      content = "Sorry, I couldn't answer that right now. Please try again in a moment.";
+    }
+
+    const response = await fetch(
+      `https://discord.com/api/v10/webhooks/${interaction.application_id}/${interaction.token}/messages/@original`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ content: content.slice(0, MAX_MESSAGE_LENGTH) }),
+      }
+    );
+
+    if (!response.ok) {
+      console.error(`[DISCORD] Failed to send interaction response: ${response.status} ${response.statusText}`);
+    }
+  }
+
+  /**
+   * An active agent in this tenant that may use this integration
+   */
+  private async findAgent(agentId: string): Promise<{ id: string } | null> {
+    const supabase = createServiceClient();
+
+    const { data: agent } = await supabase
+      .from("agents")
+      .select("id, config")
+      .eq("id", agentId)
+      .eq("tenant_id", this.getTenantId())
+      .eq("status", "active")
+      .maybeSingle();
+
+    const integrationIds = agent?.config?.integration_ids;
+    const allowed =
+      !Array.isArray(integrationIds) || integrationIds.length === 0 || integrationIds.includes(this.integrationRecord?.id);
+
+    return agent && allowed ? agent : null;
+  }
+
   /**
    * Handle Discord webhook events
    */
   async handleWebhook(payload: any): Promise<void> {
     const event = payload;
 
+    // Interactions endpoint payloads carry a numeric type instead of a gateway event name
+    if (typeof event.type === "number" && !event.t) {
+      console.log("Interaction received:", event.data?.name || event.type);
+      return;
+    }
+
     switch (event.t) {
       case "MESSAGE_CREATE":
         // Handle new messages
@@ -265,6 +401,14 @@ export class DiscordIntegration extends BaseIntegration {
             "Your Discord application public key for webhook verification",
           placeholder: "-----BEGIN PUBLIC KEY-----...",
         },
+        {
+          key: "default_channel_id",
+          label: "Default Channel ID",
+          type: "text" as const,
+          required: false,
+          description: "Channel agents post to when none is specified",
+          placeholder: "123456789012345678",
+        },
       ],
     };
   }
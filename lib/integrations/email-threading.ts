@@ -0,0 +1,160 @@
+/**
+ * Email Addressing and Threading
+ * Parses inbound recipient addresses for agent routing and builds RFC 5322 threading headers
+ * Kept free of server dependencies so it can be unit tested
+ */
+
+export interface ParsedEmailAddress {
+  /** Full lowercased address, including any +tag */
+  address: string;
+  /** Address with the +tag removed */
+  baseAddress: string;
+  local: string;
+  tag: string | null;
+  domain: string;
+}
+
+export interface EmailThreadHeaders {
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+}
+
+/**
+ * Parse "Name <local+tag@domain>" or a bare address
+ * Returns null when the value isn't an email address
+ */
+export function parseEmailAddress(value: string): ParsedEmailAddress | null {
+  const match = value.match(/<([^>]+)>/);
+  const address = (match ? match[1] : value).trim().toLowerCase();
+
+  const at = address.lastIndexOf("@");
+  if (at <= 0 || at === address.length - 1 || /\s/.test(address)) return null;
+
+  const domain = address.slice(at + 1);
+  const [local, ...tagParts] = address.slice(0, at).split("+");
+  const tag = tagParts.length > 0 ? tagParts.join("+") : null;
+
+  return {
+    address,
+    baseAddress: `${local}@${domain}`,
+    local,
+    tag,
+    domain,
+  };
+}
+
+/**
+ * Domain agent inbound addresses are issued on; its mail is forwarded to the inbound email webhook
+ */
+export function getInboundEmailDomain(): string {
+  return (process.env.INBOUND_EMAIL_DOMAIN || "inbound.zapta.ai").toLowerCase();
+}
+
+/**
+ * Check that an address can be claimed by a tenant
+ * It must be on the inbound domain and be <slug>@ or <slug>.<name>@, so no tenant can take
+ * another's mail. Slugs never contain dots, which keeps the two forms unambiguous.
+ */
+export function isTenantInboundAddress(
+  address: ParsedEmailAddress,
+  tenantSlug: string,
+  domain: string = getInboundEmailDomain()
+): boolean {
+  if (!tenantSlug || address.domain !== domain || address.tag !== null) return false;
+  if (address.local === tenantSlug) return true;
+
+  return (
+    address.local.startsWith(`${tenantSlug}.`) &&
+    /^[a-z0-9][a-z0-9_-]*$/.test(address.local.slice(tenantSlug.length + 1))
+  );
+}
+
+/**
+ * Addresses to look up for a recipient, most specific first
+ * support+billing@acme.com routes to an agent on that exact address, then to support@acme.com
+ */
+export function getInboundAddressCandidates(recipient: string): string[] {
+  const parsed = parseEmailAddress(recipient);
+  if (!parsed) return [];
+
+  return parsed.tag === null ? [parsed.address] : [parsed.address, parsed.baseAddress];
+}
+
+/**
+ * Extract message IDs ("<id@host>") from a Message-ID, In-Reply-To or References header
+ */
+export function parseMessageIds(header: string | string[] | undefined | null): string[] {
+  if (!header) return [];
+  const value = Array.isArray(header) ? header.join(" ") : header;
+  return value.match(/<[^<>\s]+>/g) || [];
+}
+
+/**
+ * Parse a raw header block (as sent by inbound parse webhooks) into lowercased name/value pairs
+ * Folded continuation lines are joined onto the previous header
+ */
+export function parseRawHeaders(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  let current: string | null = null;
+
+  for (const line of raw.split(/\r?\n/)) {
+    if (/^\s/.test(line) && current) {
+      headers[current] += ` ${line.trim()}`;
+      continue;
+    }
+
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+
+    current = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+    // Keep the first occurrence; later duplicates are usually added by relays
+    if (headers[current] === undefined) headers[current] = value;
+    else current = null;
+  }
+
+  return headers;
+}
+
+/**
+ * Conversation key for an email thread, or null when the message carries no message IDs
+ * Every message in a thread shares the first References entry, so the root message identifies the thread
+ */
+export function getEmailThreadKey(headers: EmailThreadHeaders): string | null {
+  const root =
+    headers.references?.[0] ||
+    parseMessageIds(headers.inReplyTo)[0] ||
+    parseMessageIds(headers.messageId)[0];
+
+  return root ? `email:${root.toLowerCase()}` : null;
+}
+
+/**
+ * Threading headers for a reply to an inbound message
+ * References carries the full chain so clients that ignore In-Reply-To still thread the reply
+ */
+export function buildReplyHeaders(inbound: EmailThreadHeaders): Record<string, string> {
+  const messageId = parseMessageIds(inbound.messageId)[0];
+  if (!messageId) return {};
+
+  const references = [...(inbound.references || [])];
+  if (references.length === 0) {
+    references.push(...parseMessageIds(inbound.inReplyTo));
+  }
+  if (!references.includes(messageId)) references.push(messageId);
+
+  return {
+    "In-Reply-To": messageId,
+    References: references.join(" "),
+  };
+}
+
+/**
+ * Prefix a subject with "Re:" unless it is already a reply
+ */
+export function replySubject(subject: string): string {
+  const trimmed = subject.trim();
+  if (!trimmed) return "Re: Your message";
+  return /^re\s*:/i.test(trimmed) ? trimmed : `Re: ${trimmed}`;
+}
@@ -6,6 +6,18 @@
 import { BaseIntegration, IntegrationConfigSchema } from "./base";
 import { Resend } from "resend";
 import { executeAgent } from "@/lib/agents/execute";
+import { createServiceClient } from "@/lib/supabase/service";
+import { getUsageLimitError, recordUsage, releaseUsage, reserveUsage } from "@/lib/billing/ledger";
+import {
+  buildReplyHeaders,
+  getEmailThreadKey,
+  getInboundAddressCandidates,
+  parseEmailAddress,
+  parseMessageIds,
+  parseRawHeaders,
+  replySubject,
+  type EmailThreadHeaders,
+} from "./email-threading";
 
 interface EmailCredentials {
   from_email: string;
@@ -25,6 +37,11 @@ interface EmailWebhookPayload {
     type: string;
   }>;
   timestamp: string;
+  // Threading headers, either as fields or inside the raw header block
+  message_id?: string;
+  in_reply_to?: string;
+  references?: string;
+  headers?: string | Record<string, string>;
 }
 
 interface AgentInput {
@@ -38,6 +55,7 @@ interface AgentInput {
   timestamp?: string;
   attachments?: any[];
   html?: string;
+  threadKey?: string;
 }
 
 export class EmailIntegration extends BaseIntegration {
@@ -172,19 +190,23 @@ export class EmailIntegration extends BaseIntegration {
 
   /**
    * Handle inbound email webhook
+   * Routes to the agent that owns the recipient address and replies in the same thread
    */
   async handleWebhook(payload: EmailWebhookPayload): Promise<void> {
     try {
       console.log(`📧 Processing inbound email to ${payload.to.join(", ")}`);
 
-      // Find agent configured for this email address
-      const agent = await this.findAgentByEmail(payload.to[0]);
+      // Find agent configured for one of the recipient addresses
+      const route = await this.findAgentByEmail(payload.to);
 
-      if (!agent) {
-        console.log(`No agent found for email address: ${payload.to[0]}`);
+      if (!route) {
+        console.log(`No agent found for email addresses: ${payload.to.join(", ")}`);
         return;
       }
 
+      const { agent, address } = route;
+      const threading = getThreadHeaders(payload);
+
       // Execute agent with email content
       const response = await executeAgent(agent.id, {
         type: "email",
@@ -195,15 +217,28 @@ export class EmailIntegration extends BaseIntegration {
         html: payload.html,
         attachments: payload.attachments,
         timestamp: payload.timestamp,
+        // Falls back to sender + subject when the message has no Message-ID
+        threadKey: getEmailThreadKey(threading) || undefined,
       });
 
-      // Send response email
+      // Send response email from the tenant's email integration
       if (response.message) {
-        await this.sendEmailResponse(
-          payload.from,
-          response.message,
-          payload.subject
-        );
+        const sender = await this.getTenantEmailIntegration(agent.tenant_id);
+
+        if (!sender) {
+          console.log(`No connected email integration to reply from for tenant ${agent.tenant_id}`);
+          return;
+        }
+
+        await sender.sendEmailResponse({
+          to: payload.from,
+          message: response.message,
+          originalSubject: payload.subject,
+          threading,
+          // Replies come back to the address that reached this agent
+          replyTo: address,
+          agentId: agent.id,
+        });
       }
 
       console.log(`✅ Email processed and response sent to ${payload.from}`);
@@ -224,60 +259,22 @@ export class EmailIntegration extends BaseIntegration {
     attachments?: any[];
     agent_id?: string;
     billable?: boolean;
+    reply_to?: string;
+    headers?: Record<string, string>;
   }): Promise<any> {
     const credentials = this.getCredentials() as EmailCredentials;
     const resend = this.getResendClient();
     const tenantId = this.getTenantId();
 
-    // Check email usage limit before sending (if billable)
-    if (params.billable !== false) {
-      const { createClient } = await import("@supabase/supabase-js");
-      const { getPlanLimits } = await import("@/lib/billing/plans");
-      
-      const supabase = createClient(
-        process.env.NEXT_PUBLIC_SUPABASE_URL!,
-        process.env.SUPABASE_SERVICE_ROLE_KEY!
-      );
+    // Reserve the email against the plan limit before sending (if billable)
+    // The check and the count are one atomic step, so concurrent sends can't overshoot the limit
+    const reservation =
+      params.billable !== false
+        ? await reserveUsage(tenantId, "email", { agentId: params.agent_id, source: "resend" })
+        : null;
 
-      // Get tenant's subscription plan - check subscriptions table first
-      const { data: tenant } = await supabase
-        .from("tenants")
-        .select("subscription_plan")
-        .eq("id", tenantId)
-        .single();
-
-      // Check subscriptions table first (source of truth for paid plans)
-      const { data: subscriptions } = await supabase
-        .from("subscriptions")
-        .select("plan_id, status")
-        .eq("tenant_id", tenantId)
-        .eq("status", "active")
-        .order("created_at", { ascending: false })
-        .limit(1);
-
-      const subscription = subscriptions?.[0];
-      const planId = subscription?.plan_id || tenant?.subscription_plan || "free";
-      const planLimits = getPlanLimits(planId);
-
-      // Count emails sent this month
-      const now = new Date();
-      const firstOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-
-      const { count } = await supabase
-        .from("email_usage")
-        .select("*", { count: "exact", head: true })
-        .eq("tenant_id", tenantId)
-        .gte("created_at", firstOfMonth.toISOString())
-        .eq("billable", true);
-
-      const currentUsage = count || 0;
-      const emailLimit = planLimits.integrations.email;
-
-      if (emailLimit !== -1 && currentUsage >= emailLimit) {
-        throw new Error(
-          `Email limit reached (${currentUsage}/${emailLimit}). Please upgrade your plan to send more emails.`
-        );
-      }
+    if (reservation && !reservation.allowed) {
+      throw new Error(getUsageLimitError(reservation, "Email", "send more emails"));
     }
 
     try {
@@ -287,6 +284,8 @@ export class EmailIntegration extends BaseIntegration {
         subject: params.subject,
         text: params.body,
         html: params.html || params.body,
+        ...(params.reply_to && { replyTo: params.reply_to }),
+        ...(params.headers && Object.keys(params.headers).length > 0 && { headers: params.headers }),
         // Resend handles attachments differently - would need to convert format
       });
 
@@ -296,6 +295,7 @@ export class EmailIntegration extends BaseIntegration {
 
       // Track usage for billing
       await this.trackEmailUsage({
+        ledger_id: reservation?.ledgerId ?? null,
         tenant_id: tenantId,
         integration_id: this.integrationRecord?.id || "",
         to_address: Array.isArray(params.to) ? params.to[0] : params.to,
@@ -309,6 +309,8 @@ export class EmailIntegration extends BaseIntegration {
       return { success: true, messageId: data?.id };
     } catch (error) {
       console.error("Failed to send email via Resend:", error);
+      // The email wasn't sent, so it doesn't count toward the limit
+      await releaseUsage(reservation?.ledgerId);
       throw error;
     }
   }
@@ -317,6 +319,7 @@ export class EmailIntegration extends BaseIntegration {
    * Track email usage for billing
    */
   private async trackEmailUsage(usage: {
+    ledger_id: string | null;
     tenant_id: string;
     integration_id: string;
     to_address: string;
@@ -326,6 +329,16 @@ export class EmailIntegration extends BaseIntegration {
     agent_id?: string;
     billable: boolean;
   }): Promise<void> {
+    // Billable sends were already counted by their reservation; record the rest in the ledger too
+    if (!usage.ledger_id) {
+      await recordUsage(usage.tenant_id, "email", {
+        billable: usage.billable,
+        agentId: usage.agent_id,
+        source: "resend",
+        referenceId: usage.resend_id,
+      });
+    }
+
     try {
       // Use service role client for usage tracking
       // This works in all contexts (server, edge, background jobs)
@@ -354,25 +367,28 @@ export class EmailIntegration extends BaseIntegration {
 
   /**
    * Send email response
+   * In-Reply-To and References keep the reply in the customer's thread
    */
-  private async sendEmailResponse(
-    to: string,
-    message: string,
-    originalSubject: string
-  ): Promise<void> {
+  private async sendEmailResponse(params: {
+    to: string;
+    message: string;
+    originalSubject: string;
+    threading: EmailThreadHeaders;
+    replyTo?: string;
+    agentId?: string;
+  }): Promise<void> {
     try {
-      const subject = originalSubject.startsWith("Re:")
-        ? originalSubject
-        : `Re: ${originalSubject}`;
-
       await this.sendEmail({
-        to,
-        subject,
-        body: message,
-        html: this.formatEmailResponse(message),
+        to: params.to,
+        subject: replySubject(params.originalSubject),
+        body: params.message,
+        html: this.formatEmailResponse(params.message),
+        reply_to: params.replyTo,
+        headers: buildReplyHeaders(params.threading),
+        agent_id: params.agentId,
       });
 
-      console.log(`📧 Response email sent to ${to}`);
+      console.log(`📧 Response email sent to ${params.to}`);
     } catch (error) {
       console.error("Failed to send response email:", error);
     }
@@ -396,36 +412,71 @@ export class EmailIntegration extends BaseIntegration {
   }
 
   /**
-   * Find agent by email address
+   * Find the agent that owns one of the recipient addresses
+   * Each recipient is tried on its exact address, then without its +tag
    */
-  private async findAgentByEmail(email: string): Promise<any> {
-    const { createServerClient } = await import("@/lib/supabase/server");
-    const supabase = await createServerClient();
-    
-    // Extract domain from email
-    const domain = email.split("@")[1];
-
-    // Look for agent with email trigger matching this domain/address
-    const { data: agents } = await supabase
-      .from("agents")
-      .select(
-        `
-        *,
-        tenants!inner(
-          name,
-          slug
-        )
-      `
-      )
-      .eq("tenants.slug", domain)
-      .eq("status", "active");
-
-    if (!agents || agents.length === 0) {
-      return null;
+  private async findAgentByEmail(
+    recipients: string[]
+  ): Promise<{ agent: any; address: string } | null> {
+    // Load with the service client (no user session on webhooks)
+    const supabase = createServiceClient();
+
+    for (const recipient of recipients) {
+      for (const address of getInboundAddressCandidates(recipient)) {
+        const { data: agent } = await supabase
+          .from("agents")
+          .select("*")
+          .eq("email_address", address)
+          .eq("status", "active")
+          .maybeSingle();
+
+        if (agent) {
+          return { agent, address: parseEmailAddress(recipient)?.address || address };
+        }
+      }
     }
 
-    // Return first active agent (in production, you might have multiple agents per domain)
-    return agents[0];
+    // Legacy routing: <anything>@<tenant slug> when the tenant has a single agent without its own address
+    for (const recipient of recipients) {
+      const parsed = parseEmailAddress(recipient);
+      if (!parsed) continue;
+
+      const { data: agents } = await supabase
+        .from("agents")
+        .select("*, tenants!inner(slug)")
+        .eq("tenants.slug", parsed.domain)
+        .eq("status", "active")
+        .is("email_address", null)
+        .limit(2);
+
+      if (agents && agents.length === 1) {
+        return { agent: agents[0], address: parsed.address };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Connected email integration used to send the tenant's replies
+   */
+  private async getTenantEmailIntegration(tenantId: string): Promise<EmailIntegration | null> {
+    const supabase = createServiceClient();
+
+    const { data: record } = await supabase
+      .from("integrations")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .eq("provider", "email")
+      .eq("status", "connected")
+      .limit(1)
+      .maybeSingle();
+
+    if (!record) return null;
+
+    // Imported lazily: the registry imports this module
+    const { createIntegrationInstance } = await import("./registry");
+    return createIntegrationInstance(record) as EmailIntegration | null;
   }
 
   /**
@@ -534,4 +585,22 @@ export class EmailIntegration extends BaseIntegration {
   }
 }
 
+/**
+ * Threading headers of an inbound email, from explicit fields or the raw header block
+ */
+function getThreadHeaders(payload: EmailWebhookPayload): EmailThreadHeaders {
+  const raw =
+    typeof payload.headers === "string"
+      ? parseRawHeaders(payload.headers)
+      : Object.fromEntries(
+          Object.entries(payload.headers || {}).map(([name, value]) => [name.toLowerCase(), value])
+        );
+
+  return {
+    messageId: payload.message_id || raw["message-id"],
+    inReplyTo: payload.in_reply_to || raw["in-reply-to"],
+    references: parseMessageIds(payload.references || raw["references"]),
+  };
+}
+
 export default EmailIntegration;
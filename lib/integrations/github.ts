@@ -3,6 +3,7 @@
  * Handles repository management and development workflows
  */
 
+import crypto from "crypto";
 import { BaseIntegration, type IntegrationConfigSchema } from "./base";
 
 interface GitHubCredentials {
@@ -29,8 +30,18 @@ export class GitHubIntegration extends BaseIntegration {
   }
 
   protected getCredentials(): GitHubCredentials {
-    // In a real implementation, this would fetch from secure storage
-    return {} as GitHubCredentials;
+    // Credentials are decrypted by the registry before the instance is created
+    return super.getCredentials() as GitHubCredentials;
+  }
+
+  /**
+   * Build the API path for an "owner/repo" string
+   */
+  private repoPath(repo: string): string {
+    return repo
+      .split("/")
+      .map((part) => encodeURIComponent(part))
+      .join("/");
   }
 
   /**
@@ -114,6 +125,9 @@ export class GitHubIntegration extends BaseIntegration {
       case "create_pull_request":
         return this.createPullRequest(params);
 
+      case "list_pull_requests":
+        return this.listPullRequests(params.repo, params.state, params.limit);
+
       default:
         throw new Error(`Unknown GitHub action: ${action}`);
     }
@@ -154,7 +168,7 @@ export class GitHubIntegration extends BaseIntegration {
     updateData: Record<string, any>
   ): Promise<any> {
     const response = await fetch(
-      `https://api.github.com/repos/${encodeURIComponent(repo)}`,
+      `https://api.github.com/repos/${this.repoPath(repo)}`,
       {
         method: "PATCH",
         headers: this.getAuthHeaders(),
@@ -181,7 +195,7 @@ export class GitHubIntegration extends BaseIntegration {
     }
   ): Promise<any> {
     const response = await fetch(
-      `https://api.github.com/repos/${encodeURIComponent(repo)}/issues`,
+      `https://api.github.com/repos/${this.repoPath(repo)}/issues`,
       {
         method: "POST",
         headers: this.getAuthHeaders(),
@@ -209,7 +223,7 @@ export class GitHubIntegration extends BaseIntegration {
     updateData: Record<string, any>
   ): Promise<any> {
     const response = await fetch(
-      `https://api.github.com/repos/${encodeURIComponent(repo)}/issues/${issueNumber}`,
+      `https://api.github.com/repos/${this.repoPath(repo)}/issues/${issueNumber}`,
       {
         method: "PATCH",
         headers: this.getAuthHeaders(),
@@ -236,7 +250,7 @@ export class GitHubIntegration extends BaseIntegration {
     body?: string;
   }): Promise<any> {
     const response = await fetch(
-      `https://api.github.com/repos/${encodeURIComponent(prData.base_repo)}/pulls`,
+      `https://api.github.com/repos/${this.repoPath(prData.base_repo)}/pulls`,
       {
         method: "POST",
         headers: this.getAuthHeaders(),
@@ -256,13 +270,71 @@ export class GitHubIntegration extends BaseIntegration {
     return await response.json();
   }
 
+  /**
+   * List pull requests in a repository
+   */
+  private async listPullRequests(
+    repo: string,
+    state: "open" | "closed" | "all" = "open",
+    limit: number = 10
+  ): Promise<any[]> {
+    const response = await fetch(
+      `https://api.github.com/repos/${this.repoPath(repo)}/pulls?state=${state}&per_page=${limit}`,
+      {
+        headers: this.getAuthHeaders(),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to list pull requests: ${response.statusText}`);
+    }
+
+    const pulls = await response.json();
+
+    return pulls.map((pr: any) => ({
+      number: pr.number,
+      title: pr.title,
+      state: pr.state,
+      author: pr.user?.login,
+      url: pr.html_url,
+      head: pr.head?.ref,
+      base: pr.base?.ref,
+      draft: pr.draft,
+      created_at: pr.created_at,
+      updated_at: pr.updated_at,
+    }));
+  }
+
+  /**
+   * Verify a GitHub webhook signature (X-Hub-Signature-256)
+   */
+  verifySignature(body: string, signature: string): boolean {
+    const credentials = this.getCredentials();
+
+    if (!credentials.webhook_secret) {
+      return false;
+    }
+
+    const expected = `sha256=${crypto
+      .createHmac("sha256", credentials.webhook_secret)
+      .update(body)
+      .digest("hex")}`;
+
+    if (expected.length !== signature.length) {
+      return false;
+    }
+
+    return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  }
+
   /**
    * Handle GitHub webhook events
+   * The route passes the X-GitHub-Event name as `event` for payloads without an action (e.g. push)
    */
   async handleWebhook(payload: any): Promise<void> {
     const event = payload;
 
-    switch (payload.action) {
+    switch (payload.action || payload.event) {
       case "opened":
         // Handle new issue or PR
         if (payload.pull_request) {
@@ -328,6 +400,7 @@ export class GitHubIntegration extends BaseIntegration {
       "create_issue",
       "update_issue",
       "create_pull_request",
+      "list_pull_requests",
       "handle_webhooks",
       "manage_releases",
       "get_repository_data",
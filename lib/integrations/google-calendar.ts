@@ -1,5 +1,6 @@
 import { BaseIntegration, type IntegrationConfigSchema } from "./base";
 import type { IntegrationRecord } from "./registry";
+import { recordUsage } from "@/lib/billing/ledger";
 
 interface GoogleCalendarEvent {
   summary: string;
@@ -318,6 +319,15 @@ export class GoogleCalendarIntegration extends BaseIntegration {
     status: 'success' | 'failed';
     error_message?: string;
   }): Promise<void> {
+    // Successful actions are metered in the usage ledger
+    if (usage.status === 'success') {
+      await recordUsage(this.getTenantId(), 'calendar', {
+        agentId: usage.agent_id,
+        source: usage.action_type,
+        referenceId: usage.google_event_id,
+      });
+    }
+
     try {
       const { createClient } = await import('@supabase/supabase-js');
       const supabase = createClient(
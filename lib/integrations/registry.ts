@@ -3,7 +3,7 @@
  * Central place to instantiate and manage integrations with proper credential loading
  */
 
-import { createServerClient } from "@/lib/supabase/server";
+import { createRequestOrServiceClient } from "@/lib/supabase/server";
 import { EmailIntegration } from "./email";
 import { GmailIntegration } from "./gmail";
 import { HubSpotIntegration } from "./hubspot";
@@ -15,6 +15,8 @@ import { NotionIntegration } from "./notion";
 import { StripeIntegration } from "./stripe";
 import { TwilioIntegration } from "./twilio";
 import { SlackIntegration } from "./slack";
+import { DiscordIntegration } from "./discord";
+import { GitHubIntegration } from "./github";
 import type { Integration, IntegrationClass } from "./base";
 
 /**
@@ -41,7 +43,7 @@ export interface IntegrationRecord {
 export async function getIntegrationInstance(
   integrationId: string
 ): Promise<IntegrationClass | null> {
-  const supabase = await createServerClient();
+  const supabase = await createRequestOrServiceClient();
 
   const { data: integration, error } = await supabase
     .from("integrations")
@@ -67,7 +69,7 @@ export async function getTenantIntegrations(
   tenantId: string,
   status?: string
 ): Promise<IntegrationClass[]> {
-  const supabase = await createServerClient();
+  const supabase = await createRequestOrServiceClient();
 
   let query = supabase
     .from("integrations")
@@ -102,7 +104,7 @@ export async function getIntegrationByProvider(
   provider: string,
   tenantId: string
 ): Promise<IntegrationClass | null> {
-  const supabase = await createServerClient();
+  const supabase = await createRequestOrServiceClient();
 
   const { data: integration, error } = await supabase
     .from("integrations")
@@ -121,10 +123,11 @@ export async function getIntegrationByProvider(
 
 /**
  * Create integration instance from database record
+ * Exported for webhook routes that load records with the service client
  * @param integration - Integration record from database
  * @returns Integration instance
  */
-function createIntegrationInstance(
+export function createIntegrationInstance(
   integration: IntegrationRecord
 ): IntegrationClass | null {
   try {
@@ -181,6 +184,12 @@ function createIntegrationInstance(
       case "slack":
         return new SlackIntegration(decryptedIntegration as any);
 
+      case "discord":
+        return new DiscordIntegration(decryptedIntegration);
+
+      case "github":
+        return new GitHubIntegration(decryptedIntegration);
+
       default:
         console.warn(`Unknown integration provider: ${integration.provider}`);
         return null;
@@ -206,7 +215,7 @@ export async function getIntegrationMap(
   agentId?: string
 ): Promise<Map<string, IntegrationClass>> {
   let integrations = await getTenantIntegrations(tenantId, "connected");
-  const supabase = await createServerClient();
+  const supabase = await createRequestOrServiceClient();
   
   // Fetch tenant's subscription plan for filtering
   let planId = 'free';
@@ -3,7 +3,12 @@
  * Handles OAuth authentication and Slack API interactions
  */
 
+import crypto from 'crypto';
 import { BaseIntegration, IntegrationConfigSchema, Integration as IntegrationRecord } from './base';
+import { createServiceClient } from '@/lib/supabase/service';
+
+/** Requests older than this are rejected to prevent replays (Slack's recommendation) */
+export const SLACK_SIGNATURE_TOLERANCE_SECONDS = 300;
 
 interface SlackChannel {
   id: string;
@@ -19,6 +24,54 @@ interface SlackUser {
   email?: string;
 }
 
+/**
+ * Event from the Events API (app_mention or message.im)
+ */
+export interface SlackEvent {
+  type: string;
+  user?: string;
+  text?: string;
+  channel: string;
+  channel_type?: string;
+  ts: string;
+  thread_ts?: string;
+  bot_id?: string;
+  subtype?: string;
+}
+
+/**
+ * Per-agent Slack routing, stored in agents.config.slack
+ */
+export interface SlackAgentConfig {
+  /** Channel IDs the agent answers mentions in; "*" for any channel */
+  channels?: string[];
+  /** Whether the agent answers direct messages to the bot */
+  directMessages?: boolean;
+}
+
+/**
+ * Install details stored in an integration's config by the OAuth callback
+ */
+export interface SlackInstall {
+  team_id?: string;
+  app_id?: string;
+  enterprise_id?: string;
+}
+
+/**
+ * Check whether an Events API payload was sent for an install
+ * Installs made before the app and Enterprise Grid IDs were stored match on the workspace alone
+ */
+export function matchesSlackInstall(
+  install: SlackInstall,
+  payload: { team_id?: string; api_app_id?: string; enterprise_id?: string | null }
+): boolean {
+  if (!install.team_id || install.team_id !== payload.team_id) return false;
+  if (install.app_id && install.app_id !== payload.api_app_id) return false;
+  if (install.enterprise_id && install.enterprise_id !== payload.enterprise_id) return false;
+  return true;
+}
+
 interface SlackMessage {
   channel: string;
   text: string;
@@ -33,6 +86,7 @@ export class SlackIntegration extends BaseIntegration {
   private accessToken?: string;
   private teamId?: string;
   private teamName?: string;
+  private botUserId?: string;
 
   constructor(integrationRecord?: IntegrationRecord) {
     super(integrationRecord);
@@ -42,7 +96,131 @@ export class SlackIntegration extends BaseIntegration {
       this.accessToken = creds.access_token;
       this.teamId = creds.team_id;
       this.teamName = creds.team_name;
+      this.botUserId = creds.bot_user_id;
+    }
+  }
+
+  /**
+   * Verify an Events API request with the app's signing secret
+   * Signature is v0=HMAC-SHA256(secret, "v0:{timestamp}:{body}")
+   */
+  static verifyRequestSignature(params: {
+    body: string;
+    timestamp: string | null;
+    signature: string | null;
+    signingSecret: string;
+    now?: number;
+  }): boolean {
+    const { body, timestamp, signature, signingSecret } = params;
+    if (!timestamp || !signature || !signingSecret) return false;
+
+    const now = params.now ?? Math.floor(Date.now() / 1000);
+    if (Math.abs(now - Number(timestamp)) > SLACK_SIGNATURE_TOLERANCE_SECONDS) {
+      return false;
+    }
+
+    const expected = `v0=${crypto
+      .createHmac('sha256', signingSecret)
+      .update(`v0:${timestamp}:${body}`)
+      .digest('hex')}`;
+
+    if (expected.length !== signature.length) {
+      return false;
     }
+
+    return crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  }
+
+  /**
+   * Workspace (team) ID this integration is installed in
+   */
+  getTeamId(): string | undefined {
+    return this.teamId;
+  }
+
+  /**
+   * Handle an app mention or direct message
+   * Runs the agent routed to the channel and replies in the message's thread
+   */
+  async handleEvent(event: SlackEvent): Promise<void> {
+    // Ignore bot messages (including our own replies), edits and deletions
+    if (event.bot_id || event.subtype || (this.botUserId && event.user === this.botUserId)) {
+      return;
+    }
+
+    const isDirectMessage = event.type === 'message' && event.channel_type === 'im';
+    if (event.type !== 'app_mention' && !isDirectMessage) {
+      return;
+    }
+
+    try {
+      const agent = await this.findAgentForChannel(event.channel, isDirectMessage);
+
+      if (!agent) {
+        console.log(`[SLACK] No agent configured for channel ${event.channel} in team ${this.teamId}`);
+        return;
+      }
+
+      // Mentions are answered in a thread; DMs stay inline unless the user started a thread
+      const threadTs = event.thread_ts || (isDirectMessage ? undefined : event.ts);
+      const message = (event.text || '').replace(/<@[A-Z0-9]+>/g, '').trim();
+
+      const { executeAgent } = await import('@/lib/agents/execute');
+      const response = await executeAgent(agent.id, {
+        type: 'slack',
+        from: event.user,
+        to: event.channel,
+        message,
+        // Each thread (or the whole DM) is one conversation for memory
+        threadKey: `slack:${this.teamId}:${event.channel}${threadTs ? `:${threadTs}` : ''}`,
+        timestamp: new Date(Number(event.ts) * 1000).toISOString(),
+      });
+
+      if (response.message) {
+        await this.sendMessage({
+          channel: event.channel,
+          text: response.message,
+          thread_ts: threadTs,
+        });
+      }
+
+      console.log(`[SLACK] ✓ Agent ${agent.id} replied in ${event.channel}`);
+    } catch (error) {
+      console.error('[SLACK] Error handling event:', error);
+    }
+  }
+
+  /**
+   * Find the agent that answers in a channel
+   * An exact channel match wins over a "*" agent; agents limited to other integrations are skipped
+   */
+  private async findAgentForChannel(channel: string, isDirectMessage: boolean): Promise<any> {
+    const supabase = createServiceClient();
+    const integrationId = this.integrationRecord?.id;
+
+    const { data: agents } = await supabase
+      .from('agents')
+      .select('id, name, config')
+      .eq('tenant_id', this.getTenantId())
+      .eq('status', 'active')
+      .not('config->slack', 'is', null);
+
+    const candidates = (agents || []).filter((agent) => {
+      const integrationIds = agent.config?.integration_ids;
+      return !Array.isArray(integrationIds) || integrationIds.length === 0 || integrationIds.includes(integrationId);
+    });
+
+    const routing = (agent: any): SlackAgentConfig => agent.config?.slack || {};
+
+    if (isDirectMessage) {
+      return candidates.find((agent) => routing(agent).directMessages) || null;
+    }
+
+    return (
+      candidates.find((agent) => routing(agent).channels?.includes(channel)) ||
+      candidates.find((agent) => routing(agent).channels?.includes('*')) ||
+      null
+    );
   }
 
   /**
@@ -62,6 +240,9 @@ export class SlackIntegration extends BaseIntegration {
       'users:read.email',
       'im:write',
       'groups:read',
+      // Inbound events: mentions and direct messages to the bot
+      'app_mentions:read',
+      'im:history',
     ].join(',');
 
     return `https://slack.com/oauth/v2/authorize?client_id=${clientId}&scope=${scopes}&redirect_uri=${encodeURIComponent(redirectUri)}&state=${state}`;
@@ -76,6 +257,8 @@ export class SlackIntegration extends BaseIntegration {
     team_name: string;
     bot_user_id: string;
     scope: string;
+    app_id?: string;
+    enterprise_id?: string;
   }> {
     const clientId = process.env.SLACK_CLIENT_ID;
     const clientSecret = process.env.SLACK_CLIENT_SECRET;
@@ -106,6 +289,8 @@ export class SlackIntegration extends BaseIntegration {
       team_name: data.team?.name,
       bot_user_id: data.bot_user_id,
       scope: data.scope,
+      app_id: data.app_id,
+      enterprise_id: data.enterprise?.id,
     };
   }
 
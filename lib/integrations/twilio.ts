@@ -5,6 +5,7 @@
 
 import { BaseIntegration, IntegrationConfigSchema } from "./base";
 import { Twilio } from "twilio";
+import { getUsageLimitError, recordUsage, releaseUsage, reserveUsage } from "@/lib/billing/ledger";
 
 interface TwilioCredentials {
   account_sid?: string;
@@ -244,59 +245,21 @@ export class TwilioIntegration extends BaseIntegration {
     const tenantId = this.getTenantId();
     const fromNumber = this.getFromNumber();
 
-    // Check SMS usage limit before sending
-    const { createClient } = await import("@supabase/supabase-js");
-    const { getPlanLimits } = await import("@/lib/billing/plans");
-    
-    const supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.SUPABASE_SERVICE_ROLE_KEY!
-    );
-
-    // Get tenant's subscription plan - check subscriptions table first
-    const { data: tenant } = await supabase
-      .from("tenants")
-      .select("subscription_plan")
-      .eq("id", tenantId)
-      .single();
-
-    // Check subscriptions table first (source of truth for paid plans)
-    const { data: subscriptions } = await supabase
-      .from("subscriptions")
-      .select("plan_id, status")
-      .eq("tenant_id", tenantId)
-      .eq("status", "active")
-      .order("created_at", { ascending: false })
-      .limit(1);
-
-    const subscription = subscriptions?.[0];
-    const planId = subscription?.plan_id || tenant?.subscription_plan || "free";
-    const planLimits = getPlanLimits(planId);
-
-    // Count SMS sent this month
-    const now = new Date();
-    const firstOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-
-    const { count } = await supabase
-      .from("sms_usage")
-      .select("*", { count: "exact", head: true })
-      .eq("tenant_id", tenantId)
-      .gte("created_at", firstOfMonth.toISOString())
-      .eq("direction", "outbound");
-
-    const currentUsage = count || 0;
-    const smsLimit = planLimits.integrations.sms;
-
-    if (smsLimit === 0) {
-      throw new Error(
-        `SMS is not available on your ${planId} plan. Please upgrade to use SMS features.`
-      );
-    }
+    // Reserve the SMS against the plan limit before sending
+    // The check and the count are one atomic step, so concurrent sends can't overshoot the limit
+    const reservation = await reserveUsage(tenantId, "sms", {
+      agentId: params.agent_id,
+      source: "twilio",
+    });
+
+    if (!reservation.allowed) {
+      if (reservation.limit === 0) {
+        throw new Error(
+          `SMS is not available on your ${reservation.planId} plan. Please upgrade to use SMS features.`
+        );
+      }
 
-    if (smsLimit !== -1 && currentUsage >= smsLimit) {
-      throw new Error(
-        `SMS limit reached (${currentUsage}/${smsLimit}). Please upgrade your plan to send more SMS.`
-      );
+      throw new Error(getUsageLimitError(reservation, "SMS", "send more SMS"));
     }
 
     try {
@@ -315,6 +278,7 @@ export class TwilioIntegration extends BaseIntegration {
 
       // Track usage for billing
       await this.trackSMSUsage({
+        ledger_id: reservation.ledgerId,
         tenant_id: tenantId,
         integration_id: this.integrationRecord?.id || "",
         to_number: params.to,
@@ -332,6 +296,8 @@ export class TwilioIntegration extends BaseIntegration {
       };
     } catch (error) {
       console.error("Failed to send SMS via Twilio:", error);
+      // The SMS wasn't sent, so it doesn't count toward the limit
+      await releaseUsage(reservation.ledgerId);
       throw error;
     }
   }
@@ -382,6 +348,7 @@ export class TwilioIntegration extends BaseIntegration {
    * Track SMS usage for billing
    */
   private async trackSMSUsage(usage: {
+    ledger_id?: string | null;
     tenant_id: string;
     integration_id: string;
     to_number: string;
@@ -391,6 +358,16 @@ export class TwilioIntegration extends BaseIntegration {
     agent_id?: string;
     direction: "inbound" | "outbound";
   }): Promise<void> {
+    // Reserved sends are already in the ledger; record anything else (e.g. inbound) as non-billable
+    if (!usage.ledger_id) {
+      await recordUsage(usage.tenant_id, "sms", {
+        billable: false,
+        agentId: usage.agent_id,
+        source: `twilio_${usage.direction}`,
+        referenceId: usage.twilio_sid,
+      });
+    }
+
     try {
       // Use service role client for usage tracking
       const { createClient } = await import("@supabase/supabase-js");
@@ -6,16 +6,27 @@
 import { BaseIntegration, type IntegrationConfigSchema } from "./base";
 import type { IntegrationRecord } from "./registry";
 import crypto from "crypto";
+import {
+  buildWebhookSignatureHeader,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from "@/lib/webhooks/signature";
+
+/** How long the previous secret keeps signing deliveries after a rotation */
+export const WEBHOOK_SECRET_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000;
 
 interface WebhookCredentials {
   webhook_url: string;
   webhook_secret?: string;
+  previous_webhook_secret?: string;          // Still signed with until the grace period ends
+  previous_webhook_secret_expires_at?: string;
   event_types?: string[];          // Which events to listen for
   agent_ids?: string[];            // Specific agent IDs or empty for all
   status_filter?: "all" | "success" | "failure"; // Filter by success/failure
 }
 
-interface WebhookPayload {
+export interface WebhookPayload {
   event_type: string;
   timestamp: string;
   tenant_id: string;
@@ -23,12 +34,27 @@ interface WebhookPayload {
   data: Record<string, any>;
 }
 
+export interface WebhookDeliveryResult {
+  ok: boolean;
+  request: {
+    url: string;
+    headers: Record<string, string>;
+  };
+  response?: {
+    status: number;
+    body: string;
+  };
+  error?: string;
+}
+
 export class WebhookIntegration extends BaseIntegration {
   provider = "webhook";
   type = "webhook" as const;
 
   private webhookUrl?: string;
   private webhookSecret?: string;
+  private previousWebhookSecret?: string;
+  private previousSecretExpiresAt?: string;
   private filters: {
     event_types: string[];
     agent_ids: string[];
@@ -48,6 +74,8 @@ export class WebhookIntegration extends BaseIntegration {
     const creds = this.getCredentials() as Record<string, any>;
     this.webhookUrl = creds?.webhook_url;
     this.webhookSecret = creds?.webhook_secret;
+    this.previousWebhookSecret = creds?.previous_webhook_secret;
+    this.previousSecretExpiresAt = creds?.previous_webhook_secret_expires_at;
 
     // Load filters with backward-compatible defaults
     this.filters = {
@@ -156,44 +184,111 @@ export class WebhookIntegration extends BaseIntegration {
    * Send webhook to configured URL
    */
   async sendWebhook(payload: WebhookPayload): Promise<void> {
+    const result = await this.deliver(payload);
+
+    if (!result.ok) {
+      throw new Error(result.error);
+    }
+  }
+
+  /**
+   * POST a payload and capture the request and response without throwing
+   * Used by the delivery queue so every attempt can be inspected later
+   */
+  async deliver(
+    payload: WebhookPayload,
+    deliveryId: string = crypto.randomUUID()
+  ): Promise<WebhookDeliveryResult> {
     if (!this.webhookUrl) {
       throw new Error("Webhook URL not configured");
     }
 
     const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
       "User-Agent": "Zapta-Webhook/1.0",
+      // Delivery ID is stable across retries so receivers can dedupe
+      [WEBHOOK_ID_HEADER]: deliveryId,
+      "Idempotency-Key": deliveryId,
+      [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
     };
 
-    // Add HMAC signature if secret is configured
-    if (this.webhookSecret) {
+    // Add HMAC signatures if a secret is configured
+    const secrets = this.getSigningSecrets();
+    if (this.webhookSecret && secrets.length > 0) {
+      headers[WEBHOOK_SIGNATURE_HEADER] = buildWebhookSignatureHeader(
+        secrets,
+        deliveryId,
+        timestamp,
+        body
+      );
+
+      // Body-only signature kept for receivers that haven't moved to the timestamped scheme
       const signature = this.generateSignature(body, this.webhookSecret);
       headers["X-Webhook-Signature"] = `sha256=${signature}`;
     }
 
     console.log("[WEBHOOK] Sending to:", this.webhookUrl);
 
-    const response = await fetch(this.webhookUrl, {
-      method: "POST",
-      headers,
-      body,
-      signal: AbortSignal.timeout(10000), // 10 second timeout
-    });
+    const request = { url: this.webhookUrl, headers };
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("[WEBHOOK] Failed:", {
-        status: response.status,
-        statusText: response.statusText,
-        body: errorText,
+    try {
+      const response = await fetch(this.webhookUrl, {
+        method: "POST",
+        headers,
+        body,
+        signal: AbortSignal.timeout(10000), // 10 second timeout
       });
-      throw new Error(
-        `Webhook failed: ${response.status} ${response.statusText}`
-      );
+
+      const responseBody = await response.text();
+
+      if (!response.ok) {
+        console.error("[WEBHOOK] Failed:", {
+          status: response.status,
+          statusText: response.statusText,
+          body: responseBody,
+        });
+        return {
+          ok: false,
+          request,
+          response: { status: response.status, body: responseBody },
+          error: `Webhook failed: ${response.status} ${response.statusText}`,
+        };
+      }
+
+      console.log("[WEBHOOK] Successfully sent, status:", response.status);
+      return {
+        ok: true,
+        request,
+        response: { status: response.status, body: responseBody },
+      };
+    } catch (error) {
+      console.error("[WEBHOOK] Request error:", error);
+      return {
+        ok: false,
+        request,
+        error: error instanceof Error ? error.message : String(error),
+      };
     }
+  }
 
-    console.log("[WEBHOOK] Successfully sent, status:", response.status);
+  /**
+   * Secrets to sign with: the current one, plus the previous one during its grace period
+   */
+  private getSigningSecrets(): string[] {
+    const secrets: string[] = [];
+    if (this.webhookSecret) secrets.push(this.webhookSecret);
+
+    if (
+      this.previousWebhookSecret &&
+      this.previousSecretExpiresAt &&
+      new Date(this.previousSecretExpiresAt).getTime() > Date.now()
+    ) {
+      secrets.push(this.previousWebhookSecret);
+    }
+
+    return secrets;
   }
 
   /**
@@ -210,6 +305,8 @@ export class WebhookIntegration extends BaseIntegration {
     switch (action) {
       case "send":
         return this.sendWebhook(params.payload);
+      case "deliver":
+        return this.deliver(params.payload, params.deliveryId);
       case "test":
         return this.testConnection();
       case "shouldSend":
@@ -246,7 +343,7 @@ export class WebhookIntegration extends BaseIntegration {
           required: false,
           placeholder: "Optional secret for HMAC signature verification",
           description:
-            "If provided, webhooks will include an X-Webhook-Signature header for verifying authenticity",
+            "If provided, webhooks are signed with X-Webhook-Signature-V1. After changing it, deliveries are signed with both secrets for 24 hours",
         },
       ],
     };
@@ -260,4 +357,24 @@ export class WebhookIntegration extends BaseIntegration {
   }
 }
 
+/**
+ * Carry the old secret forward when webhook_secret changes
+ * so receivers can switch secrets without rejecting deliveries
+ */
+export function applyWebhookSecretRotation(
+  current: Partial<WebhookCredentials>,
+  next: Partial<WebhookCredentials>,
+  now: number = Date.now()
+): Partial<WebhookCredentials> {
+  if (!current.webhook_secret || !next.webhook_secret || current.webhook_secret === next.webhook_secret) {
+    return next;
+  }
+
+  return {
+    ...next,
+    previous_webhook_secret: current.webhook_secret,
+    previous_webhook_secret_expires_at: new Date(now + WEBHOOK_SECRET_GRACE_PERIOD_MS).toISOString(),
+  };
+}
+
 export default WebhookIntegration;
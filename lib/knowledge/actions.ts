@@ -8,9 +8,37 @@ import { Database } from "@/types/database";
 import { trackSearchQuery, trackSearchHit, trackContextUsage } from "@/lib/knowledge/analytics";
 import { embeddingService } from "@/lib/embeddings/providers";
 import { knowledgeConfig } from "@/lib/knowledge/config";
+import { applyThreshold, reciprocalRankFusion } from "@/lib/knowledge/hybrid";
+import { rerankDocuments } from "@/lib/knowledge/rerank";
+import { splitDocument, type ChunkingOptions } from "@/lib/knowledge/chunking";
+import { INGESTION_STALLED_ERROR, isIngestionStalled, KNOWLEDGE_UPLOADS_BUCKET } from "@/lib/knowledge/ingestion";
 
-type Document = Database['public']['Tables']['documents']['Row'];
-type DocumentInsert = Database['public']['Tables']['documents']['Insert'];
+type SourceDocument = Database['public']['Tables']['source_documents']['Row'];
+
+/**
+ * A source document as listed in the dashboard
+ */
+function toDocumentSummary(document: SourceDocument, embeddingModel: string) {
+  // A run that died never marks its document failed; show it as failed so the list stops polling
+  const stalled = isIngestionStalled(document);
+
+  return {
+    id: document.id,
+    name: document.name,
+    agent_id: document.agent_id,
+    version: document.version,
+    status: stalled ? ("failed" as const) : document.status,
+    error: stalled ? INGESTION_STALLED_ERROR : document.error,
+    totalChunks: document.chunk_count,
+    chunksEmbedded: document.chunks_embedded,
+    sizeBytes: Number(document.size_bytes),
+    embeddingModel: document.embedding_model,
+    needsReindex: document.status === "indexed" && document.embedding_model !== embeddingModel,
+    indexed_at: document.indexed_at,
+    created_at: document.created_at,
+    updated_at: document.updated_at,
+  };
+}
 
 /**
  * Generate embeddings for text content using multiple providers with fallback
@@ -28,149 +56,78 @@ export async function generateEmbeddings(text: string): Promise<number[]> {
 
 /**
  * Process and chunk document content
+ * Uses knowledgeConfig.chunking unless options override it; see lib/knowledge/chunking.ts
  */
 export function chunkDocument(
   content: string,
-  maxChunkSize: number = knowledgeConfig.chunking.maxChunkSize
+  maxChunkSize: number = knowledgeConfig.chunking.maxChunkSize,
+  options: Partial<ChunkingOptions> = {}
 ): string[] {
-  // Split by paragraphs first
-  const paragraphs = content.split(/\n\s*\n/);
-  const chunks: string[] = [];
-  let currentChunk = "";
-
-  for (const paragraph of paragraphs) {
-    if (currentChunk.length + paragraph.length > maxChunkSize && currentChunk.length > 0) {
-      chunks.push(currentChunk.trim());
-      currentChunk = paragraph;
-    } else {
-      currentChunk += (currentChunk ? "\n\n" : "") + paragraph;
-    }
-  }
+  return splitDocument(content, { ...options, maxChunkSize }).map((chunk) => chunk.content);
+}
 
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim());
-  }
+/**
+ * Get one document, including its ingestion status and progress
+ */
+export async function getDocument(tenantId: string, documentId: string) {
+  const supabase = await createServerClient();
 
-  // If any chunks are still too large, split them by sentences
-  const finalChunks: string[] = [];
-  for (const chunk of chunks) {
-    if (chunk.length <= maxChunkSize) {
-      finalChunks.push(chunk);
-    } else {
-      const sentences = chunk.split(/[.!?]+/);
-      let currentSentenceChunk = "";
-      
-      for (const sentence of sentences) {
-        if (currentSentenceChunk.length + sentence.length > maxChunkSize && currentSentenceChunk.length > 0) {
-          finalChunks.push(currentSentenceChunk.trim());
-          currentSentenceChunk = sentence;
-        } else {
-          currentSentenceChunk += (currentSentenceChunk ? ". " : "") + sentence;
-        }
-      }
-      
-      if (currentSentenceChunk.trim()) {
-        finalChunks.push(currentSentenceChunk.trim());
-      }
-    }
+  const { data, error } = await supabase
+    .from("source_documents")
+    .select("*")
+    .eq("id", documentId)
+    .eq("tenant_id", tenantId)
+    .maybeSingle<SourceDocument>();
+
+  if (error) {
+    console.error("Error getting document:", error);
+    return null;
   }
 
-  return finalChunks.filter(chunk => chunk.length > 0);
+  return data ? toDocumentSummary(data, embeddingService.getPreferredProvider()) : null;
 }
 
 /**
- * Upload and process a document
+ * Documents whose chunks were embedded by a provider other than the current one
  */
-export async function uploadDocument(
-  tenantId: string,
-  agentId: string | null,
-  name: string,
-  content: string,
-  metadata: Record<string, any> = {}
-) {
+export async function getStaleDocumentIds(tenantId: string, agentId?: string): Promise<string[]> {
   const supabase = await createServerClient();
+  const embeddingModel = embeddingService.getPreferredProvider();
 
-  try {
-    // Calculate file size in bytes (UTF-8 encoding)
-    const fileSizeBytes = new TextEncoder().encode(content).length;
-    
-    // Check storage limit BEFORE processing
-    const { checkStorageLimit, incrementStorageUsage } = await import("@/lib/billing/storage");
-    const storageCheck = await checkStorageLimit(tenantId, fileSizeBytes);
-    
-    if (!storageCheck.allowed) {
-      const fileSizeMB = (fileSizeBytes / (1024 * 1024)).toFixed(2);
-      throw new Error(
-        `Storage limit reached (${storageCheck.currentMB}/${storageCheck.limitMB} MB). ` +
-        `This file is ${fileSizeMB} MB. Please upgrade your plan or delete existing documents.`
-      );
-    }
-
-    // Chunk the document
-    const chunks = chunkDocument(content);
-
-    // Process chunks - generate embeddings in parallel for better performance
-    const embeddingPromises = chunks.map((chunk, i) =>
-      embeddingService.generateEmbeddings(chunk).then(embeddingResult => ({
-        index: i,
-        chunk,
-        embeddingResult,
-      }))
-    );
+  let query = supabase
+    .from("source_documents")
+    .select("id")
+    .eq("tenant_id", tenantId)
+    .eq("status", "indexed")
+    .or(`embedding_model.is.null,embedding_model.neq.${embeddingModel}`);
 
-    // Wait for all embeddings to be generated
-    const embeddingResults = await Promise.all(embeddingPromises);
-
-    // Build documents array with embeddings
-    const documents: DocumentInsert[] = embeddingResults.map(({ index, chunk, embeddingResult }) => ({
-      tenant_id: tenantId,
-      agent_id: agentId,
-      name: chunks.length > 1 ? `${name} (Part ${index + 1})` : name,
-      content: chunk,
-      embedding: embeddingResult.embedding,
-      embedding_model: embeddingResult.provider.toLowerCase(),
-      embedding_dimensions: embeddingResult.dimensions,
-      metadata: {
-        ...metadata,
-        chunkIndex: index,
-        totalChunks: chunks.length,
-        originalFileName: name,
-        embeddingProvider: embeddingResult.provider,
-        fileSizeBytes, // Store original file size
-      },
-    }));
+  if (agentId) {
+    query = query.eq("agent_id", agentId);
+  }
 
-    // Insert all chunks
-    const { data, error } = await supabase
-      .from("documents")
-      .insert(documents)
-      .select();
+  const { data, error } = await query;
 
-    if (error) {
-      throw new Error(`Database error: ${error.message}`);
-    }
+  if (error) {
+    console.error("Error finding stale documents:", error);
+    return [];
+  }
 
-    // Increment storage usage after successful upload
-    await incrementStorageUsage(tenantId, fileSizeBytes);
+  return (data || []).map((document) => document.id);
+}
 
-    return {
-      success: true,
-      documents: data,
-      chunksCreated: chunks.length,
-      sizeBytes: fileSizeBytes,
-      sizeMB: (fileSizeBytes / (1024 * 1024)).toFixed(2),
-    };
-  } catch (error) {
-    console.error("Error uploading document:", error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Failed to upload document",
-    };
-  }
+interface SearchOptions {
+  /** Record the search in knowledge analytics (default true) */
+  trackAnalytics?: boolean;
+  /** Fuse full-text matches with vector results (default knowledgeConfig.retrieval.hybrid) */
+  hybrid?: boolean;
+  /** Rerank fused results (default knowledgeConfig.retrieval.rerank) */
+  rerank?: boolean;
 }
 
 /**
- * Search documents using vector similarity
+ * Search documents by vector similarity, fused with full-text matches in hybrid mode
+ * Results are ordered by fused score (or reranker relevance); similarity is only
+ * set for chunks the vector search found.
  */
 export async function searchDocuments(
   tenantId: string,
@@ -178,59 +135,90 @@ export async function searchDocuments(
   agentId?: string,
   limit: number = knowledgeConfig.search.defaultLimit,
   threshold: number = knowledgeConfig.search.defaultThreshold,
-  userSession?: string
+  userSession?: string,
+  options: SearchOptions = {}
 ) {
   const supabase = await createServerClient();
   const startTime = Date.now();
+  const hybrid = options.hybrid ?? knowledgeConfig.retrieval.hybrid;
+  const rerank = options.rerank ?? knowledgeConfig.retrieval.rerank;
+
+  // Fetch extra candidates when they will be fused or reranked before trimming
+  const candidateCount = hybrid || rerank ? limit * knowledgeConfig.retrieval.candidateMultiplier : limit;
 
   try {
     // Generate embedding for the query
     const queryEmbeddingResult = await embeddingService.generateEmbeddings(query);
 
-    // Use the match_documents function
-    const { data, error } = await supabase.rpc("match_documents", {
-      query_embedding: queryEmbeddingResult.embedding,
-      match_threshold: threshold,
-      match_count: limit,
-      filter_tenant_id: tenantId,
-      filter_agent_id: agentId || null,
-      filter_embedding_model: queryEmbeddingResult.provider.toLowerCase(),
-    });
+    const [vectorSearch, keywordSearch] = await Promise.all([
+      supabase.rpc("match_documents", {
+        query_embedding: queryEmbeddingResult.embedding,
+        match_threshold: Math.max(0, threshold - (hybrid ? knowledgeConfig.retrieval.keywordThresholdMargin : 0)),
+        match_count: candidateCount,
+        filter_tenant_id: tenantId,
+        filter_agent_id: agentId || null,
+        filter_embedding_model: queryEmbeddingResult.provider.toLowerCase(),
+      }),
+      hybrid
+        ? supabase.rpc("match_documents_keyword", {
+            query_text: query,
+            match_count: candidateCount,
+            filter_tenant_id: tenantId,
+            filter_agent_id: agentId || null,
+          })
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+
+    if (vectorSearch.error) {
+      throw new Error(`Search error: ${vectorSearch.error.message}`);
+    }
 
-    if (error) {
-      throw new Error(`Search error: ${error.message}`);
+    // Full-text search is additive; vector results still answer without it
+    if (keywordSearch.error) {
+      console.error("[RAG] Keyword search failed, using vector results only:", keywordSearch.error);
+    }
+
+    let fused = applyThreshold(
+      reciprocalRankFusion(vectorSearch.data || [], keywordSearch.error ? [] : keywordSearch.data || []),
+      threshold
+    );
+
+    if (rerank) {
+      fused = await rerankDocuments(query, fused);
     }
 
     const executionTime = Date.now() - startTime;
-    const results = data || [];
+    const results = fused.slice(0, limit);
     
-    // Track analytics
-    try {
-      // Track the search query
-      await trackSearchQuery(
-        tenantId,
-        agentId || null,
-        query,
-        results.length,
-        results[0]?.similarity || null,
-        executionTime,
-        userSession
-      );
-
-      // Track individual document hits
-      for (const doc of results) {
-        await trackSearchHit(
+    // Track analytics (skipped for agent dry runs)
+    if (options.trackAnalytics !== false) {
+      try {
+        // Track the search query
+        await trackSearchQuery(
           tenantId,
           agentId || null,
-          doc.id,
           query,
-          doc.similarity || 0,
+          results.length,
+          Math.max(0, ...results.map((doc) => doc.similarity ?? 0)) || null, // Best vector match; the top fused result may be keyword-only
+          executionTime,
           userSession
         );
+
+        // Track individual document hits
+        for (const doc of results) {
+          await trackSearchHit(
+            tenantId,
+            agentId || null,
+            doc.id,
+            query,
+            doc.similarity || 0,
+            userSession
+          );
+        }
+      } catch (analyticsError) {
+        console.error("Analytics tracking failed:", analyticsError);
+        // Don't fail the search if analytics fails
       }
-    } catch (analyticsError) {
-      console.error("Analytics tracking failed:", analyticsError);
-      // Don't fail the search if analytics fails
     }
 
     return {
@@ -240,19 +228,21 @@ export async function searchDocuments(
   } catch (error) {
     console.error("Error searching documents:", error);
     
-    // Track failed search
-    try {
-      await trackSearchQuery(
-        tenantId,
-        agentId || null,
-        query,
-        0,
-        null,
-        Date.now() - startTime,
-        userSession
-      );
-    } catch (analyticsError) {
-      console.error("Analytics tracking failed:", analyticsError);
+    // Track failed search (skipped for agent dry runs)
+    if (options.trackAnalytics !== false) {
+      try {
+        await trackSearchQuery(
+          tenantId,
+          agentId || null,
+          query,
+          0,
+          null,
+          Date.now() - startTime,
+          userSession
+        );
+      } catch (analyticsError) {
+        console.error("Analytics tracking failed:", analyticsError);
+      }
     }
     
     return {
@@ -270,61 +260,44 @@ export async function getDocuments(
   tenantId: string,
   agentId?: string,
   page: number = 1,
-  pageSize: number = knowledgeConfig.pagination.defaultPageSize
+  pageSize: number = knowledgeConfig.pagination.defaultPageSize,
+  search?: string
 ) {
   const supabase = await createServerClient();
 
   try {
     // Validate and cap page size
     const effectivePageSize = Math.min(pageSize, knowledgeConfig.pagination.maxPageSize);
+    const from = (page - 1) * effectivePageSize;
 
     let query = supabase
-      .from("documents")
-      .select("*", { count: 'exact' })
+      .from("source_documents")
+      .select("*", { count: "exact" })
       .eq("tenant_id", tenantId)
-      .order("created_at", { ascending: false });
+      .order("updated_at", { ascending: false })
+      .range(from, from + effectivePageSize - 1);
 
     if (agentId) {
       query = query.eq("agent_id", agentId);
     }
 
-    // Fetch all documents first to group by original file
-    const { data: allDocs, error, count } = await query;
+    if (search?.trim()) {
+      query = query.ilike("name", `%${search.trim().replace(/[\\%_]/g, "\\$&")}%`);
+    }
+
+    const { data, error, count } = await query;
 
     if (error) {
       throw new Error(`Database error: ${error.message}`);
     }
 
-    // Group chunks by original document
-    const groupedDocs = new Map();
-
-    for (const doc of allDocs || []) {
-      const originalName = doc.metadata?.originalFileName || doc.name;
-      if (!groupedDocs.has(originalName)) {
-        groupedDocs.set(originalName, {
-          id: doc.id,
-          name: originalName,
-          totalChunks: doc.metadata?.totalChunks || 1,
-          chunks: [],
-          created_at: doc.created_at,
-          agent_id: doc.agent_id,
-        });
-      }
-      groupedDocs.get(originalName).chunks.push(doc);
-    }
-
-    const allGroupedDocs = Array.from(groupedDocs.values());
-    const totalDocuments = allGroupedDocs.length;
+    const embeddingModel = embeddingService.getPreferredProvider();
+    const totalDocuments = count || 0;
     const totalPages = Math.ceil(totalDocuments / effectivePageSize);
 
-    // Apply pagination to grouped results
-    const startIndex = (page - 1) * effectivePageSize;
-    const endIndex = startIndex + effectivePageSize;
-    const paginatedDocs = allGroupedDocs.slice(startIndex, endIndex);
-
     return {
       success: true,
-      documents: paginatedDocs,
+      documents: ((data || []) as SourceDocument[]).map((document) => toDocumentSummary(document, embeddingModel)),
       pagination: {
         page,
         pageSize: effectivePageSize,
@@ -353,49 +326,53 @@ export async function getDocuments(
 /**
  * Delete a document (all chunks)
  */
-export async function deleteDocument(tenantId: string, documentName: string) {
+export async function deleteDocument(tenantId: string, documentId: string) {
   const supabase = await createServerClient();
 
   try {
-    // First, get all chunks for this document to verify it exists and get file size
-    const { data: chunks, error: selectError } = await supabase
-      .from("documents")
-      .select("id, metadata")
+    const { data: document, error: selectError } = await supabase
+      .from("source_documents")
+      .select("id, name, size_bytes, staged_path")
+      .eq("id", documentId)
       .eq("tenant_id", tenantId)
-      .eq("metadata->>originalFileName", documentName);
+      .maybeSingle();
 
     if (selectError) {
       throw new Error(`Database error: ${selectError.message}`);
     }
 
-    if (!chunks || chunks.length === 0) {
+    if (!document) {
       return {
         success: false,
         error: "Document not found",
       };
     }
 
-    // Get original file size from metadata (stored in first chunk)
-    const fileSizeBytes = chunks[0]?.metadata?.fileSizeBytes || 0;
-
-    // Delete all chunks for this document
+    // Chunks are removed with their source document
     const { error } = await supabase
-      .from("documents")
+      .from("source_documents")
       .delete()
-      .eq("tenant_id", tenantId)
-      .eq("metadata->>originalFileName", documentName);
+      .eq("id", documentId)
+      .eq("tenant_id", tenantId);
 
     if (error) {
       throw new Error(`Database error: ${error.message}`);
     }
 
+    // Drop an upload that was still waiting to be ingested
+    if (document.staged_path) {
+      const { createServiceClient } = await import("@/lib/supabase/service");
+      await createServiceClient().storage.from(KNOWLEDGE_UPLOADS_BUCKET).remove([document.staged_path]);
+    }
+
     // Decrement storage usage
+    const fileSizeBytes = Number(document.size_bytes) || 0;
     if (fileSizeBytes > 0) {
       const { decrementStorageUsage } = await import("@/lib/billing/storage");
       await decrementStorageUsage(tenantId, fileSizeBytes);
     }
 
-    return { success: true, freedBytes: fileSizeBytes };
+    return { success: true, name: document.name as string, freedBytes: fileSizeBytes };
   } catch (error) {
     console.error("Error deleting document:", error);
     return {
@@ -403,4 +380,4 @@ export async function deleteDocument(tenantId: string, documentName: string) {
       error: error instanceof Error ? error.message : "Failed to delete document",
     };
   }
-}
\ No newline at end of file
+}
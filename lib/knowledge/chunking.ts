@@ -0,0 +1,284 @@
+/**
+ * Document Chunking
+ * Splits documents into embedding-sized chunks with the configured strategy, overlap and size unit
+ */
+
+import { estimateTokens } from "@/lib/agents/budget";
+import { knowledgeConfig } from "./config";
+
+export type ChunkingStrategy = "paragraph" | "sentence" | "fixed" | "markdown";
+
+export interface ChunkingOptions {
+  /**
+   * paragraph: keeps paragraphs whole when they fit, splitting long ones by sentence
+   * sentence: packs sentences, so a paragraph may continue in the next chunk
+   * fixed: packs words up to the size, ignoring sentences
+   * markdown: paragraph chunking within each heading section
+   */
+  strategy: ChunkingStrategy;
+  /** Maximum chunk size, overlap included */
+  maxChunkSize: number;
+  /** Trailing text of the previous chunk repeated at the start of the next */
+  overlapSize: number;
+  /** What maxChunkSize and overlapSize count */
+  unit: "characters" | "tokens";
+}
+
+export interface DocumentChunk {
+  content: string;
+  /** Headings the chunk sits under, outermost first (markdown strategy) */
+  headingPath?: string[];
+}
+
+/**
+ * A piece of text and the separator that goes before it when joined to the previous piece
+ */
+interface Unit {
+  text: string;
+  separator: string;
+}
+
+/** Words a period follows without ending the sentence */
+const ABBREVIATIONS = new Set([
+  "mr", "mrs", "ms", "dr", "prof", "sr", "jr", "st", "mt", "vs", "etc", "e.g", "i.e", "cf", "al",
+  "inc", "ltd", "co", "corp", "llc", "dept", "approx", "fig", "vol", "pp", "ca",
+  "jan", "feb", "mar", "apr", "jun", "jul", "aug", "sep", "sept", "oct", "nov", "dec",
+  "u.s", "u.k", "a.m", "p.m",
+]);
+
+/**
+ * Split text into sentences, keeping their punctuation
+ * Decimals (3.5), versions (v1.2.0) and common abbreviations (e.g., Dr.) don't end a sentence.
+ */
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  const boundary = /[.!?]+["'”’)\]]*(?=\s|$)/g;
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+
+    if (match[0] === ".") {
+      const word = text.slice(start, match.index).match(/([\p{L}.]+)$/u)?.[1].toLowerCase() || "";
+      const next = text.slice(end).trimStart().charAt(0);
+      const isInitial = /^\p{L}$/u.test(word);
+
+      if (ABBREVIATIONS.has(word) || isInitial || /\p{Ll}/u.test(next)) continue;
+    }
+
+    const sentence = text.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+
+  const rest = text.slice(start).trim();
+  if (rest) sentences.push(rest);
+
+  return sentences;
+}
+
+function splitParagraphs(text: string): string[] {
+  return text.split(/\n\s*\n/).map((paragraph) => paragraph.trim()).filter(Boolean);
+}
+
+function sizer(unit: ChunkingOptions["unit"]): (text: string) => number {
+  return unit === "tokens" ? estimateTokens : (text) => text.length;
+}
+
+/**
+ * Cut text with no usable boundaries (long URLs, base64) into pieces that fit
+ */
+function hardSplit(text: string, limit: number, size: (text: string) => number): string[] {
+  const pieces: string[] = [];
+  let rest = text;
+
+  while (rest) {
+    let end = Math.max(1, Math.floor((limit * rest.length) / Math.max(1, size(rest))));
+    while (end > 1 && size(rest.slice(0, end)) > limit) end--;
+    pieces.push(rest.slice(0, end));
+    rest = rest.slice(end);
+  }
+
+  return pieces;
+}
+
+/**
+ * Break text into units no larger than the limit
+ * Each level is only split into the next (sentences, then words, then characters) when it doesn't fit.
+ */
+function toUnits(
+  text: string,
+  levels: Array<"sentence" | "word">,
+  separator: string,
+  limit: number,
+  size: (text: string) => number
+): Unit[] {
+  if (size(text) <= limit) return [{ text, separator }];
+
+  const [level, ...finer] = levels;
+  if (!level) {
+    return hardSplit(text, limit, size).map((piece, i) => ({ text: piece, separator: i === 0 ? separator : "" }));
+  }
+
+  const parts = level === "sentence" ? splitSentences(text) : text.split(/\s+/).filter(Boolean);
+
+  return parts.flatMap((part, i) => toUnits(part, finer, i === 0 ? separator : " ", limit, size));
+}
+
+/**
+ * Trailing units of a chunk that fit in the overlap, ending with a partial unit when
+ * even the last one is too long
+ */
+function overlapTail(units: Unit[], overlap: number, size: (text: string) => number): Unit[] {
+  const tail: Unit[] = [];
+  let used = 0;
+
+  for (let i = units.length - 1; i >= 0; i--) {
+    const unitSize = size(units[i].text);
+    if (used + unitSize > overlap) {
+      if (tail.length === 0) {
+        const words = units[i].text.split(/\s+/);
+        const kept: string[] = [];
+        while (words.length && size([words[words.length - 1], ...kept].join(" ")) <= overlap) {
+          kept.unshift(words.pop()!);
+        }
+        if (kept.length) tail.unshift({ text: kept.join(" "), separator: units[i].separator });
+      }
+      break;
+    }
+    tail.unshift(units[i]);
+    used += unitSize;
+  }
+
+  return tail;
+}
+
+function join(units: Unit[]): string {
+  return units.map((unit, i) => (i === 0 ? unit.text : unit.separator + unit.text)).join("").trim();
+}
+
+/**
+ * Greedily fill chunks with units, starting each chunk after the first with the previous one's tail
+ */
+function pack(units: Unit[], options: ChunkingOptions): string[] {
+  const size = sizer(options.unit);
+  const chunks: string[] = [];
+  let current: Unit[] = [];
+  let fresh = 0; // Units in current that aren't overlap
+
+  for (const unit of units) {
+    const candidate = join([...current, unit]);
+    if (fresh > 0 && size(candidate) > options.maxChunkSize) {
+      chunks.push(join(current));
+      current = options.overlapSize > 0 ? overlapTail(current.slice(-fresh), options.overlapSize, size) : [];
+      fresh = 0;
+
+      // The overlap gives way when it would push a unit over the limit
+      while (current.length && size(join([...current, unit])) > options.maxChunkSize) current.shift();
+    }
+    current.push(unit);
+    fresh++;
+  }
+
+  if (fresh > 0) chunks.push(join(current));
+
+  return chunks.filter(Boolean);
+}
+
+/**
+ * Paragraphs broken into the strategy's units, each small enough to fit a chunk
+ */
+function textUnits(text: string, options: ChunkingOptions): Unit[] {
+  const size = sizer(options.unit);
+  // Leave room for the overlap so a unit never has to drop it entirely
+  const limit = Math.max(1, options.maxChunkSize - options.overlapSize);
+
+  return splitParagraphs(text).flatMap((paragraph) => {
+    switch (options.strategy) {
+      case "sentence":
+        return splitSentences(paragraph).flatMap((sentence, i) =>
+          toUnits(sentence, ["word"], i === 0 ? "\n\n" : " ", limit, size)
+        );
+      case "fixed":
+        return paragraph.split(/\s+/).flatMap((word, i) => toUnits(word, [], i === 0 ? "\n\n" : " ", limit, size));
+      default:
+        return toUnits(paragraph, ["sentence", "word"], "\n\n", limit, size);
+    }
+  });
+}
+
+/**
+ * Sections of a markdown document, each with its heading path
+ * Lines inside fenced code blocks are never treated as headings.
+ */
+export function splitMarkdownSections(content: string): Array<{ text: string; headingPath: string[] }> {
+  const sections: Array<{ text: string; headingPath: string[] }> = [];
+  const path: Array<{ level: number; title: string }> = [];
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = lines.join("\n").trim();
+    // A heading directly followed by a subheading has no content of its own
+    if (text && !/^#{1,6}\s[^\n]*$/.test(text)) {
+      sections.push({ text, headingPath: path.map((heading) => heading.title) });
+    }
+    lines = [];
+  };
+
+  for (const line of content.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+
+    const heading = !inFence && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      while (path.length && path[path.length - 1].level >= level) path.pop();
+      path.push({ level, title: heading[2] });
+    }
+    lines.push(line);
+  }
+  flush();
+
+  return sections;
+}
+
+/**
+ * Chunking options from knowledgeConfig.chunking, with overrides
+ * Overlap is capped at half the chunk size so chunks always make progress.
+ */
+export function resolveChunkingOptions(overrides: Partial<ChunkingOptions> = {}): ChunkingOptions {
+  const options = { ...knowledgeConfig.chunking, ...overrides };
+  const maxChunkSize = Math.max(1, options.maxChunkSize);
+
+  return {
+    strategy: options.strategy,
+    maxChunkSize,
+    overlapSize: Math.min(Math.max(0, options.overlapSize), Math.floor(maxChunkSize / 2)),
+    unit: options.unit,
+  };
+}
+
+/**
+ * Split a document into chunks
+ */
+export function splitDocument(content: string, overrides: Partial<ChunkingOptions> = {}): DocumentChunk[] {
+  const options = resolveChunkingOptions(overrides);
+
+  if (options.strategy === "markdown") {
+    return splitMarkdownSections(content).flatMap(({ text, headingPath }) =>
+      pack(textUnits(text, options), options).map((chunk) => ({ content: chunk, headingPath }))
+    );
+  }
+
+  return pack(textUnits(content, options), options).map((chunk) => ({ content: chunk }));
+}
+
+/**
+ * Strategy for an uploaded file: markdown files are split by heading, others use the configured strategy
+ */
+export function strategyForFile(name: string, fileType?: string): ChunkingStrategy {
+  if (fileType === "text/markdown" || /\.(md|markdown|mdx)$/i.test(name)) return "markdown";
+  return knowledgeConfig.chunking.strategy;
+}
@@ -3,19 +3,32 @@
  * Client-side functions that call API routes for document management
  */
 
+export type IngestionStatus = 'queued' | 'extracting' | 'chunking' | 'embedding' | 'indexed' | 'failed';
+
 export interface Document {
   id: string;
   name: string;
+  agent_id: string | null;
+  version: number;
+  status: IngestionStatus;
+  error: string | null;
   totalChunks: number;
-  chunks: any[];
+  /** Chunks embedded so far; equals totalChunks once indexed */
+  chunksEmbedded: number;
+  sizeBytes: number;
+  embeddingModel: string | null;
+  /** Chunks were embedded by a provider other than the current one */
+  needsReindex: boolean;
+  /** When the current version finished indexing; null until the first ingestion completes */
+  indexed_at: string | null;
   created_at: string;
-  agent_id: string | null;
+  updated_at: string;
 }
 
 export interface UploadResult {
   success: boolean;
-  documents?: any[];
-  chunksCreated?: number;
+  /** The queued document; poll getDocumentStatus until it is indexed or failed */
+  document?: Document;
   error?: string;
 }
 
@@ -28,30 +41,31 @@ export interface SearchResult {
 export interface ListResult {
   success: boolean;
   documents: Document[];
+  pagination?: {
+    page: number;
+    pageSize: number;
+    totalDocuments: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
   error?: string;
 }
 
 /**
- * Upload a document to the knowledge base
+ * Upload a file to the knowledge base
+ * The file is ingested in the background; the returned document starts out queued.
  */
-export async function uploadDocument(
-  name: string,
-  content: string,
-  agentId?: string,
-  metadata: Record<string, any> = {}
-): Promise<UploadResult> {
+export async function uploadDocument(file: File, agentId?: string): Promise<UploadResult> {
   try {
+    const formData = new FormData();
+    formData.append('file', file);
+    if (agentId) {
+      formData.append('agentId', agentId);
+    }
+
     const response = await fetch('/api/knowledge', {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        name,
-        content,
-        agentId: agentId || null,
-        metadata,
-      }),
+      body: formData,
     });
 
     const data = await response.json();
@@ -74,14 +88,57 @@ export async function uploadDocument(
 }
 
 /**
- * Get all documents for the current user/agent
+ * Get a document's ingestion status and progress
  */
-export async function getDocuments(agentId?: string): Promise<ListResult> {
+export async function getDocumentStatus(documentId: string): Promise<{ success: boolean; document?: Document; error?: string }> {
+  try {
+    const url = new URL('/api/knowledge', window.location.origin);
+    url.searchParams.set('id', documentId);
+
+    const response = await fetch(url.toString(), {
+      method: 'GET',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || 'Failed to fetch document',
+      };
+    }
+
+    return { success: true, document: data.document };
+  } catch (error) {
+    console.error('Error fetching document status:', error);
+    return {
+      success: false,
+      error: 'Network error occurred',
+    };
+  }
+}
+
+/**
+ * Get a page of documents for the current user/agent, optionally filtered by name
+ */
+export async function getDocuments(
+  agentId?: string,
+  options: { page?: number; pageSize?: number; search?: string } = {}
+): Promise<ListResult> {
   try {
     const url = new URL('/api/knowledge', window.location.origin);
     if (agentId) {
       url.searchParams.set('agentId', agentId);
     }
+    if (options.page) {
+      url.searchParams.set('page', String(options.page));
+    }
+    if (options.pageSize) {
+      url.searchParams.set('pageSize', String(options.pageSize));
+    }
+    if (options.search) {
+      url.searchParams.set('search', options.search);
+    }
 
     const response = await fetch(url.toString(), {
       method: 'GET',
@@ -100,6 +157,7 @@ export async function getDocuments(agentId?: string): Promise<ListResult> {
     return {
       success: true,
       documents: data.documents || [],
+      pagination: data.pagination,
     };
   } catch (error) {
     console.error('Error fetching documents:', error);
@@ -114,10 +172,10 @@ export async function getDocuments(agentId?: string): Promise<ListResult> {
 /**
  * Delete a document from the knowledge base
  */
-export async function deleteDocument(documentName: string): Promise<{ success: boolean; error?: string }> {
+export async function deleteDocument(documentId: string): Promise<{ success: boolean; error?: string }> {
   try {
     const url = new URL('/api/knowledge', window.location.origin);
-    url.searchParams.set('name', documentName);
+    url.searchParams.set('id', documentId);
 
     const response = await fetch(url.toString(), {
       method: 'DELETE',
@@ -140,4 +198,202 @@ export async function deleteDocument(documentName: string): Promise<{ success: b
       error: 'Network error occurred',
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Queue re-embedding of one document, or the next batch of documents embedded by a previous provider
+ */
+export async function reindexDocuments(
+  options: { documentId?: string; agentId?: string } = {}
+): Promise<{ success: boolean; queued?: number; remaining?: number; error?: string }> {
+  try {
+    const response = await fetch('/api/knowledge/reindex', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(options),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || 'Failed to re-index documents',
+      };
+    }
+
+    return { success: true, queued: data.queued, remaining: data.remaining };
+  } catch (error) {
+    console.error('Error re-indexing documents:', error);
+    return {
+      success: false,
+      error: 'Network error occurred',
+    };
+  }
+}
+
+export type KnowledgeSourceStatus = 'queued' | 'crawling' | 'ready' | 'failed';
+
+export interface KnowledgeSource {
+  id: string;
+  type: 'website' | 'sitemap';
+  url: string;
+  agent_id: string | null;
+  maxDepth: number;
+  maxPages: number;
+  /** Hours between automatic re-crawls; null crawls only on demand */
+  recrawlIntervalHours: number | null;
+  status: KnowledgeSourceStatus;
+  error: string | null;
+  pageCount: number;
+  lastCrawlStats: {
+    pages?: number;
+    queued?: number;
+    unchanged?: number;
+    removed?: number;
+    skipped?: number;
+    complete?: boolean;
+    errors?: string[];
+  };
+  lastCrawledAt: string | null;
+  nextCrawlAt: string | null;
+  created_at: string;
+}
+
+/**
+ * List the websites and sitemaps crawled into the knowledge base
+ */
+export async function getKnowledgeSources(
+  agentId?: string
+): Promise<{ success: boolean; sources: KnowledgeSource[]; error?: string }> {
+  try {
+    const url = new URL('/api/knowledge/sources', window.location.origin);
+    if (agentId) {
+      url.searchParams.set('agentId', agentId);
+    }
+
+    const response = await fetch(url.toString());
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        sources: [],
+        error: data.error || 'Failed to fetch knowledge sources',
+      };
+    }
+
+    return { success: true, sources: data.sources };
+  } catch (error) {
+    console.error('Error fetching knowledge sources:', error);
+    return {
+      success: false,
+      sources: [],
+      error: 'Network error occurred',
+    };
+  }
+}
+
+/**
+ * Add a website or sitemap; its first crawl runs in the background
+ */
+export async function addKnowledgeSource(input: {
+  url: string;
+  type: 'website' | 'sitemap';
+  agentId?: string;
+  maxDepth?: number;
+  maxPages?: number;
+  recrawlIntervalHours?: number | null;
+}): Promise<{ success: boolean; source?: KnowledgeSource; error?: string }> {
+  try {
+    const response = await fetch('/api/knowledge/sources', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(input),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || 'Failed to add knowledge source',
+      };
+    }
+
+    return { success: true, source: data.source };
+  } catch (error) {
+    console.error('Error adding knowledge source:', error);
+    return {
+      success: false,
+      error: 'Network error occurred',
+    };
+  }
+}
+
+/**
+ * Re-crawl a website or sitemap now
+ */
+export async function crawlKnowledgeSource(sourceId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const response = await fetch('/api/knowledge/sources/crawl', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ sourceId }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || 'Failed to start crawl',
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error starting crawl:', error);
+    return {
+      success: false,
+      error: 'Network error occurred',
+    };
+  }
+}
+
+/**
+ * Delete a website or sitemap and all of its crawled pages
+ */
+export async function deleteKnowledgeSource(sourceId: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const url = new URL('/api/knowledge/sources', window.location.origin);
+    url.searchParams.set('id', sourceId);
+
+    const response = await fetch(url.toString(), {
+      method: 'DELETE',
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: data.error || 'Failed to delete knowledge source',
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error deleting knowledge source:', error);
+    return {
+      success: false,
+      error: 'Network error occurred',
+    };
+  }
+}
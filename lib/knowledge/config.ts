@@ -8,14 +8,17 @@ export const knowledgeConfig = {
    * Document Chunking Configuration
    */
   chunking: {
-    /** Maximum characters per chunk */
+    /** Maximum chunk size, in chunking.unit */
     maxChunkSize: parseInt(process.env.CHUNK_SIZE || '1000'),
 
-    /** Overlap between chunks (characters) - helps preserve context */
+    /** Overlap between chunks, in chunking.unit - helps preserve context */
     overlapSize: parseInt(process.env.CHUNK_OVERLAP || '0'),
 
-    /** Chunking strategy: 'paragraph' | 'sentence' | 'fixed' */
-    strategy: (process.env.CHUNK_STRATEGY || 'paragraph') as 'paragraph' | 'sentence' | 'fixed',
+    /** Chunking strategy: 'paragraph' | 'sentence' | 'fixed' | 'markdown' (markdown files always use 'markdown') */
+    strategy: (process.env.CHUNK_STRATEGY || 'paragraph') as 'paragraph' | 'sentence' | 'fixed' | 'markdown',
+
+    /** What CHUNK_SIZE and CHUNK_OVERLAP count: 'characters' | 'tokens' (estimated, ~4 characters each) */
+    unit: (process.env.CHUNK_SIZE_UNIT || 'characters') as 'characters' | 'tokens',
   },
 
   /**
@@ -32,8 +35,33 @@ export const knowledgeConfig = {
     maxLimit: parseInt(process.env.SEARCH_MAX_LIMIT || '50'),
   },
 
+  /**
+   * Hybrid Retrieval Configuration
+   * Full-text and vector results fused with reciprocal rank fusion, then optionally reranked
+   */
+  retrieval: {
+    /** Fuse full-text matches with vector results (set HYBRID_SEARCH=false for vector only) */
+    hybrid: process.env.HYBRID_SEARCH !== 'false',
+
+    /** Reciprocal rank fusion constant - higher values flatten the advantage of top ranks */
+    rrfK: parseInt(process.env.RRF_K || '60'),
+
+    /** Candidates fetched from each retriever per requested result */
+    candidateMultiplier: parseInt(process.env.RETRIEVAL_CANDIDATE_MULTIPLIER || '4'),
+
+    /** How far below the threshold a vector match may be when full-text search also found it */
+    keywordThresholdMargin: parseFloat(process.env.KEYWORD_THRESHOLD_MARGIN || '0.1'),
+
+    /** Rerank fused results before trimming to the limit (needs COHERE_API_KEY) */
+    rerank: process.env.RERANK_ENABLED === 'true',
+
+    /** Cohere rerank model */
+    rerankModel: process.env.RERANK_MODEL || 'rerank-v3.5',
+  },
+
   /**
    * RAG (Retrieval Augmented Generation) Configuration
+   * Agents can override these in config.retrieval (contextLimit, threshold, hybrid, rerank)
    */
   rag: {
     /** Number of documents to include in chat context */
@@ -67,6 +95,34 @@ export const knowledgeConfig = {
     ],
   },
 
+  /**
+   * Website Crawler Configuration
+   * Used by website and sitemap knowledge sources (lib/knowledge/crawler.ts)
+   */
+  crawler: {
+    /** Links followed from the start URL (0 = start page only) */
+    defaultMaxDepth: parseInt(process.env.CRAWL_MAX_DEPTH || '2'),
+
+    /** Pages stored per crawl */
+    defaultMaxPages: parseInt(process.env.CRAWL_MAX_PAGES || '50'),
+
+    /** Highest depth and page limit a source may ask for */
+    maxDepthLimit: 5,
+    maxPagesLimit: parseInt(process.env.CRAWL_MAX_PAGES_LIMIT || '500'),
+
+    /** Minimum delay between requests to a site; a longer robots.txt Crawl-delay wins (up to 10s) */
+    requestDelayMs: parseInt(process.env.CRAWL_DELAY_MS || '500'),
+
+    /** Per-request timeout */
+    requestTimeoutMs: parseInt(process.env.CRAWL_TIMEOUT_MS || '15000'),
+
+    /** Pages larger than this are skipped */
+    maxPageBytes: 2 * 1024 * 1024,
+
+    /** Sent with every request and matched against robots.txt groups */
+    userAgent: process.env.CRAWLER_USER_AGENT || 'ZaptaBot/1.0',
+  },
+
   /**
    * Pagination Configuration
    */
@@ -88,7 +144,13 @@ export const knowledgeConfig = {
     /** Maximum concurrent embedding requests */
     maxConcurrentEmbeddings: parseInt(process.env.MAX_CONCURRENT_EMBEDDINGS || '5'),
 
-    /** Enable embedding cache (for future implementation) */
+    /** Chunks embedded and stored together during ingestion; progress is reported per batch */
+    embeddingBatchSize: parseInt(process.env.EMBEDDING_BATCH_SIZE || '32'),
+
+    /** Attempts per embedding batch before an ingestion attempt fails */
+    embeddingRetries: parseInt(process.env.EMBEDDING_RETRIES || '3'),
+
+    /** Reuse embeddings of identical text, in memory and in the embedding_cache table */
     enableEmbeddingCache: process.env.ENABLE_EMBEDDING_CACHE === 'true',
 
     /** Cache TTL in seconds */
@@ -113,12 +175,23 @@ export const knowledgeConfig = {
 export function validateConfig(): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
 
-  // Validate chunking
-  if (knowledgeConfig.chunking.maxChunkSize < 100) {
-    errors.push('CHUNK_SIZE must be at least 100');
+  // Validate chunking (token limits are the character limits / 4)
+  const { chunking } = knowledgeConfig;
+  const [minChunkSize, maxChunkSize] = chunking.unit === 'tokens' ? [25, 2500] : [100, 10000];
+  if (chunking.maxChunkSize < minChunkSize) {
+    errors.push(`CHUNK_SIZE must be at least ${minChunkSize} ${chunking.unit}`);
+  }
+  if (chunking.maxChunkSize > maxChunkSize) {
+    errors.push(`CHUNK_SIZE must be at most ${maxChunkSize} ${chunking.unit}`);
   }
-  if (knowledgeConfig.chunking.maxChunkSize > 10000) {
-    errors.push('CHUNK_SIZE must be at most 10000');
+  if (chunking.overlapSize < 0 || chunking.overlapSize > chunking.maxChunkSize / 2) {
+    errors.push('CHUNK_OVERLAP must be between 0 and half of CHUNK_SIZE');
+  }
+  if (!['paragraph', 'sentence', 'fixed', 'markdown'].includes(chunking.strategy)) {
+    errors.push("CHUNK_STRATEGY must be 'paragraph', 'sentence', 'fixed' or 'markdown'");
+  }
+  if (!['characters', 'tokens'].includes(chunking.unit)) {
+    errors.push("CHUNK_SIZE_UNIT must be 'characters' or 'tokens'");
   }
 
   // Validate search thresholds
@@ -129,6 +202,13 @@ export function validateConfig(): { valid: boolean; errors: string[] } {
     errors.push('RAG_CONTEXT_THRESHOLD must be between 0 and 1');
   }
 
+  if (knowledgeConfig.retrieval.rrfK < 1) {
+    errors.push('RRF_K must be at least 1');
+  }
+  if (knowledgeConfig.retrieval.candidateMultiplier < 1) {
+    errors.push('RETRIEVAL_CANDIDATE_MULTIPLIER must be at least 1');
+  }
+
   // Validate limits
   if (knowledgeConfig.search.defaultLimit < 1) {
     errors.push('SEARCH_LIMIT must be at least 1');
@@ -137,6 +217,27 @@ export function validateConfig(): { valid: boolean; errors: string[] } {
     errors.push('RAG_CONTEXT_LIMIT must be at least 1');
   }
 
+  if (knowledgeConfig.performance.maxConcurrentEmbeddings < 1) {
+    errors.push('MAX_CONCURRENT_EMBEDDINGS must be at least 1');
+  }
+  if (knowledgeConfig.performance.embeddingBatchSize < 1) {
+    errors.push('EMBEDDING_BATCH_SIZE must be at least 1');
+  }
+  if (knowledgeConfig.performance.embeddingRetries < 1) {
+    errors.push('EMBEDDING_RETRIES must be at least 1');
+  }
+
+  const { crawler } = knowledgeConfig;
+  if (crawler.defaultMaxDepth < 0 || crawler.defaultMaxDepth > crawler.maxDepthLimit) {
+    errors.push(`CRAWL_MAX_DEPTH must be between 0 and ${crawler.maxDepthLimit}`);
+  }
+  if (crawler.defaultMaxPages < 1 || crawler.defaultMaxPages > crawler.maxPagesLimit) {
+    errors.push('CRAWL_MAX_PAGES must be between 1 and CRAWL_MAX_PAGES_LIMIT');
+  }
+  if (crawler.requestDelayMs < 0) {
+    errors.push('CRAWL_DELAY_MS must not be negative');
+  }
+
   // Validate file size
   if (knowledgeConfig.upload.maxFileSize < 1024) {
     errors.push('MAX_FILE_SIZE must be at least 1024 bytes (1KB)');
@@ -156,6 +257,7 @@ export function logConfig() {
     console.log('Knowledge Base Configuration:', {
       chunking: knowledgeConfig.chunking,
       search: knowledgeConfig.search,
+      retrieval: knowledgeConfig.retrieval,
       rag: knowledgeConfig.rag,
       upload: {
         ...knowledgeConfig.upload,
@@ -0,0 +1,473 @@
+/**
+ * Website Crawler
+ * Breadth-first crawl of one site (or the pages a sitemap lists) within depth and page
+ * limits, honouring robots.txt and robots meta tags, deduping pages by canonical URL
+ * and handing each page's main content to a callback
+ */
+
+import dns, { type LookupAddress } from "dns";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { Readable } from "stream";
+import { knowledgeConfig } from "@/lib/knowledge/config";
+import { extractHtmlContent, decodeEntities } from "@/lib/knowledge/html";
+import { parseRobotsTxt, ALLOW_ALL, type RobotsRules } from "@/lib/knowledge/robots";
+
+export type CrawlMode = "website" | "sitemap";
+
+export interface CrawlOptions {
+  /** Start page (website mode) or sitemap URL (sitemap mode) */
+  url: string;
+  mode: CrawlMode;
+  maxDepth: number;
+  maxPages: number;
+}
+
+export interface CrawledPage {
+  /** Canonical URL */
+  url: string;
+  title: string;
+  text: string;
+  depth: number;
+}
+
+export interface CrawlSummary {
+  pages: number;
+  fetched: number;
+  /** Pages left out: robots.txt, noindex, duplicates, errors and non-HTML responses */
+  skipped: number;
+  errors: string[];
+  /** Every reachable page was visited without errors; false when limits or failures cut the crawl short */
+  complete: boolean;
+}
+
+/** Query parameters that only track campaigns and never change page content */
+const TRACKING_PARAMS = /^(utm_[a-z]+|gclid|fbclid|msclkid|mc_cid|mc_eid|_ga|ref)$/i;
+
+/** Links to files the crawler can't read as pages */
+const NON_PAGE_EXTENSIONS = /\.(pdf|docx?|xlsx?|pptx?|zip|gz|tar|rar|7z|png|jpe?g|gif|webp|svg|ico|bmp|mp3|mp4|mov|avi|webm|woff2?|ttf|eot|css|js|json|xml|rss|atom|exe|dmg|apk)$/i;
+
+const MAX_REDIRECTS = 5;
+const MAX_SITEMAPS = 20;
+const MAX_CRAWL_DELAY_MS = 10_000;
+
+/** Statuses a Response can't be built with a body for (1xx never get this far) */
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+/** Loopback, private, link-local, CGNAT, benchmarking, multicast and reserved IPv4 ranges */
+const NON_PUBLIC_IPV4 = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+] as const) {
+  NON_PUBLIC_IPV4.addSubnet(network, prefix, "ipv4");
+}
+
+/**
+ * Unspecified, loopback, unique local, link-local and multicast IPv6 ranges, plus
+ * IPv4-compatible, IPv4-mapped and NAT64 addresses, which can reach any IPv4 host
+ */
+const NON_PUBLIC_IPV6 = new BlockList();
+for (const [network, prefix] of [
+  ["::", 96], ["::ffff:0:0", 96], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+] as const) {
+  NON_PUBLIC_IPV6.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Canonical form of a page URL for deduping
+ * Drops the fragment, tracking parameters and trailing slash, and sorts the query.
+ */
+export function normalizeUrl(raw: string, base?: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw, base);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+  url.hash = "";
+  url.username = "";
+  url.password = "";
+
+  const params = [...url.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  url.search = new URLSearchParams(params).toString();
+
+  if (url.pathname.length > 1 && url.pathname.endsWith("/")) {
+    url.pathname = url.pathname.replace(/\/+$/, "");
+  }
+
+  return url.toString();
+}
+
+/** Same site, treating www.example.com and example.com as one */
+export function isSameSite(url: string, siteUrl: string): boolean {
+  const host = (value: string) => new URL(value).hostname.replace(/^www\./, "");
+  return host(url) === host(siteUrl);
+}
+
+/** IP addresses the crawler may connect to */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 4) return !NON_PUBLIC_IPV4.check(address, "ipv4");
+  if (family === 6) return !NON_PUBLIC_IPV6.check(address, "ipv6");
+  return false;
+}
+
+/**
+ * Hostnames the crawler may request: no localhost, internal names or private IP ranges
+ * Names are checked again once resolved (see resolvePublicAddresses).
+ */
+export function isPublicHostname(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, "");
+
+  if (host === "localhost" || host.endsWith(".localhost") || host.endsWith(".local") || host.endsWith(".internal")) {
+    return false;
+  }
+
+  if (isIP(host)) {
+    return isPublicAddress(host);
+  }
+
+  // Single-label names only resolve inside private networks
+  return host.includes(".");
+}
+
+/**
+ * Every address a hostname resolves to
+ * Throws unless all of them are public, so a name can't point the crawler at an internal host.
+ */
+export async function resolvePublicAddresses(hostname: string): Promise<LookupAddress[]> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+
+  if (!isPublicHostname(host)) {
+    throw new Error(`Refusing to fetch non-public address ${hostname}`);
+  }
+
+  const family = isIP(host);
+  if (family) {
+    return [{ address: host, family }];
+  }
+
+  const addresses = await dns.promises.lookup(host, { all: true });
+  const blocked = addresses.find((entry) => !isPublicAddress(entry.address));
+
+  if (blocked) {
+    throw new Error(`Refusing to fetch ${hostname}: it resolves to non-public address ${blocked.address}`);
+  }
+
+  return addresses;
+}
+
+/**
+ * Page and child sitemap URLs from a sitemap or sitemap index
+ */
+export function parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+  const locs = (block: string) =>
+    (xml.match(new RegExp(`<${block}\\b[^>]*>[\\s\\S]*?<\\/${block}>`, "gi")) || [])
+      .map((entry) => entry.match(/<loc>\s*(?:<!\[CDATA\[)?([\s\S]*?)(?:\]\]>)?\s*<\/loc>/i)?.[1])
+      .filter((loc): loc is string => !!loc)
+      .map((loc) => decodeEntities(loc.trim()));
+
+  return { urls: locs("url"), sitemaps: locs("sitemap") };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * GET a URL over a connection to one of the given, already checked, addresses
+ * DNS isn't consulted again, so the name can't be re-pointed at an internal host
+ * between the check and the connect. Redirects are returned, not followed, and statuses
+ * a Response can't represent (outside 200-599) reject.
+ */
+export function requestPinned(url: URL, addresses: LookupAddress[], accept: string): Promise<Response> {
+  const { userAgent, requestTimeoutMs } = knowledgeConfig.crawler;
+
+  const lookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
+
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === "https:" ? https : http).get(
+      url,
+      {
+        headers: { "User-Agent": userAgent, Accept: accept },
+        lookup,
+        signal: AbortSignal.timeout(requestTimeoutMs),
+      },
+      (message) => {
+        // Throwing here would be an uncaught exception, not a rejection
+        try {
+          const status = message.statusCode ?? 0;
+          if (status < 200 || status > 599) {
+            throw new Error(`Unexpected HTTP status ${status}`);
+          }
+
+          const headers = new Headers();
+          for (const [name, value] of Object.entries(message.headers)) {
+            for (const item of [value ?? []].flat()) headers.append(name, item);
+          }
+
+          // Responses to these statuses can't carry a body
+          const hasBody = !NULL_BODY_STATUSES.has(status);
+          if (!hasBody) message.resume();
+
+          resolve(
+            new Response(hasBody ? (Readable.toWeb(message) as ReadableStream<Uint8Array>) : null, {
+              status,
+              headers,
+            })
+          );
+        } catch (error) {
+          message.destroy();
+          reject(error);
+        }
+      }
+    );
+
+    request.on("error", reject);
+  });
+}
+
+/**
+ * GET a public URL, following redirects only to other public hosts
+ * Every hop is resolved, checked and connected to the checked address.
+ * Returns the response and the URL it finally came from.
+ */
+async function fetchPublic(url: string, accept: string): Promise<{ response: Response; url: string }> {
+  let current = url;
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const target = new URL(current);
+    const addresses = await resolvePublicAddresses(target.hostname);
+    const response = await requestPinned(target, addresses, accept);
+
+    const location = response.headers.get("location");
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      current = new URL(location, current).toString();
+      continue;
+    }
+
+    return { response, url: current };
+  }
+
+  throw new Error(`Too many redirects from ${url}`);
+}
+
+/**
+ * Read a response body as text, giving up as soon as it passes the page size limit
+ */
+export async function readLimited(response: Response, maxBytes = knowledgeConfig.crawler.maxPageBytes): Promise<string | null> {
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    await response.body?.cancel();
+    return null;
+  }
+
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+/**
+ * robots.txt rules for a site
+ * A missing robots.txt allows everything; an unreachable one means stay out (RFC 9309), so it throws.
+ */
+export async function fetchRobots(siteUrl: string): Promise<RobotsRules> {
+  const { response } = await fetchPublic(new URL("/robots.txt", siteUrl).toString(), "text/plain");
+
+  if (response.status >= 400 && response.status < 500) {
+    await response.body?.cancel();
+    return ALLOW_ALL;
+  }
+
+  if (!response.ok) {
+    throw new Error(`robots.txt returned ${response.status}; try again later`);
+  }
+
+  return parseRobotsTxt((await readLimited(response)) || "", knowledgeConfig.crawler.userAgent);
+}
+
+/**
+ * Page URLs listed by a sitemap, following sitemap indexes on the same site
+ */
+async function collectSitemapUrls(sitemapUrl: string, limit: number, errors: string[]): Promise<string[]> {
+  const urls: string[] = [];
+  const queue = [sitemapUrl];
+  const seen = new Set<string>();
+
+  while (queue.length > 0 && seen.size < MAX_SITEMAPS && urls.length < limit) {
+    const next = queue.shift()!;
+    if (seen.has(next)) continue;
+    seen.add(next);
+
+    try {
+      const { response } = await fetchPublic(next, "application/xml, text/xml");
+      const xml = response.ok ? await readLimited(response) : null;
+
+      if (!xml) {
+        errors.push(`${next}: sitemap unavailable (${response.status})`);
+        continue;
+      }
+
+      const parsed = parseSitemap(xml);
+      urls.push(...parsed.urls.filter((url) => isSameSite(url, sitemapUrl)));
+      queue.push(...parsed.sitemaps.filter((url) => isSameSite(url, sitemapUrl)));
+    } catch (error) {
+      errors.push(`${next}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  return urls;
+}
+
+/**
+ * Crawl a site, calling onPage for each indexable page in breadth-first order
+ * Stops after maxPages pages; a further maxPages * 2 fetches are allowed for pages
+ * that turn out to be duplicates, noindex or errors.
+ */
+export async function crawlSite(
+  options: CrawlOptions,
+  onPage: (page: CrawledPage) => Promise<void>
+): Promise<CrawlSummary> {
+  const start = normalizeUrl(options.url);
+  if (!start) {
+    throw new Error("Enter a valid http(s) URL");
+  }
+
+  const summary: CrawlSummary = { pages: 0, fetched: 0, skipped: 0, errors: [], complete: true };
+  const robots = await fetchRobots(start);
+  const delayMs = Math.min(
+    Math.max(knowledgeConfig.crawler.requestDelayMs, (robots.crawlDelay || 0) * 1000),
+    MAX_CRAWL_DELAY_MS
+  );
+
+  // A sitemap crawl visits exactly the listed pages
+  const maxDepth = options.mode === "sitemap" ? 0 : options.maxDepth;
+  const seeds =
+    options.mode === "sitemap"
+      ? await collectSitemapUrls(start, options.maxPages * 3, summary.errors)
+      : [start];
+
+  if (seeds.length === 0) {
+    throw new Error(summary.errors[0] || "The sitemap lists no pages on this site");
+  }
+
+  const queue: Array<{ url: string; depth: number }> = [];
+  const visited = new Set<string>();
+  const canonicalSeen = new Set<string>();
+
+  const enqueue = (raw: string, depth: number) => {
+    const url = normalizeUrl(raw);
+    if (!url || visited.has(url) || !isSameSite(url, start)) return;
+    if (NON_PAGE_EXTENSIONS.test(new URL(url).pathname)) return;
+
+    visited.add(url);
+    queue.push({ url, depth });
+  };
+
+  seeds.forEach((url) => enqueue(url, 0));
+
+  const fetchBudget = options.maxPages * 3;
+
+  while (queue.length > 0) {
+    if (summary.pages >= options.maxPages || summary.fetched >= fetchBudget) {
+      summary.complete = false;
+      break;
+    }
+
+    const { url, depth } = queue.shift()!;
+    const target = new URL(url);
+
+    if (!robots.isAllowed(target.pathname + target.search)) {
+      summary.skipped++;
+      continue;
+    }
+
+    if (summary.fetched > 0) {
+      await sleep(delayMs);
+    }
+    summary.fetched++;
+
+    try {
+      const { response, url: finalUrl } = await fetchPublic(url, "text/html, application/xhtml+xml");
+      const contentType = response.headers.get("content-type") || "";
+
+      if (!response.ok || !/html/i.test(contentType) || !isSameSite(finalUrl, start)) {
+        await response.body?.cancel();
+        summary.skipped++;
+
+        // Missing pages are gone; server errors may be temporary
+        if (response.status >= 500 || response.status === 429) {
+          summary.complete = false;
+          summary.errors.push(`${url}: HTTP ${response.status}`);
+        }
+        continue;
+      }
+
+      const html = await readLimited(response);
+      if (html === null) {
+        summary.skipped++;
+        continue;
+      }
+
+      const page = extractHtmlContent(html, finalUrl);
+
+      if (depth < maxDepth) {
+        page.links.forEach((link) => enqueue(link, depth + 1));
+      }
+
+      // Redirects and canonical tags both point at the URL the page is stored under
+      const canonical =
+        (page.canonicalUrl && isSameSite(page.canonicalUrl, start) && normalizeUrl(page.canonicalUrl)) ||
+        normalizeUrl(finalUrl)!;
+
+      if (page.noindex || !page.text || canonicalSeen.has(canonical)) {
+        summary.skipped++;
+        continue;
+      }
+
+      canonicalSeen.add(canonical);
+      visited.add(canonical);
+
+      await onPage({ url: canonical, title: page.title || canonical, text: page.text, depth });
+      summary.pages++;
+    } catch (error) {
+      summary.skipped++;
+      summary.complete = false;
+      summary.errors.push(`${url}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  console.log(
+    `[CRAWLER] ${start}: ${summary.pages} pages, ${summary.fetched} fetched, ${summary.skipped} skipped` +
+    (summary.complete ? "" : " (incomplete)")
+  );
+
+  return summary;
+}
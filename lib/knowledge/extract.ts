@@ -0,0 +1,51 @@
+/**
+ * Document Text Extraction
+ * Turns uploaded files into plain text: PDF with unpdf, DOCX with mammoth, everything else as UTF-8
+ */
+
+import { extractText } from "unpdf";
+
+/**
+ * Extract the text of a file, using its name to pick the format
+ */
+export async function extractDocumentText(bytes: Uint8Array, fileName: string): Promise<string> {
+  const name = fileName.toLowerCase();
+
+  if (name.endsWith(".pdf")) {
+    try {
+      // unpdf requires Uint8Array, not Buffer
+      const { text } = await extractText(new Uint8Array(bytes), { mergePages: true });
+
+      if (!text.trim()) {
+        throw new Error("No text could be extracted from this PDF. It may be image-based or encrypted.");
+      }
+
+      return text;
+    } catch (error) {
+      console.error("PDF extraction error:", error);
+      throw new Error(
+        error instanceof Error ? `PDF extraction failed: ${error.message}` : "Failed to extract text from PDF"
+      );
+    }
+  }
+
+  if (name.endsWith(".doc")) {
+    throw new Error("Legacy .doc files are not supported. Save the file as .docx and upload it again.");
+  }
+
+  if (name.endsWith(".docx")) {
+    // mammoth is Node.js only
+    const mammoth = await import("mammoth");
+    const result = await mammoth.extractRawText({ buffer: Buffer.from(bytes) });
+    return result.value;
+  }
+
+  return new TextDecoder("utf-8").decode(bytes);
+}
+
+/**
+ * Formats that need server-side extraction
+ */
+export function requiresServerExtraction(fileName: string): boolean {
+  return /\.(pdf|docx)$/i.test(fileName);
+}
@@ -0,0 +1,149 @@
+/**
+ * HTML Content Extraction
+ * Pulls the readable main content of a web page out as lightweight markdown (headings,
+ * list items, paragraphs) so crawled pages chunk by section, plus the page's title,
+ * canonical URL, robots meta directives and links for the crawler to follow
+ */
+
+export interface HtmlPage {
+  title: string;
+  /** Main content as markdown-ish text */
+  text: string;
+  /** Absolute <link rel="canonical"> URL, if the page declares one */
+  canonicalUrl?: string;
+  /** Absolute http(s) links, without fragments, excluding rel="nofollow" */
+  links: string[];
+  /** <meta name="robots"> asks not to index the page */
+  noindex: boolean;
+  /** <meta name="robots"> asks not to follow the page's links */
+  nofollow: boolean;
+}
+
+/** Elements that never hold readable content */
+const NON_CONTENT_TAGS = ["script", "style", "noscript", "template", "svg", "canvas", "iframe", "object", "head"];
+
+/** Page chrome dropped before extracting text */
+const BOILERPLATE_TAGS = ["nav", "header", "footer", "aside", "form", "dialog"];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", ndash: "–", mdash: "—", hellip: "…",
+  lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”", copy: "©", reg: "®", trade: "™", euro: "€", pound: "£",
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/** Value of an attribute in a single tag's source */
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i"));
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+function removeElements(html: string, tags: string[]): string {
+  return tags.reduce(
+    (result, tag) => result.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}\\s*>`, "gi"), " "),
+    html
+  );
+}
+
+/** Inner HTML of every <tag> element (not for tags that nest within themselves) */
+function innerHtml(html: string, tag: string): string[] {
+  const matches = html.match(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}\\s*>`, "gi")) || [];
+  return matches.map((element) => element.replace(/^<[^>]*>/, "").replace(/<\/[a-z]+\s*>$/i, ""));
+}
+
+function resolveUrl(href: string, base: string): string | undefined {
+  try {
+    const url = new URL(href, base);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return undefined;
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Convert an HTML fragment to text, keeping headings and list items as markdown
+ */
+export function htmlToText(html: string): string {
+  const text = removeElements(html.replace(/<!--[\s\S]*?-->/g, " "), NON_CONTENT_TAGS)
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi, (_, level: string, inner: string) => {
+      const heading = inner.replace(/<[^>]+>/g, " ").replace(/\s+/g, " ").trim();
+      return heading ? `\n\n${"#".repeat(Number(level))} ${heading}\n\n` : "\n\n";
+    })
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/?(p|div|section|article|main|ul|ol|table|tr|blockquote|pre|dl|dt|dd|figure|figcaption)\b[^>]*>/gi, "\n\n")
+    .replace(/<\/(td|th)\s*>/gi, " | ")
+    // Inline tags (<b>, <a>, <span>...) sit inside words and sentences
+    .replace(/<[^>]+>/g, "");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .filter((line, index, lines) => line !== "-" && (line !== "" || lines[index - 1] !== ""))
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Extract a page's main content, metadata and outgoing links
+ * Content comes from <main>, else the page's <article>s, else <body>,
+ * with navigation, headers, footers, sidebars and forms removed.
+ */
+export function extractHtmlContent(html: string, pageUrl: string): HtmlPage {
+  const baseHref = (html.match(/<base\b[^>]*>/i) || [])[0];
+  const base = (baseHref && resolveUrl(attribute(baseHref, "href") || "", pageUrl)) || pageUrl;
+
+  const metaTags = html.match(/<meta\b[^>]*>/gi) || [];
+  const robotsMeta = metaTags
+    .filter((tag) => (attribute(tag, "name") || "").toLowerCase() === "robots")
+    .map((tag) => (attribute(tag, "content") || "").toLowerCase())
+    .join(",");
+  const ogTitle = metaTags.find((tag) => attribute(tag, "property") === "og:title");
+
+  const titleMatch = html.match(/<title\b[^>]*>([\s\S]*?)<\/title\s*>/i);
+  const title = decodeEntities((titleMatch?.[1] || (ogTitle && attribute(ogTitle, "content")) || "").replace(/\s+/g, " ")).trim();
+
+  const canonicalTag = (html.match(/<link\b[^>]*>/gi) || []).find((tag) =>
+    (attribute(tag, "rel") || "").toLowerCase().split(/\s+/).includes("canonical")
+  );
+  const canonicalUrl = canonicalTag ? resolveUrl(attribute(canonicalTag, "href") || "", base) : undefined;
+
+  const nofollow = /\b(nofollow|none)\b/.test(robotsMeta);
+  const links = nofollow
+    ? []
+    : [
+        ...new Set(
+          (html.match(/<a\b[^>]*>/gi) || [])
+            .filter((tag) => !(attribute(tag, "rel") || "").toLowerCase().split(/\s+/).includes("nofollow"))
+            .map((tag) => resolveUrl(attribute(tag, "href") || "", base))
+            .filter((url): url is string => !!url)
+        ),
+      ];
+
+  const withoutChrome = removeElements(removeElements(html.replace(/<!--[\s\S]*?-->/g, " "), NON_CONTENT_TAGS), BOILERPLATE_TAGS);
+
+  const main = innerHtml(withoutChrome, "main");
+  const articles = innerHtml(withoutChrome, "article");
+  const body = innerHtml(withoutChrome, "body");
+  const content = main.length > 0 ? main : articles.length > 0 ? articles : body.length > 0 ? body : [withoutChrome];
+
+  return {
+    title,
+    text: htmlToText(content.join("\n\n")),
+    canonicalUrl,
+    links,
+    noindex: /\b(noindex|none)\b/.test(robotsMeta),
+    nofollow,
+  };
+}
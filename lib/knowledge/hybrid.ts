@@ -0,0 +1,111 @@
+/**
+ * Hybrid Retrieval
+ * Fuses full-text and vector search results with reciprocal rank fusion (RRF)
+ * and resolves each agent's retrieval settings
+ */
+
+import { knowledgeConfig } from "./config";
+
+export interface RetrievedDocument {
+  id: string;
+  content: string;
+  metadata?: any;
+  embedding_model?: string;
+  embedding_dimensions?: number;
+  /** Cosine similarity, set when the vector search found the chunk */
+  similarity?: number;
+  /** ts_rank_cd, set when the full-text search found the chunk */
+  rank?: number;
+}
+
+export interface FusedDocument extends RetrievedDocument {
+  /** RRF score; higher is better */
+  score: number;
+  matchedBy: Array<"vector" | "keyword">;
+  /** Reranker relevance (0-1), set when results were reranked */
+  relevance?: number;
+}
+
+/**
+ * Per-agent retrieval settings, stored in agents.config.retrieval
+ */
+export interface RetrievalSettings {
+  /** Chunks added to the prompt */
+  contextLimit: number;
+  /** Minimum vector similarity (0-1) */
+  threshold: number;
+  hybrid: boolean;
+  rerank: boolean;
+}
+
+/**
+ * Merge ranked lists: each list adds 1 / (k + rank) for every chunk it contains
+ * Chunks found by both retrievers rise to the top without comparing their raw scores.
+ */
+export function reciprocalRankFusion(
+  vectorResults: RetrievedDocument[],
+  keywordResults: RetrievedDocument[],
+  k: number = knowledgeConfig.retrieval.rrfK
+): FusedDocument[] {
+  const fused = new Map<string, FusedDocument>();
+
+  const add = (results: RetrievedDocument[], source: "vector" | "keyword") => {
+    results.forEach((doc, index) => {
+      const existing = fused.get(doc.id);
+      const contribution = 1 / (k + index + 1);
+
+      if (existing) {
+        existing.score += contribution;
+        existing.matchedBy.push(source);
+        if (source === "vector") existing.similarity = doc.similarity;
+        if (source === "keyword") existing.rank = doc.rank;
+      } else {
+        fused.set(doc.id, {
+          ...doc,
+          similarity: source === "vector" ? doc.similarity : undefined,
+          rank: source === "keyword" ? doc.rank : undefined,
+          score: contribution,
+          matchedBy: [source],
+        });
+      }
+    });
+  };
+
+  add(vectorResults, "vector");
+  add(keywordResults, "keyword");
+
+  return [...fused.values()].sort(
+    (a, b) => b.score - a.score || (b.similarity ?? 0) - (a.similarity ?? 0)
+  );
+}
+
+/**
+ * Drop vector-only matches below the threshold
+ * Vector candidates are fetched a little below it, so a near miss survives only
+ * when full-text search found the same chunk.
+ */
+export function applyThreshold(docs: FusedDocument[], threshold: number): FusedDocument[] {
+  return docs.filter((doc) => doc.matchedBy.includes("keyword") || (doc.similarity ?? 0) >= threshold);
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  const number = Number(value);
+  if (value === null || value === undefined || value === "" || !Number.isFinite(number)) return fallback;
+  return Math.min(max, Math.max(min, number));
+}
+
+/**
+ * The agent's retrieval settings, falling back to the global knowledgeConfig defaults
+ */
+export function resolveRetrievalSettings(config?: { retrieval?: Partial<RetrievalSettings> } | null): RetrievalSettings {
+  const overrides = config?.retrieval || {};
+
+  return {
+    contextLimit: Math.round(
+      clamp(overrides.contextLimit, 1, knowledgeConfig.search.maxLimit, knowledgeConfig.rag.contextLimit)
+    ),
+    threshold: clamp(overrides.threshold, 0, 1, knowledgeConfig.rag.contextThreshold),
+    hybrid: overrides.hybrid ?? knowledgeConfig.retrieval.hybrid,
+    rerank: overrides.rerank ?? knowledgeConfig.retrieval.rerank,
+  };
+}
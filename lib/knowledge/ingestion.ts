@@ -0,0 +1,650 @@
+/**
+ * Knowledge Ingestion
+ * Stages uploaded files and hands them to the knowledge-ingestion Trigger.dev task, which
+ * moves each source document through queued -> extracting -> chunking -> embedding -> indexed
+ * (or failed), embedding in batches with bounded concurrency and per-chunk retries
+ */
+
+import { runs, tasks } from "@trigger.dev/sdk/v3";
+import { createServiceClient } from "@/lib/supabase/service";
+import { embeddingService, type EmbeddingResult } from "@/lib/embeddings/providers";
+import { knowledgeConfig } from "@/lib/knowledge/config";
+import { splitDocument, strategyForFile } from "@/lib/knowledge/chunking";
+import { extractDocumentText } from "@/lib/knowledge/extract";
+import { hashContent, planChunkUpdate } from "@/lib/knowledge/versioning";
+import type { Database } from "@/types/database";
+import type { knowledgeIngestionTask } from "@/trigger/knowledge-ingestion";
+
+type SourceDocument = Database["public"]["Tables"]["source_documents"]["Row"];
+
+export type IngestionStatus = SourceDocument["status"];
+
+/** Statuses of a document the task is still working on */
+export const ACTIVE_INGESTION_STATUSES: IngestionStatus[] = ["queued", "extracting", "chunking", "embedding"];
+
+/**
+ * How long an active document may go without progress before its run counts as dead
+ * Longer than the task's maxDuration, and every status change and embedded batch counts as progress.
+ */
+export const INGESTION_STALE_AFTER_MS = 60 * 60 * 1000;
+
+/** Shown for a document whose run died without recording a failure */
+export const INGESTION_STALLED_ERROR = "Processing stopped unexpectedly; upload the file again or re-index it";
+
+/** Private bucket holding uploads until they are ingested */
+export const KNOWLEDGE_UPLOADS_BUCKET = "knowledge-uploads";
+
+/** Attempts made by the ingestion task before a document is marked failed */
+export const INGESTION_MAX_ATTEMPTS = 3;
+
+/** Postgres unique_violation, raised when the same file is uploaded twice at once */
+const UNIQUE_VIOLATION = "23505";
+
+export type IngestionMode = "ingest" | "reindex";
+
+export interface IngestionResult {
+  status: "indexed" | "unchanged" | "failed" | "skipped";
+  chunks?: number;
+  chunksEmbedded?: number;
+  /** Estimated embedding spend, from each provider's costPer1kTokens */
+  embeddingCostUsd?: number;
+  error?: string;
+}
+
+/**
+ * Run fn over items with at most `limit` calls in flight, keeping result order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+
+  return results;
+}
+
+/**
+ * Embed a batch of chunks in one provider call, retrying with exponential backoff before giving up
+ */
+export async function embedBatchWithRetry(
+  texts: string[],
+  attempts: number = knowledgeConfig.performance.embeddingRetries,
+  baseDelayMs: number = 500
+): Promise<EmbeddingResult[]> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await embeddingService.generateEmbeddingsBatch(texts);
+    } catch (error) {
+      if (attempt >= attempts) throw error;
+      console.warn(`[INGESTION] Embedding attempt ${attempt}/${attempts} failed, retrying:`, error);
+      await new Promise((resolve) => setTimeout(resolve, baseDelayMs * 2 ** (attempt - 1)));
+    }
+  }
+}
+
+/**
+ * Embed chunks batch by batch, calling onBatch with each batch's results as it completes
+ * Batches run up to maxConcurrentEmbeddings at a time (one at a time with PARALLEL_EMBEDDINGS=false).
+ * Returns the tokens and estimated cost of the embeddings that weren't cached.
+ */
+async function embedInBatches<T extends { content: string }>(
+  items: T[],
+  onBatch: (embedded: Array<T & { embedding: number[]; embedding_model: string; embedding_dimensions: number }>) => Promise<void>
+) {
+  const { embeddingBatchSize, maxConcurrentEmbeddings, parallelEmbeddings } = knowledgeConfig.performance;
+  const batches: T[][] = [];
+  const usage = { tokens: 0, costUsd: 0, cached: 0 };
+
+  for (let i = 0; i < items.length; i += embeddingBatchSize) {
+    batches.push(items.slice(i, i + embeddingBatchSize));
+  }
+
+  await mapWithConcurrency(batches, parallelEmbeddings ? maxConcurrentEmbeddings : 1, async (batch) => {
+    const results = await embedBatchWithRetry(batch.map((item) => item.content));
+
+    for (const result of results) {
+      usage.tokens += result.tokens;
+      usage.costUsd += result.costUsd;
+      if (result.cached) usage.cached++;
+    }
+
+    await onBatch(
+      batch.map((item, index) => ({
+        ...item,
+        embedding: results[index].embedding,
+        embedding_model: results[index].provider.toLowerCase(),
+        embedding_dimensions: results[index].dimensions,
+      }))
+    );
+  });
+
+  return usage;
+}
+
+/**
+ * Whether the task is still working on a document
+ * A run killed by maxDuration, memory or a crash never records its failure, so an active
+ * status without progress for INGESTION_STALE_AFTER_MS counts as stalled instead.
+ */
+export function isIngestionActive(
+  source: Pick<SourceDocument, "status" | "updated_at">,
+  now = Date.now()
+): boolean {
+  return (
+    ACTIVE_INGESTION_STATUSES.includes(source.status) &&
+    now - new Date(source.updated_at).getTime() < INGESTION_STALE_AFTER_MS
+  );
+}
+
+/** Active status left behind by a run that died */
+export function isIngestionStalled(source: Pick<SourceDocument, "status" | "updated_at">, now = Date.now()): boolean {
+  return ACTIVE_INGESTION_STATUSES.includes(source.status) && !isIngestionActive(source, now);
+}
+
+/**
+ * Cancel the run of a stalled document before another takes it over, in case it is only stuck
+ */
+async function cancelStalledIngestion(source: Pick<SourceDocument, "id" | "ingestion_run_id">): Promise<void> {
+  if (!source.ingestion_run_id) return;
+
+  try {
+    await runs.cancel(source.ingestion_run_id);
+  } catch (cancelError) {
+    console.warn(`[INGESTION] Could not cancel stalled run ${source.ingestion_run_id} of ${source.id}:`, cancelError);
+  }
+}
+
+/**
+ * Queue the task for a document, ingesting inline when Trigger.dev is unavailable
+ */
+async function startIngestion(sourceDocumentId: string, mode: IngestionMode): Promise<void> {
+  const supabase = createServiceClient();
+
+  try {
+    const handle = await tasks.trigger<typeof knowledgeIngestionTask>("knowledge-ingestion", {
+      sourceDocumentId,
+      mode,
+    });
+
+    await supabase.from("source_documents").update({ ingestion_run_id: handle.id }).eq("id", sourceDocumentId);
+    console.log(`[INGESTION] Queued ${mode} of ${sourceDocumentId} (${handle.id})`);
+  } catch (queueError) {
+    console.error("[INGESTION] Failed to queue ingestion task, running inline:", queueError);
+    await runIngestion(sourceDocumentId, mode, { finalAttempt: true });
+  }
+}
+
+/**
+ * Stage an uploaded file and queue its ingestion
+ * Re-uploading a file with the same name (in the same agent or tenant-wide scope) replaces it
+ * with a new version once ingested; only chunks whose text changed are embedded again.
+ */
+export async function queueDocumentIngestion(input: {
+  tenantId: string;
+  agentId: string | null;
+  name: string;
+  file: Uint8Array;
+  fileType?: string;
+  metadata?: Record<string, any>;
+  createdBy?: string;
+  /** Website or sitemap the page was crawled from */
+  knowledgeSourceId?: string;
+}): Promise<{ success: true; document: SourceDocument } | { success: false; error: string }> {
+  const { tenantId, agentId, name, file } = input;
+
+  if (file.byteLength > knowledgeConfig.upload.maxFileSize) {
+    const maxMB = (knowledgeConfig.upload.maxFileSize / (1024 * 1024)).toFixed(0);
+    return { success: false, error: `${name} is larger than the ${maxMB} MB upload limit` };
+  }
+
+  const supabase = createServiceClient();
+
+  let existingQuery = supabase.from("source_documents").select("*").eq("tenant_id", tenantId).eq("name", name);
+  existingQuery = agentId ? existingQuery.eq("agent_id", agentId) : existingQuery.is("agent_id", null);
+
+  const { data: existing, error: existingError } = await existingQuery.maybeSingle<SourceDocument>();
+
+  if (existingError) {
+    return { success: false, error: `Database error: ${existingError.message}` };
+  }
+
+  if (existing && isIngestionActive(existing)) {
+    return { success: false, error: `${name} is already being processed` };
+  }
+
+  if (existing && isIngestionStalled(existing)) {
+    await cancelStalledIngestion(existing);
+  }
+
+  const queued = {
+    status: "queued" as const,
+    error: null,
+    chunks_embedded: 0,
+    file_type: input.fileType || null,
+    metadata: input.metadata || {},
+    ...(input.knowledgeSourceId && { knowledge_source_id: input.knowledgeSourceId }),
+  };
+
+  const { data: source, error: sourceError } = existing
+    ? await supabase.from("source_documents").update(queued).eq("id", existing.id).select().single<SourceDocument>()
+    : await supabase
+        .from("source_documents")
+        .insert({ tenant_id: tenantId, agent_id: agentId, name, created_by: input.createdBy || null, ...queued })
+        .select()
+        .single<SourceDocument>();
+
+  if (sourceError?.code === UNIQUE_VIOLATION) {
+    return { success: false, error: `${name} is already being processed` };
+  }
+
+  if (sourceError || !source) {
+    return { success: false, error: `Database error: ${sourceError?.message}` };
+  }
+
+  const stagedPath = `${tenantId}/${source.id}/${Date.now()}-${name.replace(/[^\w.-]+/g, "_")}`;
+  const { error: uploadError } = await supabase.storage
+    .from(KNOWLEDGE_UPLOADS_BUCKET)
+    .upload(stagedPath, file, { contentType: input.fileType || "application/octet-stream" });
+
+  if (uploadError) {
+    await supabase
+      .from("source_documents")
+      .update({ status: "failed", error: `Upload failed: ${uploadError.message}` })
+      .eq("id", source.id);
+    return { success: false, error: `Upload failed: ${uploadError.message}` };
+  }
+
+  await supabase.from("source_documents").update({ staged_path: stagedPath }).eq("id", source.id);
+  await startIngestion(source.id, "ingest");
+
+  return { success: true, document: { ...source, staged_path: stagedPath } };
+}
+
+/**
+ * Queue re-embedding of a document's chunks that the current provider didn't embed
+ */
+export async function queueDocumentReindex(
+  tenantId: string,
+  documentId: string
+): Promise<{ success: boolean; name?: string; error?: string }> {
+  const supabase = createServiceClient();
+
+  const { data: source } = await supabase
+    .from("source_documents")
+    .select("id, name, status, chunk_count, updated_at, ingestion_run_id")
+    .eq("id", documentId)
+    .eq("tenant_id", tenantId)
+    .maybeSingle();
+
+  if (!source) {
+    return { success: false, error: "Document not found" };
+  }
+
+  if (isIngestionActive(source)) {
+    return { success: false, error: "Document is already being processed" };
+  }
+
+  if (isIngestionStalled(source)) {
+    await cancelStalledIngestion(source);
+  }
+
+  if (!source.chunk_count) {
+    return { success: false, error: "Document has no chunks to re-index; upload it again" };
+  }
+
+  await supabase.from("source_documents").update({ status: "queued", error: null }).eq("id", source.id);
+  await startIngestion(source.id, "reindex");
+
+  return { success: true, name: source.name };
+}
+
+/**
+ * Entry point for the task and the inline fallback
+ */
+export async function runIngestion(
+  sourceDocumentId: string,
+  mode: IngestionMode,
+  options: { finalAttempt: boolean }
+): Promise<IngestionResult> {
+  return mode === "reindex"
+    ? reindexSourceDocument(sourceDocumentId, options)
+    : ingestSourceDocument(sourceDocumentId, options);
+}
+
+/**
+ * Record a failed attempt: the last one marks the document failed, earlier ones rethrow so the task retries
+ */
+async function handleIngestionError(
+  source: SourceDocument,
+  error: unknown,
+  options: { finalAttempt: boolean }
+): Promise<IngestionResult> {
+  const supabase = createServiceClient();
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (!options.finalAttempt) {
+    await supabase.from("source_documents").update({ error: `Retrying: ${message}` }).eq("id", source.id);
+    throw error;
+  }
+
+  await supabase
+    .from("source_documents")
+    .update({ status: "failed", error: message, staged_path: null })
+    .eq("id", source.id);
+
+  if (source.staged_path) {
+    await supabase.storage.from(KNOWLEDGE_UPLOADS_BUCKET).remove([source.staged_path]);
+  }
+
+  console.error(`[INGESTION] ${source.name} failed:`, message);
+  return { status: "failed", error: message };
+}
+
+/**
+ * Delete the chunks a failed upload stored, leaving the last indexed version as it was
+ * New chunks go in before stale ones come out, so without this search would serve the
+ * old version mixed with part of the new one. A document never indexed loses all its chunks.
+ */
+async function removeUnindexedChunks(source: SourceDocument): Promise<void> {
+  // Indexed before chunk hashes were recorded: nothing to tell the versions apart by
+  if (source.indexed_at && !source.chunk_hashes) return;
+
+  const supabase = createServiceClient();
+  const indexed = new Set(source.indexed_at ? source.chunk_hashes : []);
+
+  const { data: stored, error } = await supabase
+    .from("documents")
+    .select("id, content_hash")
+    .eq("source_document_id", source.id);
+
+  if (error) {
+    throw new Error(`Database error: ${error.message}`);
+  }
+
+  const added = (stored || []).filter((chunk) => !indexed.has(chunk.content_hash)).map((chunk) => chunk.id);
+
+  if (added.length > 0) {
+    const { error: deleteError } = await supabase.from("documents").delete().in("id", added);
+    if (deleteError) throw new Error(`Database error: ${deleteError.message}`);
+
+    console.log(`[INGESTION] Removed ${added.length} chunks of the failed upload of ${source.name}`);
+  }
+}
+
+/**
+ * Extract, chunk and embed a staged upload, then swap it in as the document's new version
+ * Chunks are stored batch by batch, so a retried attempt reuses the ones already embedded.
+ */
+async function ingestSourceDocument(sourceDocumentId: string, options: { finalAttempt: boolean }): Promise<IngestionResult> {
+  const supabase = createServiceClient();
+  let storageReservationId: string | null = null;
+
+  const { data: source } = await supabase
+    .from("source_documents")
+    .select("*")
+    .eq("id", sourceDocumentId)
+    .maybeSingle<SourceDocument>();
+
+  if (!source) {
+    console.warn(`[INGESTION] Source document ${sourceDocumentId} was deleted before ingestion`);
+    return { status: "skipped" };
+  }
+
+  const setStatus = async (status: IngestionStatus, values: Record<string, unknown> = {}) => {
+    const { error } = await supabase.from("source_documents").update({ status, ...values }).eq("id", source.id);
+    if (error) throw new Error(`Database error: ${error.message}`);
+  };
+
+  try {
+    if (!source.staged_path) {
+      throw new Error("The uploaded file is no longer available; upload it again");
+    }
+
+    await setStatus("extracting");
+
+    const { data: file, error: downloadError } = await supabase.storage
+      .from(KNOWLEDGE_UPLOADS_BUCKET)
+      .download(source.staged_path);
+
+    if (downloadError || !file) {
+      throw new Error(`Could not read the uploaded file: ${downloadError?.message}`);
+    }
+
+    const content = await extractDocumentText(new Uint8Array(await file.arrayBuffer()), source.name);
+
+    if (!content.trim()) {
+      throw new Error("No text could be extracted from this file");
+    }
+
+    await setStatus("chunking");
+
+    const fileSizeBytes = new TextEncoder().encode(content).length;
+    const contentHash = hashContent(content);
+    const embeddingModel = embeddingService.getPreferredProvider();
+    const metadata = (source.metadata || {}) as Record<string, any>;
+
+    const finish = async (values: Record<string, unknown>) => {
+      await setStatus("indexed", { error: null, staged_path: null, indexed_at: new Date().toISOString(), ...values });
+      await supabase.storage.from(KNOWLEDGE_UPLOADS_BUCKET).remove([source.staged_path!]);
+    };
+
+    if (source.indexed_at && source.content_hash === contentHash && source.embedding_model === embeddingModel) {
+      await finish({ chunks_embedded: source.chunk_count });
+      return { status: "unchanged", chunks: source.chunk_count, chunksEmbedded: 0 };
+    }
+
+    // Reserve the added storage BEFORE embedding (released again if this attempt fails)
+    const addedBytes = fileSizeBytes - (source.indexed_at ? Number(source.size_bytes) : 0);
+    if (addedBytes > 0) {
+      const { reserveUsage } = await import("@/lib/billing/ledger");
+      const storage = await reserveUsage(source.tenant_id, "storage", {
+        quantity: addedBytes,
+        agentId: source.agent_id,
+        source: "document_upload",
+        referenceId: source.name,
+      });
+
+      if (!storage.allowed) {
+        const toMB = (bytes: number) => Math.round(bytes / (1024 * 1024));
+        throw new Error(
+          `Storage limit reached (${toMB(storage.current)}/${toMB(storage.limit)} MB). ` +
+          `This file is ${(fileSizeBytes / (1024 * 1024)).toFixed(2)} MB. Please upgrade your plan or delete existing documents.`
+        );
+      }
+
+      storageReservationId = storage.ledgerId;
+    }
+
+    // Chunk the document (markdown files by heading section) and match chunks to the stored version
+    const chunks = splitDocument(content, { strategy: strategyForFile(source.name, source.file_type || metadata.fileType) });
+    const hashes = chunks.map((chunk) => hashContent(chunk.content));
+
+    const { data: stored, error: storedError } = await supabase
+      .from("documents")
+      .select("id, content_hash, embedding_model")
+      .eq("source_document_id", source.id);
+
+    if (storedError) {
+      throw new Error(`Database error: ${storedError.message}`);
+    }
+
+    const plan = planChunkUpdate(stored || [], hashes, embeddingModel);
+
+    const chunkRow = (index: number) => ({
+      tenant_id: source.tenant_id,
+      agent_id: source.agent_id,
+      source_document_id: source.id,
+      name: chunks.length > 1 ? `${source.name} (Part ${index + 1})` : source.name,
+      content: chunks[index].content,
+      content_hash: hashes[index],
+      metadata: {
+        ...metadata,
+        chunkIndex: index,
+        totalChunks: chunks.length,
+        originalFileName: source.name,
+        fileSizeBytes, // Store original file size
+        ...(chunks[index].headingPath?.length && { headingPath: chunks[index].headingPath }),
+      },
+    });
+
+    await setStatus("embedding", { chunk_count: chunks.length, chunks_embedded: plan.keep.length });
+
+    // New chunks go in batch by batch before stale ones come out, so search keeps answering meanwhile
+    let chunksEmbedded = plan.keep.length;
+    const models = new Set(plan.keep.length > 0 ? [embeddingModel] : []);
+
+    const usage = await embedInBatches(plan.embed.map(chunkRow), async (rows) => {
+      const { error } = await supabase.from("documents").insert(rows);
+      if (error) throw new Error(`Database error: ${error.message}`);
+
+      rows.forEach((row) => models.add(row.embedding_model));
+      chunksEmbedded += rows.length;
+      await supabase.from("source_documents").update({ chunks_embedded: chunksEmbedded }).eq("id", source.id);
+    });
+
+    // Unchanged chunks keep their embedding but may have moved
+    if (plan.keep.length > 0) {
+      const { error } = await supabase
+        .from("documents")
+        .upsert(plan.keep.map(({ id, index }) => ({ id, ...chunkRow(index) })));
+      if (error) throw new Error(`Database error: ${error.message}`);
+    }
+
+    if (plan.remove.length > 0) {
+      const { error } = await supabase.from("documents").delete().in("id", plan.remove);
+      if (error) throw new Error(`Database error: ${error.message}`);
+    }
+
+    await finish({
+      version: source.indexed_at ? source.version + 1 : source.version,
+      content_hash: contentHash,
+      chunk_hashes: hashes,
+      chunk_count: chunks.length,
+      chunks_embedded: chunks.length,
+      size_bytes: fileSizeBytes,
+      embedding_model: models.size === 1 ? [...models][0] : "mixed",
+      embedding_tokens: usage.tokens,
+      embedding_cost_usd: usage.costUsd,
+    });
+
+    // A smaller version frees storage
+    if (addedBytes < 0) {
+      const { decrementStorageUsage } = await import("@/lib/billing/storage");
+      await decrementStorageUsage(source.tenant_id, -addedBytes, "document_replaced");
+    }
+
+    console.log(
+      `[INGESTION] Indexed ${source.name}: ${chunks.length} chunks, ${plan.embed.length} embedded ` +
+      `(${usage.cached} cached, ~${usage.tokens} tokens, $${usage.costUsd.toFixed(6)}), ${plan.remove.length} removed`
+    );
+
+    return {
+      status: "indexed",
+      chunks: chunks.length,
+      chunksEmbedded: plan.embed.length,
+      embeddingCostUsd: usage.costUsd,
+    };
+  } catch (error) {
+    // Give back the storage reserved for a version that wasn't stored
+    if (storageReservationId) {
+      const { releaseUsage } = await import("@/lib/billing/ledger");
+      await releaseUsage(storageReservationId);
+    }
+
+    // Earlier attempts keep their chunks for the retry to reuse; the last one clears them out
+    if (options.finalAttempt) {
+      try {
+        await removeUnindexedChunks(source);
+      } catch (cleanupError) {
+        console.error(`[INGESTION] Failed to remove partial chunks of ${source.name}:`, cleanupError);
+      }
+    }
+
+    return handleIngestionError(source, error, options);
+  }
+}
+
+/**
+ * Re-embed the chunks of a document that the current embedding provider didn't embed
+ * Runs after the provider changes, or when some chunks fell back to another provider.
+ */
+async function reindexSourceDocument(sourceDocumentId: string, options: { finalAttempt: boolean }): Promise<IngestionResult> {
+  const supabase = createServiceClient();
+  const embeddingModel = embeddingService.getPreferredProvider();
+
+  const { data: source } = await supabase
+    .from("source_documents")
+    .select("*")
+    .eq("id", sourceDocumentId)
+    .maybeSingle<SourceDocument>();
+
+  if (!source) {
+    return { status: "skipped" };
+  }
+
+  try {
+    const { data: stale, error: staleError } = await supabase
+      .from("documents")
+      .select("id, tenant_id, name, content")
+      .eq("source_document_id", source.id)
+      .or(`embedding_model.is.null,embedding_model.neq.${embeddingModel}`);
+
+    if (staleError) {
+      throw new Error(`Database error: ${staleError.message}`);
+    }
+
+    let chunksEmbedded = source.chunk_count - (stale?.length || 0);
+    let fellBack = false;
+
+    await supabase
+      .from("source_documents")
+      .update({ status: "embedding", error: null, chunks_embedded: chunksEmbedded })
+      .eq("id", source.id);
+
+    const usage = await embedInBatches(stale || [], async (rows) => {
+      const { error } = await supabase.from("documents").upsert(rows);
+      if (error) throw new Error(`Database error: ${error.message}`);
+
+      fellBack ||= rows.some((row) => row.embedding_model !== embeddingModel);
+      chunksEmbedded += rows.length;
+      await supabase.from("source_documents").update({ chunks_embedded: chunksEmbedded }).eq("id", source.id);
+    });
+
+    await supabase
+      .from("source_documents")
+      .update({
+        status: "indexed",
+        embedding_model: fellBack ? "mixed" : embeddingModel,
+        chunks_embedded: source.chunk_count,
+        embedding_tokens: usage.tokens,
+        embedding_cost_usd: usage.costUsd,
+        indexed_at: new Date().toISOString(),
+      })
+      .eq("id", source.id);
+
+    console.log(
+      `[INGESTION] Re-indexed ${stale?.length || 0} chunks of ${source.name} with ${embeddingModel} ` +
+      `(~${usage.tokens} tokens, $${usage.costUsd.toFixed(6)})`
+    );
+
+    return {
+      status: "indexed",
+      chunks: source.chunk_count,
+      chunksEmbedded: stale?.length || 0,
+      embeddingCostUsd: usage.costUsd,
+    };
+  } catch (error) {
+    return handleIngestionError(source, error, options);
+  }
+}
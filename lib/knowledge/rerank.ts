@@ -0,0 +1,48 @@
+/**
+ * Knowledge Reranking
+ * Reorders retrieved chunks by relevance to the query with Cohere's rerank API
+ * Falls back to the incoming order when no key is set or the request fails
+ */
+
+import { knowledgeConfig } from "./config";
+import type { FusedDocument } from "./hybrid";
+
+const COHERE_RERANK_URL = "https://api.cohere.com/v2/rerank";
+
+export async function rerankDocuments(query: string, docs: FusedDocument[]): Promise<FusedDocument[]> {
+  if (docs.length < 2) return docs;
+
+  if (!process.env.COHERE_API_KEY) {
+    console.warn("[RAG] Reranking is enabled but COHERE_API_KEY is not set; keeping fused order");
+    return docs;
+  }
+
+  try {
+    const response = await fetch(COHERE_RERANK_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${process.env.COHERE_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: knowledgeConfig.retrieval.rerankModel,
+        query,
+        documents: docs.map((doc) => doc.content),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Cohere rerank error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    const results: Array<{ index: number; relevance_score: number }> = data.results || [];
+
+    return results
+      .filter((result) => docs[result.index])
+      .map((result) => ({ ...docs[result.index], relevance: result.relevance_score }));
+  } catch (error) {
+    console.error("[RAG] Reranking failed, keeping fused order:", error);
+    return docs;
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * robots.txt Rules
+ * Parses robots.txt (RFC 9309) for the crawler: the group matching our user agent
+ * (or *) decides, the longest matching rule wins and Allow wins ties
+ */
+
+export interface RobotsRules {
+  isAllowed(path: string): boolean;
+  /** Crawl-delay in seconds, if the matching group sets one */
+  crawlDelay?: number;
+  /** Sitemap URLs listed anywhere in the file */
+  sitemaps: string[];
+}
+
+interface Rule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+/** Rules when a site has no robots.txt */
+export const ALLOW_ALL: RobotsRules = { isAllowed: () => true, sitemaps: [] };
+
+function toRegex(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Rules for userAgent from a robots.txt body
+ */
+export function parseRobotsTxt(body: string, userAgent: string): RobotsRules {
+  const product = userAgent.split("/")[0].toLowerCase();
+  const groups: Array<{ agents: string[]; rules: Rule[]; crawlDelay?: number }> = [];
+  const sitemaps: string[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "sitemap") {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if (field === "user-agent") {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if ((field === "allow" || field === "disallow") && value) {
+      current.rules.push({ allow: field === "allow", pattern: value, regex: toRegex(value) });
+    } else if (field === "crawl-delay" && !isNaN(parseFloat(value))) {
+      current.crawlDelay = parseFloat(value);
+    }
+  }
+
+  // Our own group(s) if any, otherwise the * group(s)
+  const named = groups.filter((group) => group.agents.some((agent) => agent !== "*" && product.includes(agent)));
+  const matching = named.length > 0 ? named : groups.filter((group) => group.agents.includes("*"));
+  const rules = matching.flatMap((group) => group.rules);
+  const crawlDelay = matching.find((group) => group.crawlDelay !== undefined)?.crawlDelay;
+
+  return {
+    isAllowed(path: string) {
+      // robots.txt itself is always allowed
+      if (path === "/robots.txt") return true;
+
+      let best: Rule | undefined;
+      for (const rule of rules) {
+        if (!rule.regex.test(path)) continue;
+        if (
+          !best ||
+          rule.pattern.length > best.pattern.length ||
+          (rule.pattern.length === best.pattern.length && rule.allow)
+        ) {
+          best = rule;
+        }
+      }
+      return best ? best.allow : true;
+    },
+    crawlDelay,
+    sitemaps,
+  };
+}
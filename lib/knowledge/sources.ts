@@ -0,0 +1,461 @@
+/**
+ * Knowledge Sources
+ * Websites and sitemaps crawled into the knowledge base. Each page becomes a source document
+ * named by its canonical URL and goes through the normal ingestion pipeline, so re-crawls
+ * skip unchanged pages and only re-embed the chunks of pages that changed.
+ */
+
+import { tasks } from "@trigger.dev/sdk/v3";
+import { createServerClient } from "@/lib/supabase/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import { embeddingService } from "@/lib/embeddings/providers";
+import { knowledgeConfig } from "@/lib/knowledge/config";
+import { crawlSite, isPublicHostname, normalizeUrl, type CrawlMode } from "@/lib/knowledge/crawler";
+import { isIngestionActive, KNOWLEDGE_UPLOADS_BUCKET, queueDocumentIngestion } from "@/lib/knowledge/ingestion";
+import { hashContent } from "@/lib/knowledge/versioning";
+import type { Database } from "@/types/database";
+import type { knowledgeCrawlTask } from "@/trigger/knowledge-crawl";
+
+type KnowledgeSource = Database["public"]["Tables"]["knowledge_sources"]["Row"];
+type SourceDocument = Database["public"]["Tables"]["source_documents"]["Row"];
+
+/** Postgres unique_violation, raised when the same URL is added twice */
+const UNIQUE_VIOLATION = "23505";
+
+/** Sources the hourly re-crawl queues per run */
+const MAX_RECRAWLS_PER_RUN = 50;
+
+/** A crawl still queued or running after this long is assumed lost and may be queued again */
+const STALE_CRAWL_MS = 2 * 60 * 60 * 1000;
+
+/** Crawl errors kept in last_crawl_stats */
+const MAX_RECORDED_ERRORS = 10;
+
+export interface CrawlResult {
+  status: "ready" | "failed" | "skipped";
+  /** Pages found by the crawl */
+  pages?: number;
+  /** New or changed pages queued for ingestion */
+  queued?: number;
+  unchanged?: number;
+  /** Pages no longer on the site, deleted after a complete crawl */
+  removed?: number;
+  error?: string;
+}
+
+/**
+ * A knowledge source as listed in the dashboard
+ */
+function toSourceSummary(source: KnowledgeSource) {
+  return {
+    id: source.id,
+    type: source.type,
+    url: source.url,
+    agent_id: source.agent_id,
+    maxDepth: source.max_depth,
+    maxPages: source.max_pages,
+    recrawlIntervalHours: source.recrawl_interval_hours,
+    status: source.status,
+    error: source.error,
+    pageCount: source.page_count,
+    lastCrawlStats: source.last_crawl_stats,
+    lastCrawledAt: source.last_crawled_at,
+    nextCrawlAt: source.next_crawl_at,
+    created_at: source.created_at,
+  };
+}
+
+/**
+ * How a retrieved chunk is labelled for the model and listed as a source:
+ * crawled pages by title and URL so answers can link to them, uploads by file name
+ */
+export function citationFor(metadata: Record<string, any> | null | undefined): { header: string; source: string } {
+  const url: string | undefined = metadata?.sourceUrl;
+
+  if (url) {
+    return { header: `[Web page: ${metadata?.title || url} (${url})]`, source: url };
+  }
+
+  const name = metadata?.originalFileName || "Unknown";
+  return { header: `[Document: ${name}]`, source: name };
+}
+
+/**
+ * List a tenant's websites and sitemaps
+ */
+export async function getKnowledgeSources(tenantId: string, agentId?: string) {
+  const supabase = await createServerClient();
+
+  try {
+    let query = supabase
+      .from("knowledge_sources")
+      .select("*")
+      .eq("tenant_id", tenantId)
+      .order("created_at", { ascending: false });
+
+    if (agentId) {
+      query = query.eq("agent_id", agentId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    return { success: true, sources: ((data || []) as KnowledgeSource[]).map(toSourceSummary) };
+  } catch (error) {
+    console.error("Error fetching knowledge sources:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to fetch knowledge sources",
+    };
+  }
+}
+
+/**
+ * Add a website or sitemap and queue its first crawl
+ * Depth and page limits are clamped to knowledgeConfig.crawler's limits.
+ */
+export async function createKnowledgeSource(input: {
+  tenantId: string;
+  agentId: string | null;
+  type: CrawlMode;
+  url: string;
+  maxDepth?: number;
+  maxPages?: number;
+  recrawlIntervalHours?: number | null;
+  createdBy?: string;
+}) {
+  const { crawler } = knowledgeConfig;
+  const url = normalizeUrl((input.url || "").trim());
+
+  if (!url) {
+    return { success: false, error: "Enter a valid http(s) URL" };
+  }
+
+  if (!isPublicHostname(new URL(url).hostname)) {
+    return { success: false, error: "Only public websites can be crawled" };
+  }
+
+  const clamp = (value: number | undefined, fallback: number, min: number, max: number) =>
+    Math.min(Math.max(Math.round(Number.isFinite(value) ? value! : fallback), min), max);
+
+  const recrawlIntervalHours = input.recrawlIntervalHours
+    ? clamp(input.recrawlIntervalHours, 24, 1, 24 * 30)
+    : null;
+
+  const supabase = await createServerClient();
+
+  const { data: source, error } = await supabase
+    .from("knowledge_sources")
+    .insert({
+      tenant_id: input.tenantId,
+      agent_id: input.agentId,
+      type: input.type === "sitemap" ? "sitemap" : "website",
+      url,
+      max_depth: clamp(input.maxDepth, crawler.defaultMaxDepth, 0, crawler.maxDepthLimit),
+      max_pages: clamp(input.maxPages, crawler.defaultMaxPages, 1, crawler.maxPagesLimit),
+      recrawl_interval_hours: recrawlIntervalHours,
+      created_by: input.createdBy || null,
+    })
+    .select()
+    .single<KnowledgeSource>();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    return { success: false, error: `${url} is already a knowledge source` };
+  }
+
+  if (error || !source) {
+    return { success: false, error: `Database error: ${error?.message}` };
+  }
+
+  await queueSourceCrawl(source.id);
+
+  return { success: true, source: toSourceSummary(source) };
+}
+
+/**
+ * Re-crawl a source now
+ */
+export async function requestSourceCrawl(tenantId: string, sourceId: string) {
+  const supabase = await createServerClient();
+
+  const { data: source } = await supabase
+    .from("knowledge_sources")
+    .select("id, url, status")
+    .eq("id", sourceId)
+    .eq("tenant_id", tenantId)
+    .maybeSingle();
+
+  if (!source) {
+    return { success: false, error: "Knowledge source not found" };
+  }
+
+  if (source.status === "queued" || source.status === "crawling") {
+    return { success: false, error: "This source is already being crawled" };
+  }
+
+  await queueSourceCrawl(source.id);
+
+  return { success: true, url: source.url as string };
+}
+
+/**
+ * Delete a source with all of its crawled pages
+ */
+export async function deleteKnowledgeSource(tenantId: string, sourceId: string) {
+  const supabase = await createServerClient();
+
+  try {
+    const { data: source, error: selectError } = await supabase
+      .from("knowledge_sources")
+      .select("id, url")
+      .eq("id", sourceId)
+      .eq("tenant_id", tenantId)
+      .maybeSingle();
+
+    if (selectError) {
+      throw new Error(`Database error: ${selectError.message}`);
+    }
+
+    if (!source) {
+      return { success: false, error: "Knowledge source not found" };
+    }
+
+    const { data: pages } = await supabase
+      .from("source_documents")
+      .select("size_bytes, staged_path")
+      .eq("knowledge_source_id", sourceId);
+
+    // Pages and their chunks are removed with the source
+    const { error } = await supabase
+      .from("knowledge_sources")
+      .delete()
+      .eq("id", sourceId)
+      .eq("tenant_id", tenantId);
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`);
+    }
+
+    const freedBytes = await releasePages(tenantId, pages || []);
+
+    return { success: true, url: source.url as string, pages: pages?.length || 0, freedBytes };
+  } catch (error) {
+    console.error("Error deleting knowledge source:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to delete knowledge source",
+    };
+  }
+}
+
+/**
+ * Remove staged uploads and release the storage of deleted pages
+ */
+async function releasePages(
+  tenantId: string,
+  pages: Array<Pick<SourceDocument, "size_bytes" | "staged_path">>
+): Promise<number> {
+  const stagedPaths = pages.map((page) => page.staged_path).filter((path): path is string => !!path);
+  if (stagedPaths.length > 0) {
+    await createServiceClient().storage.from(KNOWLEDGE_UPLOADS_BUCKET).remove(stagedPaths);
+  }
+
+  const freedBytes = pages.reduce((sum, page) => sum + (Number(page.size_bytes) || 0), 0);
+  if (freedBytes > 0) {
+    const { decrementStorageUsage } = await import("@/lib/billing/storage");
+    await decrementStorageUsage(tenantId, freedBytes);
+  }
+
+  return freedBytes;
+}
+
+/**
+ * Queue the crawl task for a source, crawling inline when Trigger.dev is unavailable
+ */
+export async function queueSourceCrawl(sourceId: string): Promise<void> {
+  const supabase = createServiceClient();
+
+  await supabase.from("knowledge_sources").update({ status: "queued", error: null }).eq("id", sourceId);
+
+  try {
+    const handle = await tasks.trigger<typeof knowledgeCrawlTask>("knowledge-crawl", { knowledgeSourceId: sourceId });
+
+    await supabase.from("knowledge_sources").update({ crawl_run_id: handle.id }).eq("id", sourceId);
+    console.log(`[CRAWL] Queued crawl of ${sourceId} (${handle.id})`);
+  } catch (queueError) {
+    console.error("[CRAWL] Failed to queue crawl task, running inline:", queueError);
+    await crawlKnowledgeSource(sourceId);
+  }
+}
+
+/**
+ * Queue re-crawls of sources whose next_crawl_at has passed
+ */
+export async function queueDueRecrawls(now: Date = new Date()): Promise<{ queued: number }> {
+  const supabase = createServiceClient();
+  const staleBefore = new Date(now.getTime() - STALE_CRAWL_MS).toISOString();
+
+  const { data: due, error } = await supabase
+    .from("knowledge_sources")
+    .select("id")
+    .lte("next_crawl_at", now.toISOString())
+    .or(`status.in.(ready,failed),updated_at.lt.${staleBefore}`)
+    .order("next_crawl_at", { ascending: true })
+    .limit(MAX_RECRAWLS_PER_RUN);
+
+  if (error) {
+    throw new Error(`Failed to fetch due knowledge sources: ${error.message}`);
+  }
+
+  for (const source of due || []) {
+    await queueSourceCrawl(source.id);
+  }
+
+  return { queued: due?.length || 0 };
+}
+
+/**
+ * Crawl a source and queue ingestion of its new and changed pages
+ * Pages whose text and embedding provider are unchanged are left alone. After a complete
+ * crawl, pages that are no longer on the site are deleted; an incomplete one (limits hit or
+ * fetch errors) keeps them, since they may only have been out of reach this time.
+ */
+export async function crawlKnowledgeSource(sourceId: string): Promise<CrawlResult> {
+  const supabase = createServiceClient();
+
+  const { data: source } = await supabase
+    .from("knowledge_sources")
+    .select("*")
+    .eq("id", sourceId)
+    .maybeSingle<KnowledgeSource>();
+
+  if (!source) {
+    console.warn(`[CRAWL] Knowledge source ${sourceId} was deleted before crawling`);
+    return { status: "skipped" };
+  }
+
+  const nextCrawlAt = source.recrawl_interval_hours
+    ? new Date(Date.now() + source.recrawl_interval_hours * 60 * 60 * 1000).toISOString()
+    : null;
+
+  try {
+    await supabase.from("knowledge_sources").update({ status: "crawling", error: null }).eq("id", source.id);
+
+    const { data: existing, error: existingError } = await supabase
+      .from("source_documents")
+      .select("id, name, status, content_hash, embedding_model, size_bytes, staged_path, updated_at")
+      .eq("knowledge_source_id", source.id);
+
+    if (existingError) {
+      throw new Error(`Database error: ${existingError.message}`);
+    }
+
+    const pagesByUrl = new Map((existing || []).map((page) => [page.name as string, page]));
+    const embeddingModel = embeddingService.getPreferredProvider();
+    const seen = new Set<string>();
+    const errors: string[] = [];
+    let queued = 0;
+    let unchanged = 0;
+
+    const summary = await crawlSite(
+      { url: source.url, mode: source.type, maxDepth: source.max_depth, maxPages: source.max_pages },
+      async (page) => {
+        seen.add(page.url);
+        const stored = pagesByUrl.get(page.url);
+
+        if (
+          stored?.status === "indexed" &&
+          stored.content_hash === hashContent(page.text) &&
+          stored.embedding_model === embeddingModel
+        ) {
+          unchanged++;
+          return;
+        }
+
+        if (stored && isIngestionActive(stored)) {
+          return;
+        }
+
+        const result = await queueDocumentIngestion({
+          tenantId: source.tenant_id,
+          agentId: source.agent_id,
+          name: page.url,
+          file: new TextEncoder().encode(page.text),
+          fileType: "text/markdown",
+          metadata: { sourceUrl: page.url, title: page.title, knowledgeSourceId: source.id },
+          createdBy: source.created_by || undefined,
+          knowledgeSourceId: source.id,
+        });
+
+        if (result.success) {
+          queued++;
+        } else {
+          errors.push(`${page.url}: ${result.error}`);
+        }
+      }
+    );
+
+    const removedPages = summary.complete ? (existing || []).filter((page) => !seen.has(page.name)) : [];
+
+    if (removedPages.length > 0) {
+      const { error: deleteError } = await supabase
+        .from("source_documents")
+        .delete()
+        .in("id", removedPages.map((page) => page.id));
+
+      if (deleteError) {
+        throw new Error(`Database error: ${deleteError.message}`);
+      }
+
+      await releasePages(source.tenant_id, removedPages);
+    }
+
+    const { count } = await supabase
+      .from("source_documents")
+      .select("id", { count: "exact", head: true })
+      .eq("knowledge_source_id", source.id);
+
+    const stats = {
+      pages: summary.pages,
+      fetched: summary.fetched,
+      queued,
+      unchanged,
+      removed: removedPages.length,
+      skipped: summary.skipped,
+      complete: summary.complete,
+      errors: [...summary.errors, ...errors].slice(0, MAX_RECORDED_ERRORS),
+    };
+
+    await supabase
+      .from("knowledge_sources")
+      .update({
+        status: "ready",
+        error: null,
+        page_count: count ?? seen.size,
+        last_crawl_stats: stats,
+        last_crawled_at: new Date().toISOString(),
+        next_crawl_at: nextCrawlAt,
+      })
+      .eq("id", source.id);
+
+    console.log(
+      `[CRAWL] ${source.url}: ${queued} queued, ${unchanged} unchanged, ${removedPages.length} removed`
+    );
+
+    return { status: "ready", pages: summary.pages, queued, unchanged, removed: removedPages.length };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    // A failed source is tried again at its next scheduled re-crawl
+    await supabase
+      .from("knowledge_sources")
+      .update({ status: "failed", error: message, last_crawled_at: new Date().toISOString(), next_crawl_at: nextCrawlAt })
+      .eq("id", source.id);
+
+    console.error(`[CRAWL] ${source.url} failed:`, message);
+    return { status: "failed", error: message };
+  }
+}
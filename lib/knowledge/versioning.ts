@@ -0,0 +1,62 @@
+/**
+ * Document Versioning
+ * Content hashing and the chunk diff applied when a document is re-uploaded or re-indexed
+ */
+
+import { createHash } from "crypto";
+
+/**
+ * SHA-256 of text, hex encoded (matches encode(sha256(convert_to(text, 'UTF8')), 'hex') in SQL)
+ */
+export function hashContent(text: string): string {
+  return createHash("sha256").update(text, "utf8").digest("hex");
+}
+
+export interface StoredChunk {
+  id: string;
+  content_hash: string | null;
+  embedding_model: string | null;
+}
+
+export interface ChunkPlan {
+  /** Existing rows reused for chunk positions, keeping their embeddings */
+  keep: Array<{ id: string; index: number }>;
+  /** Chunk positions that need a new embedding */
+  embed: number[];
+  /** Existing rows no longer part of the document */
+  remove: string[];
+}
+
+/**
+ * Match a document's new chunks against its stored ones by hash
+ * A stored chunk is reused only when it was embedded by the current provider, so
+ * a provider change re-embeds everything.
+ */
+export function planChunkUpdate(stored: StoredChunk[], hashes: string[], embeddingModel: string): ChunkPlan {
+  const reusable = new Map<string, string[]>();
+  const remove: string[] = [];
+
+  for (const chunk of stored) {
+    if (chunk.content_hash && chunk.embedding_model === embeddingModel) {
+      reusable.set(chunk.content_hash, [...(reusable.get(chunk.content_hash) || []), chunk.id]);
+    } else {
+      remove.push(chunk.id);
+    }
+  }
+
+  const keep: ChunkPlan["keep"] = [];
+  const embed: number[] = [];
+
+  hashes.forEach((hash, index) => {
+    const id = reusable.get(hash)?.shift();
+    if (id) {
+      keep.push({ id, index });
+    } else {
+      embed.push(index);
+    }
+  });
+
+  for (const ids of reusable.values()) remove.push(...ids);
+
+  return { keep, embed, remove };
+}
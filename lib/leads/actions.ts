@@ -6,6 +6,7 @@
 "use server";
 
 import { createServerClient } from "@/lib/supabase/server";
+import { recordAuditEvent } from "@/lib/audit/log";
 
 export interface Lead {
   id: string;
@@ -98,6 +99,15 @@ export async function createLead(data: CreateLeadData) {
       return { error: "Failed to create lead" };
     }
 
+    await recordAuditEvent({
+      tenantId: profile.tenant_id,
+      actor: user,
+      action: "lead.created",
+      target: { type: "lead", id: lead.id, name: lead.name || lead.email },
+      before: null,
+      after: { agent_id: lead.agent_id, name: lead.name, email: lead.email, phone: lead.phone, company: lead.company, custom_data: lead.custom_data, source: lead.source },
+    });
+
     return { lead };
   } catch (error) {
     console.error("Error creating lead:", error);
@@ -304,6 +314,13 @@ export async function updateLead(
     if (data.company !== undefined) updateData.company = data.company;
     if (data.customData !== undefined) updateData.custom_data = data.customData;
 
+    const { data: existing } = await supabase
+      .from("leads")
+      .select("name, email, phone, company, custom_data")
+      .eq("id", leadId)
+      .eq("tenant_id", profile.tenant_id)
+      .single();
+
     const { error } = await supabase
       .from("leads")
       .update(updateData)
@@ -315,6 +332,15 @@ export async function updateLead(
       return { error: "Failed to update lead" };
     }
 
+    await recordAuditEvent({
+      tenantId: profile.tenant_id,
+      actor: user,
+      action: "lead.updated",
+      target: { type: "lead", id: leadId, name: updateData.name ?? existing?.name ?? existing?.email },
+      before: existing,
+      after: updateData,
+    });
+
     return { success: true };
   } catch (error) {
     console.error("Error updating lead:", error);
@@ -349,6 +375,13 @@ export async function deleteLead(leadId: string) {
   }
 
   try {
+    const { data: lead } = await supabase
+      .from("leads")
+      .select("agent_id, name, email, phone, company, source")
+      .eq("id", leadId)
+      .eq("tenant_id", profile.tenant_id)
+      .single();
+
     const { error } = await supabase
       .from("leads")
       .delete()
@@ -359,6 +392,15 @@ export async function deleteLead(leadId: string) {
       return { error: "Failed to delete lead" };
     }
 
+    await recordAuditEvent({
+      tenantId: profile.tenant_id,
+      actor: user,
+      action: "lead.deleted",
+      target: { type: "lead", id: leadId, name: lead?.name || lead?.email },
+      before: lead,
+      after: null,
+    });
+
     return { success: true };
   } catch (error) {
     console.error("Error deleting lead:", error);
@@ -406,6 +448,14 @@ export async function linkLeadToConversation(
       return { error: "Failed to link lead to conversation" };
     }
 
+    await recordAuditEvent({
+      tenantId: profile.tenant_id,
+      actor: user,
+      action: "lead.linked",
+      target: { type: "lead", id: leadId },
+      after: { conversation_id: conversationId },
+    });
+
     return { success: true };
   } catch (error) {
     console.error("Error linking lead:", error);
@@ -423,6 +473,25 @@ export async function exportLeadsToCSV() {
     return { error: result.error || "Failed to fetch leads" };
   }
 
+  const supabase = await createServerClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  const { data: profile } = user
+    ? await supabase.from("profiles").select("tenant_id").eq("id", user.id).single()
+    : { data: null };
+
+  if (user && profile?.tenant_id) {
+    await recordAuditEvent({
+      tenantId: profile.tenant_id,
+      actor: user,
+      action: "leads.exported",
+      target: { type: "lead" },
+      metadata: { count: result.leads.length },
+    });
+  }
+
   // Create CSV content
   const headers = ["Name", "Email", "Phone", "Company", "Agent", "Created At"];
   const rows = result.leads.map((lead) => [
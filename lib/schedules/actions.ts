@@ -0,0 +1,492 @@
+/**
+ * Agent Schedule Actions
+ * Server actions for managing recurring agent runs and viewing their history
+ * Schedules are mirrored to Trigger.dev as imperative schedules on the agent-schedule task
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { schedules } from "@trigger.dev/sdk/v3";
+import { createServerClient } from "@/lib/supabase/server";
+import { getPlanLimits } from "@/lib/billing/plans";
+import {
+  DESTINATION_PROVIDERS,
+  isValidCron,
+  isValidTimezone,
+  validateDestination,
+  type ScheduleDestination,
+} from "./cron";
+import { getTriggerJobUsage, type AgentSchedule } from "./runner";
+import { recordAuditEvent } from "@/lib/audit/log";
+import { authorize, type Permission } from "@/lib/team/permissions";
+
+const SCHEDULE_TASK_ID = "agent-schedule";
+
+export interface ScheduleData {
+  agentId: string;
+  name: string;
+  cron: string;
+  timezone: string;
+  prompt: string;
+  destination: ScheduleDestination;
+}
+
+export interface ScheduleRun {
+  id: string;
+  schedule_id: string;
+  agent_id: string | null;
+  status: "running" | "success" | "failed" | "skipped";
+  scheduled_for: string | null;
+  output: string | null;
+  error: string | null;
+  delivered: boolean;
+  started_at: string;
+  completed_at: string | null;
+  schedule?: { id: string; name: string };
+  agent?: { id: string; name: string };
+}
+
+/**
+ * Resolve the signed-in user's tenant, checking their role when a permission is given
+ */
+async function getCurrentTenant(permission?: Permission) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { supabase, error: "Unauthorized" };
+  }
+
+  if (permission) {
+    const access = await authorize(supabase, user.id, permission);
+
+    if (access.error || !access.tenantId) {
+      return { supabase, error: access.error };
+    }
+
+    return { supabase, user, userId: user.id, tenantId: access.tenantId };
+  }
+
+  // Get user's tenant_id
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("tenant_id")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.tenant_id) {
+    return { supabase, error: "User profile not found" };
+  }
+
+  return { supabase, user, userId: user.id, tenantId: profile.tenant_id as string };
+}
+
+/**
+ * Validate schedule fields, returning an error message when something is wrong
+ */
+function validateSchedule(data: Partial<ScheduleData>): string | null {
+  if (data.name !== undefined && !data.name.trim()) return "Name is required";
+  if (data.prompt !== undefined && !data.prompt.trim()) return "Prompt is required";
+  if (data.cron !== undefined && !isValidCron(data.cron)) {
+    return "Invalid cron expression. Use 5 fields: minute hour day-of-month month day-of-week";
+  }
+  if (data.timezone !== undefined && !isValidTimezone(data.timezone)) {
+    return `Unknown timezone: ${data.timezone}`;
+  }
+  if (data.destination !== undefined) return validateDestination(data.destination);
+  return null;
+}
+
+/**
+ * Get schedules for the current tenant along with this month's run usage
+ */
+export async function getSchedules() {
+  const { supabase, tenantId, error: authError } = await getCurrentTenant();
+  if (authError || !tenantId) return { error: authError };
+
+  try {
+    const { data, error } = await supabase
+      .from("agent_schedules")
+      .select("*, agent:agents(id, name)")
+      .eq("tenant_id", tenantId)
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      console.error("Error fetching schedules:", error);
+      return { error: "Failed to fetch schedules" };
+    }
+
+    const usage = await getTriggerJobUsage(tenantId);
+
+    return {
+      schedules: (data || []) as Array<AgentSchedule & { agent?: { id: string; name: string } }>,
+      usage: {
+        current: usage.current,
+        limit: getPlanLimits(usage.planId).trigger_jobs as number,
+      },
+    };
+  } catch (error) {
+    console.error("Error fetching schedules:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Get recent scheduled runs, optionally for one schedule
+ */
+export async function getScheduleRuns(options: { scheduleId?: string } = {}) {
+  const { supabase, tenantId, error: authError } = await getCurrentTenant();
+  if (authError || !tenantId) return { error: authError };
+
+  try {
+    let query = supabase
+      .from("agent_schedule_runs")
+      .select("*, schedule:agent_schedules(id, name), agent:agents(id, name)")
+      .eq("tenant_id", tenantId)
+      .order("started_at", { ascending: false })
+      .limit(100);
+
+    if (options.scheduleId) {
+      query = query.eq("schedule_id", options.scheduleId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error fetching schedule runs:", error);
+      return { error: "Failed to fetch schedule runs" };
+    }
+
+    return { runs: (data || []) as ScheduleRun[] };
+  } catch (error) {
+    console.error("Error fetching schedule runs:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Connected integrations a schedule can send its output through
+ */
+export async function getScheduleDestinations() {
+  const { supabase, tenantId, error: authError } = await getCurrentTenant();
+  if (authError || !tenantId) return { error: authError };
+
+  const { data, error } = await supabase
+    .from("integrations")
+    .select("id, provider, config, created_at")
+    .eq("tenant_id", tenantId)
+    .eq("status", "connected")
+    .in("provider", Object.values(DESTINATION_PROVIDERS));
+
+  if (error) {
+    console.error("Error fetching destination integrations:", error);
+    return { error: "Failed to fetch integrations" };
+  }
+
+  return { integrations: data || [] };
+}
+
+/**
+ * Create a schedule and register it with Trigger.dev
+ */
+export async function createSchedule(data: ScheduleData) {
+  const { supabase, tenantId, user, userId, error: authError } = await getCurrentTenant("agents:manage");
+  if (authError || !tenantId) return { error: authError };
+
+  const validationError = validateSchedule(data);
+  if (validationError) return { error: validationError };
+
+  try {
+    // Agent and destination must belong to this tenant
+    const { data: agent } = await supabase
+      .from("agents")
+      .select("id")
+      .eq("id", data.agentId)
+      .eq("tenant_id", tenantId)
+      .single();
+
+    if (!agent) return { error: "Agent not found" };
+
+    const destinationError = await checkDestinationIntegration(supabase, tenantId, data.destination);
+    if (destinationError) return { error: destinationError };
+
+    const { data: schedule, error } = await supabase
+      .from("agent_schedules")
+      .insert({
+        tenant_id: tenantId,
+        agent_id: data.agentId,
+        name: data.name.trim(),
+        cron: data.cron.trim(),
+        timezone: data.timezone,
+        prompt: data.prompt.trim(),
+        destination: data.destination,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error || !schedule) {
+      console.error("Schedule creation error:", error);
+      return { error: "Failed to create schedule" };
+    }
+
+    try {
+      const triggerSchedule = await schedules.create({
+        task: SCHEDULE_TASK_ID,
+        cron: schedule.cron,
+        timezone: schedule.timezone,
+        externalId: schedule.id,
+        deduplicationKey: `agent-schedule-${schedule.id}`,
+      });
+
+      await supabase
+        .from("agent_schedules")
+        .update({ trigger_schedule_id: triggerSchedule.id })
+        .eq("id", schedule.id);
+    } catch (triggerError) {
+      // Don't keep a schedule that will never run
+      console.error("[SCHEDULE] Failed to register with Trigger.dev:", triggerError);
+      await supabase.from("agent_schedules").delete().eq("id", schedule.id);
+      return { error: "Failed to register schedule. Please try again." };
+    }
+
+    await recordAuditEvent({
+      tenantId,
+      actor: user,
+      action: "schedule.created",
+      target: { type: "schedule", id: schedule.id, name: schedule.name },
+      before: null,
+      after: {
+        agent_id: schedule.agent_id,
+        name: schedule.name,
+        cron: schedule.cron,
+        timezone: schedule.timezone,
+        prompt: schedule.prompt,
+        destination: schedule.destination,
+      },
+    });
+
+    revalidatePath("/schedules");
+    return { success: true, scheduleId: schedule.id as string };
+  } catch (error) {
+    console.error("Schedule creation error:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Update a schedule's timing, prompt or destination
+ */
+export async function updateSchedule(id: string, data: Partial<Omit<ScheduleData, "agentId">>) {
+  const { supabase, tenantId, user, error: authError } = await getCurrentTenant("agents:manage");
+  if (authError || !tenantId) return { error: authError };
+
+  const validationError = validateSchedule(data);
+  if (validationError) return { error: validationError };
+
+  try {
+    const { data: existing } = await supabase
+      .from("agent_schedules")
+      .select("*")
+      .eq("id", id)
+      .eq("tenant_id", tenantId)
+      .single();
+
+    if (!existing) return { error: "Schedule not found" };
+
+    if (data.destination) {
+      const destinationError = await checkDestinationIntegration(supabase, tenantId, data.destination);
+      if (destinationError) return { error: destinationError };
+    }
+
+    const cron = data.cron?.trim() || existing.cron;
+    const timezone = data.timezone || existing.timezone;
+
+    if (existing.trigger_schedule_id && (cron !== existing.cron || timezone !== existing.timezone)) {
+      try {
+        await schedules.update(existing.trigger_schedule_id, {
+          task: SCHEDULE_TASK_ID,
+          cron,
+          timezone,
+          externalId: existing.id,
+        });
+      } catch (triggerError) {
+        console.error("[SCHEDULE] Failed to update Trigger.dev schedule:", triggerError);
+        return { error: "Failed to update schedule timing. Please try again." };
+      }
+    }
+
+    const updateData = {
+      ...(data.name && { name: data.name.trim() }),
+      ...(data.prompt && { prompt: data.prompt.trim() }),
+      ...(data.destination && { destination: data.destination }),
+      cron,
+      timezone,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { error } = await supabase
+      .from("agent_schedules")
+      .update(updateData)
+      .eq("id", id);
+
+    if (error) {
+      console.error("Schedule update error:", error);
+      return { error: "Failed to update schedule" };
+    }
+
+    await recordAuditEvent({
+      tenantId,
+      actor: user,
+      action: "schedule.updated",
+      target: { type: "schedule", id, name: updateData.name || existing.name },
+      before: existing,
+      after: updateData,
+    });
+
+    revalidatePath("/schedules");
+    return { success: true };
+  } catch (error) {
+    console.error("Schedule update error:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Pause or resume a schedule
+ */
+export async function setScheduleEnabled(id: string, enabled: boolean) {
+  const { supabase, tenantId, user, error: authError } = await getCurrentTenant("agents:manage");
+  if (authError || !tenantId) return { error: authError };
+
+  try {
+    const { data: existing } = await supabase
+      .from("agent_schedules")
+      .select("id, name, enabled, trigger_schedule_id")
+      .eq("id", id)
+      .eq("tenant_id", tenantId)
+      .single();
+
+    if (!existing) return { error: "Schedule not found" };
+
+    if (existing.trigger_schedule_id) {
+      try {
+        if (enabled) {
+          await schedules.activate(existing.trigger_schedule_id);
+        } else {
+          await schedules.deactivate(existing.trigger_schedule_id);
+        }
+      } catch (triggerError) {
+        console.error("[SCHEDULE] Failed to toggle Trigger.dev schedule:", triggerError);
+        return { error: "Failed to update schedule. Please try again." };
+      }
+    }
+
+    const { error } = await supabase
+      .from("agent_schedules")
+      .update({ enabled, updated_at: new Date().toISOString() })
+      .eq("id", id);
+
+    if (error) {
+      console.error("Schedule toggle error:", error);
+      return { error: "Failed to update schedule" };
+    }
+
+    await recordAuditEvent({
+      tenantId,
+      actor: user,
+      action: enabled ? "schedule.resumed" : "schedule.paused",
+      target: { type: "schedule", id, name: existing.name },
+      before: { enabled: existing.enabled },
+      after: { enabled },
+    });
+
+    revalidatePath("/schedules");
+    return { success: true };
+  } catch (error) {
+    console.error("Schedule toggle error:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Delete a schedule and its Trigger.dev schedule
+ */
+export async function deleteSchedule(id: string) {
+  const { supabase, tenantId, user, error: authError } = await getCurrentTenant("agents:manage");
+  if (authError || !tenantId) return { error: authError };
+
+  try {
+    const { data: existing } = await supabase
+      .from("agent_schedules")
+      .select("id, name, enabled, trigger_schedule_id")
+      .eq("id", id)
+      .eq("tenant_id", tenantId)
+      .single();
+
+    if (!existing) return { error: "Schedule not found" };
+
+    if (existing.trigger_schedule_id) {
+      try {
+        await schedules.del(existing.trigger_schedule_id);
+      } catch (triggerError) {
+        // The task skips runs whose schedule row no longer exists
+        console.error("[SCHEDULE] Failed to delete Trigger.dev schedule:", triggerError);
+      }
+    }
+
+    const { error } = await supabase
+      .from("agent_schedules")
+      .delete()
+      .eq("id", id);
+
+    if (error) {
+      console.error("Schedule deletion error:", error);
+      return { error: "Failed to delete schedule" };
+    }
+
+    await recordAuditEvent({
+      tenantId,
+      actor: user,
+      action: "schedule.deleted",
+      target: { type: "schedule", id, name: existing.name },
+    });
+
+    revalidatePath("/schedules");
+    return { success: true };
+  } catch (error) {
+    console.error("Schedule deletion error:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Check the destination integration is connected, belongs to the tenant and matches the destination type
+ */
+async function checkDestinationIntegration(
+  supabase: Awaited<ReturnType<typeof createServerClient>>,
+  tenantId: string,
+  destination: ScheduleDestination
+): Promise<string | null> {
+  const { data: integration } = await supabase
+    .from("integrations")
+    .select("id, provider, status")
+    .eq("id", destination.integrationId)
+    .eq("tenant_id", tenantId)
+    .single();
+
+  if (!integration || integration.status !== "connected") {
+    return "Destination integration is not connected";
+  }
+
+  if (integration.provider !== DESTINATION_PROVIDERS[destination.type]) {
+    return `Choose a ${destination.type} integration for this destination`;
+  }
+
+  return null;
+}
@@ -0,0 +1,100 @@
+/**
+ * Schedule Validation
+ * Checks cron expressions and timezones before they are registered with Trigger.dev
+ */
+
+export type ScheduleDestinationType = "email" | "slack" | "webhook";
+
+/**
+ * Where a scheduled run's output is sent
+ * Every destination goes through one of the tenant's connected integrations
+ */
+export interface ScheduleDestination {
+  type: ScheduleDestinationType;
+  integrationId: string;
+  /** Recipient address for email destinations */
+  to?: string;
+  /** Channel name or ID for Slack destinations */
+  channel?: string;
+}
+
+/** Integration provider each destination type is sent through */
+export const DESTINATION_PROVIDERS: Record<ScheduleDestinationType, string> = {
+  email: "email",
+  slack: "slack",
+  webhook: "webhook",
+};
+
+/** Allowed range of each cron field: minute, hour, day of month, month, day of week */
+const CRON_FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+/**
+ * Validate a 5-field cron expression (minute hour day-of-month month day-of-week)
+ */
+export function isValidCron(cron: string): boolean {
+  const fields = cron.trim().split(/\s+/);
+  if (fields.length !== 5) return false;
+
+  return fields.every((field, index) => {
+    const [min, max] = CRON_FIELD_RANGES[index];
+
+    // "L" (last) is allowed for day of month, and as "nL" for day of week
+    if (index === 2 && field === "L") return true;
+    if (index === 4 && /^[0-7]L$/.test(field)) return true;
+
+    return field.split(",").every((part) => isValidCronPart(part, min, max));
+  });
+}
+
+/**
+ * Validate an IANA timezone name
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a destination's required fields
+ * Returns an error message, or null when the destination is complete
+ */
+export function validateDestination(destination: ScheduleDestination): string | null {
+  if (!DESTINATION_PROVIDERS[destination?.type]) {
+    return "Choose email, Slack or webhook as the destination";
+  }
+  if (!destination.integrationId) {
+    return "Choose an integration to send the result through";
+  }
+  if (destination.type === "email" && !destination.to?.includes("@")) {
+    return "A recipient email address is required";
+  }
+  if (destination.type === "slack" && !destination.channel?.trim()) {
+    return "A Slack channel is required";
+  }
+  return null;
+}
+
+/**
+ * Validate one comma-separated part: "*", "n", "n-m", each with an optional "/step"
+ */
+function isValidCronPart(part: string, min: number, max: number): boolean {
+  const match = part.match(/^(\*|\d+(?:-\d+)?)(?:\/(\d+))?$/);
+  if (!match) return false;
+
+  const [, range, step] = match;
+  if (step !== undefined && Number(step) < 1) return false;
+  if (range === "*") return true;
+
+  const [start, end = start] = range.split("-").map(Number);
+  return start >= min && end <= max && start <= end;
+}
@@ -0,0 +1,267 @@
+/**
+ * Scheduled Agent Runs
+ * Executes an agent schedule from the agent-schedule Trigger.dev task,
+ * delivers the output to its destination and records the run
+ */
+
+import { createServiceClient } from "@/lib/supabase/service";
+import { executeAgent } from "@/lib/agents/execute";
+import { canRunTriggerJob, getPlanLimits } from "@/lib/billing/plans";
+import {
+  createIntegrationInstance,
+  type IntegrationRecord,
+} from "@/lib/integrations/registry";
+import { enqueueWebhookDelivery } from "@/lib/webhooks/delivery";
+import type { ScheduleDestination } from "./cron";
+
+export interface AgentSchedule {
+  id: string;
+  tenant_id: string;
+  agent_id: string;
+  name: string;
+  cron: string;
+  timezone: string;
+  prompt: string;
+  destination: ScheduleDestination;
+  enabled: boolean;
+  trigger_schedule_id: string | null;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ScheduleRunStatus = "running" | "success" | "failed" | "skipped";
+
+export interface ScheduleRunResult {
+  runId?: string;
+  status: ScheduleRunStatus;
+  error?: string;
+}
+
+/**
+ * Run one occurrence of a schedule
+ * Disabled schedules and tenants over their monthly trigger_jobs limit are recorded as skipped
+ */
+export async function runAgentSchedule(
+  scheduleId: string,
+  occurrence: { scheduledFor?: Date; triggerRunId?: string } = {}
+): Promise<ScheduleRunResult> {
+  const supabase = createServiceClient();
+
+  const { data: schedule, error } = await supabase
+    .from("agent_schedules")
+    .select("*, agent:agents(id, name)")
+    .eq("id", scheduleId)
+    .single();
+
+  if (error || !schedule) {
+    console.error(`[SCHEDULE] Schedule ${scheduleId} not found:`, error);
+    return { status: "skipped", error: "Schedule not found" };
+  }
+
+  const recordRun = async (fields: Record<string, any>) => {
+    const { data: run } = await supabase
+      .from("agent_schedule_runs")
+      .insert({
+        schedule_id: schedule.id,
+        tenant_id: schedule.tenant_id,
+        agent_id: schedule.agent_id,
+        scheduled_for: occurrence.scheduledFor?.toISOString() || null,
+        trigger_run_id: occurrence.triggerRunId || null,
+        ...fields,
+      })
+      .select("id")
+      .single();
+    return run?.id as string | undefined;
+  };
+
+  if (!schedule.enabled) {
+    const runId = await recordRun({
+      status: "skipped",
+      error: "Schedule is paused",
+      completed_at: new Date().toISOString(),
+    });
+    return { runId, status: "skipped", error: "Schedule is paused" };
+  }
+
+  // Count this run against the plan's monthly background job allowance
+  const usage = await getTriggerJobUsage(schedule.tenant_id);
+  if (!canRunTriggerJob(usage.planId, usage.current)) {
+    const message = `Monthly scheduled run limit reached (${usage.current}/${getPlanLimits(usage.planId).trigger_jobs}). Please upgrade your plan.`;
+    const runId = await recordRun({
+      status: "skipped",
+      error: message,
+      completed_at: new Date().toISOString(),
+    });
+    return { runId, status: "skipped", error: message };
+  }
+
+  const runId = await recordRun({ status: "running" });
+  let output = "";
+
+  try {
+    const result = await executeAgent(schedule.agent_id, {
+      type: "schedule",
+      message: schedule.prompt,
+      timestamp: (occurrence.scheduledFor || new Date()).toISOString(),
+    });
+    output = result.message;
+
+    await deliverScheduleOutput(schedule, output, runId);
+
+    await finishRun(runId, schedule.id, { status: "success", output, delivered: true });
+    console.log(`[SCHEDULE] Ran "${schedule.name}" for agent ${schedule.agent_id}`);
+    return { runId, status: "success" };
+  } catch (runError) {
+    const message = (runError as Error)?.message || "Scheduled run failed";
+    console.error(`[SCHEDULE] Run of "${schedule.name}" failed:`, runError);
+
+    await finishRun(runId, schedule.id, { status: "failed", output: output || null, error: message });
+    return { runId, status: "failed", error: message };
+  }
+}
+
+/**
+ * Scheduled runs this calendar month (skipped runs don't count)
+ */
+export async function getTriggerJobUsage(tenantId: string): Promise<{
+  planId: string;
+  current: number;
+}> {
+  const supabase = createServiceClient();
+
+  // Check subscriptions table first (source of truth), then tenants.subscription_plan
+  const { data: subscriptions } = await supabase
+    .from("subscriptions")
+    .select("plan_id")
+    .eq("tenant_id", tenantId)
+    .eq("status", "active")
+    .order("created_at", { ascending: false })
+    .limit(1);
+
+  let planId = subscriptions?.[0]?.plan_id;
+  if (!planId) {
+    const { data: tenant } = await supabase
+      .from("tenants")
+      .select("subscription_plan")
+      .eq("id", tenantId)
+      .single();
+    planId = tenant?.subscription_plan || "free";
+  }
+
+  const now = new Date();
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+  const { count } = await supabase
+    .from("agent_schedule_runs")
+    .select("*", { count: "exact", head: true })
+    .eq("tenant_id", tenantId)
+    .neq("status", "skipped")
+    .gte("started_at", monthStart.toISOString());
+
+  return { planId: planId as string, current: count || 0 };
+}
+
+/**
+ * Send a run's output through the destination integration
+ */
+async function deliverScheduleOutput(
+  schedule: AgentSchedule & { agent?: { name: string } | null },
+  output: string,
+  runId?: string
+): Promise<void> {
+  const destination = schedule.destination;
+  const supabase = createServiceClient();
+
+  const { data: integration } = await supabase
+    .from("integrations")
+    .select("*")
+    .eq("id", destination.integrationId)
+    .eq("tenant_id", schedule.tenant_id)
+    .eq("status", "connected")
+    .single();
+
+  if (!integration) {
+    throw new Error("Destination integration is missing or disconnected");
+  }
+
+  const agentName = schedule.agent?.name || "Agent";
+
+  switch (destination.type) {
+    case "email": {
+      const instance = createIntegrationInstance(integration as IntegrationRecord);
+      if (!instance) throw new Error("Failed to load email integration");
+
+      await instance.executeAction("send_email", {
+        to: destination.to,
+        subject: `${agentName}: ${schedule.name}`,
+        body: output,
+        agent_id: schedule.agent_id,
+      });
+      return;
+    }
+
+    case "slack": {
+      const instance = createIntegrationInstance(integration as IntegrationRecord);
+      if (!instance) throw new Error("Failed to load Slack integration");
+
+      await instance.executeAction("send_message", {
+        channel: destination.channel,
+        text: `*${agentName}: ${schedule.name}*\n${output}`,
+      });
+      return;
+    }
+
+    case "webhook": {
+      // Queued so the delivery gets the usual retries and replay
+      await enqueueWebhookDelivery({
+        tenantId: schedule.tenant_id,
+        integrationId: destination.integrationId,
+        agentId: schedule.agent_id,
+        payload: {
+          event_type: "agent.scheduled_run",
+          timestamp: new Date().toISOString(),
+          tenant_id: schedule.tenant_id,
+          integration_id: destination.integrationId,
+          data: {
+            schedule_id: schedule.id,
+            schedule_name: schedule.name,
+            run_id: runId,
+            agent_id: schedule.agent_id,
+            agent_name: agentName,
+            prompt: schedule.prompt,
+            output,
+          },
+        },
+      });
+      return;
+    }
+
+    default:
+      throw new Error(`Unknown destination type: ${(destination as any)?.type}`);
+  }
+}
+
+/**
+ * Complete a run row and stamp the schedule's last run time
+ */
+async function finishRun(
+  runId: string | undefined,
+  scheduleId: string,
+  fields: Record<string, any>
+): Promise<void> {
+  const supabase = createServiceClient();
+  const now = new Date().toISOString();
+
+  if (runId) {
+    await supabase
+      .from("agent_schedule_runs")
+      .update({ ...fields, completed_at: now })
+      .eq("id", runId);
+  }
+
+  await supabase
+    .from("agent_schedules")
+    .update({ last_run_at: now })
+    .eq("id", scheduleId);
+}
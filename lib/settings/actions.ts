@@ -7,6 +7,9 @@
 
 import { revalidatePath } from "next/cache";
 import { createServerClient } from "@/lib/supabase/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import { authorize } from "@/lib/team/permissions";
+import { recordAuditEvent } from "@/lib/audit/log";
 import { redirect } from "next/navigation";
 
 export interface ProfileData {
@@ -93,6 +96,12 @@ export async function updateProfile(data: ProfileData) {
       updateData.full_name = data.full_name;
     }
 
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("tenant_id, full_name")
+      .eq("id", user.id)
+      .single();
+
     // Update profile
     const { error: profileError } = await supabase
       .from("profiles")
@@ -116,6 +125,17 @@ export async function updateProfile(data: ProfileData) {
       }
     }
 
+    if (profile?.tenant_id) {
+      await recordAuditEvent({
+        tenantId: profile.tenant_id,
+        actor: user,
+        action: "profile.updated",
+        target: { type: "user", id: user.id, name: user.email },
+        before: { full_name: profile.full_name, email: user.email },
+        after: { ...updateData, ...(data.email && { email: data.email }) },
+      });
+    }
+
     revalidatePath("/settings");
     return { success: true };
   } catch (error) {
@@ -148,6 +168,21 @@ export async function updatePassword(newPassword: string) {
       return { error: "Failed to update password" };
     }
 
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("tenant_id")
+      .eq("id", user.id)
+      .single();
+
+    if (profile?.tenant_id) {
+      await recordAuditEvent({
+        tenantId: profile.tenant_id,
+        actor: user,
+        action: "password.changed",
+        target: { type: "user", id: user.id, name: user.email },
+      });
+    }
+
     return { success: true };
   } catch (error) {
     console.error("Password update error:", error);
@@ -171,34 +206,43 @@ export async function updateOrganization(data: OrganizationData) {
 
   try {
     // Get user's tenant_id
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("tenant_id, role")
-      .eq("id", user.id)
-      .single();
+    const access = await authorize(supabase, user.id, "settings:manage");
 
-    if (!profile?.tenant_id) {
-      return { error: "Profile not found" };
+    if (access.error || !access.tenantId) {
+      return { error: access.error };
     }
 
-    // Only owner or admin can update organization
-    if (profile.role !== "owner" && profile.role !== "admin") {
-      return { error: "You don't have permission to update organization settings" };
-    }
+    const serviceClient = createServiceClient();
 
-    const { error } = await supabase
+    const { data: tenant } = await serviceClient
+      .from("tenants")
+      .select("name")
+      .eq("id", access.tenantId)
+      .single();
+
+    // Tenant RLS only lets owners update, so admins go through the service client
+    const { error } = await serviceClient
       .from("tenants")
       .update({
         name: data.name,
         updated_at: new Date().toISOString(),
       })
-      .eq("id", profile.tenant_id);
+      .eq("id", access.tenantId);
 
     if (error) {
       console.error("Organization update error:", error);
       return { error: "Failed to update organization" };
     }
 
+    await recordAuditEvent({
+      tenantId: access.tenantId,
+      actor: user,
+      action: "organization.updated",
+      target: { type: "organization", id: access.tenantId, name: data.name },
+      before: tenant,
+      after: { name: data.name },
+    });
+
     revalidatePath("/settings");
     return { success: true };
   } catch (error) {
@@ -222,6 +266,12 @@ export async function updateNotificationPreferences(preferences: NotificationPre
   }
 
   try {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("tenant_id, notification_preferences")
+      .eq("id", user.id)
+      .single();
+
     const { error } = await supabase
       .from("profiles")
       .update({
@@ -234,6 +284,17 @@ export async function updateNotificationPreferences(preferences: NotificationPre
       return { error: "Failed to update notification preferences" };
     }
 
+    if (profile?.tenant_id) {
+      await recordAuditEvent({
+        tenantId: profile.tenant_id,
+        actor: user,
+        action: "notifications.updated",
+        target: { type: "user", id: user.id, name: user.email },
+        before: { notification_preferences: profile.notification_preferences },
+        after: { notification_preferences: preferences },
+      });
+    }
+
     revalidatePath("/settings");
     return { success: true };
   } catch (error) {
@@ -257,22 +318,18 @@ export async function exportData() {
   }
 
   try {
-    // Get user's tenant_id
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("tenant_id")
-      .eq("id", user.id)
-      .single();
+    // Exports include every conversation and lead in the organization
+    const access = await authorize(supabase, user.id, "settings:manage");
 
-    if (!profile?.tenant_id) {
-      return { error: "Profile not found" };
+    if (access.error || !access.tenantId) {
+      return { error: access.error };
     }
 
     // Fetch all data
     const [agents, conversations, leads] = await Promise.all([
-      supabase.from("agents").select("*").eq("tenant_id", profile.tenant_id),
-      supabase.from("conversations").select("*").eq("tenant_id", profile.tenant_id),
-      supabase.from("leads").select("*").eq("tenant_id", profile.tenant_id),
+      supabase.from("agents").select("*").eq("tenant_id", access.tenantId),
+      supabase.from("conversations").select("*").eq("tenant_id", access.tenantId),
+      supabase.from("leads").select("*").eq("tenant_id", access.tenantId),
     ]);
 
     const exportData = {
@@ -286,6 +343,18 @@ export async function exportData() {
       leads: leads.data || [],
     };
 
+    await recordAuditEvent({
+      tenantId: access.tenantId,
+      actor: user,
+      action: "data.exported",
+      target: { type: "organization", id: access.tenantId },
+      metadata: {
+        agents: exportData.agents.length,
+        conversations: exportData.conversations.length,
+        leads: exportData.leads.length,
+      },
+    });
+
     return { success: true, data: exportData };
   } catch (error) {
     console.error("Export data error:", error);
@@ -308,32 +377,18 @@ export async function deleteAccount() {
   }
 
   try {
-    // Get user's tenant_id and role
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("tenant_id, role")
-      .eq("id", user.id)
-      .single();
-
-    if (!profile?.tenant_id) {
-      return { error: "Profile not found" };
-    }
-
-    // Only allow if user is owner or if they're the only user
-    const { data: profiles } = await supabase
-      .from("profiles")
-      .select("id")
-      .eq("tenant_id", profile.tenant_id);
+    // Deleting the account removes the whole organization, so only the owner may do it
+    const access = await authorize(supabase, user.id, "account:delete");
 
-    if (profile.role !== "owner" && profiles && profiles.length > 1) {
-      return { error: "Only the organization owner can delete the account when there are multiple users" };
+    if (access.error || !access.tenantId) {
+      return { error: access.error };
     }
 
-    // Delete tenant (cascades to all related data)
+    // Delete tenant (cascades to all related data, including the audit log)
     const { error: deleteError } = await supabase
       .from("tenants")
       .delete()
-      .eq("id", profile.tenant_id);
+      .eq("id", access.tenantId);
 
     if (deleteError) {
       console.error("Account deletion error:", deleteError);
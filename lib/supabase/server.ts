@@ -6,6 +6,7 @@
 
 import { createServerClient as createSupabaseServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
+import { createServiceClient } from './service';
 
 export async function createServerClient() {
   const cookieStore = await cookies();
@@ -33,3 +34,18 @@ export async function createServerClient() {
     }
   );
 }
+
+/**
+ * Cookie-based client inside a request, service client outside one
+ * For shared server code, such as agent execution, that also runs from Trigger.dev tasks
+ */
+export async function createRequestOrServiceClient() {
+  try {
+    await cookies();
+  } catch {
+    // cookies() throws outside a request scope (background jobs)
+    return createServiceClient();
+  }
+
+  return createServerClient();
+}
@@ -0,0 +1,445 @@
+/**
+ * Team Server Actions
+ * Invite teammates, accept and revoke invitations, change roles and remove members
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createServerClient } from "@/lib/supabase/server";
+import { createServiceClient } from "@/lib/supabase/service";
+import { parseEmailAddress } from "@/lib/integrations/email-threading";
+import { recordAuditEvent } from "@/lib/audit/log";
+import {
+  authorize,
+  canAssignRole,
+  canRemoveMember,
+  hasPermission,
+  isTeamRole,
+  type TeamRole,
+} from "./permissions";
+import {
+  createInvitationToken,
+  getInvitationByToken,
+  getInvitationStatus,
+  markInvitationAccepted,
+  sendInvitationEmail,
+} from "./invitations";
+
+const UNIQUE_VIOLATION = "23505";
+
+export interface TeamMember {
+  id: string;
+  email: string;
+  full_name: string | null;
+  role: TeamRole;
+  created_at: string;
+}
+
+export interface TeamInvitation {
+  id: string;
+  email: string;
+  role: Exclude<TeamRole, "owner">;
+  status: "pending" | "expired";
+  expires_at: string;
+  created_at: string;
+}
+
+/**
+ * Resolve the signed-in user's profile
+ */
+async function getCurrentMember() {
+  const supabase = await createServerClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { supabase, error: "Unauthorized" };
+  }
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("id, tenant_id, role, full_name, email")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.tenant_id) {
+    return { supabase, error: "Profile not found" };
+  }
+
+  return { supabase, user, profile };
+}
+
+/**
+ * Members of the current organization, plus open invitations for owners and admins
+ */
+export async function getTeam() {
+  const { profile, error } = await getCurrentMember();
+  if (error || !profile) return { error };
+
+  // Profiles RLS only exposes the user's own row, so members are listed with the service client
+  const serviceClient = createServiceClient();
+
+  const { data: members } = await serviceClient
+    .from("profiles")
+    .select("id, email, full_name, role, created_at")
+    .eq("tenant_id", profile.tenant_id)
+    .order("created_at", { ascending: true });
+
+  const canManage = hasPermission(profile.role, "members:manage");
+  let invitations: TeamInvitation[] = [];
+
+  if (canManage) {
+    const { data } = await serviceClient
+      .from("team_invitations")
+      .select("id, email, role, expires_at, accepted_at, revoked_at, created_at")
+      .eq("tenant_id", profile.tenant_id)
+      .is("accepted_at", null)
+      .is("revoked_at", null)
+      .order("created_at", { ascending: false });
+
+    invitations = (data || []).map((invitation) => ({
+      id: invitation.id,
+      email: invitation.email,
+      role: invitation.role,
+      status: getInvitationStatus(invitation) as TeamInvitation["status"],
+      expires_at: invitation.expires_at,
+      created_at: invitation.created_at,
+    }));
+  }
+
+  return {
+    members: (members || []) as TeamMember[],
+    invitations,
+    currentUserId: profile.id as string,
+    currentRole: profile.role as TeamRole,
+  };
+}
+
+/**
+ * Invite someone to the organization by email
+ * Re-inviting an address replaces its open invitation with a fresh link
+ */
+export async function inviteMember(data: { email: string; role: TeamRole }) {
+  const { supabase, user, error: authError } = await getCurrentMember();
+  if (authError || !user) return { error: authError };
+
+  const access = await authorize(supabase, user.id, "members:manage");
+  if (access.error || !access.tenantId) return { error: access.error };
+
+  const parsed = parseEmailAddress(data.email || "");
+  if (!parsed) {
+    return { error: "Enter a valid email address" };
+  }
+
+  if (data.role !== "admin" && data.role !== "member") {
+    return { error: "Invitations can be for admins or members. Transfer ownership from the team list instead." };
+  }
+
+  const serviceClient = createServiceClient();
+
+  const { data: existingMember } = await serviceClient
+    .from("profiles")
+    .select("id")
+    .eq("tenant_id", access.tenantId)
+    .ilike("email", parsed.address.replace(/[\\%_]/g, "\\$&"))
+    .maybeSingle();
+
+  if (existingMember) {
+    return { error: "That person is already a member of your organization" };
+  }
+
+  // Only one open invitation per address
+  await serviceClient
+    .from("team_invitations")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("tenant_id", access.tenantId)
+    .eq("email", parsed.address)
+    .is("accepted_at", null)
+    .is("revoked_at", null);
+
+  const { token, tokenHash } = createInvitationToken();
+
+  const { data: invitation, error } = await serviceClient
+    .from("team_invitations")
+    .insert({
+      tenant_id: access.tenantId,
+      email: parsed.address,
+      role: data.role,
+      token_hash: tokenHash,
+      invited_by: user.id,
+    })
+    .select("id")
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    return { error: "That person was just invited. Refresh to see the invitation." };
+  }
+
+  if (error) {
+    console.error("[TEAM] Invitation creation error:", error);
+    return { error: "Failed to create invitation" };
+  }
+
+  await recordAuditEvent({
+    tenantId: access.tenantId,
+    actor: user,
+    action: "member.invited",
+    target: { type: "invitation", id: invitation.id, name: parsed.address },
+    after: { email: parsed.address, role: data.role },
+  });
+
+  const [{ data: tenant }, { data: inviter }] = await Promise.all([
+    serviceClient.from("tenants").select("name").eq("id", access.tenantId).single(),
+    serviceClient.from("profiles").select("full_name, email").eq("id", user.id).single(),
+  ]);
+
+  const sent = await sendInvitationEmail({
+    to: parsed.address,
+    token,
+    organizationName: tenant?.name || "your team",
+    inviterName: inviter?.full_name || inviter?.email || "A teammate",
+    role: data.role,
+  });
+
+  revalidatePath("/settings");
+
+  if (!sent.success) {
+    return { success: true, warning: "Invitation created, but the email could not be sent. Try inviting again later." };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Revoke an open invitation so its link stops working
+ */
+export async function revokeInvitation(invitationId: string) {
+  const { supabase, user, error: authError } = await getCurrentMember();
+  if (authError || !user) return { error: authError };
+
+  const access = await authorize(supabase, user.id, "members:manage");
+  if (access.error || !access.tenantId) return { error: access.error };
+
+  const { data, error } = await createServiceClient()
+    .from("team_invitations")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", invitationId)
+    .eq("tenant_id", access.tenantId)
+    .is("accepted_at", null)
+    .is("revoked_at", null)
+    .select("id, email, role");
+
+  if (error) {
+    console.error("[TEAM] Invitation revoke error:", error);
+    return { error: "Failed to revoke invitation" };
+  }
+
+  if (!data?.length) {
+    return { error: "Invitation not found or already used" };
+  }
+
+  await recordAuditEvent({
+    tenantId: access.tenantId,
+    actor: user,
+    action: "invitation.revoked",
+    target: { type: "invitation", id: invitationId, name: data[0].email },
+    metadata: { role: data[0].role },
+  });
+
+  revalidatePath("/settings");
+  return { success: true };
+}
+
+/**
+ * Change a member's role
+ * Making someone the owner transfers ownership: the current owner becomes an admin
+ */
+export async function updateMemberRole(memberId: string, role: TeamRole) {
+  const { profile, error: authError } = await getCurrentMember();
+  if (authError || !profile) return { error: authError };
+
+  if (!isTeamRole(role)) {
+    return { error: "Invalid role" };
+  }
+
+  const serviceClient = createServiceClient();
+
+  const { data: member } = await serviceClient
+    .from("profiles")
+    .select("id, role, email")
+    .eq("id", memberId)
+    .eq("tenant_id", profile.tenant_id)
+    .single();
+
+  if (!member) {
+    return { error: "Member not found" };
+  }
+
+  if (!canAssignRole(profile, member, role)) {
+    return { error: "You don't have permission to give this member that role" };
+  }
+
+  if (role === "owner") {
+    // One database transaction, so the organization always has exactly one owner
+    const { error: transferError } = await serviceClient.rpc("transfer_ownership", {
+      p_tenant_id: profile.tenant_id,
+      p_from_user_id: profile.id,
+      p_to_user_id: member.id,
+    });
+
+    if (transferError) {
+      console.error("[TEAM] Ownership transfer error:", transferError);
+      return { error: "Failed to transfer ownership" };
+    }
+
+    console.log(`[TEAM] Ownership of tenant ${profile.tenant_id} transferred from ${profile.id} to ${member.id}`);
+  } else {
+    const { error } = await serviceClient
+      .from("profiles")
+      .update({ role, updated_at: new Date().toISOString() })
+      .eq("id", member.id);
+
+    if (error) {
+      console.error("[TEAM] Role update error:", error);
+      return { error: "Failed to update role" };
+    }
+  }
+
+  await recordAuditEvent({
+    tenantId: profile.tenant_id,
+    actor: { id: profile.id, email: profile.email },
+    action: role === "owner" ? "ownership.transferred" : "member.role_changed",
+    target: { type: "member", id: member.id, name: member.email },
+    before: { role: member.role },
+    after: { role },
+  });
+
+  revalidatePath("/settings");
+  return { success: true };
+}
+
+/**
+ * Remove a member from the organization
+ * Their login is kept but detached from the tenant; agents they created stay with the organization
+ */
+export async function removeMember(memberId: string) {
+  const { profile, error: authError } = await getCurrentMember();
+  if (authError || !profile) return { error: authError };
+
+  const serviceClient = createServiceClient();
+
+  const { data: member } = await serviceClient
+    .from("profiles")
+    .select("id, role, email")
+    .eq("id", memberId)
+    .eq("tenant_id", profile.tenant_id)
+    .single();
+
+  if (!member) {
+    return { error: "Member not found" };
+  }
+
+  if (!canRemoveMember(profile, member)) {
+    return { error: "You don't have permission to remove this member" };
+  }
+
+  const { error } = await serviceClient
+    .from("profiles")
+    .update({ tenant_id: null, role: "member", updated_at: new Date().toISOString() })
+    .eq("id", member.id)
+    .eq("tenant_id", profile.tenant_id);
+
+  if (error) {
+    console.error("[TEAM] Member removal error:", error);
+    return { error: "Failed to remove member" };
+  }
+
+  console.log(`[TEAM] Removed ${member.id} from tenant ${profile.tenant_id}`);
+
+  await recordAuditEvent({
+    tenantId: profile.tenant_id,
+    actor: { id: profile.id, email: profile.email },
+    action: "member.removed",
+    target: { type: "member", id: member.id, name: member.email },
+    before: { role: member.role },
+    after: null,
+  });
+
+  revalidatePath("/settings");
+  return { success: true };
+}
+
+/**
+ * Accept an invitation as the signed-in user
+ * Accounts belong to one organization, so this only works for users who aren't in one
+ * (new sign-ups accept through the signup form instead)
+ */
+export async function acceptInvitation(token: string) {
+  const supabase = await createServerClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  const invitation = await getInvitationByToken(token);
+
+  if (!invitation || invitation.status !== "pending") {
+    return { error: "This invitation is no longer valid. Ask for a new one." };
+  }
+
+  if (user.email?.toLowerCase() !== invitation.email) {
+    return { error: `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.` };
+  }
+
+  const serviceClient = createServiceClient();
+
+  const { data: profile } = await serviceClient
+    .from("profiles")
+    .select("tenant_id, full_name")
+    .eq("id", user.id)
+    .maybeSingle();
+
+  if (profile?.tenant_id === invitation.tenantId) {
+    return { success: true };
+  }
+
+  if (profile?.tenant_id) {
+    return { error: "Your account already belongs to another organization" };
+  }
+
+  if (!(await markInvitationAccepted(invitation.id, user.id))) {
+    return { error: "This invitation is no longer valid. Ask for a new one." };
+  }
+
+  const { error } = await serviceClient.from("profiles").upsert({
+    id: user.id,
+    tenant_id: invitation.tenantId,
+    email: invitation.email,
+    full_name: profile?.full_name || user.user_metadata?.full_name || null,
+    role: invitation.role,
+  });
+
+  if (error) {
+    console.error("[TEAM] Failed to join tenant:", error);
+    return { error: "Failed to join organization" };
+  }
+
+  await recordAuditEvent({
+    tenantId: invitation.tenantId,
+    actor: user,
+    action: "member.joined",
+    target: { type: "member", id: user.id, name: invitation.email },
+    after: { role: invitation.role },
+    metadata: { invitation_id: invitation.id },
+  });
+
+  revalidatePath("/", "layout");
+  return { success: true };
+}
@@ -0,0 +1,153 @@
+/**
+ * Team Invitations
+ * Invite tokens, lookups and invite emails
+ * Only the SHA-256 hash of a token is stored, so a database leak can't be used to join a tenant
+ * Server-only (service client); actions that use these check permissions first
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { Resend } from "resend";
+import { createServiceClient } from "@/lib/supabase/service";
+import { TeamInvitationEmail } from "@/emails/team-invitation";
+import { ROLE_LABELS, type TeamRole } from "./permissions";
+
+export type InvitationStatus = "pending" | "accepted" | "revoked" | "expired";
+
+export interface InvitationDetails {
+  id: string;
+  tenantId: string;
+  organizationName: string;
+  email: string;
+  role: Exclude<TeamRole, "owner">;
+  status: InvitationStatus;
+  expiresAt: string;
+}
+
+// Lazy initialize Resend to avoid build-time errors
+let resendInstance: Resend | null = null;
+function getResend() {
+  if (!resendInstance) {
+    resendInstance = new Resend(process.env.RESEND_API_KEY);
+  }
+  return resendInstance;
+}
+
+export function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * New random invite token; the token goes in the link, the hash in the database
+ */
+export function createInvitationToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashInvitationToken(token) };
+}
+
+export function getInvitationStatus(
+  invitation: { accepted_at: string | null; revoked_at: string | null; expires_at: string },
+  now: Date = new Date()
+): InvitationStatus {
+  if (invitation.accepted_at) return "accepted";
+  if (invitation.revoked_at) return "revoked";
+  if (new Date(invitation.expires_at) <= now) return "expired";
+  return "pending";
+}
+
+export function getInvitationUrl(token: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return `${appUrl}/invite/${encodeURIComponent(token)}`;
+}
+
+/**
+ * Look up an invitation from the token in an invite link
+ */
+export async function getInvitationByToken(token: string): Promise<InvitationDetails | null> {
+  if (!token) return null;
+
+  const supabase = createServiceClient();
+
+  const { data: invitation } = await supabase
+    .from("team_invitations")
+    .select("id, tenant_id, email, role, expires_at, accepted_at, revoked_at, tenant:tenants(name)")
+    .eq("token_hash", hashInvitationToken(token))
+    .maybeSingle();
+
+  if (!invitation) return null;
+
+  const tenant = Array.isArray(invitation.tenant) ? invitation.tenant[0] : invitation.tenant;
+
+  return {
+    id: invitation.id,
+    tenantId: invitation.tenant_id,
+    organizationName: tenant?.name || "your team",
+    email: invitation.email,
+    role: invitation.role,
+    status: getInvitationStatus(invitation),
+    expiresAt: invitation.expires_at,
+  };
+}
+
+/**
+ * Mark an invitation accepted
+ * Returns false if it was accepted or revoked in the meantime, so a token can only be used once
+ */
+export async function markInvitationAccepted(invitationId: string, userId: string): Promise<boolean> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("team_invitations")
+    .update({ accepted_at: new Date().toISOString(), accepted_by: userId })
+    .eq("id", invitationId)
+    .is("accepted_at", null)
+    .is("revoked_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .select("id");
+
+  if (error) {
+    console.error("[TEAM] Failed to accept invitation:", error);
+    return false;
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Email an invite link
+ */
+export async function sendInvitationEmail(params: {
+  to: string;
+  token: string;
+  organizationName: string;
+  inviterName: string;
+  role: TeamRole;
+}): Promise<{ success: boolean; error?: string }> {
+  if (!process.env.RESEND_API_KEY) {
+    console.warn("RESEND_API_KEY not configured, skipping invitation email");
+    return { success: false, error: "Email not configured" };
+  }
+
+  try {
+    const { error } = await getResend().emails.send({
+      from: process.env.RESEND_FROM_EMAIL || "Zapta <notifications@zapta.ai>",
+      to: params.to,
+      subject: `${params.inviterName} invited you to join ${params.organizationName} on Zapta`,
+      react: TeamInvitationEmail({
+        organizationName: params.organizationName,
+        inviterName: params.inviterName,
+        roleLabel: ROLE_LABELS[params.role],
+        inviteUrl: getInvitationUrl(params.token),
+      }),
+    });
+
+    if (error) {
+      console.error("[TEAM] Error sending invitation email:", error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("[TEAM] Error sending invitation email:", error);
+    return { success: false, error: error instanceof Error ? error.message : "Unknown error" };
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Team Roles and Permissions
+ * Maps profile roles (owner, admin, member) to what they may change in their organization
+ * Server actions check permissions with authorize() before writing
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export type TeamRole = "owner" | "admin" | "member";
+
+export const TEAM_ROLES: TeamRole[] = ["owner", "admin", "member"];
+
+export type Permission =
+  | "agents:manage"
+  | "integrations:manage"
+  | "settings:manage"
+  | "members:manage"
+  | "audit:view"
+  | "billing:manage"
+  | "account:delete";
+
+const PERMISSION_ROLES: Record<Permission, TeamRole[]> = {
+  "agents:manage": ["owner", "admin"],
+  "integrations:manage": ["owner", "admin"],
+  "settings:manage": ["owner", "admin"],
+  "members:manage": ["owner", "admin"],
+  "audit:view": ["owner", "admin"],
+  "billing:manage": ["owner"],
+  "account:delete": ["owner"],
+};
+
+const PERMISSION_ERRORS: Record<Permission, string> = {
+  "agents:manage": "Only organization owners and admins can manage agents",
+  "integrations:manage": "Only organization owners and admins can manage integrations",
+  "settings:manage": "Only organization owners and admins can change organization settings",
+  "members:manage": "Only organization owners and admins can manage team members",
+  "audit:view": "Only organization owners and admins can view the audit log",
+  "billing:manage": "Only the organization owner can manage billing",
+  "account:delete": "Only the organization owner can delete the account",
+};
+
+export const ROLE_LABELS: Record<TeamRole, string> = {
+  owner: "Owner",
+  admin: "Admin",
+  member: "Member",
+};
+
+export function isTeamRole(value: unknown): value is TeamRole {
+  return typeof value === "string" && (TEAM_ROLES as string[]).includes(value);
+}
+
+/**
+ * Whether a role grants a permission; unknown roles grant nothing
+ */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isTeamRole(role) && PERMISSION_ROLES[permission].includes(role);
+}
+
+export function getPermissionError(permission: Permission): string {
+  return PERMISSION_ERRORS[permission];
+}
+
+/**
+ * Whether `actor` may give `target` (currently `currentRole`) the role `nextRole`
+ * Only the owner can hand over ownership, and admins can't change the owner
+ */
+export function canAssignRole(
+  actor: { id: string; role: string },
+  target: { id: string; role: string },
+  nextRole: TeamRole
+): boolean {
+  if (!hasPermission(actor.role, "members:manage")) return false;
+  if (actor.id === target.id) return false;
+  if (target.role === "owner") return false;
+  if (nextRole === "owner") return actor.role === "owner";
+  return true;
+}
+
+/**
+ * Whether `actor` may remove `target` from the organization
+ */
+export function canRemoveMember(actor: { id: string; role: string }, target: { id: string; role: string }): boolean {
+  if (!hasPermission(actor.role, "members:manage")) return false;
+  if (actor.id === target.id || target.role === "owner") return false;
+  // Admins can't remove other admins
+  return actor.role === "owner" || target.role === "member";
+}
+
+/**
+ * Load the user's tenant and role and check a permission
+ * @returns tenantId and role, or an error to return from the server action
+ */
+export async function authorize(
+  supabase: SupabaseClient,
+  userId: string,
+  permission: Permission
+) {
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("tenant_id, role")
+    .eq("id", userId)
+    .single();
+
+  if (!profile?.tenant_id) {
+    return { error: "Profile not found" };
+  }
+
+  if (!hasPermission(profile.role, permission)) {
+    return { error: getPermissionError(permission) };
+  }
+
+  return { tenantId: profile.tenant_id as string, role: profile.role as TeamRole };
+}
@@ -0,0 +1,137 @@
+/**
+ * Webhook Delivery Actions
+ * Server actions for inspecting and replaying webhook deliveries
+ */
+
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createServerClient } from "@/lib/supabase/server";
+import { recordAuditEvent } from "@/lib/audit/log";
+import {
+  enqueueWebhookDelivery,
+  type WebhookDelivery,
+} from "@/lib/webhooks/delivery";
+
+/**
+ * Get webhook deliveries for the current user's tenant
+ */
+export async function getWebhookDeliveries(options: { status?: string } = {}) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  // Get user's tenant_id
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("tenant_id")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.tenant_id) {
+    return { error: "User profile not found" };
+  }
+
+  try {
+    let query = supabase
+      .from("webhook_deliveries")
+      .select("*")
+      .eq("tenant_id", profile.tenant_id)
+      .order("created_at", { ascending: false })
+      .limit(100);
+
+    if (options.status && options.status !== "all") {
+      query = query.eq("status", options.status);
+    }
+
+    const { data: deliveries, error } = await query;
+
+    if (error) {
+      console.error("Error fetching webhook deliveries:", error);
+      return { error: "Failed to fetch webhook deliveries" };
+    }
+
+    return { deliveries: (deliveries || []) as WebhookDelivery[] };
+  } catch (error) {
+    console.error("Error fetching webhook deliveries:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Replay a delivery by queueing a new one with the same payload
+ */
+export async function replayWebhookDelivery(id: string) {
+  const supabase = await createServerClient();
+
+  // Get current user
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { error: "Unauthorized" };
+  }
+
+  // Get user's tenant_id
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("tenant_id")
+    .eq("id", user.id)
+    .single();
+
+  if (!profile?.tenant_id) {
+    return { error: "User profile not found" };
+  }
+
+  try {
+    // Load through RLS so users can only replay their own tenant's deliveries
+    const { data: delivery, error } = await supabase
+      .from("webhook_deliveries")
+      .select("*")
+      .eq("id", id)
+      .eq("tenant_id", profile.tenant_id)
+      .single();
+
+    if (error || !delivery) {
+      return { error: "Delivery not found" };
+    }
+
+    if (!delivery.integration_id) {
+      return { error: "The webhook integration for this delivery was deleted" };
+    }
+
+    const deliveryId = await enqueueWebhookDelivery({
+      tenantId: delivery.tenant_id,
+      integrationId: delivery.integration_id,
+      agentId: delivery.agent_id,
+      payload: delivery.payload,
+      replayedFrom: delivery.replayed_from || delivery.id,
+    });
+
+    if (!deliveryId) {
+      return { error: "Failed to queue replay" };
+    }
+
+    await recordAuditEvent({
+      tenantId: profile.tenant_id,
+      actor: user,
+      action: "webhook.replayed",
+      target: { type: "webhook_delivery", id: delivery.id },
+      metadata: { integration_id: delivery.integration_id, replay_delivery_id: deliveryId },
+    });
+
+    revalidatePath("/integrations/deliveries");
+    return { success: true, deliveryId };
+  } catch (error) {
+    console.error("Error replaying webhook delivery:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Webhook Delivery Queue
+ * Persists outbound webhook events and hands them to the webhook-delivery
+ * Trigger.dev task, which retries with backoff and dead-letters after the final attempt
+ */
+
+import { tasks } from "@trigger.dev/sdk/v3";
+import { createServiceClient } from "@/lib/supabase/service";
+import {
+  createIntegrationInstance,
+  type IntegrationRecord,
+} from "@/lib/integrations/registry";
+import type {
+  WebhookDeliveryResult,
+  WebhookPayload,
+} from "@/lib/integrations/webhook";
+import type { webhookDeliveryTask } from "@/trigger/webhook-delivery";
+
+/** Attempts made by the delivery task before a delivery is dead-lettered */
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+/** Response bodies are truncated before being stored */
+const MAX_RESPONSE_BODY_LENGTH = 4000;
+
+export type WebhookDeliveryStatus =
+  | "pending"
+  | "retrying"
+  | "delivered"
+  | "dead_lettered";
+
+export interface WebhookDelivery {
+  id: string;
+  tenant_id: string;
+  integration_id: string | null;
+  agent_id: string | null;
+  event_type: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  request_url?: string | null;
+  request_headers?: Record<string, string> | null;
+  response_status?: number | null;
+  response_body?: string | null;
+  last_error?: string | null;
+  last_attempt_at?: string | null;
+  delivered_at?: string | null;
+  dead_lettered_at?: string | null;
+  replayed_from?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Persist a delivery and queue it for the background task
+ * Falls back to a single inline attempt when the task can't be queued,
+ * leaving the row in place so it can be replayed from the dashboard
+ */
+export async function enqueueWebhookDelivery(delivery: {
+  tenantId: string;
+  integrationId: string;
+  agentId?: string | null;
+  payload: WebhookPayload;
+  replayedFrom?: string;
+}): Promise<string | null> {
+  const supabase = createServiceClient();
+
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .insert({
+      tenant_id: delivery.tenantId,
+      integration_id: delivery.integrationId,
+      agent_id: delivery.agentId || null,
+      event_type: delivery.payload.event_type,
+      payload: delivery.payload,
+      status: "pending",
+      replayed_from: delivery.replayedFrom || null,
+    })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    console.error("[WEBHOOK_DELIVERY] Failed to persist delivery:", error);
+    return null;
+  }
+
+  try {
+    await tasks.trigger<typeof webhookDeliveryTask>(
+      "webhook-delivery",
+      { deliveryId: data.id },
+      { idempotencyKey: `webhook-delivery-${data.id}` }
+    );
+    console.log(`[WEBHOOK_DELIVERY] Queued delivery ${data.id}`);
+  } catch (queueError) {
+    console.error(
+      "[WEBHOOK_DELIVERY] Failed to queue delivery task, attempting inline:",
+      queueError
+    );
+    // No retries without the task, so a failed inline attempt is dead-lettered right away
+    await attemptWebhookDelivery(data.id, 1);
+  }
+
+  return data.id;
+}
+
+/**
+ * Make one delivery attempt and record its request and response
+ * Marks the delivery dead-lettered when the attempt fails and it was the last one allowed
+ */
+export async function attemptWebhookDelivery(
+  deliveryId: string,
+  maxAttempts: number = WEBHOOK_MAX_ATTEMPTS
+): Promise<WebhookDeliveryResult & { status: WebhookDeliveryStatus }> {
+  const supabase = createServiceClient();
+
+  const { data: delivery, error } = await supabase
+    .from("webhook_deliveries")
+    .select("*")
+    .eq("id", deliveryId)
+    .single();
+
+  if (error || !delivery) {
+    throw new Error(`Webhook delivery not found: ${deliveryId}`);
+  }
+
+  if (delivery.status === "delivered" || delivery.status === "dead_lettered") {
+    return {
+      ok: delivery.status === "delivered",
+      status: delivery.status,
+      request: {
+        url: delivery.request_url || "",
+        headers: delivery.request_headers || {},
+      },
+    };
+  }
+
+  const result = await sendToIntegration(delivery as WebhookDelivery);
+  const attempts = (delivery.attempts || 0) + 1;
+  const now = new Date().toISOString();
+
+  let status: WebhookDeliveryStatus;
+  if (result.ok) {
+    status = "delivered";
+  } else if (attempts >= maxAttempts) {
+    status = "dead_lettered";
+  } else {
+    status = "retrying";
+  }
+
+  await supabase
+    .from("webhook_deliveries")
+    .update({
+      status,
+      attempts,
+      request_url: result.request.url || null,
+      request_headers: result.request.headers,
+      response_status: result.response?.status ?? null,
+      response_body:
+        result.response?.body?.slice(0, MAX_RESPONSE_BODY_LENGTH) ?? null,
+      last_error: result.error || null,
+      last_attempt_at: now,
+      ...(status === "delivered" && { delivered_at: now }),
+      ...(status === "dead_lettered" && { dead_lettered_at: now }),
+      updated_at: now,
+    })
+    .eq("id", deliveryId);
+
+  if (status === "dead_lettered") {
+    console.error(
+      `[WEBHOOK_DELIVERY] Delivery ${deliveryId} dead-lettered after ${attempts} attempts`
+    );
+  }
+
+  return { ...result, status };
+}
+
+/**
+ * Load the delivery's integration and POST the stored payload
+ */
+async function sendToIntegration(
+  delivery: WebhookDelivery
+): Promise<WebhookDeliveryResult> {
+  const failed = (message: string): WebhookDeliveryResult => ({
+    ok: false,
+    request: { url: "", headers: {} },
+    error: message,
+  });
+
+  if (!delivery.integration_id) {
+    return failed("Webhook integration was deleted");
+  }
+
+  const supabase = createServiceClient();
+  const { data: record } = await supabase
+    .from("integrations")
+    .select("*")
+    .eq("id", delivery.integration_id)
+    .single();
+
+  if (!record) {
+    return failed("Webhook integration not found");
+  }
+
+  const integration = createIntegrationInstance(record as IntegrationRecord);
+  if (!integration) {
+    return failed("Failed to load webhook integration");
+  }
+
+  try {
+    return await integration.executeAction("deliver", {
+      payload: delivery.payload,
+      // Replays keep the original delivery ID so receivers can dedupe them
+      deliveryId: delivery.replayed_from || delivery.id,
+    });
+  } catch (error) {
+    return failed(error instanceof Error ? error.message : String(error));
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Webhook Signatures
+ * Signing scheme for outbound webhooks, plus a verifier receiving services can import
+ *
+ * Each request carries:
+ *   X-Webhook-Id           - delivery ID, stable across retries (use it to dedupe)
+ *   X-Webhook-Timestamp    - unix seconds when the attempt was signed
+ *   X-Webhook-Signature-V1 - comma-separated "v1=<hex>" entries, one per active secret
+ *
+ * Each v1 signature is HMAC-SHA256 over "<id>.<timestamp>.<raw body>".
+ * During secret rotation the header carries signatures for both the new and the old secret.
+ *
+ * This module depends only on node's crypto so it can be copied or imported as-is.
+ */
+
+import crypto from "crypto";
+
+export const WEBHOOK_ID_HEADER = "X-Webhook-Id";
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature-V1";
+
+/** Signatures older or newer than this are rejected to prevent replays */
+export const DEFAULT_WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
+
+const SIGNATURE_VERSION = "v1";
+
+/**
+ * Compute the v1 signature for one secret
+ */
+export function signWebhookPayload(
+  secret: string,
+  deliveryId: string,
+  timestamp: number,
+  body: string
+): string {
+  return crypto
+    .createHmac("sha256", secret)
+    .update(`${deliveryId}.${timestamp}.${body}`)
+    .digest("hex");
+}
+
+/**
+ * Build the X-Webhook-Signature-V1 header value for every active secret
+ */
+export function buildWebhookSignatureHeader(
+  secrets: string[],
+  deliveryId: string,
+  timestamp: number,
+  body: string
+): string {
+  return secrets
+    .map(
+      (secret) =>
+        `${SIGNATURE_VERSION}=${signWebhookPayload(secret, deliveryId, timestamp, body)}`
+    )
+    .join(",");
+}
+
+export interface VerifyWebhookOptions {
+  /** Raw request body, exactly as received */
+  body: string;
+  /** Request headers (Fetch Headers or a plain object such as Node's req.headers) */
+  headers: Headers | Record<string, string | string[] | undefined>;
+  /** Signing secret, or several while rotating on the receiving side */
+  secret: string | string[];
+  /** Allowed clock skew in seconds (default 300) */
+  toleranceSeconds?: number;
+  /** Current time in unix seconds, for testing */
+  now?: number;
+}
+
+export type VerifyWebhookResult =
+  | { valid: true; deliveryId: string; timestamp: number }
+  | { valid: false; reason: string };
+
+/**
+ * Verify a webhook request signed by Zapta
+ *
+ * @example
+ * const result = verifyWebhookSignature({ body: rawBody, headers: req.headers, secret });
+ * if (!result.valid) return new Response(result.reason, { status: 401 });
+ * if (await alreadyProcessed(result.deliveryId)) return new Response("ok");
+ */
+export function verifyWebhookSignature(
+  options: VerifyWebhookOptions
+): VerifyWebhookResult {
+  const deliveryId = readHeader(options.headers, WEBHOOK_ID_HEADER);
+  const timestampHeader = readHeader(options.headers, WEBHOOK_TIMESTAMP_HEADER);
+  const signatureHeader = readHeader(options.headers, WEBHOOK_SIGNATURE_HEADER);
+
+  if (!deliveryId || !timestampHeader || !signatureHeader) {
+    return { valid: false, reason: "Missing signature headers" };
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp)) {
+    return { valid: false, reason: "Invalid timestamp" };
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_WEBHOOK_TOLERANCE_SECONDS;
+  if (Math.abs(now - timestamp) > tolerance) {
+    return { valid: false, reason: "Timestamp outside tolerance" };
+  }
+
+  const received = signatureHeader
+    .split(",")
+    .map((part) => part.trim())
+    .filter((part) => part.startsWith(`${SIGNATURE_VERSION}=`))
+    .map((part) => part.slice(SIGNATURE_VERSION.length + 1));
+
+  const secrets = Array.isArray(options.secret) ? options.secret : [options.secret];
+
+  for (const secret of secrets) {
+    if (!secret) continue;
+    const expected = signWebhookPayload(secret, deliveryId, timestamp, options.body);
+    if (received.some((signature) => safeEqual(signature, expected))) {
+      return { valid: true, deliveryId, timestamp };
+    }
+  }
+
+  return { valid: false, reason: "Signature mismatch" };
+}
+
+/**
+ * Read a header case-insensitively from either header shape
+ */
+function readHeader(
+  headers: VerifyWebhookOptions["headers"],
+  name: string
+): string | undefined {
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const lower = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === lower) {
+      return Array.isArray(value) ? value[0] : value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Constant-time comparison of two hex strings
+ */
+function safeEqual(a: string, b: string): boolean {
+  const aBuffer = Buffer.from(a, "utf8");
+  const bBuffer = Buffer.from(b, "utf8");
+  return aBuffer.length === bBuffer.length && crypto.timingSafeEqual(aBuffer, bBuffer);
+}
@@ -5,8 +5,8 @@
 
 "use server";
 
-import { createServerClient } from "@/lib/supabase/server";
 import { getIntegrationMap } from "@/lib/integrations/registry";
+import { enqueueWebhookDelivery } from "@/lib/webhooks/delivery";
 
 export interface WebhookEventPayload {
   event_type: string;
@@ -16,38 +16,10 @@ export interface WebhookEventPayload {
   data: Record<string, any>;
 }
 
-/**
- * Log webhook delivery attempt to database
- */
-async function logWebhookDelivery(
-  tenantId: string,
-  integrationId: string | undefined,
-  eventType: string,
-  status: "success" | "failed",
-  attempts: number,
-  errorMessage?: string
-): Promise<void> {
-  try {
-    const supabase = await createServerClient();
-    await supabase.from("webhook_logs").insert({
-      tenant_id: tenantId,
-      integration_id: integrationId,
-      event_type: eventType,
-      status,
-      attempts,
-      error_message: errorMessage,
-      delivered_at: new Date().toISOString(),
-    });
-  } catch (error) {
-    // Don't let logging failures break the webhook flow
-    console.error("[WEBHOOK_LOG] Failed to log delivery:", error);
-  }
-}
-
 /**
  * Trigger webhook for an event
- * Sends webhook to configured webhook integrations for the tenant that match filters
- * and are allowed for this agent
+ * Queues a delivery for each webhook integration of the tenant that matches filters
+ * and is allowed for this agent
  */
 export async function triggerWebhookEvent(
   tenantId: string,
@@ -100,35 +72,13 @@ export async function triggerWebhookEvent(
           data: eventData,
         };
 
-        // Retry logic with exponential backoff
-        const maxRetries = 3;
-        let lastError: Error | null = null;
-        
-        for (let attempt = 1; attempt <= maxRetries; attempt++) {
-          try {
-            await integration.executeAction("send", { payload });
-            console.log(`[WEBHOOK_TRIGGER] ✓ Sent ${eventType} webhook (attempt ${attempt})`);
-            
-            // Log successful delivery
-            await logWebhookDelivery(tenantId, (integration as any).integrationRecord?.id, eventType, "success", attempt);
-            return; // Success, exit retry loop
-          } catch (sendError) {
-            lastError = sendError instanceof Error ? sendError : new Error(String(sendError));
-            console.warn(`[WEBHOOK_TRIGGER] Attempt ${attempt}/${maxRetries} failed:`, lastError.message);
-            
-            if (attempt < maxRetries) {
-              // Exponential backoff: 1s, 2s, 4s
-              const delay = Math.pow(2, attempt - 1) * 1000;
-              console.log(`[WEBHOOK_TRIGGER] Retrying in ${delay}ms...`);
-              await new Promise(resolve => setTimeout(resolve, delay));
-            }
-          }
-        }
-        
-        // All retries failed
-        console.error(`[WEBHOOK_TRIGGER] All ${maxRetries} attempts failed for ${eventType}`);
-        await logWebhookDelivery(tenantId, (integration as any).integrationRecord?.id, eventType, "failed", maxRetries, lastError?.message);
-        
+        // Persist the delivery; the webhook-delivery task sends it and handles retries
+        await enqueueWebhookDelivery({
+          tenantId,
+          integrationId: payload.integration_id,
+          agentId,
+          payload,
+        });
       } catch (error) {
         console.error(
           `[WEBHOOK_TRIGGER] Failed to send webhook:`,
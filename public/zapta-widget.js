@@ -751,6 +751,7 @@
             sessionId,
             history: messages.slice(0, -1),
             leadId: leadId || undefined,
+            stream: true,
           }),
         },
       );
@@ -759,12 +760,22 @@
         throw new Error("Failed to get response");
       }
 
-      const data = await response.json();
+      const contentType = response.headers.get("Content-Type") || "";
 
-      messages.push({ role: "assistant", content: data.message });
+      if (contentType.includes("text/event-stream") && response.body) {
+        await readStreamingResponse(response);
+      } else {
+        const data = await response.json();
+        messages.push({ role: "assistant", content: data.message });
+      }
       saveMessages();
     } catch (error) {
       console.error("Zapta widget error:", error);
+      const lastMessage = messages[messages.length - 1];
+      // Drop a partially streamed reply before showing the error
+      if (lastMessage && lastMessage.role === "assistant" && lastMessage.streaming) {
+        messages.pop();
+      }
       messages.push({
         role: "assistant",
         content: "Sorry, I encountered an error. Please try again.",
@@ -776,6 +787,89 @@
     }
   }
 
+  // Read Server-Sent Events from the chat API and render the reply as it arrives
+  async function readStreamingResponse(response) {
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const reply = { role: "assistant", content: "", streaming: true };
+    let buffer = "";
+    let started = false;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf("\n\n");
+
+        const event = parseStreamEvent(rawEvent);
+        if (!event) continue;
+
+        if (event.type === "delta") {
+          if (!started) {
+            // Replace the typing indicator with the reply bubble
+            started = true;
+            isLoading = false;
+            messages.push(reply);
+            renderMessages();
+          }
+          reply.content += event.data.text || "";
+          updateLastMessage(reply.content);
+        } else if (event.type === "done") {
+          reply.content = event.data.message || reply.content;
+          if (!started) {
+            messages.push(reply);
+          }
+          delete reply.streaming;
+          return;
+        } else if (event.type === "error") {
+          throw new Error(event.data.error || "Failed to get response");
+        }
+      }
+    }
+
+    throw new Error("Stream ended unexpectedly");
+  }
+
+  // Parse a single SSE block into { type, data }
+  function parseStreamEvent(rawEvent) {
+    let type = "message";
+    let data = "";
+
+    rawEvent.split("\n").forEach((line) => {
+      if (line.startsWith("event:")) {
+        type = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data += line.slice(5).trim();
+      }
+    });
+
+    if (!data) return null;
+
+    try {
+      return { type, data: JSON.parse(data) };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  // Update the content of the last rendered message without a full re-render
+  function updateLastMessage(content) {
+    const messagesContainer = document.getElementById("zapta-chat-messages");
+    const contents = messagesContainer.querySelectorAll(".zapta-message-content");
+    const lastContent = contents[contents.length - 1];
+    if (lastContent) {
+      lastContent.textContent = content;
+    }
+    scrollToBottom();
+  }
+
   // Scroll to bottom
   function scrollToBottom() {
     const messagesContainer = document.getElementById("zapta-chat-messages");
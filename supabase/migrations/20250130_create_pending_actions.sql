@@ -0,0 +1,60 @@
+-- =============================================================================
+-- PENDING ACTIONS TABLE
+-- Write-side tool calls held for human approval before they run
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.pending_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  agent_id UUID REFERENCES public.agents(id) ON DELETE CASCADE,
+
+  -- Tool call details
+  tool_name TEXT NOT NULL,          -- e.g. sendEmail, createDeal
+  provider TEXT NOT NULL,           -- integration provider the tool runs against
+  args JSONB NOT NULL DEFAULT '{}', -- arguments proposed by the model (editable before approval)
+
+  -- Review state
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected', 'executed', 'failed')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  rejection_reason TEXT,
+
+  -- Execution outcome
+  result JSONB,
+  error_message TEXT,
+  executed_at TIMESTAMPTZ,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for performance
+CREATE INDEX IF NOT EXISTS pending_actions_tenant_status_idx ON public.pending_actions(tenant_id, status);
+CREATE INDEX IF NOT EXISTS pending_actions_agent_id_idx ON public.pending_actions(agent_id);
+CREATE INDEX IF NOT EXISTS pending_actions_created_at_idx ON public.pending_actions(created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.pending_actions ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies
+CREATE POLICY "Users can view pending actions in their tenant"
+  ON public.pending_actions
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+CREATE POLICY "Users can create pending actions in their tenant"
+  ON public.pending_actions
+  FOR INSERT
+  WITH CHECK (tenant_id = get_user_tenant_id());
+
+CREATE POLICY "Users can update pending actions in their tenant"
+  ON public.pending_actions
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id());
+
+-- Note: agents.config.requireApproval holds the list of tool names that need review
+-- Structure: config.requireApproval = ['sendEmail', 'createDeal', ...]
+
+COMMENT ON TABLE public.pending_actions IS 'Business Assistant tool calls awaiting human approval';
@@ -0,0 +1,47 @@
+-- Webhook Deliveries Table
+-- Durable queue of outbound webhook events with full payloads
+-- Retried by the webhook-delivery Trigger.dev task and dead-lettered after the final attempt
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+    integration_id UUID REFERENCES public.integrations(id) ON DELETE SET NULL,
+    agent_id UUID REFERENCES public.agents(id) ON DELETE SET NULL,
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'retrying', 'delivered', 'dead_lettered')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    -- Last attempt's request and response, for inspection in the dashboard
+    request_url TEXT,
+    request_headers JSONB,
+    response_status INTEGER,
+    response_body TEXT,
+    last_error TEXT,
+    last_attempt_at TIMESTAMPTZ,
+    delivered_at TIMESTAMPTZ,
+    dead_lettered_at TIMESTAMPTZ,
+    -- Set when this delivery is a manual replay of another
+    replayed_from UUID REFERENCES public.webhook_deliveries(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_tenant_id ON public.webhook_deliveries(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_integration_id ON public.webhook_deliveries(integration_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON public.webhook_deliveries(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created_at ON public.webhook_deliveries(created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only see deliveries for their tenant
+-- Writes go through the service role (delivery task and replay action)
+CREATE POLICY "Users can view their tenant's webhook deliveries"
+    ON public.webhook_deliveries
+    FOR SELECT
+    USING (tenant_id = public.get_user_tenant_id());
+
+-- Grant access
+GRANT SELECT ON public.webhook_deliveries TO authenticated;
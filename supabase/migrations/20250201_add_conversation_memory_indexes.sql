@@ -0,0 +1,9 @@
+-- Conversation Memory Indexes
+-- Agent runs load history for their own conversation only:
+-- widget chats by metadata.sessionId, email threads and SMS senders by metadata.threadKey
+
+CREATE INDEX IF NOT EXISTS conversations_agent_session_idx
+  ON public.conversations(agent_id, (metadata->>'sessionId'));
+
+CREATE INDEX IF NOT EXISTS conversations_agent_thread_key_idx
+  ON public.conversations(agent_id, (metadata->>'threadKey'));
@@ -0,0 +1,15 @@
+-- Agent Execution Usage and Cost
+-- Records the model, token usage and estimated cost of each execution
+-- (duration_ms already exists and is now populated)
+
+ALTER TABLE public.agent_executions
+  ADD COLUMN IF NOT EXISTS model TEXT,
+  ADD COLUMN IF NOT EXISTS input_tokens INTEGER,
+  ADD COLUMN IF NOT EXISTS output_tokens INTEGER,
+  ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 6);
+
+-- Spend analytics query executions per tenant and agent over a date range
+CREATE INDEX IF NOT EXISTS agent_executions_tenant_created_idx
+  ON public.agent_executions(tenant_id, created_at DESC);
+
+COMMENT ON COLUMN public.agent_executions.cost_usd IS 'Estimated cost in USD from the per-model price table in lib/agents/budget.ts';
@@ -0,0 +1,91 @@
+-- =============================================================================
+-- AGENT SCHEDULES
+-- User-defined recurring agent runs, executed by the agent-schedule Trigger.dev task
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.agent_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+
+  -- What to run and when
+  name TEXT NOT NULL,
+  cron TEXT NOT NULL,                       -- 5-field cron, e.g. '0 9 * * 1'
+  timezone TEXT NOT NULL DEFAULT 'UTC',     -- IANA timezone the cron is evaluated in
+  prompt TEXT NOT NULL,
+
+  -- Where to send the result
+  -- Structure: { type: 'email' | 'slack' | 'webhook', integrationId, to?, channel? }
+  destination JSONB NOT NULL,
+
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  trigger_schedule_id TEXT,                 -- Trigger.dev imperative schedule ID
+  last_run_at TIMESTAMPTZ,
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS agent_schedules_tenant_id_idx ON public.agent_schedules(tenant_id);
+CREATE INDEX IF NOT EXISTS agent_schedules_agent_id_idx ON public.agent_schedules(agent_id);
+
+ALTER TABLE public.agent_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view schedules in their tenant"
+  ON public.agent_schedules
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+CREATE POLICY "Users can create schedules in their tenant"
+  ON public.agent_schedules
+  FOR INSERT
+  WITH CHECK (tenant_id = get_user_tenant_id());
+
+CREATE POLICY "Users can update schedules in their tenant"
+  ON public.agent_schedules
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id());
+
+CREATE POLICY "Users can delete schedules in their tenant"
+  ON public.agent_schedules
+  FOR DELETE
+  USING (tenant_id = get_user_tenant_id());
+
+COMMENT ON TABLE public.agent_schedules IS 'Recurring agent runs with an output destination';
+
+-- =============================================================================
+-- AGENT SCHEDULE RUNS
+-- One row per scheduled run; counts against the plan's monthly trigger_jobs
+-- Written by the background task with the service role
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.agent_schedule_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id UUID NOT NULL REFERENCES public.agent_schedules(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  agent_id UUID REFERENCES public.agents(id) ON DELETE SET NULL,
+
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'success', 'failed', 'skipped')),
+  scheduled_for TIMESTAMPTZ,
+  output TEXT,
+  error TEXT,
+  delivered BOOLEAN NOT NULL DEFAULT false,
+  trigger_run_id TEXT,
+
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS agent_schedule_runs_schedule_idx ON public.agent_schedule_runs(schedule_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS agent_schedule_runs_tenant_started_idx ON public.agent_schedule_runs(tenant_id, started_at DESC);
+
+ALTER TABLE public.agent_schedule_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view schedule runs in their tenant"
+  ON public.agent_schedule_runs
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+COMMENT ON TABLE public.agent_schedule_runs IS 'Run history for agent schedules';
@@ -0,0 +1,21 @@
+-- Agent Inbound Email Addresses
+-- Each agent can own an inbound address (or alias forwarded to the inbound webhook).
+-- Inbound mail routes on the exact address, then the address without its +tag.
+-- Email threads are stored as conversations keyed by the thread's root Message-ID
+-- (metadata.threadKey, indexed in 20250201_add_conversation_memory_indexes.sql)
+
+ALTER TABLE public.agents
+  ADD COLUMN IF NOT EXISTS email_address TEXT;
+
+-- One agent per address across all tenants, stored lowercased
+CREATE UNIQUE INDEX IF NOT EXISTS agents_email_address_key
+  ON public.agents(email_address)
+  WHERE email_address IS NOT NULL;
+
+ALTER TABLE public.agents
+  DROP CONSTRAINT IF EXISTS agents_email_address_lowercase;
+
+ALTER TABLE public.agents
+  ADD CONSTRAINT agents_email_address_lowercase CHECK (email_address = lower(email_address));
+
+COMMENT ON COLUMN public.agents.email_address IS 'Inbound address routed to this agent; mail to local+tag@domain also matches local@domain';
@@ -0,0 +1,229 @@
+-- Usage Ledger
+-- Append-only record of metered usage (messages, SMS, email, calendar, storage).
+-- reserve_usage() checks the plan limit and appends an entry in one transaction,
+-- serialized per tenant and metric, so concurrent requests can't exceed the limit
+-- or lose increments. Period totals are computed from the ledger instead of
+-- counters that have to be reset each month.
+
+CREATE TABLE IF NOT EXISTS public.usage_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  metric TEXT NOT NULL CHECK (metric IN ('messages', 'sms', 'email', 'calendar', 'storage')),
+  -- Units: one per message/SMS/email/calendar action, bytes for storage. Negative entries reverse usage
+  quantity BIGINT NOT NULL,
+  -- Non-billable usage is recorded but doesn't count toward plan limits
+  billable BOOLEAN NOT NULL DEFAULT true,
+  -- Start of the billing period the entry counts toward
+  period_start TIMESTAMPTZ NOT NULL,
+  agent_id UUID REFERENCES public.agents(id) ON DELETE SET NULL,
+  source TEXT,
+  reference_id TEXT,
+  -- Set on compensating entries, e.g. an email reserved but not sent
+  reverses UUID REFERENCES public.usage_ledger(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS usage_ledger_tenant_metric_created_idx
+  ON public.usage_ledger(tenant_id, metric, created_at);
+
+CREATE INDEX IF NOT EXISTS usage_ledger_tenant_period_idx
+  ON public.usage_ledger(tenant_id, period_start);
+
+-- An entry can only be reversed once
+CREATE UNIQUE INDEX IF NOT EXISTS usage_ledger_reverses_key
+  ON public.usage_ledger(reverses)
+  WHERE reverses IS NOT NULL;
+
+ALTER TABLE public.usage_ledger ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their tenant's usage ledger" ON public.usage_ledger;
+CREATE POLICY "Users can view their tenant's usage ledger"
+  ON public.usage_ledger
+  FOR SELECT
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+    )
+  );
+
+-- Entries are never edited; corrections are new (negative) entries
+CREATE OR REPLACE FUNCTION public.usage_ledger_prevent_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'usage_ledger is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS usage_ledger_append_only ON public.usage_ledger;
+CREATE TRIGGER usage_ledger_append_only
+  BEFORE UPDATE ON public.usage_ledger
+  FOR EACH ROW
+  EXECUTE FUNCTION public.usage_ledger_prevent_update();
+
+-- Start of the tenant's current billing period:
+-- the active subscription's period, otherwise the calendar month (UTC)
+CREATE OR REPLACE FUNCTION public.usage_period_start(p_tenant_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT current_period_start
+      FROM public.subscriptions
+      WHERE tenant_id = p_tenant_id
+        AND status = 'active'
+        AND current_period_start <= NOW()
+        AND (current_period_end IS NULL OR current_period_end > NOW())
+      ORDER BY created_at DESC
+      LIMIT 1
+    ),
+    date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC'
+  );
+$$;
+
+-- Billable usage of a metric in the current period (storage is cumulative, not per period)
+CREATE OR REPLACE FUNCTION public.current_usage(p_tenant_id UUID, p_metric TEXT)
+RETURNS BIGINT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(SUM(quantity), 0)::BIGINT
+  FROM public.usage_ledger
+  WHERE tenant_id = p_tenant_id
+    AND metric = p_metric
+    AND billable
+    AND (p_metric = 'storage' OR created_at >= public.usage_period_start(p_tenant_id));
+$$;
+
+-- Atomically check the limit and append usage. p_limit = -1 means unlimited.
+-- Returns allowed = false (and appends nothing) when the usage would exceed the limit
+CREATE OR REPLACE FUNCTION public.reserve_usage(
+  p_tenant_id UUID,
+  p_metric TEXT,
+  p_quantity BIGINT,
+  p_limit BIGINT,
+  p_billable BOOLEAN DEFAULT true,
+  p_agent_id UUID DEFAULT NULL,
+  p_source TEXT DEFAULT NULL,
+  p_reference_id TEXT DEFAULT NULL
+)
+RETURNS TABLE (allowed BOOLEAN, current_usage BIGINT, ledger_id UUID)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_current BIGINT;
+  v_id UUID;
+BEGIN
+  -- Serialize reservations for this tenant and metric until the transaction ends
+  PERFORM pg_advisory_xact_lock(hashtextextended(p_tenant_id::TEXT || ':' || p_metric, 0));
+
+  v_current := public.current_usage(p_tenant_id, p_metric);
+
+  IF p_billable AND p_quantity > 0 AND p_limit <> -1 AND v_current + p_quantity > p_limit THEN
+    RETURN QUERY SELECT false, v_current, NULL::UUID;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.usage_ledger (
+    tenant_id, metric, quantity, billable, period_start, agent_id, source, reference_id
+  )
+  VALUES (
+    p_tenant_id, p_metric, p_quantity, p_billable, public.usage_period_start(p_tenant_id),
+    p_agent_id, p_source, p_reference_id
+  )
+  RETURNING id INTO v_id;
+
+  IF p_billable THEN
+    v_current := v_current + p_quantity;
+  END IF;
+
+  -- Keep the legacy tenant counters in step for readers that still use them
+  IF p_metric = 'messages' THEN
+    UPDATE public.tenants SET usage_messages_month = v_current WHERE id = p_tenant_id;
+  ELSIF p_metric = 'storage' THEN
+    UPDATE public.tenants SET usage_storage_bytes = GREATEST(v_current, 0) WHERE id = p_tenant_id;
+  END IF;
+
+  RETURN QUERY SELECT true, v_current, v_id;
+END;
+$$;
+
+-- Reverse a reservation whose action didn't happen (e.g. the provider rejected the send)
+CREATE OR REPLACE FUNCTION public.release_usage(p_ledger_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_entry public.usage_ledger%ROWTYPE;
+  v_current BIGINT;
+BEGIN
+  SELECT * INTO v_entry FROM public.usage_ledger WHERE id = p_ledger_id;
+  IF NOT FOUND OR v_entry.reverses IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtextextended(v_entry.tenant_id::TEXT || ':' || v_entry.metric, 0));
+
+  INSERT INTO public.usage_ledger (
+    tenant_id, metric, quantity, billable, period_start, agent_id, source, reference_id, reverses
+  )
+  VALUES (
+    v_entry.tenant_id, v_entry.metric, -v_entry.quantity, v_entry.billable, v_entry.period_start,
+    v_entry.agent_id, 'release', v_entry.reference_id, v_entry.id
+  )
+  ON CONFLICT (reverses) WHERE reverses IS NOT NULL DO NOTHING;
+
+  v_current := public.current_usage(v_entry.tenant_id, v_entry.metric);
+
+  IF v_entry.metric = 'messages' THEN
+    UPDATE public.tenants SET usage_messages_month = v_current WHERE id = v_entry.tenant_id;
+  ELSIF v_entry.metric = 'storage' THEN
+    UPDATE public.tenants SET usage_storage_bytes = GREATEST(v_current, 0) WHERE id = v_entry.tenant_id;
+  END IF;
+END;
+$$;
+
+-- Current-period totals per metric for a tenant
+CREATE OR REPLACE FUNCTION public.get_usage_totals(p_tenant_id UUID)
+RETURNS TABLE (metric TEXT, quantity BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT m.metric, public.current_usage(p_tenant_id, m.metric)
+  FROM unnest(ARRAY['messages', 'sms', 'email', 'calendar', 'storage']) AS m(metric);
+$$;
+
+-- Totals per billing period, for usage history and invoicing
+CREATE OR REPLACE VIEW public.usage_period_totals
+WITH (security_invoker = true)
+AS
+SELECT
+  tenant_id,
+  metric,
+  period_start,
+  SUM(quantity) FILTER (WHERE billable)::BIGINT AS billable_quantity,
+  SUM(quantity)::BIGINT AS total_quantity
+FROM public.usage_ledger
+GROUP BY tenant_id, metric, period_start;
+
+-- Limits are passed by the server, so only the service role may reserve or release usage
+REVOKE EXECUTE ON FUNCTION public.reserve_usage(UUID, TEXT, BIGINT, BIGINT, BOOLEAN, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.release_usage(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Seed the ledger with usage recorded before it existed so limits carry over
+INSERT INTO public.usage_ledger (tenant_id, metric, quantity, period_start, source)
+SELECT id, 'messages', usage_messages_month, public.usage_period_start(id), 'migration'
+FROM public.tenants
+WHERE COALESCE(usage_messages_month, 0) > 0
+  AND (usage_reset_at IS NULL OR usage_reset_at > NOW());
+
+INSERT INTO public.usage_ledger (tenant_id, metric, quantity, period_start, source)
+SELECT id, 'storage', usage_storage_bytes, public.usage_period_start(id), 'migration'
+FROM public.tenants
+WHERE COALESCE(usage_storage_bytes, 0) > 0;
+
+COMMENT ON TABLE public.usage_ledger IS 'Append-only metered usage; write through reserve_usage()/release_usage()';
+COMMENT ON COLUMN public.tenants.usage_messages_month IS 'Deprecated cache of the current period message total; read get_usage_totals() instead';
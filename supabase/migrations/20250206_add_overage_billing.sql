@@ -0,0 +1,188 @@
+-- Overage Billing
+-- Tenants on plans with overage prices can opt in to pay for usage beyond the plan limit
+-- instead of being cut off. Each ledger entry records how many of its units were overage
+-- and what they cost; reserve_usage() stops allowing overage once the tenant's spending cap
+-- for the period is reached. Overage is reported to Stripe meters by the report-overage-usage job.
+
+ALTER TABLE public.tenants
+  ADD COLUMN IF NOT EXISTS overage_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS overage_cap_usd NUMERIC(10, 2);
+
+ALTER TABLE public.usage_ledger
+  ADD COLUMN IF NOT EXISTS overage_quantity BIGINT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS overage_cost NUMERIC(12, 6) NOT NULL DEFAULT 0;
+
+-- Overage already sent to Stripe, per tenant, billing period and metric
+CREATE TABLE IF NOT EXISTS public.overage_reports (
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  period_start TIMESTAMPTZ NOT NULL,
+  metric TEXT NOT NULL CHECK (metric IN ('messages', 'sms', 'email')),
+  reported_quantity BIGINT NOT NULL DEFAULT 0,
+  reported_cents BIGINT NOT NULL DEFAULT 0,
+  last_reported_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (tenant_id, period_start, metric)
+);
+
+ALTER TABLE public.overage_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their tenant's overage reports" ON public.overage_reports;
+CREATE POLICY "Users can view their tenant's overage reports"
+  ON public.overage_reports
+  FOR SELECT
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+    )
+  );
+
+-- Overage spend in the current period across all metrics
+CREATE OR REPLACE FUNCTION public.current_overage_cost(p_tenant_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(SUM(overage_cost), 0)
+  FROM public.usage_ledger
+  WHERE tenant_id = p_tenant_id
+    AND created_at >= public.usage_period_start(p_tenant_id);
+$$;
+
+-- The return type changes, so the function has to be recreated
+DROP FUNCTION IF EXISTS public.reserve_usage(UUID, TEXT, BIGINT, BIGINT, BOOLEAN, UUID, TEXT, TEXT);
+
+-- Atomically check the limit and append usage. p_limit = -1 means unlimited.
+-- With p_overage_unit_price set, usage past the limit is allowed and priced as overage
+-- until the period's overage cost would pass p_overage_cap (NULL = no cap)
+CREATE OR REPLACE FUNCTION public.reserve_usage(
+  p_tenant_id UUID,
+  p_metric TEXT,
+  p_quantity BIGINT,
+  p_limit BIGINT,
+  p_billable BOOLEAN DEFAULT true,
+  p_agent_id UUID DEFAULT NULL,
+  p_source TEXT DEFAULT NULL,
+  p_reference_id TEXT DEFAULT NULL,
+  p_overage_unit_price NUMERIC DEFAULT NULL,
+  p_overage_cap NUMERIC DEFAULT NULL
+)
+RETURNS TABLE (
+  allowed BOOLEAN,
+  current_usage BIGINT,
+  ledger_id UUID,
+  overage_cost NUMERIC,
+  cap_reached BOOLEAN
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_current BIGINT;
+  v_id UUID;
+  v_overage_quantity BIGINT := 0;
+  v_overage_cost NUMERIC := 0;
+BEGIN
+  -- Serialize reservations for this tenant and metric until the transaction ends
+  PERFORM pg_advisory_xact_lock(hashtextextended(p_tenant_id::TEXT || ':' || p_metric, 0));
+
+  v_current := public.current_usage(p_tenant_id, p_metric);
+
+  IF p_billable AND p_quantity > 0 AND p_limit <> -1 AND v_current + p_quantity > p_limit THEN
+    IF p_overage_unit_price IS NULL THEN
+      RETURN QUERY SELECT false, v_current, NULL::UUID, 0::NUMERIC, false;
+      RETURN;
+    END IF;
+
+    -- The spending cap spans all metrics, so overage is serialized per tenant too
+    PERFORM pg_advisory_xact_lock(hashtextextended(p_tenant_id::TEXT || ':overage', 0));
+
+    v_overage_quantity := LEAST(p_quantity, v_current + p_quantity - GREATEST(p_limit, v_current));
+    v_overage_cost := v_overage_quantity * p_overage_unit_price;
+
+    IF p_overage_cap IS NOT NULL
+      AND public.current_overage_cost(p_tenant_id) + v_overage_cost > p_overage_cap THEN
+      RETURN QUERY SELECT false, v_current, NULL::UUID, 0::NUMERIC, true;
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.usage_ledger (
+    tenant_id, metric, quantity, billable, period_start, agent_id, source, reference_id,
+    overage_quantity, overage_cost
+  )
+  VALUES (
+    p_tenant_id, p_metric, p_quantity, p_billable, public.usage_period_start(p_tenant_id),
+    p_agent_id, p_source, p_reference_id, v_overage_quantity, v_overage_cost
+  )
+  RETURNING id INTO v_id;
+
+  IF p_billable THEN
+    v_current := v_current + p_quantity;
+  END IF;
+
+  -- Keep the legacy tenant counters in step for readers that still use them
+  IF p_metric = 'messages' THEN
+    UPDATE public.tenants SET usage_messages_month = v_current WHERE id = p_tenant_id;
+  ELSIF p_metric = 'storage' THEN
+    UPDATE public.tenants SET usage_storage_bytes = GREATEST(v_current, 0) WHERE id = p_tenant_id;
+  END IF;
+
+  RETURN QUERY SELECT true, v_current, v_id, v_overage_cost, false;
+END;
+$$;
+
+-- Reverse a reservation whose action didn't happen, including any overage it was charged
+CREATE OR REPLACE FUNCTION public.release_usage(p_ledger_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_entry public.usage_ledger%ROWTYPE;
+  v_current BIGINT;
+BEGIN
+  SELECT * INTO v_entry FROM public.usage_ledger WHERE id = p_ledger_id;
+  IF NOT FOUND OR v_entry.reverses IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtextextended(v_entry.tenant_id::TEXT || ':' || v_entry.metric, 0));
+
+  INSERT INTO public.usage_ledger (
+    tenant_id, metric, quantity, billable, period_start, agent_id, source, reference_id, reverses,
+    overage_quantity, overage_cost
+  )
+  VALUES (
+    v_entry.tenant_id, v_entry.metric, -v_entry.quantity, v_entry.billable, v_entry.period_start,
+    v_entry.agent_id, 'release', v_entry.reference_id, v_entry.id,
+    -v_entry.overage_quantity, -v_entry.overage_cost
+  )
+  ON CONFLICT (reverses) WHERE reverses IS NOT NULL DO NOTHING;
+
+  v_current := public.current_usage(v_entry.tenant_id, v_entry.metric);
+
+  IF v_entry.metric = 'messages' THEN
+    UPDATE public.tenants SET usage_messages_month = v_current WHERE id = v_entry.tenant_id;
+  ELSIF v_entry.metric = 'storage' THEN
+    UPDATE public.tenants SET usage_storage_bytes = GREATEST(v_current, 0) WHERE id = v_entry.tenant_id;
+  END IF;
+END;
+$$;
+
+-- Totals per billing period, now including overage
+DROP VIEW IF EXISTS public.usage_period_totals;
+CREATE VIEW public.usage_period_totals
+WITH (security_invoker = true)
+AS
+SELECT
+  tenant_id,
+  metric,
+  period_start,
+  SUM(quantity) FILTER (WHERE billable)::BIGINT AS billable_quantity,
+  SUM(quantity)::BIGINT AS total_quantity,
+  SUM(overage_quantity)::BIGINT AS overage_quantity,
+  SUM(overage_cost) AS overage_cost
+FROM public.usage_ledger
+GROUP BY tenant_id, metric, period_start;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_usage(UUID, TEXT, BIGINT, BIGINT, BOOLEAN, UUID, TEXT, TEXT, NUMERIC, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON COLUMN public.tenants.overage_cap_usd IS 'Maximum overage spend per billing period; overage stops (hard limit) once reached';
+COMMENT ON TABLE public.overage_reports IS 'Overage sent to Stripe meters; the job reports the difference between ledger totals and these rows';
@@ -0,0 +1,179 @@
+-- Team Invitations
+-- Owners and admins invite teammates by email. The invite link carries a random token;
+-- only its SHA-256 hash is stored. Accepting creates the invitee's profile in the tenant
+-- with the invited role. Role changes go through server actions (service role), so users
+-- can no longer change their own role or tenant through the profile update policy.
+
+CREATE TABLE IF NOT EXISTS public.team_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  -- Ownership is transferred, never invited
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  token_hash TEXT NOT NULL UNIQUE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT (NOW() + INTERVAL '7 days'),
+  accepted_at TIMESTAMPTZ,
+  accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One open invitation per email per tenant; re-inviting replaces the previous one
+CREATE UNIQUE INDEX IF NOT EXISTS team_invitations_pending_email_key
+  ON public.team_invitations(tenant_id, email)
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS team_invitations_tenant_created_idx
+  ON public.team_invitations(tenant_id, created_at DESC);
+
+ALTER TABLE public.team_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Reads and writes go through server actions with the service role
+DROP POLICY IF EXISTS "Users can view their tenant's invitations" ON public.team_invitations;
+CREATE POLICY "Users can view their tenant's invitations"
+  ON public.team_invitations
+  FOR SELECT
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+    )
+  );
+
+-- Users may still edit their own name, avatar and preferences, but not their role or tenant
+CREATE OR REPLACE FUNCTION public.profiles_protect_membership()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'authenticated'
+    AND (NEW.role IS DISTINCT FROM OLD.role OR NEW.tenant_id IS DISTINCT FROM OLD.tenant_id) THEN
+    RAISE EXCEPTION 'Roles and organizations are changed by organization admins';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS profiles_protect_membership ON public.profiles;
+CREATE TRIGGER profiles_protect_membership
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.profiles_protect_membership();
+
+-- Role of the signed-in user; SECURITY DEFINER like get_user_tenant_id() so policies can
+-- read it without recursing through the profiles policies
+CREATE OR REPLACE FUNCTION public.get_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT role FROM public.profiles WHERE id = auth.uid() LIMIT 1;
+$$;
+
+-- Every member can see and use the organization's agents and integrations,
+-- but only owners and admins can change them
+DROP POLICY IF EXISTS "Users can create agents in their tenant" ON public.agents;
+DROP POLICY IF EXISTS "Users can update agents in their tenant" ON public.agents;
+DROP POLICY IF EXISTS "Users can delete agents in their tenant" ON public.agents;
+DROP POLICY IF EXISTS "Admins can create agents in their tenant" ON public.agents;
+DROP POLICY IF EXISTS "Admins can update agents in their tenant" ON public.agents;
+DROP POLICY IF EXISTS "Admins can delete agents in their tenant" ON public.agents;
+
+CREATE POLICY "Admins can create agents in their tenant"
+  ON public.agents
+  FOR INSERT
+  WITH CHECK (tenant_id = get_user_tenant_id() AND get_user_role() IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can update agents in their tenant"
+  ON public.agents
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id() AND get_user_role() IN ('owner', 'admin'))
+  WITH CHECK (tenant_id = get_user_tenant_id() AND get_user_role() IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can delete agents in their tenant"
+  ON public.agents
+  FOR DELETE
+  USING (tenant_id = get_user_tenant_id() AND get_user_role() IN ('owner', 'admin'));
+
+-- Schedules run agents unattended (and send their output), so they follow the agent rules
+DROP POLICY IF EXISTS "Users can create schedules in their tenant" ON public.agent_schedules;
+DROP POLICY IF EXISTS "Users can update schedules in their tenant" ON public.agent_schedules;
+DROP POLICY IF EXISTS "Users can delete schedules in their tenant" ON public.agent_schedules;
+DROP POLICY IF EXISTS "Admins can create schedules in their tenant" ON public.agent_schedules;
+DROP POLICY IF EXISTS "Admins can update schedules in their tenant" ON public.agent_schedules;
+DROP POLICY IF EXISTS "Admins can delete schedules in their tenant" ON public.agent_schedules;
+
+CREATE POLICY "Admins can create schedules in their tenant"
+  ON public.agent_schedules
+  FOR INSERT
+  WITH CHECK (tenant_id = get_user_tenant_id() AND get_user_role() IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can update schedules in their tenant"
+  ON public.agent_schedules
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id() AND get_user_role() IN ('owner', 'admin'))
+  WITH CHECK (tenant_id = get_user_tenant_id() AND get_user_role() IN ('owner', 'admin'));
+
+CREATE POLICY "Admins can delete schedules in their tenant"
+  ON public.agent_schedules
+  FOR DELETE
+  USING (tenant_id = get_user_tenant_id() AND get_user_role() IN ('owner', 'admin'));
+
+DROP POLICY IF EXISTS "Users can manage integrations in their tenant" ON public.integrations;
+DROP POLICY IF EXISTS "Users can view integrations in their tenant" ON public.integrations;
+DROP POLICY IF EXISTS "Admins can manage integrations in their tenant" ON public.integrations;
+
+CREATE POLICY "Users can view integrations in their tenant"
+  ON public.integrations
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+CREATE POLICY "Admins can manage integrations in their tenant"
+  ON public.integrations
+  FOR ALL
+  USING (tenant_id = get_user_tenant_id() AND get_user_role() IN ('owner', 'admin'))
+  WITH CHECK (tenant_id = get_user_tenant_id() AND get_user_role() IN ('owner', 'admin'));
+
+-- Hand ownership to another member in one transaction: the new owner is promoted and the
+-- current owner becomes an admin together, so a failure can't leave zero or two owners
+CREATE OR REPLACE FUNCTION public.transfer_ownership(
+  p_tenant_id UUID,
+  p_from_user_id UUID,
+  p_to_user_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Lock both profiles in a fixed order so concurrent transfers can't deadlock
+  PERFORM 1 FROM public.profiles
+  WHERE id IN (p_from_user_id, p_to_user_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = p_from_user_id AND tenant_id = p_tenant_id AND role = 'owner'
+  ) THEN
+    RAISE EXCEPTION 'Only the organization owner can transfer ownership';
+  END IF;
+
+  IF p_to_user_id = p_from_user_id OR NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = p_to_user_id AND tenant_id = p_tenant_id
+  ) THEN
+    RAISE EXCEPTION 'The new owner must be another member of the organization';
+  END IF;
+
+  UPDATE public.profiles SET role = 'admin', updated_at = NOW() WHERE id = p_from_user_id;
+  UPDATE public.profiles SET role = 'owner', updated_at = NOW() WHERE id = p_to_user_id;
+END;
+$$;
+
+-- Called by the team server actions with the service role only
+REVOKE EXECUTE ON FUNCTION public.transfer_ownership(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.team_invitations IS 'Pending and past invitations to join a tenant; the invite token itself is never stored';
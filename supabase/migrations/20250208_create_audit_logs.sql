@@ -0,0 +1,73 @@
+-- Audit Log
+-- Append-only record of who changed what in a tenant: agents, integrations, leads,
+-- settings, team, billing, schedules and knowledge. Written by server actions with the
+-- service role; owners and admins can read their tenant's entries.
+
+CREATE TABLE IF NOT EXISTS public.audit_logs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  -- Kept when the user is deleted; actor_email preserves who it was
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email TEXT,
+  -- "<target type>.<verb>", e.g. agent.updated, integration.connected, leads.exported
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id TEXT,
+  target_name TEXT,
+  -- { field: { "before": ..., "after": ... } } for the fields that changed; secrets are redacted
+  changes JSONB NOT NULL DEFAULT '{}',
+  metadata JSONB NOT NULL DEFAULT '{}',
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS audit_logs_tenant_created_idx
+  ON public.audit_logs(tenant_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS audit_logs_tenant_action_idx
+  ON public.audit_logs(tenant_id, action, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS audit_logs_tenant_target_idx
+  ON public.audit_logs(tenant_id, target_type, target_id);
+
+ALTER TABLE public.audit_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view their tenant's audit log" ON public.audit_logs;
+CREATE POLICY "Admins can view their tenant's audit log"
+  ON public.audit_logs
+  FOR SELECT
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM public.profiles
+      WHERE id = auth.uid() AND role IN ('owner', 'admin')
+    )
+  );
+
+-- Entries are never edited or removed (tenant deletion cascades at the table level)
+CREATE OR REPLACE FUNCTION public.audit_logs_prevent_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_logs is append-only';
+END;
+$$;
+
+-- Row-level UPDATE only; ON DELETE SET NULL from auth.users still clears a deleted actor
+DROP TRIGGER IF EXISTS audit_logs_append_only ON public.audit_logs;
+CREATE TRIGGER audit_logs_append_only
+  BEFORE UPDATE ON public.audit_logs
+  FOR EACH ROW
+  WHEN (pg_trigger_depth() = 0)
+  EXECUTE FUNCTION public.audit_logs_prevent_change();
+
+-- Row-level DELETE only; ON DELETE CASCADE from tenants still removes a deleted tenant's log
+DROP TRIGGER IF EXISTS audit_logs_no_delete ON public.audit_logs;
+CREATE TRIGGER audit_logs_no_delete
+  BEFORE DELETE ON public.audit_logs
+  FOR EACH ROW
+  WHEN (pg_trigger_depth() = 0)
+  EXECUTE FUNCTION public.audit_logs_prevent_change();
+
+COMMENT ON TABLE public.audit_logs IS 'Append-only audit trail of configuration and data changes per tenant';
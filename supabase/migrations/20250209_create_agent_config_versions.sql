@@ -0,0 +1,120 @@
+-- Agent Configuration Versions
+-- Every save of an agent's config (instructions, tone, model, integrations, ...) creates an
+-- immutable, numbered version with its author and an optional note. save_agent_config()
+-- writes agents.config and appends the version in one transaction, serialized per agent,
+-- so version numbers never collide and always match what the agent ran with.
+-- agent_executions.config_version records which version produced each run.
+
+CREATE TABLE IF NOT EXISTS public.agent_config_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  config JSONB NOT NULL,
+  note TEXT,
+  -- Set when this version was created by rolling back to an earlier one
+  restored_from INTEGER,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  author_email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (agent_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS agent_config_versions_agent_idx
+  ON public.agent_config_versions(agent_id, version DESC);
+
+ALTER TABLE public.agent_config_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their tenant's agent versions" ON public.agent_config_versions;
+CREATE POLICY "Users can view their tenant's agent versions"
+  ON public.agent_config_versions
+  FOR SELECT
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM public.profiles WHERE id = auth.uid()
+    )
+  );
+
+-- Versions are never edited; rolling back creates a new version
+CREATE OR REPLACE FUNCTION public.agent_config_versions_prevent_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'agent_config_versions is immutable';
+END;
+$$;
+
+-- Direct updates only; ON DELETE SET NULL from auth.users still clears a deleted author
+DROP TRIGGER IF EXISTS agent_config_versions_immutable ON public.agent_config_versions;
+CREATE TRIGGER agent_config_versions_immutable
+  BEFORE UPDATE ON public.agent_config_versions
+  FOR EACH ROW
+  WHEN (pg_trigger_depth() = 0)
+  EXECUTE FUNCTION public.agent_config_versions_prevent_update();
+
+ALTER TABLE public.agents
+  ADD COLUMN IF NOT EXISTS config_version INTEGER;
+
+ALTER TABLE public.agent_executions
+  ADD COLUMN IF NOT EXISTS config_version INTEGER;
+
+CREATE INDEX IF NOT EXISTS agent_executions_agent_version_idx
+  ON public.agent_executions(agent_id, config_version);
+
+-- Write an agent's config and append it as the next version
+CREATE OR REPLACE FUNCTION public.save_agent_config(
+  p_agent_id UUID,
+  p_config JSONB,
+  p_created_by UUID DEFAULT NULL,
+  p_author_email TEXT DEFAULT NULL,
+  p_note TEXT DEFAULT NULL,
+  p_restored_from INTEGER DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_tenant_id UUID;
+  v_version INTEGER;
+BEGIN
+  -- Lock the agent row so concurrent saves get consecutive versions
+  SELECT tenant_id INTO v_tenant_id FROM public.agents WHERE id = p_agent_id FOR UPDATE;
+
+  IF v_tenant_id IS NULL THEN
+    RAISE EXCEPTION 'Agent not found: %', p_agent_id;
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+  FROM public.agent_config_versions
+  WHERE agent_id = p_agent_id;
+
+  INSERT INTO public.agent_config_versions (
+    agent_id, tenant_id, version, config, note, restored_from, created_by, author_email
+  )
+  VALUES (
+    p_agent_id, v_tenant_id, v_version, p_config, p_note, p_restored_from, p_created_by, p_author_email
+  );
+
+  UPDATE public.agents
+  SET config = p_config, config_version = v_version, updated_at = NOW()
+  WHERE id = p_agent_id;
+
+  RETURN v_version;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_agent_config(UUID, JSONB, UUID, TEXT, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Existing agents start at version 1 with their current config
+INSERT INTO public.agent_config_versions (agent_id, tenant_id, version, config, note, created_by, created_at)
+SELECT id, tenant_id, 1, COALESCE(config, '{}'::JSONB), 'Initial version', created_by, created_at
+FROM public.agents
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.agent_config_versions v WHERE v.agent_id = agents.id
+);
+
+UPDATE public.agents SET config_version = 1 WHERE config_version IS NULL;
+
+COMMENT ON TABLE public.agent_config_versions IS 'Immutable history of agent configs; write through save_agent_config()';
+COMMENT ON COLUMN public.agent_executions.config_version IS 'agent_config_versions.version the execution ran with';
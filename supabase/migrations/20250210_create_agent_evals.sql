@@ -0,0 +1,169 @@
+-- =============================================================================
+-- AGENT EVALUATIONS
+-- Golden test sets per agent. A run executes every case against one config
+-- version in dry-run mode (recorded integration fixtures, nothing billed, logged
+-- or sent) and stores a score per case, so two versions can be compared.
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.eval_suites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS eval_suites_agent_idx ON public.eval_suites(agent_id);
+
+ALTER TABLE public.eval_suites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view eval suites in their tenant"
+  ON public.eval_suites
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+CREATE POLICY "Users can create eval suites in their tenant"
+  ON public.eval_suites
+  FOR INSERT
+  WITH CHECK (tenant_id = get_user_tenant_id());
+
+CREATE POLICY "Users can update eval suites in their tenant"
+  ON public.eval_suites
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id());
+
+CREATE POLICY "Users can delete eval suites in their tenant"
+  ON public.eval_suites
+  FOR DELETE
+  USING (tenant_id = get_user_tenant_id());
+
+-- =============================================================================
+-- EVAL CASES
+-- One question with the checks its answer must pass
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.eval_cases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  suite_id UUID NOT NULL REFERENCES public.eval_suites(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  input TEXT NOT NULL,                                  -- Message sent to the agent
+
+  -- Rule-based checks
+  expected_facts TEXT[] NOT NULL DEFAULT '{}',          -- Must appear in the answer
+  forbidden_phrases TEXT[] NOT NULL DEFAULT '{}',       -- Must not appear in the answer
+  required_tools TEXT[] NOT NULL DEFAULT '{}',          -- Tools the agent must call
+
+  -- Model-graded check, skipped when empty
+  rubric TEXT,
+
+  -- Recorded integration responses
+  -- Structure: { [provider]: { [action]: response } }, e.g. { "stripe": { "getRevenue": { ... } } }
+  fixtures JSONB NOT NULL DEFAULT '{}',
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS eval_cases_suite_idx ON public.eval_cases(suite_id, created_at);
+
+ALTER TABLE public.eval_cases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view eval cases in their tenant"
+  ON public.eval_cases
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+CREATE POLICY "Users can create eval cases in their tenant"
+  ON public.eval_cases
+  FOR INSERT
+  WITH CHECK (tenant_id = get_user_tenant_id());
+
+CREATE POLICY "Users can update eval cases in their tenant"
+  ON public.eval_cases
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id());
+
+CREATE POLICY "Users can delete eval cases in their tenant"
+  ON public.eval_cases
+  FOR DELETE
+  USING (tenant_id = get_user_tenant_id());
+
+-- =============================================================================
+-- EVAL RUNS
+-- A suite scored against one agent config version
+-- Written by the eval runner with the service role
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.eval_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  suite_id UUID NOT NULL REFERENCES public.eval_suites(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  agent_id UUID NOT NULL REFERENCES public.agents(id) ON DELETE CASCADE,
+  config_version INTEGER NOT NULL,
+
+  status TEXT NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed')),
+  case_count INTEGER NOT NULL DEFAULT 0,
+  passed_count INTEGER NOT NULL DEFAULT 0,
+  score NUMERIC(5, 4),                                  -- Mean case score, 0-1
+  cost_usd NUMERIC(12, 6),
+  error TEXT,
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS eval_runs_suite_idx ON public.eval_runs(suite_id, started_at DESC);
+
+ALTER TABLE public.eval_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view eval runs in their tenant"
+  ON public.eval_runs
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+-- =============================================================================
+-- EVAL RESULTS
+-- One scored case per run; keeps a copy of the case so edits don't rewrite history
+-- =============================================================================
+
+CREATE TABLE IF NOT EXISTS public.eval_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.eval_runs(id) ON DELETE CASCADE,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  case_id UUID REFERENCES public.eval_cases(id) ON DELETE SET NULL,
+  case_name TEXT NOT NULL,
+  input TEXT NOT NULL,
+
+  output TEXT,
+  tool_calls JSONB NOT NULL DEFAULT '[]',
+  -- Structure: [{ name, kind: 'rule' | 'model', passed, score, detail }]
+  checks JSONB NOT NULL DEFAULT '[]',
+  score NUMERIC(5, 4) NOT NULL DEFAULT 0,
+  passed BOOLEAN NOT NULL DEFAULT false,
+  error TEXT,
+
+  model TEXT,
+  duration_ms INTEGER,
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  cost_usd NUMERIC(12, 6),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS eval_results_run_idx ON public.eval_results(run_id);
+
+ALTER TABLE public.eval_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view eval results in their tenant"
+  ON public.eval_results
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+COMMENT ON TABLE public.eval_suites IS 'Golden test sets for an agent';
+COMMENT ON TABLE public.eval_runs IS 'Eval suite scored against one agent config version';
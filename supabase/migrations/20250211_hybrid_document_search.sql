@@ -0,0 +1,65 @@
+-- =============================================================================
+-- HYBRID DOCUMENT SEARCH
+-- Full-text search over document chunks, fused with match_documents() vector
+-- results in lib/knowledge/hybrid.ts. Keyword matching catches exact terms
+-- (SKUs, error codes, product names) that embeddings often rank too low.
+-- =============================================================================
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS content_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(name, '') || ' ' || content)) STORED;
+
+CREATE INDEX IF NOT EXISTS documents_content_tsv_idx
+  ON public.documents USING GIN (content_tsv);
+
+-- Chunks matching any term of the query, best ts_rank_cd first.
+-- Questions are matched on any term rather than all of them; chunks with more
+-- (and closer) terms rank higher. Runs as the caller, so RLS applies.
+CREATE OR REPLACE FUNCTION match_documents_keyword(
+  query_text text,
+  match_count int DEFAULT 20,
+  filter_tenant_id uuid DEFAULT NULL,
+  filter_agent_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  metadata jsonb,
+  embedding_model text,
+  embedding_dimensions integer,
+  rank float
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_query tsquery;
+BEGIN
+  -- plainto_tsquery ANDs the terms; OR them instead (phrases such as 'e-1042' stay intact)
+  v_query := replace(plainto_tsquery('english', query_text)::text, ' & ', ' | ')::tsquery;
+
+  -- Nothing left after stop words
+  IF v_query IS NULL OR numnode(v_query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    documents.id,
+    documents.content,
+    documents.metadata,
+    documents.embedding_model,
+    documents.embedding_dimensions,
+    ts_rank_cd(documents.content_tsv, v_query)::float AS rank
+  FROM documents
+  WHERE
+    (filter_tenant_id IS NULL OR documents.tenant_id = filter_tenant_id) AND
+    (filter_agent_id IS NULL OR documents.agent_id = filter_agent_id) AND
+    documents.content_tsv @@ v_query
+  ORDER BY rank DESC
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON COLUMN public.documents.content_tsv IS 'Full-text index of name and content for hybrid search';
+COMMENT ON FUNCTION match_documents_keyword IS 'Full-text half of hybrid document search';
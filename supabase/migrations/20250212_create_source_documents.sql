@@ -0,0 +1,112 @@
+-- Source Documents
+-- One row per uploaded file, with its chunks in documents as children. A file is
+-- identified by its name within a scope (tenant-wide or one agent), so re-uploading
+-- it creates a new version that only re-embeds the chunks whose text changed.
+-- Chunks embedded by a provider other than the current one are re-indexed.
+
+CREATE TABLE IF NOT EXISTS public.source_documents (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  agent_id UUID REFERENCES public.agents(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- SHA-256 of the extracted text; NULL for documents created before versioning
+  content_hash TEXT,
+  version INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'ready', 'failed')),
+  error TEXT,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  size_bytes BIGINT NOT NULL DEFAULT 0,
+  -- Provider that embedded the chunks (lowercase, as in documents.embedding_model)
+  embedding_model TEXT,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  indexed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One document per name in each scope; tenant-wide documents have no agent
+CREATE UNIQUE INDEX IF NOT EXISTS source_documents_scope_name_idx
+  ON public.source_documents(tenant_id, COALESCE(agent_id, '00000000-0000-0000-0000-000000000000'::uuid), name);
+
+CREATE INDEX IF NOT EXISTS source_documents_tenant_updated_idx
+  ON public.source_documents(tenant_id, updated_at DESC);
+
+CREATE INDEX IF NOT EXISTS source_documents_agent_idx
+  ON public.source_documents(agent_id, updated_at DESC);
+
+ALTER TABLE public.source_documents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their tenant's source documents" ON public.source_documents;
+CREATE POLICY "Users can view their tenant's source documents"
+  ON public.source_documents
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS "Users can insert their tenant's source documents" ON public.source_documents;
+CREATE POLICY "Users can insert their tenant's source documents"
+  ON public.source_documents
+  FOR INSERT
+  WITH CHECK (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS "Users can update their tenant's source documents" ON public.source_documents;
+CREATE POLICY "Users can update their tenant's source documents"
+  ON public.source_documents
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id())
+  WITH CHECK (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS "Users can delete their tenant's source documents" ON public.source_documents;
+CREATE POLICY "Users can delete their tenant's source documents"
+  ON public.source_documents
+  FOR DELETE
+  USING (tenant_id = get_user_tenant_id());
+
+DROP TRIGGER IF EXISTS update_source_documents_updated_at ON public.source_documents;
+CREATE TRIGGER update_source_documents_updated_at
+  BEFORE UPDATE ON public.source_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Chunks belong to a source document and carry the hash used to diff re-uploads
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS source_document_id UUID REFERENCES public.source_documents(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS documents_source_document_idx
+  ON public.documents(source_document_id);
+
+-- Backfill: one source document per file name and scope, as getDocuments used to group them
+INSERT INTO public.source_documents (
+  tenant_id, agent_id, name, status, chunk_count, size_bytes, embedding_model, indexed_at, created_at, updated_at
+)
+SELECT
+  tenant_id,
+  agent_id,
+  COALESCE(metadata->>'originalFileName', name),
+  'ready',
+  COUNT(*),
+  COALESCE(MAX((metadata->>'fileSizeBytes')::bigint), 0),
+  MAX(embedding_model),
+  MAX(created_at),
+  MIN(created_at),
+  MAX(updated_at)
+FROM public.documents
+WHERE source_document_id IS NULL
+GROUP BY tenant_id, agent_id, COALESCE(metadata->>'originalFileName', name)
+ON CONFLICT DO NOTHING;
+
+UPDATE public.documents d
+SET source_document_id = s.id
+FROM public.source_documents s
+WHERE d.source_document_id IS NULL
+  AND s.tenant_id = d.tenant_id
+  AND s.agent_id IS NOT DISTINCT FROM d.agent_id
+  AND s.name = COALESCE(d.metadata->>'originalFileName', d.name);
+
+UPDATE public.documents
+SET content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex')
+WHERE content_hash IS NULL;
+
+COMMENT ON TABLE public.source_documents IS 'Uploaded knowledge files; their chunks are rows in documents';
+COMMENT ON COLUMN public.documents.content_hash IS 'SHA-256 of the chunk text, reused across versions when unchanged';
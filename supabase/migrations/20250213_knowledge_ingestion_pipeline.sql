@@ -0,0 +1,41 @@
+-- Knowledge Ingestion Pipeline
+-- Uploads are staged in the knowledge-uploads bucket and processed by the
+-- knowledge-ingestion Trigger.dev task, which moves each source document through
+-- queued -> extracting -> chunking -> embedding -> indexed (or failed) and reports
+-- embedding progress for the upload UI to poll.
+
+ALTER TABLE public.source_documents DROP CONSTRAINT IF EXISTS source_documents_status_check;
+
+UPDATE public.source_documents SET status = 'indexed' WHERE status = 'ready';
+-- Anything still processing was running inline when this shipped and won't finish
+UPDATE public.source_documents
+SET status = 'failed', error = 'Interrupted by an upgrade; upload the file again'
+WHERE status = 'processing';
+
+ALTER TABLE public.source_documents
+  ALTER COLUMN status SET DEFAULT 'queued',
+  ADD CONSTRAINT source_documents_status_check
+    CHECK (status IN ('queued', 'extracting', 'chunking', 'embedding', 'indexed', 'failed'));
+
+ALTER TABLE public.source_documents
+  -- Chunks with an embedding from the current run (or reused from the previous version)
+  ADD COLUMN IF NOT EXISTS chunks_embedded INTEGER NOT NULL DEFAULT 0,
+  -- Uploaded file in the knowledge-uploads bucket, removed once ingestion ends
+  ADD COLUMN IF NOT EXISTS staged_path TEXT,
+  ADD COLUMN IF NOT EXISTS file_type TEXT,
+  ADD COLUMN IF NOT EXISTS ingestion_run_id TEXT,
+  -- content_hash of every chunk in the indexed version, so a failed upload can remove what it added
+  ADD COLUMN IF NOT EXISTS chunk_hashes TEXT[];
+
+UPDATE public.source_documents s
+SET chunk_hashes = ARRAY(SELECT d.content_hash FROM public.documents d WHERE d.source_document_id = s.id)
+WHERE s.indexed_at IS NOT NULL AND s.chunk_hashes IS NULL;
+
+-- Private bucket; only the service role reads and writes it
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('knowledge-uploads', 'knowledge-uploads', false)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON COLUMN public.source_documents.chunks_embedded IS 'Embedding progress; equals chunk_count once indexed';
+COMMENT ON COLUMN public.source_documents.staged_path IS 'Object in knowledge-uploads awaiting ingestion';
+COMMENT ON COLUMN public.source_documents.chunk_hashes IS 'Chunk content hashes of the indexed version';
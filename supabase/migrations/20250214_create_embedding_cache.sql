@@ -0,0 +1,27 @@
+-- Embedding Cache
+-- Embeddings keyed by provider and the SHA-256 of the embedded text, shared by all
+-- workers when ENABLE_EMBEDDING_CACHE=true. Only hashes are stored, never the text.
+-- Also records the estimated embedding spend of each document's latest ingestion.
+
+CREATE TABLE IF NOT EXISTS public.embedding_cache (
+  content_hash TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  embedding REAL[] NOT NULL,
+  dimensions INTEGER NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (content_hash, provider)
+);
+
+-- Expired entries are purged by age (EMBEDDING_CACHE_TTL)
+CREATE INDEX IF NOT EXISTS embedding_cache_created_idx
+  ON public.embedding_cache(created_at);
+
+-- No policies: only the service role reads and writes the cache
+ALTER TABLE public.embedding_cache ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.source_documents
+  ADD COLUMN IF NOT EXISTS embedding_tokens INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS embedding_cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0;
+
+COMMENT ON TABLE public.embedding_cache IS 'Embeddings by text hash and provider; see lib/embeddings/cache.ts';
+COMMENT ON COLUMN public.source_documents.embedding_cost_usd IS 'Estimated cost in USD of the latest ingestion, from each provider''s costPer1kTokens';
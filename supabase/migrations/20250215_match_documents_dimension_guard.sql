@@ -0,0 +1,62 @@
+-- =============================================================================
+-- MATCH DOCUMENTS: EMBEDDING MODEL AND DIMENSION GUARD
+-- The local embedding provider (512D) joins OpenAI, Cohere, HuggingFace and
+-- Voyage, so one tenant's chunks can hold vectors of several sizes. pgvector
+-- raises an error when comparing vectors of different dimensions, and the planner
+-- may compute the distance before checking filter_embedding_model. Candidates are
+-- now filtered by model and dimensions first, and only then scored.
+-- Chunks embedded by the old 256D "hash" fallback show as needing a re-index.
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION match_documents(
+  query_embedding vector,
+  match_threshold float DEFAULT 0.78,
+  match_count int DEFAULT 5,
+  filter_tenant_id uuid DEFAULT NULL,
+  filter_agent_id uuid DEFAULT NULL,
+  filter_embedding_model text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  metadata jsonb,
+  embedding_model text,
+  embedding_dimensions integer,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH candidates AS MATERIALIZED (
+    SELECT documents.id, documents.content, documents.metadata, documents.embedding,
+      documents.embedding_model, documents.embedding_dimensions
+    FROM documents
+    WHERE
+      (filter_tenant_id IS NULL OR documents.tenant_id = filter_tenant_id) AND
+      (filter_agent_id IS NULL OR documents.agent_id = filter_agent_id) AND
+      (filter_embedding_model IS NULL OR documents.embedding_model = filter_embedding_model) AND
+      documents.embedding IS NOT NULL AND
+      vector_dims(documents.embedding) = vector_dims(query_embedding)
+  ),
+  scored AS (
+    SELECT
+      candidates.id,
+      candidates.content,
+      candidates.metadata,
+      candidates.embedding_model,
+      candidates.embedding_dimensions,
+      ((candidates.embedding <=> query_embedding) * -1 + 1)::float AS similarity
+    FROM candidates
+  )
+  SELECT scored.id, scored.content, scored.metadata, scored.embedding_model, scored.embedding_dimensions, scored.similarity
+  FROM scored
+  WHERE scored.similarity > match_threshold
+  ORDER BY scored.similarity DESC
+  LIMIT match_count;
+END;
+$$;
+
+COMMENT ON FUNCTION match_documents IS 'Vector half of document search; only compares chunks from the query''s embedding model and dimensions';
+COMMENT ON COLUMN public.documents.embedding_model IS 'Provider used: openai, cohere, huggingface, voyage or local';
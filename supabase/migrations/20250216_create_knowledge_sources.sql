@@ -0,0 +1,82 @@
+-- Knowledge Sources
+-- Websites and sitemaps crawled into the knowledge base. Each crawled page is a
+-- source document named by its canonical URL, so a re-crawl re-uses the
+-- versioning pipeline: unchanged pages are skipped and changed pages only
+-- re-embed the chunks whose text changed. Sources with a re-crawl interval are
+-- picked up by the hourly knowledge-recrawl task once next_crawl_at passes.
+
+CREATE TABLE IF NOT EXISTS public.knowledge_sources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  agent_id UUID REFERENCES public.agents(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('website', 'sitemap')),
+  -- Start page for a website, sitemap (or sitemap index) URL for a sitemap
+  url TEXT NOT NULL,
+  max_depth INTEGER NOT NULL DEFAULT 2,
+  max_pages INTEGER NOT NULL DEFAULT 50,
+  -- NULL crawls only on demand
+  recrawl_interval_hours INTEGER CHECK (recrawl_interval_hours IS NULL OR recrawl_interval_hours >= 1),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'crawling', 'ready', 'failed')),
+  error TEXT,
+  page_count INTEGER NOT NULL DEFAULT 0,
+  -- Pages queued, unchanged, removed and skipped by the last crawl
+  last_crawl_stats JSONB NOT NULL DEFAULT '{}',
+  last_crawled_at TIMESTAMPTZ,
+  next_crawl_at TIMESTAMPTZ,
+  crawl_run_id TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- One source per URL in each scope
+CREATE UNIQUE INDEX IF NOT EXISTS knowledge_sources_scope_url_idx
+  ON public.knowledge_sources(tenant_id, COALESCE(agent_id, '00000000-0000-0000-0000-000000000000'::uuid), url);
+
+CREATE INDEX IF NOT EXISTS knowledge_sources_next_crawl_idx
+  ON public.knowledge_sources(next_crawl_at)
+  WHERE next_crawl_at IS NOT NULL;
+
+ALTER TABLE public.knowledge_sources ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their tenant's knowledge sources" ON public.knowledge_sources;
+CREATE POLICY "Users can view their tenant's knowledge sources"
+  ON public.knowledge_sources
+  FOR SELECT
+  USING (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS "Users can insert their tenant's knowledge sources" ON public.knowledge_sources;
+CREATE POLICY "Users can insert their tenant's knowledge sources"
+  ON public.knowledge_sources
+  FOR INSERT
+  WITH CHECK (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS "Users can update their tenant's knowledge sources" ON public.knowledge_sources;
+CREATE POLICY "Users can update their tenant's knowledge sources"
+  ON public.knowledge_sources
+  FOR UPDATE
+  USING (tenant_id = get_user_tenant_id())
+  WITH CHECK (tenant_id = get_user_tenant_id());
+
+DROP POLICY IF EXISTS "Users can delete their tenant's knowledge sources" ON public.knowledge_sources;
+CREATE POLICY "Users can delete their tenant's knowledge sources"
+  ON public.knowledge_sources
+  FOR DELETE
+  USING (tenant_id = get_user_tenant_id());
+
+DROP TRIGGER IF EXISTS update_knowledge_sources_updated_at ON public.knowledge_sources;
+CREATE TRIGGER update_knowledge_sources_updated_at
+  BEFORE UPDATE ON public.knowledge_sources
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Crawled pages belong to their source and go with it
+ALTER TABLE public.source_documents
+  ADD COLUMN IF NOT EXISTS knowledge_source_id UUID REFERENCES public.knowledge_sources(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS source_documents_knowledge_source_idx
+  ON public.source_documents(knowledge_source_id)
+  WHERE knowledge_source_id IS NOT NULL;
+
+COMMENT ON TABLE public.knowledge_sources IS 'Websites and sitemaps crawled into source documents, one per page';
+COMMENT ON COLUMN public.source_documents.knowledge_source_id IS 'Website or sitemap the page was crawled from; NULL for uploads';
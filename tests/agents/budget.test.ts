@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { estimateCost, fitPromptToBudget } from "../../lib/agents/budget";
+
+const msg = (content: string) => ({ role: "user" as const, content });
+const tokens = (n: number) => "x".repeat(n * 4);
+
+describe("fitPromptToBudget", () => {
+  it("keeps everything when the prompt fits", () => {
+    const result = fitPromptToBudget(
+      { system: tokens(10), user: tokens(10), history: [msg(tokens(10))], ragChunks: [tokens(10)] },
+      100
+    );
+    expect(result.trimmedMessages).toBe(0);
+    expect(result.trimmedChunks).toBe(0);
+    expect(result.estimatedTokens).toBe(40);
+  });
+
+  it("keeps the latest exchange, then RAG chunks, before older history", () => {
+    const history = [msg("old-1" + tokens(20)), msg("old-2" + tokens(20)), msg(tokens(10)), msg(tokens(10))];
+    const result = fitPromptToBudget(
+      { system: tokens(10), user: tokens(10), history, ragChunks: [tokens(30), tokens(30)] },
+      110
+    );
+    expect(result.history).toEqual(history.slice(2));
+    expect(result.ragChunks).toHaveLength(2);
+    expect(result.trimmedMessages).toBe(2);
+  });
+
+  it("stops at the first RAG chunk that doesn't fit to preserve ranking", () => {
+    const result = fitPromptToBudget(
+      { system: "", user: "", history: [], ragChunks: [tokens(30), tokens(80), tokens(10)] },
+      50
+    );
+    expect(result.ragChunks).toHaveLength(1);
+    expect(result.trimmedChunks).toBe(2);
+  });
+});
+
+describe("estimateCost", () => {
+  it("prices input and output tokens per model", () => {
+    expect(estimateCost("gpt-4o", 1_000_000, 1_000_000)).toBe(12.5);
+  });
+
+  it("falls back to the default model profile", () => {
+    expect(estimateCost("unknown-model", 1_000_000, 0)).toBe(estimateCost("gemini-2.0-flash", 1_000_000, 0));
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { diffConfigs, diffLines } from "../../lib/agents/config-diff";
+
+describe("diffConfigs", () => {
+  it("lists added, removed and changed paths with instructions first", () => {
+    const before = { model: "gpt-4o", tone: "friendly", instructions: "Be brief", slack: { directMessages: true } };
+    const after = { model: "gpt-4o", tone: "formal", instructions: "Be thorough", integration_ids: ["crm"] };
+
+    expect(diffConfigs(before, after)).toEqual([
+      { path: "instructions", kind: "changed", before: "Be brief", after: "Be thorough" },
+      { path: "tone", kind: "changed", before: "friendly", after: "formal" },
+      { path: "integration_ids", kind: "added", before: null, after: ["crm"] },
+      { path: "slack.directMessages", kind: "removed", before: true, after: null },
+    ]);
+  });
+
+  it("finds nothing between identical configs", () => {
+    const config = { model: "gpt-4o", leadCollection: { enabled: true, fields: { email: { required: true } } } };
+    expect(diffConfigs(config, structuredClone(config))).toEqual([]);
+  });
+});
+
+describe("diffLines", () => {
+  it("keeps common lines and marks edits", () => {
+    expect(diffLines("Greet the user\nAnswer briefly\nSign off", "Greet the user\nAnswer in detail\nSign off")).toEqual([
+      { type: "same", text: "Greet the user" },
+      { type: "removed", text: "Answer briefly" },
+      { type: "added", text: "Answer in detail" },
+      { type: "same", text: "Sign off" },
+    ]);
+  });
+
+  it("handles empty text on either side", () => {
+    expect(diffLines("", "New")).toEqual([{ type: "added", text: "New" }]);
+    expect(diffLines("Old", "")).toEqual([{ type: "removed", text: "Old" }]);
+  });
+});
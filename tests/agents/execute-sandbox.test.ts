@@ -0,0 +1,179 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+
+const { supabase, state, generateWithFallback, getIntegrationMap, triggers } = vi.hoisted(() => {
+  const state = {
+    agent: null as any,
+    inserts: [] as Array<{ table: string; row: any }>,
+  };
+
+  const supabase = {
+    auth: { getUser: async () => ({ data: { user: { id: "user-1" } } }) },
+    from(table: string) {
+      const result = () => {
+        if (table === "agents") return { data: state.agent, error: null };
+        if (table === "profiles") return { data: { tenant_id: "tenant-1" }, error: null };
+        if (table === "tenants") return { data: { subscription_plan: "pro" }, error: null };
+        return { data: [], error: null };
+      };
+      const builder: any = {
+        select: () => builder,
+        eq: () => builder,
+        gte: async () => result(),
+        order: () => builder,
+        limit: async () => result(),
+        single: async () => result(),
+        insert: async (row: any) => {
+          state.inserts.push({ table, row });
+          return { error: null };
+        },
+      };
+      return builder;
+    },
+  };
+
+  return {
+    supabase,
+    state,
+    generateWithFallback: vi.fn(),
+    getIntegrationMap: vi.fn(async () => new Map()),
+    triggers: {
+      triggerAgentCompletedEvent: vi.fn(),
+      triggerAgentFailedEvent: vi.fn(),
+    },
+  };
+});
+
+vi.mock("@/lib/supabase/server", () => ({
+  createRequestOrServiceClient: async () => supabase,
+  createServerClient: async () => supabase,
+}));
+vi.mock("@/lib/webhooks/triggers", () => triggers);
+vi.mock("@/lib/integrations/registry", () => ({ getIntegrationMap }));
+vi.mock("@/lib/knowledge/actions", () => ({
+  searchDocuments: vi.fn(async () => ({ success: true, documents: [] })),
+}));
+vi.mock("@/lib/knowledge/analytics", () => ({ trackContextUsage: vi.fn() }));
+vi.mock("@/lib/billing/usage", () => ({ validateSubscription: async () => ({ valid: true }) }));
+vi.mock("@/lib/billing/ledger", () => ({
+  reserveUsage: async () => ({ allowed: true }),
+  getUsageLimitError: () => "",
+}));
+vi.mock("../../lib/agents/memory", () => ({
+  loadConversationMemory: async () => ({ messages: [] }),
+  saveThreadTurn: vi.fn(),
+}));
+vi.mock("../../lib/agents/models", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../lib/agents/models")>()),
+  generateWithFallback,
+}));
+
+import { executeAgent } from "../../lib/agents/execute";
+import { sendMessage } from "../../lib/ai/chat";
+
+function agentRow(type: string) {
+  return {
+    id: "agent-1",
+    tenant_id: "tenant-1",
+    name: "Helper",
+    type,
+    config: { model: "gemini-2.0-flash", instructions: "Be helpful" },
+    status: "active",
+    tenants: { name: "Acme", slug: "acme" },
+  };
+}
+
+const sendEmailStep = {
+  toolCalls: [{ toolName: "sendEmail", input: { to: "jane@example.com", subject: "Hi", body: "Hello" } }],
+  toolResults: [{ output: { status: "simulated" } }],
+};
+
+beforeEach(() => {
+  state.inserts = [];
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.clearAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe("executeAgent in sandbox mode", () => {
+  it("returns tool calls without logging the run or firing the completion webhook", async () => {
+    state.agent = agentRow("business_assistant");
+    generateWithFallback.mockResolvedValue({
+      result: { text: "Sent.", steps: [sendEmailStep], totalUsage: { inputTokens: 10, outputTokens: 5 } },
+      modelName: "gemini-2.0-flash",
+    });
+
+    const output = await executeAgent(
+      "agent-1",
+      { type: "chat", message: "Email Jane", userSession: "session-1" },
+      { sandbox: true }
+    );
+
+    expect(output.message).toBe("Sent.");
+    expect(output.toolCalls).toEqual([
+      { toolName: "sendEmail", args: sendEmailStep.toolCalls[0].input, result: { status: "simulated" } },
+    ]);
+    expect(state.inserts).toEqual([]);
+    expect(triggers.triggerAgentCompletedEvent).not.toHaveBeenCalled();
+  });
+
+  it("does not process actions for triggered customer assistants", async () => {
+    state.agent = agentRow("customer_assistant");
+    generateWithFallback.mockResolvedValue({
+      result: { text: "Thanks!", steps: [], totalUsage: { inputTokens: 10, outputTokens: 5 } },
+      modelName: "gemini-2.0-flash",
+    });
+
+    const output = await executeAgent("agent-1", { type: "webhook", payload: { order: 42 } }, { sandbox: true });
+
+    expect(output.actions).toEqual([]);
+    expect(getIntegrationMap).not.toHaveBeenCalled();
+    expect(state.inserts).toEqual([]);
+    expect(triggers.triggerAgentCompletedEvent).not.toHaveBeenCalled();
+  });
+
+  it("does not log a failure or fire the failure webhook", async () => {
+    state.agent = agentRow("customer_assistant");
+    generateWithFallback.mockRejectedValue(new Error("provider down"));
+
+    await expect(
+      executeAgent("agent-1", { type: "webhook", payload: {} }, { sandbox: true })
+    ).rejects.toThrow("provider down");
+
+    expect(state.inserts).toEqual([]);
+    expect(triggers.triggerAgentFailedEvent).not.toHaveBeenCalled();
+  });
+
+  it("does not fire the failure webhook when a sandbox chat fails", async () => {
+    state.agent = agentRow("business_assistant");
+    generateWithFallback.mockRejectedValue(new Error("provider down"));
+
+    const result = await sendMessage("agent-1", "Email Jane", [], { sandbox: true });
+
+    expect(result.error).toBeDefined();
+    expect(generateWithFallback).toHaveBeenCalled();
+    expect(triggers.triggerAgentFailedEvent).not.toHaveBeenCalled();
+  });
+});
+
+describe("executeAgent", () => {
+  it("ignores dry-run options sent to the server action", async () => {
+    state.agent = agentRow("customer_assistant");
+    generateWithFallback.mockResolvedValue({
+      result: { text: "Thanks!", steps: [], totalUsage: { inputTokens: 10, outputTokens: 5 } },
+      modelName: "gemini-2.0-flash",
+    });
+    const spoofed = { agent: { ...agentRow("customer_assistant"), tenant_id: "tenant-2" }, integrationMap: new Map() };
+
+    await executeAgent("agent-1", { type: "webhook", payload: {} }, { dryRun: spoofed } as any);
+
+    // The agent is loaded from the database and the run is logged as usual
+    expect(state.inserts).toEqual([
+      expect.objectContaining({ table: "agent_executions", row: expect.objectContaining({ tenant_id: "tenant-1" }) }),
+    ]);
+    expect(triggers.triggerAgentCompletedEvent).toHaveBeenCalledWith("tenant-1", "agent-1", "Helper", expect.anything(), expect.anything());
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { getThreadKey } from "../../lib/agents/memory";
+
+describe("getThreadKey", () => {
+  it("groups email replies and forwards into the original thread", () => {
+    const original = getThreadKey({ type: "email", from: "Jane <Jane@Example.com>", subject: "Pricing question" });
+    const reply = getThreadKey({ type: "email", from: "jane@example.com", subject: "RE: Re: Pricing question" });
+    const forward = getThreadKey({ type: "email", from: "jane@example.com", subject: "Fwd: pricing question" });
+
+    expect(original).toBe("email:jane@example.com:pricing question");
+    expect(reply).toBe(original);
+    expect(forward).toBe(original);
+  });
+
+  it("keeps different senders in separate threads", () => {
+    const a = getThreadKey({ type: "email", from: "a@example.com", subject: "Hello" });
+    const b = getThreadKey({ type: "email", from: "b@example.com", subject: "Hello" });
+    expect(a).not.toBe(b);
+  });
+
+  it("scopes SMS by normalized phone number", () => {
+    expect(getThreadKey({ type: "sms", from: "+1 (555) 010-2000" })).toBe("sms:+15550102000");
+  });
+
+  it("has no thread key for chat or inputs without a sender", () => {
+    expect(getThreadKey({ type: "chat", sessionId: "abc" })).toBeNull();
+    expect(getThreadKey({ type: "email", subject: "No sender" })).toBeNull();
+  });
+});
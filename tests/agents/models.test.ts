@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { APICallError, RetryError } from "ai";
+import {
+  CIRCUIT_FAILURE_THRESHOLD,
+  CIRCUIT_OPEN_MS,
+  buildModelChain,
+  isFallbackError,
+  isProviderAvailable,
+  recordProviderFailure,
+  recordProviderSuccess,
+} from "../../lib/agents/models";
+
+function apiError(statusCode: number) {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: "https://example.com",
+    requestBodyValues: {},
+    statusCode,
+  });
+}
+
+describe("buildModelChain", () => {
+  it("keeps the primary model first and drops duplicates and unknown names", () => {
+    const chain = buildModelChain("gemini-2.5-flash", ["claude-3.5-haiku", "gemini-2.5-flash", "not-a-model"]);
+    expect(chain.map((c) => c.name)).toEqual(["gemini-2.5-flash", "claude-3.5-haiku"]);
+    expect(chain.map((c) => c.provider)).toEqual(["google", "anthropic"]);
+  });
+
+  it("drops fallbacks the plan doesn't allow", () => {
+    const chain = buildModelChain("gemini-2.5-flash", ["gpt-5"], "pro");
+    expect(chain.map((c) => c.name)).toEqual(["gemini-2.5-flash"]);
+  });
+
+  it("rejects an unknown primary model with no usable fallbacks", () => {
+    expect(() => buildModelChain("gemini-9-ultra")).toThrow(/Unknown model/);
+  });
+});
+
+describe("isFallbackError", () => {
+  it("falls back on rate limits and server errors", () => {
+    expect(isFallbackError(apiError(429))).toBe(true);
+    expect(isFallbackError(apiError(503))).toBe(true);
+  });
+
+  it("surfaces client errors", () => {
+    expect(isFallbackError(apiError(400))).toBe(false);
+    expect(isFallbackError(apiError(401))).toBe(false);
+    expect(isFallbackError(new Error("boom"))).toBe(false);
+  });
+
+  it("unwraps retry errors", () => {
+    const error = new RetryError({ message: "failed", reason: "maxRetriesExceeded", errors: [apiError(500)] });
+    expect(isFallbackError(error)).toBe(true);
+  });
+});
+
+describe("provider circuit breaker", () => {
+  it("opens after repeated failures and closes after the cooldown or a success", () => {
+    const now = 1_000_000;
+    for (let i = 0; i < CIRCUIT_FAILURE_THRESHOLD; i++) {
+      expect(isProviderAvailable("openai", now)).toBe(true);
+      recordProviderFailure("openai", now);
+    }
+
+    expect(isProviderAvailable("openai", now + 1)).toBe(false);
+    expect(isProviderAvailable("openai", now + CIRCUIT_OPEN_MS)).toBe(true);
+
+    recordProviderSuccess("openai");
+    expect(isProviderAvailable("openai", now + 1)).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/lib/supabase/server", () => ({
+  createRequestOrServiceClient: vi.fn(() => {
+    throw new Error("Sandbox tools must not queue approvals");
+  }),
+}));
+
+import { createTools } from "../../lib/agents/tools";
+import { withSandboxFixtures } from "../../lib/agents/sandbox";
+
+const callOptions = { toolCallId: "call-1", messages: [] };
+
+function connectedEmail() {
+  return { executeAction: vi.fn().mockResolvedValue([{ subject: "Real inbox" }]) };
+}
+
+describe("sandbox tools", () => {
+  it("simulates write tools without calling the integration or the approval queue", async () => {
+    const email = connectedEmail();
+    const tools = createTools({
+      integrationMap: withSandboxFixtures(new Map([["email", email]])),
+      tenantId: "tenant-1",
+      agentId: "agent-1",
+      requireApproval: ["sendEmail"],
+      sandbox: true,
+    });
+
+    const result = await tools.sendEmail.execute!(
+      { to: "jane@example.com", subject: "Hi", body: "Hello" },
+      callOptions
+    );
+
+    expect(email.executeAction).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      status: "simulated",
+      simulated: {
+        toolName: "sendEmail",
+        provider: "email",
+        action: "send_email",
+        params: { to: "jane@example.com", subject: "Hi", body: "Hello", agent_id: "agent-1" },
+      },
+    });
+  });
+
+  it("reads from connected integrations and labelled samples for the rest", async () => {
+    const email = connectedEmail();
+    const tools = createTools({
+      integrationMap: withSandboxFixtures(new Map([["email", email]])),
+      tenantId: "tenant-1",
+      agentId: "agent-1",
+      sandbox: true,
+    });
+
+    await expect(tools.getRecentEmails.execute!({ limit: 5, filter: "unread" }, callOptions)).resolves.toEqual([
+      { subject: "Real inbox" },
+    ]);
+    expect(email.executeAction).toHaveBeenCalledWith("getRecentEmails", { limit: 5, filter: "unread" });
+
+    const customers = await tools.getCustomerCount.execute!({}, callOptions);
+    expect(customers).toMatchObject({ sampleData: true, data: { count: 342 } });
+  });
+});
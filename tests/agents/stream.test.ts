@@ -0,0 +1,97 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { createCompletion, createStreamResponse } from "../../lib/agents/stream";
+
+const output = { success: true, message: "Hello there", sources: ["faq.md"] };
+
+async function* chunks(texts: string[], onYield?: (index: number) => void) {
+  for (const [index, text] of texts.entries()) {
+    onYield?.(index);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    yield text;
+  }
+}
+
+function events(body: string) {
+  return [...body.matchAll(/^event: (\w+)$/gm)].map((match) => match[1]);
+}
+
+describe("createCompletion", () => {
+  it("can reject before anyone awaits it without an unhandled rejection", async () => {
+    const completion = createCompletion();
+
+    completion.reject(new Error("provider down"));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    await expect(completion.promise).rejects.toThrow("provider down");
+  });
+});
+
+describe("createStreamResponse", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("streams deltas, saves the reply and sends done", async () => {
+    const completion = createCompletion();
+    const onComplete = vi.fn().mockResolvedValue(undefined);
+
+    const response = createStreamResponse(
+      { textStream: chunks(["Hello", " there"]), completion: completion.promise, abort: vi.fn() },
+      "session-1",
+      onComplete
+    );
+    completion.resolve(output);
+
+    const body = await response.text();
+
+    expect(events(body)).toEqual(["start", "delta", "delta", "done"]);
+    expect(onComplete).toHaveBeenCalledWith("Hello there");
+  });
+
+  it("sends an error event when the model fails mid-stream", async () => {
+    const completion = createCompletion();
+    const onComplete = vi.fn();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const response = createStreamResponse(
+      {
+        // The provider error rejects completion while deltas are still being read
+        textStream: chunks(["Hel", "lo"], (index) => index === 1 && completion.reject(new Error("overloaded"))),
+        completion: completion.promise,
+        abort: vi.fn(),
+      },
+      "session-1",
+      onComplete
+    );
+
+    const body = await response.text();
+
+    expect(events(body)).toEqual(["start", "delta", "delta", "error"]);
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+
+  it("aborts the model stream and stops sending when the client disconnects", async () => {
+    const completion = createCompletion();
+    const abort = vi.fn();
+    const onComplete = vi.fn();
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const response = createStreamResponse(
+      { textStream: chunks(["a", "b", "c", "d"]), completion: completion.promise, abort },
+      "session-1",
+      onComplete
+    );
+
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    // Let the generator keep yielding after the disconnect
+    completion.resolve(output);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(abort).toHaveBeenCalledTimes(1);
+    expect(onComplete).not.toHaveBeenCalled();
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+});
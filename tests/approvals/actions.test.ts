@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+
+const { state, emailIntegration, getIntegrationMap, supabase } = vi.hoisted(() => {
+  const state = { action: null as Record<string, any> | null };
+
+  /** Just enough of the Supabase query builder for the approval actions */
+  const query = (table: string) => {
+    const filters: Record<string, any> = {};
+    let patch: Record<string, any> | null = null;
+
+    const run = () => {
+      if (table === "profiles") return { data: { tenant_id: "tenant-1" }, error: null };
+
+      const row = state.action;
+      if (!row || !Object.entries(filters).every(([column, value]) => row[column] === value)) {
+        return { data: null, error: null };
+      }
+      if (patch) Object.assign(row, patch);
+      return { data: { ...row }, error: null };
+    };
+
+    const builder: any = {
+      select: () => builder,
+      update: (data: Record<string, any>) => {
+        patch = data;
+        return builder;
+      },
+      eq: (column: string, value: any) => {
+        filters[column] = value;
+        return builder;
+      },
+      single: async () => run(),
+      then: (resolve: any, reject: any) => Promise.resolve(run()).then(resolve, reject),
+    };
+    return builder;
+  };
+
+  const emailIntegration = { executeAction: vi.fn() };
+
+  return {
+    state,
+    emailIntegration,
+    getIntegrationMap: vi.fn(),
+    supabase: {
+      auth: { getUser: async () => ({ data: { user: { id: "user-1", email: "owner@example.com" } } }) },
+      from: query,
+    },
+  };
+});
+
+vi.mock("@/lib/supabase/server", () => ({ createServerClient: async () => supabase }));
+vi.mock("@/lib/integrations/registry", () => ({ getIntegrationMap }));
+vi.mock("@/lib/audit/log", () => ({ recordAuditEvent: vi.fn() }));
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+
+import { approvePendingAction } from "../../lib/approvals/actions";
+
+describe("approvePendingAction", () => {
+  beforeEach(() => {
+    state.action = {
+      id: "action-1",
+      tenant_id: "tenant-1",
+      agent_id: "agent-1",
+      tool_name: "sendEmail",
+      provider: "email",
+      args: { to: "jane@example.com", subject: "Hi", body: "Hello" },
+      status: "pending",
+    };
+    emailIntegration.executeAction.mockReset().mockResolvedValue({ id: "msg-1" });
+    getIntegrationMap.mockReset().mockResolvedValue(new Map([["email", emailIntegration]]));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("runs the approved action and records the result", async () => {
+    const result = await approvePendingAction("action-1");
+
+    expect(result).toEqual({ success: true, result: { id: "msg-1" } });
+    expect(emailIntegration.executeAction).toHaveBeenCalledWith(
+      "send_email",
+      expect.objectContaining({ to: "jane@example.com", subject: "Hi", agent_id: "agent-1" })
+    );
+    expect(state.action).toMatchObject({ status: "executed", result: { id: "msg-1" } });
+  });
+
+  it("runs edited arguments that match the tool schema", async () => {
+    await approvePendingAction("action-1", { to: ["ops@example.com"], subject: "Updated", body: "Hello" });
+
+    expect(emailIntegration.executeAction).toHaveBeenCalledWith(
+      "send_email",
+      expect.objectContaining({ to: ["ops@example.com"], subject: "Updated" })
+    );
+    expect(state.action).toMatchObject({ status: "executed", args: { subject: "Updated" } });
+  });
+
+  it("keeps the action pending when edited arguments don't match the tool schema", async () => {
+    const result = await approvePendingAction("action-1", { to: "jane@example.com", subject: 42 });
+
+    expect(result.error).toMatch(/Invalid arguments for Send email: subject: .*; body: /);
+    expect(emailIntegration.executeAction).not.toHaveBeenCalled();
+    expect(state.action).toMatchObject({
+      status: "pending",
+      args: { to: "jane@example.com", subject: "Hi", body: "Hello" },
+    });
+  });
+
+  it("marks the action failed when the integration throws", async () => {
+    emailIntegration.executeAction.mockRejectedValue(new Error("Mailbox unavailable"));
+
+    const result = await approvePendingAction("action-1");
+
+    expect(result).toEqual({ error: "Mailbox unavailable" });
+    expect(state.action).toMatchObject({ status: "failed", error_message: "Mailbox unavailable" });
+  });
+
+  it("marks the action failed when its integrations can't be loaded", async () => {
+    getIntegrationMap.mockRejectedValue(new Error("Decryption failed"));
+
+    const result = await approvePendingAction("action-1");
+
+    expect(result).toEqual({ error: "Decryption failed" });
+    expect(state.action).toMatchObject({ status: "failed", error_message: "Decryption failed" });
+  });
+
+  it("doesn't approve an action twice", async () => {
+    state.action!.status = "executed";
+
+    const result = await approvePendingAction("action-1");
+
+    expect(result).toEqual({ error: "Pending action not found or already reviewed" });
+    expect(emailIntegration.executeAction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { auditLogsToCsv, diffChanges, escapeCsvCell, REDACTED } from "../../lib/audit/format";
+
+describe("diffChanges", () => {
+  it("records only the fields an update touched and changed", () => {
+    const before = { name: "Support", description: "Old", status: "active" };
+    const after = { name: "Support", description: "New", updated_at: "2025-02-08T00:00:00Z" };
+
+    expect(diffChanges(before, after)).toEqual({
+      description: { before: "Old", after: "New" },
+    });
+  });
+
+  it("flattens nested config into dotted paths", () => {
+    const before = { config: { model: "gpt-4o", instructions: "Be brief", integration_ids: ["a"] } };
+    const after = { config: { model: "gpt-4o", instructions: "Be thorough", integration_ids: ["a", "b"] } };
+
+    expect(diffChanges(before, after)).toEqual({
+      "config.instructions": { before: "Be brief", after: "Be thorough" },
+      "config.integration_ids": { before: ["a"], after: ["a", "b"] },
+    });
+  });
+
+  it("diffs creations against null and deletions to null", () => {
+    expect(diffChanges(null, { name: "Support" })).toEqual({ name: { before: null, after: "Support" } });
+    expect(diffChanges({ name: "Support" }, null)).toEqual({ name: { before: "Support", after: null } });
+  });
+
+  it("redacts credentials and tokens but keeps unrelated token counts", () => {
+    const changes = diffChanges(
+      { credentials: "enc:old", config: { bot_token: "xoxb-1", max_tokens: 500 } },
+      { credentials: "enc:new", config: { bot_token: "xoxb-2", max_tokens: 800 } }
+    );
+
+    expect(changes.credentials).toEqual({ before: REDACTED, after: REDACTED });
+    expect(changes["config.bot_token"]).toEqual({ before: REDACTED, after: REDACTED });
+    expect(changes["config.max_tokens"]).toEqual({ before: 500, after: 800 });
+  });
+});
+
+describe("auditLogsToCsv", () => {
+  it("escapes quotes and neutralises formulas", () => {
+    expect(escapeCsvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(escapeCsvCell("=HYPERLINK(1)")).toBe(`"'=HYPERLINK(1)"`);
+    expect(escapeCsvCell(null)).toBe('""');
+  });
+
+  it("writes a header and one row per entry", () => {
+    const csv = auditLogsToCsv([
+      {
+        created_at: "2025-02-08T10:00:00Z",
+        actor_email: "owner@example.com",
+        action: "agent.updated",
+        target_type: "agent",
+        target_id: "agent-1",
+        target_name: "Support",
+        changes: { name: { before: "Help", after: "Support" } },
+        ip_address: "203.0.113.7",
+      },
+    ]);
+
+    const [header, row] = csv.split("\n");
+    expect(header).toBe("Timestamp,Actor,Action,Target Type,Target ID,Target,Changes,IP Address");
+    expect(row).toContain('"agent.updated"');
+    expect(row).toContain('"{""name"":{""before"":""Help"",""after"":""Support""}}"');
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { getUsageLimit, isOverageCapReached } from "../../lib/billing/ledger";
+import { PLAN_LIMITS } from "../../lib/billing/plans";
+
+describe("getUsageLimit", () => {
+  it("maps plan limits onto ledger metrics", () => {
+    expect(getUsageLimit("starter", "messages")).toBe(PLAN_LIMITS.starter.messages);
+    expect(getUsageLimit("starter", "sms")).toBe(PLAN_LIMITS.starter.integrations.sms);
+    expect(getUsageLimit("starter", "email")).toBe(PLAN_LIMITS.starter.integrations.email);
+  });
+
+  it("meters storage in bytes", () => {
+    expect(getUsageLimit("free", "storage")).toBe(PLAN_LIMITS.free.storage_mb * 1024 * 1024);
+  });
+
+  it("treats calendar as a feature flag", () => {
+    expect(getUsageLimit("free", "calendar")).toBe(0);
+    expect(getUsageLimit("starter", "calendar")).toBe(-1);
+  });
+
+  it("falls back to the free plan for unknown plans", () => {
+    expect(getUsageLimit("legacy-plan", "messages")).toBe(PLAN_LIMITS.free.messages);
+  });
+});
+
+describe("isOverageCapReached", () => {
+  it("allows overage up to and including the cap", () => {
+    expect(isOverageCapReached(10, 9.98, 0.02)).toBe(false);
+    expect(isOverageCapReached(10, 9.99, 0.02)).toBe(true);
+  });
+
+  it("never stops overage without a cap", () => {
+    expect(isOverageCapReached(null, 1000, 1)).toBe(false);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { getOveragePrice, planSupportsOverage } from "../../lib/billing/plans";
+import { getUnreportedOverageCents, isOveragePeriodDue } from "../../lib/billing/overage";
+
+describe("overage plans", () => {
+  it("only offers overage on plans with unit prices", () => {
+    expect(planSupportsOverage("free")).toBe(false);
+    expect(planSupportsOverage("starter")).toBe(false);
+    expect(planSupportsOverage("business")).toBe(true);
+    expect(getOveragePrice("starter", "messages")).toBeNull();
+    expect(getOveragePrice("business", "sms")).toBeGreaterThan(0);
+  });
+});
+
+describe("getUnreportedOverageCents", () => {
+  it("rounds the running total before subtracting what was reported", () => {
+    expect(getUnreportedOverageCents(1.234, 0)).toBe(123);
+    expect(getUnreportedOverageCents(1.239, 100)).toBe(24);
+  });
+
+  it("never reports a negative amount", () => {
+    expect(getUnreportedOverageCents(0.5, 80)).toBe(0);
+  });
+});
+
+describe("isOveragePeriodDue", () => {
+  const subscription = {
+    current_period_start: "2025-03-01T00:00:00Z",
+    current_period_end: "2025-04-01T00:00:00Z",
+  };
+
+  it("reports past periods and the current one shortly before it ends", () => {
+    expect(isOveragePeriodDue(new Date("2025-02-01T00:00:00Z"), subscription, new Date("2025-03-10T00:00:00Z"))).toBe(true);
+    expect(isOveragePeriodDue(new Date("2025-03-01T00:00:00Z"), subscription, new Date("2025-03-10T00:00:00Z"))).toBe(false);
+    expect(isOveragePeriodDue(new Date("2025-03-01T00:00:00Z"), subscription, new Date("2025-03-31T23:00:00Z"))).toBe(true);
+  });
+
+  it("uses calendar months without a subscription period", () => {
+    expect(isOveragePeriodDue(new Date("2025-03-01T00:00:00Z"), null, new Date("2025-03-15T00:00:00Z"))).toBe(false);
+    expect(isOveragePeriodDue(new Date("2025-03-01T00:00:00Z"), null, new Date("2025-04-01T00:30:00Z"))).toBe(true);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { localEmbedding, tokenize, LOCAL_EMBEDDING_DIMENSIONS } from "../../lib/embeddings/local";
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+describe("tokenize", () => {
+  it("lowercases, strips accents and drops stop words", () => {
+    expect(tokenize("The Café is OPEN on Sundays!")).toEqual(["cafe", "open", "sundays"]);
+  });
+});
+
+describe("localEmbedding", () => {
+  it("is deterministic and unit length", () => {
+    const embedding = localEmbedding("Refunds are issued within 14 days");
+
+    expect(embedding).toHaveLength(LOCAL_EMBEDDING_DIMENSIONS);
+    expect(localEmbedding("Refunds are issued within 14 days")).toEqual(embedding);
+    expect(cosine(embedding, embedding)).toBeCloseTo(1);
+  });
+
+  it("scores texts sharing vocabulary above unrelated ones", () => {
+    const query = localEmbedding("How do I get a refund?");
+    const related = localEmbedding("Refunds are issued to the original payment method within 14 days.");
+    const unrelated = localEmbedding("Our office is closed on public holidays.");
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it("returns a zero vector for text without words", () => {
+    expect(localEmbedding("?!").every((value) => value === 0)).toBe(true);
+  });
+});
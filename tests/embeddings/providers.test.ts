@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("openai", () => ({ default: vi.fn() }));
+vi.mock("@/lib/supabase/service", () => ({ createServiceClient: vi.fn() }));
+
+import { EmbeddingService, type EmbeddingProvider } from "../../lib/embeddings/providers";
+import { EmbeddingCache } from "../../lib/embeddings/cache";
+
+function fakeProvider(name: string, overrides: Partial<EmbeddingProvider> = {}): EmbeddingProvider {
+  return {
+    name,
+    dimensions: 2,
+    costPer1kTokens: 0.1,
+    maxBatchSize: 2,
+    generateEmbeddings: vi.fn(async (text: string) => [text.length, 1]),
+    generateEmbeddingsBatch: vi.fn(async (texts: string[]) => texts.map((text) => [text.length, 1])),
+    ...overrides,
+  };
+}
+
+describe("EmbeddingService.generateEmbeddingsBatch", () => {
+  it("splits requests at the provider's batch size and keeps input order", async () => {
+    const provider = fakeProvider("Remote");
+    const service = new EmbeddingService({ providers: [provider] });
+
+    const results = await service.generateEmbeddingsBatch(["a", "bb", "ccc"]);
+
+    expect(provider.generateEmbeddingsBatch).toHaveBeenCalledTimes(2);
+    expect(results.map((result) => result.embedding[0])).toEqual([1, 2, 3]);
+  });
+
+  it("prices tokens at the provider's costPer1kTokens", async () => {
+    const service = new EmbeddingService({ providers: [fakeProvider("Remote")] });
+
+    const [result] = await service.generateEmbeddingsBatch(["x".repeat(4000)]);
+
+    expect(result.tokens).toBe(1000);
+    expect(result.costUsd).toBeCloseTo(0.1);
+  });
+
+  it("embeds repeated text once", async () => {
+    const provider = fakeProvider("Remote");
+    const service = new EmbeddingService({ providers: [provider] });
+
+    const results = await service.generateEmbeddingsBatch(["same", "same"]);
+
+    expect(provider.generateEmbeddingsBatch).toHaveBeenCalledWith(["same"]);
+    expect(results[1]).toMatchObject({ embedding: results[0].embedding, tokens: 0, costUsd: 0 });
+  });
+
+  it("falls back to the next provider for texts the first couldn't embed", async () => {
+    const failing = fakeProvider("Remote", {
+      generateEmbeddingsBatch: vi.fn().mockRejectedValue(new Error("rate limited")),
+    });
+    const fallback = fakeProvider("Local", { local: true });
+    const service = new EmbeddingService({ providers: [failing, fallback] });
+
+    const results = await service.generateEmbeddingsBatch(["a", "b"]);
+
+    expect(results.map((result) => result.provider)).toEqual(["Local", "Local"]);
+  });
+
+  it("serves repeat requests from the cache without calling the provider", async () => {
+    const provider = fakeProvider("Remote");
+    const service = new EmbeddingService({ providers: [provider], cache: new EmbeddingCache(60, false) });
+
+    await service.generateEmbeddingsBatch(["hello", "world"]);
+    const results = await service.generateEmbeddingsBatch(["hello", "new"]);
+
+    expect(provider.generateEmbeddingsBatch).toHaveBeenLastCalledWith(["new"]);
+    expect(results[0]).toMatchObject({ cached: true, costUsd: 0, provider: "Remote" });
+    expect(results[1].cached).toBe(false);
+  });
+
+  it("doesn't cache local providers", async () => {
+    const provider = fakeProvider("Hash", { local: true });
+    const service = new EmbeddingService({ providers: [provider], cache: new EmbeddingCache(60, false) });
+
+    await service.generateEmbeddingsBatch(["hello"]);
+    await service.generateEmbeddingsBatch(["hello"]);
+
+    expect(provider.generateEmbeddingsBatch).toHaveBeenCalledTimes(2);
+  });
+});
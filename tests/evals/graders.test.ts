@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkExpectedFacts,
+  checkForbiddenPhrases,
+  checkRequiredTools,
+  parseJudgeVerdict,
+  scoreChecks,
+} from "../../lib/evals/graders";
+import { compareEvalResults } from "../../lib/evals/compare";
+import { createFixtureIntegrationMap } from "../../lib/evals/fixtures";
+
+describe("rule checks", () => {
+  it("matches facts case-insensitively and ignores thousands separators", () => {
+    const check = checkExpectedFacts("Revenue was $12500 from 42 Customers", ["$12,500", "42 customers", "refunds"]);
+    expect(check).toMatchObject({ passed: false, detail: "Missing: refunds" });
+    expect(check?.score).toBeCloseTo(2 / 3);
+  });
+
+  it("fails on any forbidden phrase", () => {
+    expect(checkForbiddenPhrases("As an AI, I cannot", ["as an ai"])).toMatchObject({ passed: false, score: 0 });
+    expect(checkForbiddenPhrases("Here you go", ["as an ai"])).toMatchObject({ passed: true, score: 1 });
+  });
+
+  it("reports required tools that were not called", () => {
+    expect(checkRequiredTools(["getRevenue"], ["getRevenue", "getFailedCharges"])).toMatchObject({
+      passed: false,
+      score: 0.5,
+      detail: "Not called: getFailedCharges",
+    });
+  });
+
+  it("skips checks the case doesn't define", () => {
+    expect(checkExpectedFacts("anything", [" "])).toBeNull();
+    expect(checkRequiredTools([], [])).toBeNull();
+    expect(scoreChecks([])).toEqual({ score: 1, passed: true });
+  });
+});
+
+describe("parseJudgeVerdict", () => {
+  it("reads JSON wrapped in prose or code fences and clamps the score", () => {
+    expect(parseJudgeVerdict('```json\n{"score": 0.8, "reason": "Mostly right"}\n```')).toEqual({
+      score: 0.8,
+      reason: "Mostly right",
+    });
+    expect(parseJudgeVerdict('Verdict: {"score": 3}')).toEqual({ score: 1, reason: "" });
+  });
+
+  it("rejects replies without a numeric score", () => {
+    expect(parseJudgeVerdict("Looks good to me")).toBeNull();
+    expect(parseJudgeVerdict('{"score": "high"}')).toBeNull();
+  });
+});
+
+describe("createFixtureIntegrationMap", () => {
+  it("records calls and fails actions without a recorded response", async () => {
+    const { integrationMap, calls } = createFixtureIntegrationMap({ hubspot: { get_deals: [{ id: 1 }] } });
+
+    expect(integrationMap.has("stripe")).toBe(false);
+    await expect(integrationMap.get("hubspot").executeAction("get_deals", { limit: 5 })).resolves.toEqual([{ id: 1 }]);
+    await expect(integrationMap.get("hubspot").executeAction("create_deal", {})).rejects.toThrow(
+      "No recorded response for hubspot.create_deal"
+    );
+    expect(calls.map((call) => call.action)).toEqual(["get_deals", "create_deal"]);
+  });
+});
+
+describe("compareEvalResults", () => {
+  it("pairs cases across runs and classifies the change", () => {
+    const before = [
+      { case_id: "a", case_name: "Revenue", score: 0.5, passed: false },
+      { case_id: "b", case_name: "Refunds", score: 1, passed: true },
+      { case_id: null, case_name: "Deleted case", score: 1, passed: true },
+    ];
+    const after = [
+      { case_id: "a", case_name: "Revenue", score: 1, passed: true },
+      { case_id: "b", case_name: "Refunds", score: 1, passed: true },
+      { case_id: "c", case_name: "Churn", score: 0, passed: false },
+    ];
+
+    expect(compareEvalResults(before, after).map((row) => [row.caseName, row.change])).toEqual([
+      ["Revenue", "improved"],
+      ["Refunds", "unchanged"],
+      ["Churn", "added"],
+      ["Deleted case", "removed"],
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import type { LanguageModel } from "ai";
+
+// Dry runs must not touch the database, integrations, analytics or webhooks
+const { unexpected } = vi.hoisted(() => ({
+  unexpected: (name: string) =>
+    vi.fn(() => {
+      throw new Error(`${name} called during dry run`);
+    }),
+}));
+
+vi.mock("@/lib/supabase/server", () => ({
+  createServerClient: unexpected("createServerClient"),
+  createRequestOrServiceClient: unexpected("createRequestOrServiceClient"),
+}));
+
+vi.mock("@/lib/supabase/service", () => ({
+  createServiceClient: unexpected("createServiceClient"),
+}));
+
+vi.mock("@/lib/integrations/registry", () => ({
+  getIntegrationMap: unexpected("getIntegrationMap"),
+}));
+
+vi.mock("@/lib/knowledge/actions", () => ({
+  searchDocuments: vi.fn().mockResolvedValue({ success: true, documents: [] }),
+}));
+
+vi.mock("@/lib/knowledge/analytics", () => ({
+  trackContextUsage: unexpected("trackContextUsage"),
+}));
+
+vi.mock("@/lib/webhooks/triggers", () => ({
+  triggerAgentCompletedEvent: unexpected("triggerAgentCompletedEvent"),
+  triggerAgentFailedEvent: unexpected("triggerAgentFailedEvent"),
+}));
+
+import { runEvalSuite } from "../../lib/evals/runner";
+import type { EvalCaseSpec } from "../../lib/evals/graders";
+
+const usage = { inputTokens: 100, outputTokens: 20, totalTokens: 120 };
+
+/**
+ * Stub model that returns the given responses in order, one per generate call
+ */
+function stubModel(responses: Array<{ content: any[]; finishReason: string } | Error>): LanguageModel {
+  let call = 0;
+  return {
+    specificationVersion: "v2",
+    provider: "stub",
+    modelId: "stub-model",
+    supportedUrls: {},
+    doGenerate: async () => {
+      const response = responses[Math.min(call++, responses.length - 1)];
+      if (response instanceof Error) throw response;
+      return { ...response, usage, warnings: [] };
+    },
+    doStream: async () => {
+      throw new Error("Streaming is not stubbed");
+    },
+  } as LanguageModel;
+}
+
+const agent = {
+  id: "agent-1",
+  tenant_id: "tenant-1",
+  name: "Finance Assistant",
+  type: "business_assistant",
+  config_version: 3,
+  tenants: { name: "Acme", slug: "acme" },
+  config: { model: "gpt-4o-mini", instructions: "Answer revenue questions.", tone: "professional" },
+};
+
+const revenueCase: EvalCaseSpec = {
+  id: "case-1",
+  name: "Monthly revenue",
+  input: "What was revenue in January?",
+  expectedFacts: ["$12,500"],
+  forbiddenPhrases: ["I don't know"],
+  requiredTools: ["getRevenue"],
+  rubric: "States the revenue figure from Stripe",
+  fixtures: { stripe: { getRevenue: { total: 12500, currency: "usd" } } },
+};
+
+function toolCallThenAnswer(answer: string) {
+  return stubModel([
+    {
+      content: [
+        {
+          type: "tool-call",
+          toolCallId: "call-1",
+          toolName: "getRevenue",
+          input: JSON.stringify({ startDate: "2025-01-01", endDate: "2025-01-31" }),
+        },
+      ],
+      finishReason: "tool-calls",
+    },
+    { content: [{ type: "text", text: answer }], finishReason: "stop" },
+  ]);
+}
+
+function judge(score: number) {
+  return stubModel([
+    { content: [{ type: "text", text: JSON.stringify({ score, reason: "Graded" }) }], finishReason: "stop" },
+  ]);
+}
+
+describe("runEvalSuite", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("answers from recorded fixtures and passes every check", async () => {
+    const summary = await runEvalSuite(agent, [revenueCase], {
+      model: toolCallThenAnswer("January revenue was $12,500."),
+      judgeModel: judge(0.9),
+    });
+
+    const [result] = summary.results;
+    expect(result.error).toBeNull();
+    expect(result.toolCalls).toEqual([
+      {
+        toolName: "getRevenue",
+        args: { startDate: "2025-01-01", endDate: "2025-01-31" },
+        result: { total: 12500, currency: "usd" },
+      },
+    ]);
+    expect(result.checks.map((check) => [check.name, check.passed])).toEqual([
+      ["Expected facts", true],
+      ["Forbidden phrases", true],
+      ["Required tools", true],
+      ["Rubric", true],
+    ]);
+    expect(summary).toMatchObject({ caseCount: 1, passedCount: 1 });
+    expect(summary.score).toBeCloseTo((1 + 1 + 1 + 0.9) / 4);
+  });
+
+  it("scores two config versions differently on the same case", async () => {
+    const vague = await runEvalSuite(agent, [revenueCase], {
+      model: toolCallThenAnswer("I don't know the exact figure."),
+      judgeModel: judge(0.2),
+    });
+    const precise = await runEvalSuite(
+      { ...agent, config_version: 4 },
+      [revenueCase],
+      { model: toolCallThenAnswer("Revenue for January: $12500"), judgeModel: judge(1) }
+    );
+
+    expect(vague.passedCount).toBe(0);
+    expect(precise.passedCount).toBe(1);
+    expect(precise.score).toBeGreaterThan(vague.score);
+  });
+
+  it("records agent errors on the case instead of failing the suite", async () => {
+    const summary = await runEvalSuite(agent, [revenueCase], { model: stubModel([new Error("Invalid API key")]) });
+
+    expect(summary.results[0]).toMatchObject({ passed: false, score: 0, error: "Invalid API key" });
+  });
+});
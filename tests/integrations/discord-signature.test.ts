@@ -0,0 +1,60 @@
+import crypto from "crypto";
+import { describe, it, expect, vi } from "vitest";
+import { DiscordIntegration, interactionText } from "../../lib/integrations/discord";
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync("ed25519");
+// Discord shows the raw 32-byte key, which is the tail of the SPKI encoding
+const rawPublicKey = publicKey.export({ format: "der", type: "spki" }).subarray(-32).toString("hex");
+
+const body = JSON.stringify({ type: 2, data: { name: "ask" } });
+const timestamp = "1700000000";
+
+function sign(payload = body, ts = timestamp, key = privateKey) {
+  return crypto.sign(null, Buffer.from(ts + payload), key).toString("hex");
+}
+
+function integration(public_key = rawPublicKey) {
+  return new DiscordIntegration({
+    credentials: { bot_token: "bot", application_id: "app", public_key },
+  });
+}
+
+describe("DiscordIntegration.verifySignature", () => {
+  it("accepts a request signed with the application key", () => {
+    expect(integration().verifySignature(body, sign(), timestamp)).toBe(true);
+  });
+
+  it("rejects a tampered body, timestamp or signing key", () => {
+    const other = crypto.generateKeyPairSync("ed25519").privateKey;
+
+    expect(integration().verifySignature(body + " ", sign(), timestamp)).toBe(false);
+    expect(integration().verifySignature(body, sign(), "1700000001")).toBe(false);
+    expect(integration().verifySignature(body, sign(body, timestamp, other), timestamp)).toBe(false);
+  });
+
+  it("rejects malformed signatures and missing keys", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(integration().verifySignature(body, "not-hex", timestamp)).toBe(false);
+    expect(integration("").verifySignature(body, sign(), timestamp)).toBe(false);
+
+    vi.restoreAllMocks();
+  });
+});
+
+describe("interactionText", () => {
+  it("joins option values, including subcommand options", () => {
+    expect(
+      interactionText({
+        data: {
+          name: "support",
+          options: [{ name: "ask", type: 1, options: [{ name: "question", value: "Where is my order?" }] }],
+        },
+      })
+    ).toBe("Where is my order?");
+  });
+
+  it("falls back to the command name", () => {
+    expect(interactionText({ data: { name: "status" } })).toBe("/status");
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildReplyHeaders,
+  getEmailThreadKey,
+  getInboundAddressCandidates,
+  isTenantInboundAddress,
+  parseEmailAddress,
+  parseMessageIds,
+  parseRawHeaders,
+  replySubject,
+} from "../../lib/integrations/email-threading";
+
+describe("getInboundAddressCandidates", () => {
+  it("tries the exact address before the address without its +tag", () => {
+    expect(getInboundAddressCandidates("Acme <Support+Billing@Acme.com>")).toEqual([
+      "support+billing@acme.com",
+      "support@acme.com",
+    ]);
+    expect(getInboundAddressCandidates("sales@acme.com")).toEqual(["sales@acme.com"]);
+    expect(getInboundAddressCandidates("not an address")).toEqual([]);
+  });
+});
+
+describe("isTenantInboundAddress", () => {
+  const domain = "inbound.zapta.ai";
+  const allowed = (value: string, slug = "acme") => isTenantInboundAddress(parseEmailAddress(value)!, slug, domain);
+
+  it("allows the tenant slug and slug.name on the inbound domain", () => {
+    expect(allowed("acme@inbound.zapta.ai")).toBe(true);
+    expect(allowed("Acme.Support@Inbound.Zapta.ai")).toBe(true);
+  });
+
+  it("rejects other domains, other tenants' slugs and tagged addresses", () => {
+    expect(allowed("acme@acme.com")).toBe(false);
+    expect(allowed("support@inbound.zapta.ai")).toBe(false);
+    expect(allowed("acme-corp.support@inbound.zapta.ai")).toBe(false);
+    expect(allowed("acme.support@inbound.zapta.ai", "acme-corp")).toBe(false);
+    expect(allowed("acme.support+billing@inbound.zapta.ai")).toBe(false);
+    expect(allowed("acme.@inbound.zapta.ai")).toBe(false);
+  });
+});
+
+describe("email threading", () => {
+  const raw = [
+    "Message-ID: <reply-2@mail.example.com>",
+    "In-Reply-To: <reply-1@zapta.ai>",
+    "References: <root@mail.example.com>",
+    " <reply-1@zapta.ai>",
+    "Subject: Re: Pricing",
+  ].join("\r\n");
+
+  it("parses folded raw headers", () => {
+    const headers = parseRawHeaders(raw);
+    expect(headers["message-id"]).toBe("<reply-2@mail.example.com>");
+    expect(parseMessageIds(headers["references"])).toEqual([
+      "<root@mail.example.com>",
+      "<reply-1@zapta.ai>",
+    ]);
+  });
+
+  it("keys every message in a thread by its root Message-ID", () => {
+    const first = getEmailThreadKey({ messageId: "<Root@mail.example.com>" });
+    const reply = getEmailThreadKey({
+      messageId: "<reply-2@mail.example.com>",
+      inReplyTo: "<reply-1@zapta.ai>",
+      references: ["<root@mail.example.com>", "<reply-1@zapta.ai>"],
+    });
+
+    expect(first).toBe("email:<root@mail.example.com>");
+    expect(reply).toBe(first);
+    expect(getEmailThreadKey({})).toBeNull();
+  });
+
+  it("builds In-Reply-To and References for a reply", () => {
+    expect(
+      buildReplyHeaders({
+        messageId: "<reply-2@mail.example.com>",
+        references: ["<root@mail.example.com>", "<reply-1@zapta.ai>"],
+      })
+    ).toEqual({
+      "In-Reply-To": "<reply-2@mail.example.com>",
+      References: "<root@mail.example.com> <reply-1@zapta.ai> <reply-2@mail.example.com>",
+    });
+    expect(buildReplyHeaders({})).toEqual({});
+  });
+
+  it("adds Re: only once", () => {
+    expect(replySubject("Pricing")).toBe("Re: Pricing");
+    expect(replySubject("RE: Pricing")).toBe("RE: Pricing");
+  });
+});
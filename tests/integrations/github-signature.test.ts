@@ -0,0 +1,32 @@
+import crypto from "crypto";
+import { describe, it, expect } from "vitest";
+import { GitHubIntegration } from "../../lib/integrations/github";
+
+const webhookSecret = "github-webhook-secret";
+const body = JSON.stringify({ action: "opened", issue: { number: 1 } });
+
+function sign(payload = body, secret = webhookSecret) {
+  return `sha256=${crypto.createHmac("sha256", secret).update(payload).digest("hex")}`;
+}
+
+function integration(webhook_secret?: string) {
+  return new GitHubIntegration({
+    credentials: { personal_access_token: "token", webhook_secret },
+  });
+}
+
+describe("GitHubIntegration.verifySignature", () => {
+  it("accepts a delivery signed with the webhook secret", () => {
+    expect(integration(webhookSecret).verifySignature(body, sign())).toBe(true);
+  });
+
+  it("rejects a tampered body, wrong secret or truncated signature", () => {
+    expect(integration(webhookSecret).verifySignature(body + " ", sign())).toBe(false);
+    expect(integration(webhookSecret).verifySignature(body, sign(body, "other"))).toBe(false);
+    expect(integration(webhookSecret).verifySignature(body, sign().slice(0, -2))).toBe(false);
+  });
+
+  it("rejects every delivery when no secret is configured", () => {
+    expect(integration().verifySignature(body, sign())).toBe(false);
+  });
+});
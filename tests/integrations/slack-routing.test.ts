@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { matchesSlackInstall } from "../../lib/integrations/slack";
+
+const event = { team_id: "T123", api_app_id: "A111", enterprise_id: "E999" };
+
+describe("matchesSlackInstall", () => {
+  it("matches the workspace, app and Enterprise Grid org stored at install time", () => {
+    expect(matchesSlackInstall({ team_id: "T123", app_id: "A111", enterprise_id: "E999" }, event)).toBe(true);
+  });
+
+  it("rejects another workspace, app or org", () => {
+    expect(matchesSlackInstall({ team_id: "T456", app_id: "A111" }, event)).toBe(false);
+    expect(matchesSlackInstall({ team_id: "T123", app_id: "A222" }, event)).toBe(false);
+    expect(matchesSlackInstall({ team_id: "T123", enterprise_id: "E000" }, event)).toBe(false);
+  });
+
+  it("matches older installs on the workspace alone and never matches without one", () => {
+    expect(matchesSlackInstall({ team_id: "T123" }, event)).toBe(true);
+    expect(matchesSlackInstall({}, event)).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+import crypto from "crypto";
+import { describe, it, expect } from "vitest";
+import { SlackIntegration } from "../../lib/integrations/slack";
+
+const signingSecret = "slack-signing-secret";
+const body = JSON.stringify({ type: "event_callback", team_id: "T123", event: { type: "app_mention" } });
+const timestamp = 1_700_000_000;
+
+function sign(ts: number, payload = body, secret = signingSecret) {
+  return `v0=${crypto.createHmac("sha256", secret).update(`v0:${ts}:${payload}`).digest("hex")}`;
+}
+
+describe("SlackIntegration.verifyRequestSignature", () => {
+  it("accepts a request signed with the signing secret", () => {
+    const valid = SlackIntegration.verifyRequestSignature({
+      body,
+      timestamp: String(timestamp),
+      signature: sign(timestamp),
+      signingSecret,
+      now: timestamp + 5,
+    });
+    expect(valid).toBe(true);
+  });
+
+  it("rejects a tampered body or wrong secret", () => {
+    const base = { timestamp: String(timestamp), signingSecret, now: timestamp };
+    expect(
+      SlackIntegration.verifyRequestSignature({ ...base, body: body + " ", signature: sign(timestamp) })
+    ).toBe(false);
+    expect(
+      SlackIntegration.verifyRequestSignature({ ...base, body, signature: sign(timestamp, body, "other") })
+    ).toBe(false);
+  });
+
+  it("rejects stale timestamps and missing headers", () => {
+    expect(
+      SlackIntegration.verifyRequestSignature({
+        body,
+        timestamp: String(timestamp),
+        signature: sign(timestamp),
+        signingSecret,
+        now: timestamp + 301,
+      })
+    ).toBe(false);
+    expect(
+      SlackIntegration.verifyRequestSignature({ body, timestamp: null, signature: null, signingSecret })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { splitDocument, splitMarkdownSections, splitSentences, strategyForFile } from "../../lib/knowledge/chunking";
+
+describe("splitSentences", () => {
+  it("keeps punctuation and doesn't break on decimals or abbreviations", () => {
+    const text = "The plan costs $9.99 a month, e.g. for teams. Dr. Smith approved it! Does v2.1 ship? Yes.";
+
+    expect(splitSentences(text)).toEqual([
+      "The plan costs $9.99 a month, e.g. for teams.",
+      "Dr. Smith approved it!",
+      "Does v2.1 ship?",
+      "Yes.",
+    ]);
+  });
+});
+
+describe("splitDocument", () => {
+  const sentences = Array.from({ length: 12 }, (_, i) => `Sentence number ${i + 1} is here.`).join(" ");
+
+  it("repeats the tail of each chunk at the start of the next", () => {
+    const chunks = splitDocument(sentences, { strategy: "sentence", maxChunkSize: 120, overlapSize: 40 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => expect(chunk.content.length).toBeLessThanOrEqual(120));
+    for (let i = 1; i < chunks.length; i++) {
+      const previousLast = splitSentences(chunks[i - 1].content).pop()!;
+      expect(chunks[i].content.startsWith(previousLast)).toBe(true);
+    }
+  });
+
+  it("packs sentences across paragraphs in sentence mode but keeps paragraphs whole in paragraph mode", () => {
+    const content = "First one. First two.\n\nSecond one. Second two.";
+
+    expect(splitDocument(content, { strategy: "paragraph", maxChunkSize: 30, overlapSize: 0 }).map((c) => c.content)).toEqual([
+      "First one. First two.",
+      "Second one. Second two.",
+    ]);
+    expect(splitDocument(content, { strategy: "sentence", maxChunkSize: 35, overlapSize: 0 }).map((c) => c.content)).toEqual([
+      "First one. First two.\n\nSecond one.",
+      "Second two.",
+    ]);
+  });
+
+  it("fills fixed chunks word by word and splits unbreakable text", () => {
+    const chunks = splitDocument(`${"word ".repeat(30)}${"x".repeat(70)}`, {
+      strategy: "fixed",
+      maxChunkSize: 50,
+      overlapSize: 0,
+    });
+
+    chunks.forEach((chunk) => expect(chunk.content.length).toBeLessThanOrEqual(50));
+    expect(chunks.map((c) => c.content).join(" ")).toContain("x".repeat(50));
+  });
+
+  it("measures chunk size in estimated tokens", () => {
+    const chunks = splitDocument(sentences, { strategy: "sentence", maxChunkSize: 20, overlapSize: 0, unit: "tokens" });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => expect(Math.ceil(chunk.content.length / 4)).toBeLessThanOrEqual(20));
+  });
+
+  it("chunks markdown by section and records each heading path", () => {
+    const markdown = [
+      "# Guide",
+      "## Install",
+      "Run the installer.",
+      "```sh",
+      "# not a heading",
+      "```",
+      "## Billing",
+      "### Refunds",
+      "Refunds take 5 days.",
+    ].join("\n");
+
+    const chunks = splitDocument(markdown, { strategy: "markdown", maxChunkSize: 1000, overlapSize: 0 });
+
+    expect(chunks).toEqual([
+      { content: "## Install\nRun the installer.\n```sh\n# not a heading\n```", headingPath: ["Guide", "Install"] },
+      { content: "### Refunds\nRefunds take 5 days.", headingPath: ["Guide", "Billing", "Refunds"] },
+    ]);
+  });
+});
+
+describe("markdown helpers", () => {
+  it("keeps text before the first heading with an empty path", () => {
+    expect(splitMarkdownSections("Intro text.\n\n# Title\nBody")).toEqual([
+      { text: "Intro text.", headingPath: [] },
+      { text: "# Title\nBody", headingPath: ["Title"] },
+    ]);
+  });
+
+  it("uses the markdown strategy for markdown files", () => {
+    expect(strategyForFile("README.md")).toBe("markdown");
+    expect(strategyForFile("notes", "text/markdown")).toBe("markdown");
+    expect(strategyForFile("report.pdf", "application/pdf")).toBe("paragraph");
+  });
+});
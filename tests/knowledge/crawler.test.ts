@@ -0,0 +1,254 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import dns from "dns";
+import net, { type AddressInfo } from "net";
+import {
+  isPublicHostname,
+  normalizeUrl,
+  parseSitemap,
+  readLimited,
+  requestPinned,
+  resolvePublicAddresses,
+} from "../../lib/knowledge/crawler";
+import { extractHtmlContent } from "../../lib/knowledge/html";
+import { parseRobotsTxt } from "../../lib/knowledge/robots";
+
+describe("normalizeUrl", () => {
+  it("drops fragments, tracking parameters and trailing slashes and sorts the query", () => {
+    expect(normalizeUrl("https://example.com/docs/?b=2&utm_source=x&a=1#intro")).toBe(
+      "https://example.com/docs?a=1&b=2"
+    );
+  });
+
+  it("resolves relative links and rejects non-http URLs", () => {
+    expect(normalizeUrl("../pricing", "https://example.com/docs/intro")).toBe("https://example.com/pricing");
+    expect(normalizeUrl("mailto:hi@example.com")).toBeNull();
+    expect(normalizeUrl("not a url")).toBeNull();
+  });
+});
+
+describe("isPublicHostname", () => {
+  it("rejects localhost, private ranges and single-label names", () => {
+    for (const host of ["localhost", "127.0.0.1", "10.0.0.5", "192.168.1.1", "169.254.169.254", "[::1]", "intranet"]) {
+      expect(isPublicHostname(host)).toBe(false);
+    }
+  });
+
+  it("rejects CGNAT, unique local, link-local and IPv4-mapped addresses", () => {
+    for (const host of ["100.64.0.1", "[fd00::1]", "[fe80::1]", "[::ffff:127.0.0.1]", "[::ffff:7f00:1]", "[::ffff:8.8.8.8]"]) {
+      expect(isPublicHostname(host)).toBe(false);
+    }
+  });
+
+  it("allows public names and addresses", () => {
+    expect(isPublicHostname("docs.example.com")).toBe(true);
+    expect(isPublicHostname("93.184.216.34")).toBe(true);
+    expect(isPublicHostname("[2606:2800:220:1::248]")).toBe(true);
+  });
+});
+
+describe("resolvePublicAddresses", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("returns every resolved address when all are public", async () => {
+    const addresses = [
+      { address: "93.184.216.34", family: 4 },
+      { address: "2606:2800:220:1::248", family: 6 },
+    ];
+    const lookup = vi.spyOn(dns.promises, "lookup").mockResolvedValue(addresses as any);
+
+    await expect(resolvePublicAddresses("docs.example.com")).resolves.toEqual(addresses);
+    expect(lookup).toHaveBeenCalledWith("docs.example.com", { all: true });
+  });
+
+  it("rejects a name with any private address", async () => {
+    vi.spyOn(dns.promises, "lookup").mockResolvedValue([
+      { address: "93.184.216.34", family: 4 },
+      { address: "10.0.0.5", family: 4 },
+    ] as any);
+
+    await expect(resolvePublicAddresses("rebind.example.com")).rejects.toThrow("non-public address 10.0.0.5");
+  });
+
+  it("checks IP literals without a lookup", async () => {
+    const lookup = vi.spyOn(dns.promises, "lookup");
+
+    await expect(resolvePublicAddresses("93.184.216.34")).resolves.toEqual([{ address: "93.184.216.34", family: 4 }]);
+    await expect(resolvePublicAddresses("169.254.169.254")).rejects.toThrow("non-public");
+    expect(lookup).not.toHaveBeenCalled();
+  });
+});
+
+describe("readLimited", () => {
+  const encoder = new TextEncoder();
+
+  it("reads a body within the limit", async () => {
+    await expect(readLimited(new Response("hello"), 10)).resolves.toBe("hello");
+  });
+
+  it("stops reading once the body passes the limit", async () => {
+    let pulls = 0;
+    let cancelled = false;
+    // Endless body without a content-length
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulls++;
+        controller.enqueue(encoder.encode("x".repeat(4)));
+      },
+      cancel() {
+        cancelled = true;
+      },
+    });
+
+    await expect(readLimited(new Response(body), 10)).resolves.toBeNull();
+    expect(cancelled).toBe(true);
+    expect(pulls).toBeLessThan(10);
+  });
+
+  it("skips bodies whose content-length is over the limit", async () => {
+    const response = new Response("x".repeat(20), { headers: { "content-length": "20" } });
+
+    await expect(readLimited(response, 10)).resolves.toBeNull();
+  });
+});
+
+describe("requestPinned", () => {
+  /** Serve one raw HTTP response on 127.0.0.1 and request it under a name that doesn't resolve */
+  async function requestRaw(raw: string) {
+    const server = net.createServer((socket) => socket.end(raw));
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      return await requestPinned(
+        new URL(`http://pinned.example:${port}/`),
+        [{ address: "127.0.0.1", family: 4 }],
+        "text/html"
+      );
+    } finally {
+      server.close();
+    }
+  }
+
+  it("connects to the pinned address", async () => {
+    const response = await requestRaw("HTTP/1.1 200 OK\r\nContent-Length: 5\r\nContent-Type: text/html\r\n\r\nhello");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("text/html");
+    await expect(response.text()).resolves.toBe("hello");
+  });
+
+  it("returns a 205 response without its body", async () => {
+    const response = await requestRaw("HTTP/1.1 205 Reset Content\r\nContent-Length: 5\r\n\r\nhello");
+
+    expect(response.status).toBe(205);
+    expect(response.body).toBeNull();
+  });
+
+  it("rejects statuses a Response can't represent", async () => {
+    await expect(requestRaw("HTTP/1.1 600 Odd\r\nContent-Length: 0\r\n\r\n")).rejects.toThrow(
+      "Unexpected HTTP status 600"
+    );
+  });
+});
+
+describe("parseSitemap", () => {
+  it("separates page URLs from child sitemaps and decodes entities", () => {
+    const xml = `<?xml version="1.0"?>
+      <sitemapindex><sitemap><loc>https://example.com/sitemap-docs.xml</loc></sitemap></sitemapindex>
+      <urlset>
+        <url><loc>https://example.com/a?x=1&amp;y=2</loc><lastmod>2025-01-01</lastmod></url>
+        <url><loc><![CDATA[https://example.com/b]]></loc></url>
+      </urlset>`;
+
+    expect(parseSitemap(xml)).toEqual({
+      urls: ["https://example.com/a?x=1&y=2", "https://example.com/b"],
+      sitemaps: ["https://example.com/sitemap-docs.xml"],
+    });
+  });
+});
+
+describe("parseRobotsTxt", () => {
+  const robots = `
+    User-agent: *
+    Disallow: /private
+    Allow: /private/help
+    Disallow: /*.pdf$
+    Crawl-delay: 2
+
+    User-agent: OtherBot
+    Disallow: /
+
+    Sitemap: https://example.com/sitemap.xml
+  `;
+
+  it("applies the longest matching rule from the * group", () => {
+    const rules = parseRobotsTxt(robots, "ZaptaBot/1.0");
+
+    expect(rules.isAllowed("/docs")).toBe(true);
+    expect(rules.isAllowed("/private/keys")).toBe(false);
+    expect(rules.isAllowed("/private/help/faq")).toBe(true);
+    expect(rules.isAllowed("/files/guide.pdf")).toBe(false);
+    expect(rules.isAllowed("/files/guide.pdf?download=1")).toBe(true);
+    expect(rules.crawlDelay).toBe(2);
+    expect(rules.sitemaps).toEqual(["https://example.com/sitemap.xml"]);
+  });
+
+  it("prefers a group naming our user agent", () => {
+    const rules = parseRobotsTxt(robots, "OtherBot/2.0");
+
+    expect(rules.isAllowed("/docs")).toBe(false);
+    expect(rules.crawlDelay).toBeUndefined();
+  });
+});
+
+describe("extractHtmlContent", () => {
+  const html = `<!doctype html>
+    <html>
+      <head>
+        <title>Returns &amp; Refunds</title>
+        <link rel="canonical" href="/help/returns">
+        <meta name="robots" content="index, follow">
+      </head>
+      <body>
+        <header><a href="/">Home</a></header>
+        <nav><a href="/pricing">Pricing</a></nav>
+        <main>
+          <h1>Returns</h1>
+          <p>Items can be returned within <b>30 days</b>.</p>
+          <ul><li>Keep the receipt</li><li>Use the original box</li></ul>
+          <a href="/help/shipping#costs">Shipping</a>
+          <a href="/partner" rel="nofollow sponsored">Partner</a>
+          <script>trackPageView()</script>
+        </main>
+        <footer>© Example</footer>
+      </body>
+    </html>`;
+
+  it("keeps the main content as markdown and drops page chrome", () => {
+    const page = extractHtmlContent(html, "https://example.com/help/returns?ref=nav");
+
+    expect(page.title).toBe("Returns & Refunds");
+    expect(page.canonicalUrl).toBe("https://example.com/help/returns");
+    expect(page.text).toContain("# Returns\n\nItems can be returned within 30 days.\n\n- Keep the receipt\n- Use the original box");
+    expect(page.text).not.toMatch(/Home|Pricing|trackPageView|Example/);
+    expect(page.noindex).toBe(false);
+  });
+
+  it("collects followable links without fragments", () => {
+    const page = extractHtmlContent(html, "https://example.com/help/returns");
+
+    expect(page.links).toEqual(["https://example.com/", "https://example.com/pricing", "https://example.com/help/shipping"]);
+  });
+
+  it("reads robots meta directives", () => {
+    const page = extractHtmlContent(
+      '<html><head><meta name="robots" content="noindex, nofollow"></head><body><a href="/x">x</a></body></html>',
+      "https://example.com/"
+    );
+
+    expect(page.noindex).toBe(true);
+    expect(page.links).toEqual([]);
+  });
+});
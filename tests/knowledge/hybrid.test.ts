@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import { applyThreshold, reciprocalRankFusion, resolveRetrievalSettings } from "../../lib/knowledge/hybrid";
+import { knowledgeConfig } from "../../lib/knowledge/config";
+
+const doc = (id: string, extra: Record<string, number> = {}) => ({ id, content: id, ...extra });
+
+describe("reciprocalRankFusion", () => {
+  it("ranks chunks found by both retrievers above single-list matches", () => {
+    const vector = [doc("a", { similarity: 0.9 }), doc("b", { similarity: 0.8 })];
+    const keyword = [doc("c", { rank: 0.5 }), doc("b", { rank: 0.3 })];
+
+    const fused = reciprocalRankFusion(vector, keyword, 60);
+
+    expect(fused.map((d) => d.id)).toEqual(["b", "a", "c"]);
+    expect(fused[0]).toMatchObject({ similarity: 0.8, rank: 0.3, matchedBy: ["vector", "keyword"] });
+    expect(fused[0].score).toBeCloseTo(1 / 62 + 1 / 62);
+  });
+
+  it("breaks score ties on vector similarity", () => {
+    const fused = reciprocalRankFusion([doc("a", { similarity: 0.6 })], [doc("b", { rank: 0.9 })], 60);
+
+    expect(fused.map((d) => d.id)).toEqual(["a", "b"]);
+  });
+});
+
+describe("applyThreshold", () => {
+  it("keeps keyword matches and vector matches at or above the threshold", () => {
+    const fused = reciprocalRankFusion(
+      [doc("strong", { similarity: 0.75 }), doc("weak", { similarity: 0.65 }), doc("both", { similarity: 0.66 })],
+      [doc("both", { rank: 0.2 }), doc("keyword", { rank: 0.1 })],
+      60
+    );
+
+    expect(applyThreshold(fused, 0.7).map((d) => d.id).sort()).toEqual(["both", "keyword", "strong"]);
+  });
+});
+
+describe("resolveRetrievalSettings", () => {
+  it("falls back to the global defaults", () => {
+    expect(resolveRetrievalSettings({})).toEqual({
+      contextLimit: knowledgeConfig.rag.contextLimit,
+      threshold: knowledgeConfig.rag.contextThreshold,
+      hybrid: knowledgeConfig.retrieval.hybrid,
+      rerank: knowledgeConfig.retrieval.rerank,
+    });
+  });
+
+  it("clamps agent overrides to valid ranges", () => {
+    const settings = resolveRetrievalSettings({
+      retrieval: { contextLimit: 500, threshold: -1, hybrid: false, rerank: true },
+    });
+
+    expect(settings).toEqual({
+      contextLimit: knowledgeConfig.search.maxLimit,
+      threshold: 0,
+      hybrid: false,
+      rerank: true,
+    });
+  });
+});
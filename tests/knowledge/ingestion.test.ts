@@ -0,0 +1,208 @@
+import { afterEach, describe, it, expect, vi, beforeEach } from "vitest";
+
+const { generateEmbeddingsBatch, state, supabase, trigger } = vi.hoisted(() => {
+  const state = {
+    source: null as Record<string, any> | null,
+    chunks: [] as Array<{ id: string; content_hash: string }>,
+    deleted: [] as string[],
+  };
+
+  /** Just enough of the Supabase client for a failing ingestion attempt */
+  const query = (table: string) => {
+    const run = () => ({ data: table === "documents" ? state.chunks : state.source, error: null });
+    const builder: any = {
+      select: () => builder,
+      update: () => builder,
+      eq: () => builder,
+      delete: () => ({
+        in: async (_column: string, ids: string[]) => {
+          state.deleted.push(...ids);
+          return { error: null };
+        },
+      }),
+      maybeSingle: async () => run(),
+      then: (resolve: any, reject: any) => Promise.resolve(run()).then(resolve, reject),
+    };
+    return builder;
+  };
+
+  return {
+    generateEmbeddingsBatch: vi.fn(),
+    trigger: { tasks: { trigger: vi.fn() }, runs: { cancel: vi.fn() } },
+    state,
+    supabase: {
+      from: query,
+      storage: {
+        from: () => ({
+          download: async () => ({ data: null, error: { message: "object not found" } }),
+          remove: async () => ({ error: null }),
+        }),
+      },
+    },
+  };
+});
+
+vi.mock("@trigger.dev/sdk/v3", () => trigger);
+vi.mock("@/lib/supabase/service", () => ({ createServiceClient: () => supabase }));
+vi.mock("@/lib/embeddings/providers", () => ({ embeddingService: { generateEmbeddingsBatch } }));
+
+import {
+  embedBatchWithRetry,
+  INGESTION_STALE_AFTER_MS,
+  isIngestionActive,
+  mapWithConcurrency,
+  queueDocumentReindex,
+  runIngestion,
+} from "../../lib/knowledge/ingestion";
+
+describe("mapWithConcurrency", () => {
+  it("never runs more than the limit at once and keeps result order", async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([5, 1, 4, 2, 3, 1, 2], 3, async (delay, index) => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      inFlight--;
+      return index * 10;
+    });
+
+    expect(peak).toBe(3);
+    expect(results).toEqual([0, 10, 20, 30, 40, 50, 60]);
+  });
+
+  it("runs one at a time with a limit below 1", async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await mapWithConcurrency([1, 2, 3], 0, async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await Promise.resolve();
+      inFlight--;
+    });
+
+    expect(peak).toBe(1);
+  });
+
+  it("returns an empty list for no items", async () => {
+    expect(await mapWithConcurrency([], 5, async () => 1)).toEqual([]);
+  });
+});
+
+describe("embedBatchWithRetry", () => {
+  beforeEach(() => {
+    generateEmbeddingsBatch.mockReset();
+  });
+
+  it("retries a failed batch until it succeeds", async () => {
+    const result = [{ embedding: [0.1], provider: "OpenAI", dimensions: 1, tokens: 2, costUsd: 0, cached: false }];
+    generateEmbeddingsBatch.mockRejectedValueOnce(new Error("rate limited")).mockResolvedValueOnce(result);
+
+    await expect(embedBatchWithRetry(["chunk"], 3, 0)).resolves.toEqual(result);
+    expect(generateEmbeddingsBatch).toHaveBeenCalledTimes(2);
+  });
+
+  it("gives up after the last attempt", async () => {
+    generateEmbeddingsBatch.mockRejectedValue(new Error("provider down"));
+
+    await expect(embedBatchWithRetry(["chunk"], 3, 0)).rejects.toThrow("provider down");
+    expect(generateEmbeddingsBatch).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("runIngestion", () => {
+  beforeEach(() => {
+    state.chunks = [
+      { id: "chunk-a", content_hash: "a" },
+      { id: "chunk-b", content_hash: "b" },
+      // Stored by an earlier attempt at the new version
+      { id: "chunk-c", content_hash: "c" },
+    ];
+    state.deleted = [];
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const source = (values: Record<string, any>) => ({
+    id: "doc-1",
+    name: "faq.md",
+    staged_path: "tenant-1/doc-1/faq.md",
+    metadata: {},
+    ...values,
+  });
+
+  it("removes the new version's chunks when the last attempt fails", async () => {
+    state.source = source({ indexed_at: "2025-01-01T00:00:00Z", chunk_hashes: ["a", "b"] });
+
+    await expect(runIngestion("doc-1", "ingest", { finalAttempt: true })).resolves.toMatchObject({ status: "failed" });
+    expect(state.deleted).toEqual(["chunk-c"]);
+  });
+
+  it("removes every chunk of a document that was never indexed", async () => {
+    state.source = source({ indexed_at: null, chunk_hashes: null });
+
+    await runIngestion("doc-1", "ingest", { finalAttempt: true });
+    expect(state.deleted).toEqual(["chunk-a", "chunk-b", "chunk-c"]);
+  });
+
+  it("keeps chunks for the next attempt to reuse", async () => {
+    state.source = source({ indexed_at: "2025-01-01T00:00:00Z", chunk_hashes: ["a", "b"] });
+
+    await expect(runIngestion("doc-1", "ingest", { finalAttempt: false })).rejects.toThrow("Could not read the uploaded file");
+    expect(state.deleted).toEqual([]);
+  });
+});
+
+describe("isIngestionActive", () => {
+  const now = Date.parse("2025-03-01T12:00:00Z");
+  const ago = (ms: number) => new Date(now - ms).toISOString();
+
+  it("counts recent progress as active and a long silence as stalled", () => {
+    expect(isIngestionActive({ status: "embedding", updated_at: ago(60_000) }, now)).toBe(true);
+    expect(isIngestionActive({ status: "embedding", updated_at: ago(INGESTION_STALE_AFTER_MS + 1) }, now)).toBe(false);
+    expect(isIngestionActive({ status: "indexed", updated_at: ago(0) }, now)).toBe(false);
+  });
+});
+
+describe("queueDocumentReindex", () => {
+  beforeEach(() => {
+    trigger.tasks.trigger.mockReset().mockResolvedValue({ id: "run-2" });
+    trigger.runs.cancel.mockReset().mockResolvedValue(undefined);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("refuses a document that is still being processed", async () => {
+    state.source = { id: "doc-1", name: "faq.md", status: "embedding", chunk_count: 3, updated_at: new Date().toISOString() };
+
+    await expect(queueDocumentReindex("tenant-1", "doc-1")).resolves.toEqual({
+      success: false,
+      error: "Document is already being processed",
+    });
+    expect(trigger.tasks.trigger).not.toHaveBeenCalled();
+  });
+
+  it("takes over a document whose run died, cancelling that run", async () => {
+    state.source = {
+      id: "doc-1",
+      name: "faq.md",
+      status: "embedding",
+      chunk_count: 3,
+      ingestion_run_id: "run-1",
+      updated_at: new Date(Date.now() - INGESTION_STALE_AFTER_MS - 1000).toISOString(),
+    };
+
+    await expect(queueDocumentReindex("tenant-1", "doc-1")).resolves.toEqual({ success: true, name: "faq.md" });
+    expect(trigger.runs.cancel).toHaveBeenCalledWith("run-1");
+    expect(trigger.tasks.trigger).toHaveBeenCalledWith("knowledge-ingestion", { sourceDocumentId: "doc-1", mode: "reindex" });
+  });
+});
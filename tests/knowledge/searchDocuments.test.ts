@@ -1,7 +1,13 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { afterEach, describe, it, expect, vi, beforeEach } from "vitest";
+
+// Embed queries with the offline local provider instead of mocking embeddings
+const { rpc } = vi.hoisted(() => {
+  process.env.EMBEDDING_PROVIDER = "local";
+  return { rpc: vi.fn() };
+});
 
 vi.mock("@/lib/supabase/server", () => {
-  const rpc = vi.fn().mockResolvedValue({
+  rpc.mockResolvedValue({
     data: [
       { id: "doc1", content: "alpha", similarity: 0.82, metadata: { originalFileName: "alpha.txt" } },
       { id: "doc2", content: "beta", similarity: 0.74, metadata: { originalFileName: "beta.txt" } },
@@ -13,14 +19,6 @@ vi.mock("@/lib/supabase/server", () => {
   };
 });
 
-vi.mock("@/lib/embeddings/providers", () => {
-  return {
-    embeddingService: {
-      generateEmbeddings: vi.fn().mockResolvedValue({ embedding: [0.1, 0.2], provider: "mock", dimensions: 2 }),
-    },
-  };
-});
-
 vi.mock("@/lib/knowledge/analytics", () => {
   return {
     trackSearchQuery: vi.fn().mockResolvedValue(undefined),
@@ -30,12 +28,17 @@ vi.mock("@/lib/knowledge/analytics", () => {
 });
 
 import { searchDocuments } from "../../lib/knowledge/actions";
+import { trackSearchQuery } from "../../lib/knowledge/analytics";
 
 describe("searchDocuments", () => {
   beforeEach(() => {
     vi.clearAllMocks();
   });
 
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
   it("returns documents and respects threshold and limit", async () => {
     const tenantId = "tenant-1";
     const agentId = "agent-1";
@@ -46,4 +49,26 @@ describe("searchDocuments", () => {
     expect(result.success).toBe(true);
     expect(result.documents.length).toBe(2);
   });
-});
\ No newline at end of file
+
+  it("only matches chunks embedded by the query's provider", async () => {
+    await searchDocuments("tenant-1", "refund policy", undefined, 3, 0.5, undefined, { trackAnalytics: false });
+
+    expect(rpc).toHaveBeenCalledWith(
+      "match_documents",
+      expect.objectContaining({ filter_embedding_model: "local", query_embedding: expect.any(Array) })
+    );
+    expect(rpc.mock.calls[0][1].query_embedding).toHaveLength(512);
+  });
+
+  it("records no analytics for a failed search when tracking is off", async () => {
+    rpc.mockRejectedValueOnce(new Error("database unavailable"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const result = await searchDocuments("tenant-1", "refund policy", "agent-1", 3, 0.5, undefined, {
+      trackAnalytics: false,
+    });
+
+    expect(result.success).toBe(false);
+    expect(trackSearchQuery).not.toHaveBeenCalled();
+  });
+});
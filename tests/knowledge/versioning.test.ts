@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import { hashContent, planChunkUpdate } from "../../lib/knowledge/versioning";
+
+describe("hashContent", () => {
+  it("returns the hex SHA-256 of the UTF-8 text", () => {
+    expect(hashContent("abc")).toBe("ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+    expect(hashContent("café")).not.toBe(hashContent("cafe"));
+  });
+});
+
+describe("planChunkUpdate", () => {
+  const stored = [
+    { id: "row-a", content_hash: "a", embedding_model: "openai" },
+    { id: "row-b", content_hash: "b", embedding_model: "openai" },
+    { id: "row-c", content_hash: "c", embedding_model: "openai" },
+  ];
+
+  it("keeps unchanged chunks, embeds new ones and removes the rest", () => {
+    const plan = planChunkUpdate(stored, ["b", "x", "a"], "openai");
+
+    expect(plan).toEqual({
+      keep: [
+        { id: "row-b", index: 0 },
+        { id: "row-a", index: 2 },
+      ],
+      embed: [1],
+      remove: ["row-c"],
+    });
+  });
+
+  it("re-embeds everything after the embedding provider changes", () => {
+    const plan = planChunkUpdate(stored, ["a", "b", "c"], "cohere");
+
+    expect(plan.keep).toEqual([]);
+    expect(plan.embed).toEqual([0, 1, 2]);
+    expect(plan.remove.sort()).toEqual(["row-a", "row-b", "row-c"]);
+  });
+
+  it("reuses each stored row once when chunks repeat", () => {
+    const plan = planChunkUpdate([{ id: "row-a", content_hash: "a", embedding_model: "openai" }], ["a", "a"], "openai");
+
+    expect(plan).toEqual({ keep: [{ id: "row-a", index: 0 }], embed: [1], remove: [] });
+  });
+
+  it("treats chunks without a hash as changed", () => {
+    const plan = planChunkUpdate([{ id: "legacy", content_hash: null, embedding_model: "openai" }], ["a"], "openai");
+
+    expect(plan).toEqual({ keep: [], embed: [0], remove: ["legacy"] });
+  });
+});
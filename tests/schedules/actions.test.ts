@@ -0,0 +1,87 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+const { state, supabase, schedules } = vi.hoisted(() => {
+  const state = { role: "member", writes: [] as string[] };
+
+  /** Just enough of the Supabase query builder to reach the schedule writes */
+  const query = (table: string) => {
+    const run = () => {
+      if (table === "profiles") return { data: { tenant_id: "tenant-1", role: state.role }, error: null };
+      if (table === "agent_schedules") {
+        return { data: { id: "schedule-1", name: "Digest", enabled: true, trigger_schedule_id: null }, error: null };
+      }
+      return { data: null, error: null };
+    };
+
+    const write = (operation: string) => () => {
+      state.writes.push(`${operation} ${table}`);
+      return builder;
+    };
+
+    const builder: any = {
+      select: () => builder,
+      insert: write("insert"),
+      update: write("update"),
+      delete: write("delete"),
+      eq: () => builder,
+      single: async () => run(),
+      then: (resolve: any, reject: any) => Promise.resolve(run()).then(resolve, reject),
+    };
+    return builder;
+  };
+
+  return {
+    state,
+    supabase: {
+      auth: { getUser: async () => ({ data: { user: { id: "user-1", email: "member@example.com" } } }) },
+      from: query,
+    },
+    schedules: { create: vi.fn(), update: vi.fn(), activate: vi.fn(), deactivate: vi.fn(), del: vi.fn() },
+  };
+});
+
+vi.mock("@/lib/supabase/server", () => ({ createServerClient: async () => supabase }));
+vi.mock("@trigger.dev/sdk/v3", () => ({ schedules }));
+vi.mock("@/lib/audit/log", () => ({ recordAuditEvent: vi.fn() }));
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+vi.mock("../../lib/schedules/runner", () => ({
+  getTriggerJobUsage: async () => ({ current: 0, planId: "pro" }),
+}));
+
+import { createSchedule, deleteSchedule, setScheduleEnabled, updateSchedule } from "../../lib/schedules/actions";
+
+const scheduleData = {
+  agentId: "agent-1",
+  name: "Digest",
+  cron: "0 9 * * 1",
+  timezone: "UTC",
+  prompt: "Summarize last week",
+  destination: { type: "email" as const, integrationId: "integration-1", to: "team@example.com" },
+};
+
+describe("schedule actions", () => {
+  beforeEach(() => {
+    state.writes = [];
+    Object.values(schedules).forEach((mock) => mock.mockReset());
+  });
+
+  it("refuses members before touching schedules", async () => {
+    state.role = "member";
+    const error = "Only organization owners and admins can manage agents";
+
+    await expect(createSchedule(scheduleData)).resolves.toEqual({ error });
+    await expect(updateSchedule("schedule-1", { prompt: "Summarize today" })).resolves.toEqual({ error });
+    await expect(setScheduleEnabled("schedule-1", false)).resolves.toEqual({ error });
+    await expect(deleteSchedule("schedule-1")).resolves.toEqual({ error });
+
+    expect(state.writes).toEqual([]);
+    expect(Object.values(schedules).every((mock) => mock.mock.calls.length === 0)).toBe(true);
+  });
+
+  it("lets admins delete schedules", async () => {
+    state.role = "admin";
+
+    await expect(deleteSchedule("schedule-1")).resolves.toEqual({ success: true });
+    expect(state.writes).toEqual(["delete agent_schedules"]);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { isValidCron, isValidTimezone, validateDestination } from "../../lib/schedules/cron";
+
+describe("isValidCron", () => {
+  it("accepts common schedules", () => {
+    expect(isValidCron("0 9 * * 1")).toBe(true);
+    expect(isValidCron("*/15 8-18 * * 1-5")).toBe(true);
+    expect(isValidCron("0 9 1,15 * *")).toBe(true);
+    expect(isValidCron("0 9 L * *")).toBe(true);
+    expect(isValidCron("0 9 * * 5L")).toBe(true);
+  });
+
+  it("rejects malformed or out-of-range fields", () => {
+    expect(isValidCron("0 9 * *")).toBe(false);
+    expect(isValidCron("60 9 * * *")).toBe(false);
+    expect(isValidCron("0 24 * * *")).toBe(false);
+    expect(isValidCron("0 9 * 13 *")).toBe(false);
+    expect(isValidCron("0 9 * * MON")).toBe(false);
+    expect(isValidCron("0 18-9 * * *")).toBe(false);
+  });
+});
+
+describe("isValidTimezone", () => {
+  it("accepts IANA names and rejects unknown ones", () => {
+    expect(isValidTimezone("Europe/Berlin")).toBe(true);
+    expect(isValidTimezone("UTC")).toBe(true);
+    expect(isValidTimezone("Mars/Olympus")).toBe(false);
+  });
+});
+
+describe("validateDestination", () => {
+  it("requires the fields for each destination type", () => {
+    expect(validateDestination({ type: "email", integrationId: "i1", to: "ops@example.com" })).toBeNull();
+    expect(validateDestination({ type: "email", integrationId: "i1" })).toMatch(/email address/);
+    expect(validateDestination({ type: "slack", integrationId: "i1" })).toMatch(/channel/);
+    expect(validateDestination({ type: "webhook", integrationId: "" })).toMatch(/integration/);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { canAssignRole, canRemoveMember, hasPermission } from "../../lib/team/permissions";
+
+const owner = { id: "owner", role: "owner" };
+const admin = { id: "admin", role: "admin" };
+const otherAdmin = { id: "admin-2", role: "admin" };
+const member = { id: "member", role: "member" };
+
+describe("hasPermission", () => {
+  it("keeps billing and account deletion owner-only", () => {
+    expect(hasPermission("owner", "billing:manage")).toBe(true);
+    expect(hasPermission("admin", "billing:manage")).toBe(false);
+    expect(hasPermission("admin", "account:delete")).toBe(false);
+  });
+
+  it("lets admins manage agents, integrations and settings but not members", () => {
+    expect(hasPermission("admin", "agents:manage")).toBe(true);
+    expect(hasPermission("admin", "integrations:manage")).toBe(true);
+    expect(hasPermission("member", "agents:manage")).toBe(false);
+    expect(hasPermission("member", "settings:manage")).toBe(false);
+  });
+
+  it("grants nothing to unknown roles", () => {
+    expect(hasPermission(undefined, "agents:manage")).toBe(false);
+    expect(hasPermission("superuser", "agents:manage")).toBe(false);
+  });
+});
+
+describe("canAssignRole", () => {
+  it("only lets the owner hand over ownership", () => {
+    expect(canAssignRole(owner, admin, "owner")).toBe(true);
+    expect(canAssignRole(admin, member, "owner")).toBe(false);
+  });
+
+  it("never changes the owner or the actor's own role", () => {
+    expect(canAssignRole(admin, owner, "member")).toBe(false);
+    expect(canAssignRole(admin, admin, "member")).toBe(false);
+    expect(canAssignRole(member, otherAdmin, "member")).toBe(false);
+  });
+});
+
+describe("canRemoveMember", () => {
+  it("lets admins remove members but not other admins or the owner", () => {
+    expect(canRemoveMember(admin, member)).toBe(true);
+    expect(canRemoveMember(admin, otherAdmin)).toBe(false);
+    expect(canRemoveMember(admin, owner)).toBe(false);
+    expect(canRemoveMember(owner, otherAdmin)).toBe(true);
+  });
+});
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+
+const { db, supabase, trigger, integration } = vi.hoisted(() => {
+  const db: Record<string, Record<string, any>[]> = {};
+
+  /** Just enough of the Supabase query builder for webhook deliveries */
+  const from = (table: string) => {
+    const filters: Record<string, any> = {};
+    let patch: Record<string, any> | null = null;
+    let inserted: Record<string, any> | null = null;
+
+    const run = () => {
+      const rows = (db[table] ||= []);
+      if (inserted) {
+        const row = { id: `${table}-${rows.length + 1}`, attempts: 0, ...inserted };
+        rows.push(row);
+        return [row];
+      }
+      const matches = rows.filter((row) =>
+        Object.entries(filters).every(([column, value]) => row[column] === value)
+      );
+      if (patch) matches.forEach((row) => Object.assign(row, patch));
+      return matches;
+    };
+
+    const builder: any = {
+      select: () => builder,
+      insert: (data: Record<string, any>) => {
+        inserted = data;
+        return builder;
+      },
+      update: (data: Record<string, any>) => {
+        patch = data;
+        return builder;
+      },
+      eq: (column: string, value: any) => {
+        filters[column] = value;
+        return builder;
+      },
+      single: async () => {
+        const [row] = run();
+        return { data: row ? { ...row } : null, error: row ? null : { message: "not found" } };
+      },
+      then: (resolve: any, reject: any) => Promise.resolve({ data: run(), error: null }).then(resolve, reject),
+    };
+    return builder;
+  };
+
+  return {
+    db,
+    supabase: {
+      auth: { getUser: async () => ({ data: { user: { id: "user-1", email: "owner@example.com" } } }) },
+      from,
+    },
+    trigger: vi.fn(),
+    integration: { executeAction: vi.fn() },
+  };
+});
+
+vi.mock("@/lib/supabase/service", () => ({ createServiceClient: () => supabase }));
+vi.mock("@/lib/supabase/server", () => ({ createServerClient: async () => supabase }));
+vi.mock("@/lib/integrations/registry", () => ({ createIntegrationInstance: () => integration }));
+vi.mock("@trigger.dev/sdk/v3", () => ({ tasks: { trigger } }));
+vi.mock("@/lib/audit/log", () => ({ recordAuditEvent: vi.fn() }));
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+
+import { attemptWebhookDelivery, enqueueWebhookDelivery } from "../../lib/webhooks/delivery";
+import { replayWebhookDelivery } from "../../lib/webhooks/actions";
+
+const payload = {
+  event_type: "agent.completed",
+  timestamp: "2025-01-01T00:00:00Z",
+  tenant_id: "tenant-1",
+  integration_id: "integration-1",
+  data: { ok: true },
+};
+const request = { url: "https://hooks.example.com/in", headers: { "X-Webhook-Id": "abc" } };
+
+function delivery(overrides: Record<string, any> = {}) {
+  const row: Record<string, any> = {
+    id: "delivery-1",
+    tenant_id: "tenant-1",
+    integration_id: "integration-1",
+    agent_id: "agent-1",
+    event_type: payload.event_type,
+    payload,
+    status: "pending",
+    attempts: 0,
+    replayed_from: null,
+    ...overrides,
+  };
+  db.webhook_deliveries.push(row);
+  return row;
+}
+
+beforeEach(() => {
+  db.webhook_deliveries = [];
+  db.integrations = [{ id: "integration-1", provider: "webhook" }];
+  db.profiles = [{ id: "user-1", tenant_id: "tenant-1" }];
+  trigger.mockReset().mockResolvedValue({ id: "run-1" });
+  integration.executeAction.mockReset();
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("attemptWebhookDelivery", () => {
+  it("records the request and response of a successful attempt", async () => {
+    const row = delivery();
+    integration.executeAction.mockResolvedValue({ ok: true, request, response: { status: 200, body: "ok" } });
+
+    const result = await attemptWebhookDelivery(row.id);
+
+    expect(result.status).toBe("delivered");
+    expect(integration.executeAction).toHaveBeenCalledWith("deliver", { payload, deliveryId: "delivery-1" });
+    expect(row).toMatchObject({
+      status: "delivered",
+      attempts: 1,
+      request_url: request.url,
+      request_headers: request.headers,
+      response_status: 200,
+      response_body: "ok",
+      last_error: null,
+    });
+    expect(row).toHaveProperty("delivered_at");
+  });
+
+  it("retries failed attempts and dead-letters the last one", async () => {
+    const row = delivery({ attempts: 1 });
+    integration.executeAction.mockResolvedValue({
+      ok: false,
+      request,
+      response: { status: 500, body: "x".repeat(5000) },
+      error: "HTTP 500",
+    });
+
+    await expect(attemptWebhookDelivery(row.id, 3)).resolves.toMatchObject({ status: "retrying" });
+    expect(row).toMatchObject({ status: "retrying", attempts: 2, response_status: 500, last_error: "HTTP 500" });
+    expect(row.response_body).toHaveLength(4000);
+
+    await expect(attemptWebhookDelivery(row.id, 3)).resolves.toMatchObject({ status: "dead_lettered" });
+    expect(row).toMatchObject({ status: "dead_lettered", attempts: 3 });
+    expect(row).toHaveProperty("dead_lettered_at");
+  });
+
+  it("doesn't resend a delivery that already finished", async () => {
+    const row = delivery({ status: "delivered", attempts: 1 });
+
+    await expect(attemptWebhookDelivery(row.id)).resolves.toMatchObject({ ok: true, status: "delivered" });
+    expect(integration.executeAction).not.toHaveBeenCalled();
+  });
+});
+
+describe("enqueueWebhookDelivery", () => {
+  it("persists the delivery and queues it for the delivery task", async () => {
+    const id = await enqueueWebhookDelivery({ tenantId: "tenant-1", integrationId: "integration-1", payload });
+
+    expect(db.webhook_deliveries[0]).toMatchObject({ id, status: "pending", event_type: "agent.completed" });
+    expect(trigger).toHaveBeenCalledWith(
+      "webhook-delivery",
+      { deliveryId: id },
+      { idempotencyKey: `webhook-delivery-${id}` }
+    );
+    expect(integration.executeAction).not.toHaveBeenCalled();
+  });
+
+  it("attempts once inline and dead-letters when the task can't be queued", async () => {
+    trigger.mockRejectedValue(new Error("Trigger.dev unavailable"));
+    integration.executeAction.mockResolvedValue({ ok: false, request, error: "Connection refused" });
+
+    const id = await enqueueWebhookDelivery({ tenantId: "tenant-1", integrationId: "integration-1", payload });
+
+    expect(db.webhook_deliveries[0]).toMatchObject({ id, status: "dead_lettered", attempts: 1 });
+  });
+});
+
+describe("replayWebhookDelivery", () => {
+  it("queues a new delivery that keeps the original delivery ID", async () => {
+    const original = delivery({ status: "dead_lettered", attempts: 8 });
+
+    const result = await replayWebhookDelivery(original.id);
+
+    expect(result).toMatchObject({ success: true });
+    const replay = db.webhook_deliveries.find((row) => row.id === result.deliveryId)!;
+    expect(replay).toMatchObject({ status: "pending", payload, replayed_from: "delivery-1" });
+    expect(original.status).toBe("dead_lettered");
+
+    integration.executeAction.mockResolvedValue({ ok: true, request, response: { status: 200, body: "" } });
+    await attemptWebhookDelivery(replay.id);
+
+    // Receivers dedupe on the original ID
+    expect(integration.executeAction).toHaveBeenCalledWith("deliver", { payload, deliveryId: "delivery-1" });
+  });
+
+  it("replays a replay from the original delivery", async () => {
+    delivery({ id: "delivery-2", replayed_from: "delivery-1" });
+
+    const result = await replayWebhookDelivery("delivery-2");
+
+    expect(db.webhook_deliveries.find((row) => row.id === result.deliveryId)).toMatchObject({
+      replayed_from: "delivery-1",
+    });
+  });
+
+  it("refuses deliveries from another tenant", async () => {
+    delivery({ tenant_id: "tenant-2" });
+
+    await expect(replayWebhookDelivery("delivery-1")).resolves.toEqual({ error: "Delivery not found" });
+    expect(trigger).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildWebhookSignatureHeader,
+  verifyWebhookSignature,
+} from "../../lib/webhooks/signature";
+
+const body = JSON.stringify({ event_type: "agent.completed", data: { ok: true } });
+const deliveryId = "7f1c2a4e-delivery";
+const timestamp = 1_700_000_000;
+
+function signedHeaders(secrets: string[], ts = timestamp) {
+  return {
+    "X-Webhook-Id": deliveryId,
+    "X-Webhook-Timestamp": String(ts),
+    "X-Webhook-Signature-V1": buildWebhookSignatureHeader(secrets, deliveryId, ts, body),
+  };
+}
+
+describe("verifyWebhookSignature", () => {
+  it("accepts a valid signature and returns the delivery ID", () => {
+    const result = verifyWebhookSignature({
+      body,
+      headers: signedHeaders(["secret"]),
+      secret: "secret",
+      now: timestamp + 10,
+    });
+    expect(result).toEqual({ valid: true, deliveryId, timestamp });
+  });
+
+  it("reads headers case-insensitively from Fetch Headers", () => {
+    const result = verifyWebhookSignature({
+      body,
+      headers: new Headers(signedHeaders(["secret"])),
+      secret: "secret",
+      now: timestamp,
+    });
+    expect(result.valid).toBe(true);
+  });
+
+  it("rejects a tampered body", () => {
+    const result = verifyWebhookSignature({
+      body: body.replace("true", "false"),
+      headers: signedHeaders(["secret"]),
+      secret: "secret",
+      now: timestamp,
+    });
+    expect(result).toEqual({ valid: false, reason: "Signature mismatch" });
+  });
+
+  it("rejects timestamps outside the tolerance", () => {
+    const result = verifyWebhookSignature({
+      body,
+      headers: signedHeaders(["secret"]),
+      secret: "secret",
+      now: timestamp + 301,
+    });
+    expect(result).toEqual({ valid: false, reason: "Timestamp outside tolerance" });
+  });
+
+  it("accepts either secret while both are signing during rotation", () => {
+    const headers = signedHeaders(["new-secret", "old-secret"]);
+    expect(verifyWebhookSignature({ body, headers, secret: "old-secret", now: timestamp }).valid).toBe(true);
+    expect(verifyWebhookSignature({ body, headers, secret: "new-secret", now: timestamp }).valid).toBe(true);
+    expect(verifyWebhookSignature({ body, headers, secret: "other", now: timestamp }).valid).toBe(false);
+  });
+
+  it("rejects requests without signature headers", () => {
+    const result = verifyWebhookSignature({ body, headers: {}, secret: "secret" });
+    expect(result).toEqual({ valid: false, reason: "Missing signature headers" });
+  });
+});
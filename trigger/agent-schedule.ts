@@ -0,0 +1,36 @@
+/**
+ * Agent Schedule Job
+ * Runs user-defined agent schedules (cron + timezone) and sends the result to their destination
+ * Each schedule is registered as an imperative Trigger.dev schedule with externalId = agent_schedules.id
+ */
+
+import { schedules } from "@trigger.dev/sdk/v3";
+import { runAgentSchedule } from "@/lib/schedules/runner";
+
+export const agentScheduleTask = schedules.task({
+  id: "agent-schedule",
+  // Agent runs send emails and messages, so a failed run is recorded rather than retried
+  retry: {
+    maxAttempts: 1,
+  },
+  run: async (payload, { ctx }) => {
+    if (!payload.externalId) {
+      console.error(`Schedule ${payload.scheduleId} has no agent schedule ID`);
+      return { status: "skipped" };
+    }
+
+    console.log(
+      `Running agent schedule ${payload.externalId} for ${payload.timestamp.toLocaleString("en-US", { timeZone: payload.timezone })} (${payload.timezone})`
+    );
+
+    const result = await runAgentSchedule(payload.externalId, {
+      scheduledFor: payload.timestamp,
+      triggerRunId: ctx.run.id,
+    });
+
+    return {
+      scheduleId: payload.externalId,
+      ...result,
+    };
+  },
+});
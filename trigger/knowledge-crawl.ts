@@ -0,0 +1,48 @@
+/**
+ * Knowledge Crawl Jobs
+ * Crawls a website or sitemap knowledge source and queues ingestion of its new and
+ * changed pages; an hourly schedule queues the sources that are due for a re-crawl
+ */
+
+import { schedules, task } from "@trigger.dev/sdk/v3";
+import { crawlKnowledgeSource, queueDueRecrawls } from "@/lib/knowledge/sources";
+
+interface KnowledgeCrawlPayload {
+  knowledgeSourceId: string;
+}
+
+export const knowledgeCrawlTask = task({
+  id: "knowledge-crawl",
+  // Up to 500 pages at a polite request rate
+  maxDuration: 3600,
+  queue: {
+    // Pages are embedded by knowledge-ingestion; this only limits how many sites are fetched at once
+    concurrencyLimit: 3,
+  },
+  // A failed crawl is recorded on the source and tried again at its next scheduled re-crawl
+  retry: {
+    maxAttempts: 1,
+  },
+  run: async (payload: KnowledgeCrawlPayload) => {
+    console.log(`Crawling knowledge source ${payload.knowledgeSourceId}`);
+
+    const result = await crawlKnowledgeSource(payload.knowledgeSourceId);
+
+    return {
+      knowledgeSourceId: payload.knowledgeSourceId,
+      ...result,
+    };
+  },
+});
+
+export const knowledgeRecrawlTask = schedules.task({
+  id: "knowledge-recrawl",
+  cron: "0 * * * *",
+  run: async () => {
+    const result = await queueDueRecrawls();
+
+    console.log(`Knowledge re-crawl: ${result.queued} sources queued`);
+
+    return result;
+  },
+});
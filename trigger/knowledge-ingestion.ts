@@ -0,0 +1,44 @@
+/**
+ * Knowledge Ingestion Job
+ * Extracts, chunks and embeds an uploaded knowledge document, or re-embeds one after
+ * the embedding provider changed; progress is written to source_documents as it goes
+ */
+
+import { task } from "@trigger.dev/sdk/v3";
+import { INGESTION_MAX_ATTEMPTS, runIngestion, type IngestionMode } from "@/lib/knowledge/ingestion";
+
+interface KnowledgeIngestionPayload {
+  sourceDocumentId: string;
+  mode: IngestionMode;
+}
+
+export const knowledgeIngestionTask = task({
+  id: "knowledge-ingestion",
+  // Large PDFs take a while to embed; chunks stored by a failed attempt are reused by the next
+  maxDuration: 1800,
+  queue: {
+    // Keeps simultaneous uploads from tripping embedding provider rate limits
+    concurrencyLimit: 5,
+  },
+  retry: {
+    maxAttempts: INGESTION_MAX_ATTEMPTS,
+    minTimeoutInMs: 10_000,
+    maxTimeoutInMs: 120_000,
+    factor: 3,
+    randomize: true,
+  },
+  run: async (payload: KnowledgeIngestionPayload, { ctx }) => {
+    console.log(
+      `Ingesting ${payload.sourceDocumentId} (${payload.mode}, attempt ${ctx.attempt.number}/${INGESTION_MAX_ATTEMPTS})`
+    );
+
+    const result = await runIngestion(payload.sourceDocumentId, payload.mode, {
+      finalAttempt: ctx.attempt.number >= INGESTION_MAX_ATTEMPTS,
+    });
+
+    return {
+      sourceDocumentId: payload.sourceDocumentId,
+      ...result,
+    };
+  },
+});
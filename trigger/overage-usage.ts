@@ -0,0 +1,22 @@
+/**
+ * Overage Usage Job
+ * Reports metered overage from the usage ledger to Stripe near the end of each billing period
+ */
+
+import { schedules } from "@trigger.dev/sdk/v3";
+import { reportOverageUsage } from "@/lib/billing/overage";
+
+export const overageUsageTask = schedules.task({
+  id: "report-overage-usage",
+  // Hourly, so periods ending at any time of day are reported before the invoice is finalized
+  cron: "0 * * * *",
+  run: async (payload) => {
+    const result = await reportOverageUsage(payload.timestamp);
+
+    console.log(
+      `Overage report: ${result.reported} reported, ${result.skipped} skipped, ${result.failed} failed`
+    );
+
+    return result;
+  },
+});
@@ -0,0 +1,44 @@
+/**
+ * Webhook Delivery Job
+ * Delivers a queued webhook and retries over a long backoff schedule
+ * (roughly 30s, 2m, 8m, 30m, 2h, 6h, 6h) before the delivery is dead-lettered
+ */
+
+import { task } from "@trigger.dev/sdk/v3";
+import {
+  attemptWebhookDelivery,
+  WEBHOOK_MAX_ATTEMPTS,
+} from "@/lib/webhooks/delivery";
+
+interface WebhookDeliveryPayload {
+  deliveryId: string;
+}
+
+export const webhookDeliveryTask = task({
+  id: "webhook-delivery",
+  retry: {
+    maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+    factor: 4,
+    minTimeoutInMs: 30_000,
+    maxTimeoutInMs: 6 * 60 * 60 * 1000,
+    randomize: true,
+  },
+  run: async (payload: WebhookDeliveryPayload, { ctx }) => {
+    console.log(
+      `Delivering webhook ${payload.deliveryId} (attempt ${ctx.attempt.number}/${WEBHOOK_MAX_ATTEMPTS})`
+    );
+
+    const result = await attemptWebhookDelivery(payload.deliveryId);
+
+    if (result.status === "retrying") {
+      // Throw so Trigger.dev schedules the next attempt
+      throw new Error(result.error || "Webhook delivery failed");
+    }
+
+    return {
+      deliveryId: payload.deliveryId,
+      status: result.status,
+      responseStatus: result.response?.status,
+    };
+  },
+});
@@ -120,6 +120,8 @@ export interface Database {
           embedding: number[] | null;
           embedding_model: string | null;
           embedding_dimensions: number | null;
+          source_document_id: string | null;
+          content_hash: string | null;
           metadata: Json;
           created_at: string;
           updated_at: string;
@@ -127,6 +129,60 @@ export interface Database {
         Insert: Omit<Database['public']['Tables']['documents']['Row'], 'id' | 'created_at' | 'updated_at'>;
         Update: Partial<Database['public']['Tables']['documents']['Insert']>;
       };
+      source_documents: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          agent_id: string | null;
+          name: string;
+          content_hash: string | null;
+          version: number;
+          status: 'queued' | 'extracting' | 'chunking' | 'embedding' | 'indexed' | 'failed';
+          error: string | null;
+          chunk_count: number;
+          chunks_embedded: number;
+          size_bytes: number;
+          embedding_model: string | null;
+          metadata: Json;
+          created_by: string | null;
+          indexed_at: string | null;
+          staged_path: string | null;
+          file_type: string | null;
+          ingestion_run_id: string | null;
+          chunk_hashes: string[] | null;
+          embedding_tokens: number;
+          embedding_cost_usd: number;
+          knowledge_source_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['source_documents']['Row'], 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Database['public']['Tables']['source_documents']['Insert']>;
+      };
+      knowledge_sources: {
+        Row: {
+          id: string;
+          tenant_id: string;
+          agent_id: string | null;
+          type: 'website' | 'sitemap';
+          url: string;
+          max_depth: number;
+          max_pages: number;
+          recrawl_interval_hours: number | null;
+          status: 'queued' | 'crawling' | 'ready' | 'failed';
+          error: string | null;
+          page_count: number;
+          last_crawl_stats: Json;
+          last_crawled_at: string | null;
+          next_crawl_at: string | null;
+          crawl_run_id: string | null;
+          created_by: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: Omit<Database['public']['Tables']['knowledge_sources']['Row'], 'id' | 'created_at' | 'updated_at'>;
+        Update: Partial<Database['public']['Tables']['knowledge_sources']['Insert']>;
+      };
     };
   };
 }